@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "InboundEventStatus" AS ENUM ('PROCESSED', 'DEAD_LETTERED');
+
+-- CreateTable
+CREATE TABLE "inbound_events" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "InboundEventStatus" NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "inbound_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_events_messageId_key" ON "inbound_events"("messageId");
+
+-- CreateIndex
+CREATE INDEX "inbound_events_status_createdAt_idx" ON "inbound_events"("status", "createdAt");
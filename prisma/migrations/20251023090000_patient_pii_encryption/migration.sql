@@ -0,0 +1,24 @@
+-- Encrypted columns cannot be indexed or kept unique; lookups and uniqueness move to the blind indexes.
+-- Existing rows are encrypted and indexed by `npm run pii-keys -- rotate`.
+
+-- DropIndex
+DROP INDEX "patients_cpf_key";
+
+-- DropIndex
+DROP INDEX "patients_medicalRecordNumber_key";
+
+-- DropIndex
+DROP INDEX "patients_cpf_idx";
+
+-- DropIndex
+DROP INDEX "patients_medicalRecordNumber_idx";
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "cpfHash" TEXT,
+ADD COLUMN "medicalRecordNumberHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patients_cpfHash_key" ON "patients"("cpfHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patients_medicalRecordNumberHash_key" ON "patients"("medicalRecordNumberHash");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DataSubjectRequestType" AS ENUM ('ACCESS', 'ERASURE');
+
+-- CreateEnum
+CREATE TYPE "DataSubjectRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "anonymizedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "data_subject_requests" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "type" "DataSubjectRequestType" NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "requestedByName" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" "DataSubjectRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "completedBy" TEXT,
+    "lastError" TEXT,
+    "result" JSONB,
+
+    CONSTRAINT "data_subject_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_subject_requests_patientId_idx" ON "data_subject_requests"("patientId");
+
+-- CreateIndex
+CREATE INDEX "data_subject_requests_status_dueAt_idx" ON "data_subject_requests"("status", "dueAt");
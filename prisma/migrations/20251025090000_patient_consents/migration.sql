@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ConsentPurpose" AS ENUM ('CARE', 'INSURANCE_BILLING', 'RESEARCH', 'COMMUNICATIONS');
+
+-- CreateEnum
+CREATE TYPE "ConsentStatus" AS ENUM ('GRANTED', 'REVOKED');
+
+-- CreateEnum
+CREATE TYPE "ConsentLegalBasis" AS ENUM ('CONSENT', 'HEALTH_PROTECTION', 'CONTRACT', 'LEGAL_OBLIGATION', 'EXERCISE_OF_RIGHTS');
+
+-- AlterEnum
+ALTER TYPE "OutboxStatus" ADD VALUE 'WITHHELD';
+
+-- CreateTable
+CREATE TABLE "patient_consents" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "patientId" TEXT NOT NULL,
+    "purpose" "ConsentPurpose" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "ConsentStatus" NOT NULL,
+    "legalBasis" "ConsentLegalBasis" NOT NULL,
+    "termsVersion" TEXT,
+    "grantedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "recordedBy" TEXT NOT NULL,
+    "recordedByName" TEXT NOT NULL,
+    "notes" TEXT,
+
+    CONSTRAINT "patient_consents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patient_consents_patientId_purpose_version_key" ON "patient_consents"("patientId", "purpose", "version");
+
+-- AddForeignKey
+ALTER TABLE "patient_consents" ADD CONSTRAINT "patient_consents_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
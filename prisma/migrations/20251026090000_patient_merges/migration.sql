@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PatientMergeStatus" AS ENUM ('MERGED', 'UNDONE');
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "mergedIntoId" TEXT,
+ADD COLUMN "mergedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "patient_merges" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "mergedPatientId" TEXT NOT NULL,
+    "reason" TEXT,
+    "reassignedRecords" JSONB NOT NULL,
+    "status" "PatientMergeStatus" NOT NULL DEFAULT 'MERGED',
+    "mergedBy" TEXT NOT NULL,
+    "mergedByName" TEXT NOT NULL,
+    "undoDeadline" TIMESTAMP(3) NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "undoneBy" TEXT,
+
+    CONSTRAINT "patient_merges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "patients_birthDate_idx" ON "patients"("birthDate");
+
+-- CreateIndex
+CREATE INDEX "patients_mergedIntoId_idx" ON "patients"("mergedIntoId");
+
+-- CreateIndex
+CREATE INDEX "patient_merges_survivorId_idx" ON "patient_merges"("survivorId");
+
+-- CreateIndex
+CREATE INDEX "patient_merges_mergedPatientId_idx" ON "patient_merges"("mergedPatientId");
@@ -0,0 +1,12 @@
+-- Blind indexes of the encrypted e-mail and phone, for the exact-match search filters.
+-- Existing rows are indexed by `npm run pii-keys -- rotate`.
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "emailHash" TEXT,
+ADD COLUMN "phoneHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "patients_emailHash_idx" ON "patients"("emailHash");
+
+-- CreateIndex
+CREATE INDEX "patients_phoneHash_idx" ON "patients"("phoneHash");
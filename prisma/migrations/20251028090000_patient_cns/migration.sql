@@ -0,0 +1,9 @@
+-- Cartão Nacional de Saúde (CNS) of the patient, encrypted like the other identifiers, and its
+-- blind index. Existing patients have no CNS, so they need no rewrite.
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "cns" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "cnsHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patients_cnsHash_key" ON "patients"("cnsHash");
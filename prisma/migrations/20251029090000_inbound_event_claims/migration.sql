@@ -0,0 +1,5 @@
+-- Inbound events are claimed (PROCESSING) by messageId before the handler runs, so copies of a
+-- message delivered at the same time are handled once.
+
+-- AlterEnum
+ALTER TYPE "InboundEventStatus" ADD VALUE 'PROCESSING' BEFORE 'PROCESSED';
@@ -57,6 +57,9 @@ export const config = {
     // Azure Redis specific
     tls: process.env.REDIS_TLS === 'true',
     connectionString: process.env.REDIS_CONNECTION_STRING,
+    // Patient cache (enabled by USE_REDIS_CACHE)
+    cacheTtlSeconds: parseInt(process.env.REDIS_CACHE_TTL_SECONDS || '3600', 10), // 1 hour
+    searchCacheTtlSeconds: parseInt(process.env.REDIS_SEARCH_CACHE_TTL_SECONDS || '300', 10), // 5 minutes
   },
   
   // Event Bus (Azure Service Bus) configuration
@@ -67,10 +70,118 @@ export const config = {
       patientCreated: 'patient.created',
       patientUpdated: 'patient.updated',
       patientDeleted: 'patient.deleted',
-      patientValidated: 'patient.validated'
+      patientRestored: 'patient.restored',
+      patientMerged: 'patient.merged',
+      patientUnmerged: 'patient.unmerged',
+      patientValidated: 'patient.validated',
+      patientSummaryChanged: 'patient.summary_changed',
+      patientAnonymized: 'patient.anonymized',
+      patientConsentChanged: 'patient.consent_changed'
     }
   },
 
+  // Transactional outbox: patient events are stored with the write and delivered by a background dispatcher
+  outbox: {
+    dispatcherEnabled: process.env.OUTBOX_DISPATCHER_ENABLED !== 'false', // Default enabled
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '50', 10),
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+    retryBaseDelayMs: 1000,
+    retryMaxDelayMs: 5 * 60 * 1000, // 5 minutes
+    stuckThresholdMs: parseInt(process.env.OUTBOX_STUCK_THRESHOLD_MS || String(5 * 60 * 1000), 10),
+    // A claimed batch is hidden from other dispatchers this long; what is left unsent then is claimed again
+    claimLeaseMs: 60 * 1000,
+  },
+
+  // Read model projector: applies outbox events to the MongoDB/Cosmos DB read model
+  projection: {
+    enabled: process.env.READ_MODEL_PROJECTOR_ENABLED !== 'false', // Default enabled
+    pollIntervalMs: parseInt(process.env.READ_MODEL_POLL_INTERVAL_MS || '500', 10),
+    batchSize: parseInt(process.env.READ_MODEL_BATCH_SIZE || '100', 10),
+    maxAttempts: parseInt(process.env.READ_MODEL_MAX_ATTEMPTS || '10', 10),
+    retryBaseDelayMs: 1000,
+    retryMaxDelayMs: 5 * 60 * 1000, // 5 minutes
+    // Sequence gaps younger than this may still be uncommitted transactions, so the projector waits
+    gapTimeoutMs: 15 * 1000,
+  },
+
+  // Events consumed from the procedures, billing and audit services
+  consumers: {
+    enabled: process.env.EVENT_CONSUMERS_ENABLED === 'true', // Disabled by default
+    // Handler attempts per message before it is dead-lettered
+    maxAttempts: parseInt(process.env.EVENT_CONSUMERS_MAX_ATTEMPTS || '5', 10),
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 10 * 1000,
+    // A message claimed longer ago than this without an outcome (the consumer stopped mid-way)
+    // is handled again by the next delivery
+    claimTimeoutMs: parseInt(process.env.EVENT_CONSUMERS_CLAIM_TIMEOUT_MS || String(10 * 60 * 1000), 10),
+    destinations: {
+      procedureEvents: process.env.PROCEDURE_EVENTS_DESTINATION || 'procedure.events',
+      billingEvents: process.env.BILLING_EVENTS_DESTINATION || 'billing.events',
+      auditEvents: process.env.AUDIT_EVENTS_DESTINATION || 'audit.events',
+    },
+  },
+
+  // Read model rebuild/reconcile runs (CLI and admin endpoint)
+  readModelMaintenance: {
+    batchSize: parseInt(process.env.READ_MODEL_REBUILD_BATCH_SIZE || '500', 10),
+  },
+
+  // Field-level encryption of patient personal data (envelope encryption with local keys)
+  piiEncryption: {
+    // Key encryption keys as comma-separated "keyId:base64" pairs (32-byte keys). Retired keys stay
+    // listed until `npm run pii-keys -- rotate` and a read model rebuild have moved data off them.
+    keys: process.env.PII_ENCRYPTION_KEYS || '',
+    activeKeyId: process.env.PII_ENCRYPTION_ACTIVE_KEY_ID || '',
+    // HMAC key of the CPF and medical record number blind indexes (cannot be rotated in place)
+    blindIndexKey: process.env.PII_BLIND_INDEX_KEY || '',
+    rotationBatchSize: parseInt(process.env.PII_ROTATION_BATCH_SIZE || '200', 10),
+  },
+
+  // Data subject requests (LGPD): access exports and erasure by anonymization
+  dataSubjectRequests: {
+    // Days to fulfil a request once received (LGPD art. 19, II)
+    responseDeadlineDays: parseInt(process.env.DATA_SUBJECT_REQUEST_DEADLINE_DAYS || '15', 10),
+  },
+
+  // Duplicate detection and merge of patient records
+  patientMerge: {
+    // Pairs scoring below this are not reported as duplicate candidates (0 to 1)
+    duplicateMinScore: parseFloat(process.env.PATIENT_DUPLICATE_MIN_SCORE || '0.6'),
+    // Hours during which a merge can be undone
+    undoWindowHours: parseInt(process.env.PATIENT_MERGE_UNDO_WINDOW_HOURS || '72', 10),
+    // Patients compared per candidate search, and birth date groups read per duplicate scan
+    candidateLimit: 200,
+    scanGroupLimit: 500,
+  },
+
+  // Bulk patient import (CSV/XLSX); files are also bound by upload.maxFileSize
+  patientImport: {
+    maxRows: parseInt(process.env.PATIENT_IMPORT_MAX_ROWS || '5000', 10),
+    // Rows processed between two progress saves
+    batchSize: parseInt(process.env.PATIENT_IMPORT_BATCH_SIZE || '100', 10),
+  },
+
+  // HL7 FHIR R4 facade (/fhir)
+  fhir: {
+    // Identifier system of the medical record numbers issued by this hospital
+    medicalRecordSystem: process.env.FHIR_MEDICAL_RECORD_SYSTEM || 'urn:lazarus:patients:medical-record-number',
+    // Default and maximum _count of a search
+    defaultCount: 10,
+    maxCount: 100,
+  },
+
+  // Consent management (LGPD): grants and revocations per processing purpose
+  consents: {
+    // Copies of these patient events are enqueued for analytics consumers and delivered only
+    // when the patient has given research consent (no copies when the destination is empty)
+    analyticsDestination: process.env.ANALYTICS_EVENTS_DESTINATION || '',
+    analyticsEventTypes: (process.env.ANALYTICS_EVENT_TYPES || 'PatientCreated,PatientUpdated')
+      .split(',')
+      .map(eventType => eventType.trim())
+      .filter(Boolean),
+  },
+
   // Azure Service Bus (replacing Kafka for MVP1)
   serviceBus: {
     connectionString: process.env.SERVICE_BUS_CONNECTION_STRING,
@@ -92,7 +203,13 @@ export const config = {
       patientCreated: 'patient.created',
       patientUpdated: 'patient.updated',
       patientDeleted: 'patient.deleted',
+      patientRestored: 'patient.restored',
+      patientMerged: 'patient.merged',
+      patientUnmerged: 'patient.unmerged',
       patientValidated: 'patient.validated',
+      patientSummaryChanged: 'patient.summary_changed',
+      patientAnonymized: 'patient.anonymized',
+      patientConsentChanged: 'patient.consent_changed',
     },
   },
   
@@ -103,6 +220,12 @@ export const config = {
     accountName: process.env.AZURE_STORAGE_ACCOUNT_NAME,
     accountKey: process.env.AZURE_STORAGE_ACCOUNT_KEY,
   },
+
+  // Document storage backend: 'azure' (Blob Storage) or 'local' (filesystem, for development)
+  storage: {
+    provider: process.env.STORAGE_PROVIDER || (process.env.AZURE_STORAGE_CONNECTION_STRING ? 'azure' : 'local'),
+    localPath: process.env.LOCAL_STORAGE_PATH || './storage',
+  },
   
   // External Services (Azure Container Instances or AKS)
   services: {
@@ -159,6 +282,14 @@ export const config = {
     useMongoDBAtlas: process.env.USE_MONGODB_ATLAS === 'true', // For future migration
     useServiceBus: process.env.USE_SERVICE_BUS !== 'false', // Default to true for MVP1
     useKafka: process.env.USE_KAFKA === 'true', // For future or hybrid
+    useRedisCache: process.env.USE_REDIS_CACHE === 'true', // Patient read cache, disabled by default
+    // Event transport: 'servicebus', 'kafka', 'fanout' (both, during the Kafka migration) or 'memory' (tests).
+    // Derived from USE_SERVICE_BUS/USE_KAFKA unless EVENT_PUBLISHER is set.
+    eventPublisher: process.env.EVENT_PUBLISHER || (
+      process.env.NODE_ENV === 'test' ? 'memory'
+        : process.env.USE_KAFKA === 'true' ? (process.env.USE_SERVICE_BUS !== 'false' ? 'fanout' : 'kafka')
+        : 'servicebus'
+    ),
   },
 };
 
@@ -0,0 +1,30 @@
+import { config } from './config';
+import { ConsentLegalBasis, ConsentPurpose } from '@/types';
+
+// Processing purposes and the legal basis each one relies on while nothing was recorded for the
+// patient. Care and insurance billing do not depend on consent (health protection, LGPD art. 11,
+// II, f, and the health plan contract, art. 7, V), so they are allowed by default; research and
+// communications need a consent that was granted and not revoked. A revoked consent only stops
+// the purposes that depend on consent: the other legal bases still apply.
+
+export const CONSENT_PURPOSE_DEFAULTS: Record<ConsentPurpose, ConsentLegalBasis> = {
+  [ConsentPurpose.CARE]: ConsentLegalBasis.HEALTH_PROTECTION,
+  [ConsentPurpose.INSURANCE_BILLING]: ConsentLegalBasis.CONTRACT,
+  [ConsentPurpose.RESEARCH]: ConsentLegalBasis.CONSENT,
+  [ConsentPurpose.COMMUNICATIONS]: ConsentLegalBasis.CONSENT
+};
+
+export const dependsOnConsent = (purpose: ConsentPurpose): boolean =>
+  CONSENT_PURPOSE_DEFAULTS[purpose] === ConsentLegalBasis.CONSENT;
+
+// Event destinations whose messages are delivered only when the patient allows the purpose
+const CONSENT_GATED_DESTINATIONS: Record<string, ConsentPurpose> = config.consents.analyticsDestination
+  ? { [config.consents.analyticsDestination]: ConsentPurpose.RESEARCH }
+  : {};
+
+export const consentPurposeForDestination = (destination: string): ConsentPurpose | undefined =>
+  CONSENT_GATED_DESTINATIONS[destination];
+
+// Copies of the events sent to analytics consumers (see config.consents)
+export const isAnalyticsEvent = (eventType: string): boolean =>
+  !!config.consents.analyticsDestination && config.consents.analyticsEventTypes.includes(eventType);
@@ -67,6 +67,8 @@ export const redisClient = createClient({
   },
   password: config.redis.password,
   database: config.redis.db,
+  // Fail commands immediately while disconnected so cache reads fall back to the databases
+  disableOfflineQueue: true,
   // Use connection string if provided (Azure Redis format)
   ...(config.redis.connectionString && {
     url: config.redis.connectionString
@@ -104,8 +106,11 @@ export const connectDatabases = async (): Promise<void> => {
     // Connect MongoDB/Cosmos DB
     await connectMongoDB();
 
-    // Connect Redis
-    //await connectRedis();
+    // Connect Redis (patient cache). Not awaited: the service starts without Redis and reads
+    // go to the databases until the client is ready.
+    if (config.features.useRedisCache) {
+      connectRedis().catch(() => undefined);
+    }
 
     logger.info('All databases connected successfully');
   } catch (error) {
@@ -162,7 +167,9 @@ export const disconnectDatabases = async (): Promise<void> => {
   try {
     await prisma.$disconnect();
     await mongoose.disconnect();
-    await redisClient.disconnect();
+    if (redisClient.isOpen) {
+      await redisClient.disconnect();
+    }
     logger.info('All databases disconnected successfully');
   } catch (error) {
     logger.error('Database disconnection failed:', error);
@@ -178,6 +185,9 @@ process.on('beforeExit', async () => {
 export const cacheUtils = {
   // Set cache with TTL
   set: async (key: string, value: any, ttlSeconds: number = 3600): Promise<void> => {
+    if (!redisClient.isReady) {
+      return;
+    }
     try {
       await redisClient.setEx(key, ttlSeconds, JSON.stringify(value));
     } catch (error) {
@@ -187,6 +197,9 @@ export const cacheUtils = {
 
   // Get from cache
   get: async <T>(key: string): Promise<T | null> => {
+    if (!redisClient.isReady) {
+      return null;
+    }
     try {
       const value = await redisClient.get(key);
       return value ? JSON.parse(value) : null;
@@ -198,23 +211,14 @@ export const cacheUtils = {
 
   // Delete from cache
   del: async (key: string): Promise<void> => {
+    if (!redisClient.isReady) {
+      return;
+    }
     try {
       await redisClient.del(key);
     } catch (error) {
       logger.error('Cache delete failed:', error);
     }
-  },
-
-  // Clear cache by pattern
-  clearPattern: async (pattern: string): Promise<void> => {
-    try {
-      const keys = await redisClient.keys(pattern);
-      if (keys.length > 0) {
-        await redisClient.del(keys);
-      }
-    } catch (error) {
-      logger.error('Cache clear pattern failed:', error);
-    }
   }
 };
 
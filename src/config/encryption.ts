@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { config } from './config';
+import { logger } from './logger';
+import { BlindIndexField, KeyProvider, WrappedDataKey } from '@/types';
+
+// Envelope encryption of personal data. Every value gets its own random data key (AES-256-GCM);
+// the data key is stored next to the ciphertext, wrapped by the active key encryption key of the
+// key provider. Rotating the key encryption key only re-wraps data keys, the values themselves
+// are not re-encrypted. Stored format:
+//   enc:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>   (base64 parts)
+// Values without the prefix are legacy plaintext and are returned as they are.
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// Personal data fields of the patient stored encrypted in PostgreSQL, the read model and the cache
+export const PATIENT_PII_FIELDS = ['cpf', 'rg', 'cns', 'phone', 'email', 'address', 'medicalRecordNumber'] as const;
+
+export type PatientPiiField = typeof PATIENT_PII_FIELDS[number];
+
+// Start of every value encrypted under keyId (the key ID is stored in clear)
+export const encryptedValuePrefix = (keyId: string): string => `${PREFIX}:${keyId}:`;
+
+// Development-only keys, used when no keys are configured outside production
+const DEVELOPMENT_KEY_ID = 'dev';
+const developmentKey = (purpose: string): Buffer =>
+  crypto.createHash('sha256').update(`lazarus-ms-patients-development-${purpose}`).digest();
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+const unseal = (key: Buffer, sealed: string): Buffer => {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+// Key encryption keys read from configuration (PII_ENCRYPTION_KEYS)
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = 'local';
+  readonly activeKeyId: string;
+  private keys = new Map<string, Buffer>();
+
+  constructor(keys: string, activeKeyId: string) {
+    for (const entry of keys.split(',').map(value => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+      if (separator <= 0 || key.length !== KEY_LENGTH) {
+        throw new Error(`Invalid PII encryption key "${keyId || entry}": expected keyId:base64 with a ${KEY_LENGTH}-byte key`);
+      }
+      this.keys.set(keyId, key);
+    }
+
+    this.activeKeyId = activeKeyId || [...this.keys.keys()][0] || '';
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new Error(`Active PII encryption key "${this.activeKeyId}" is not configured`);
+    }
+  }
+
+  get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  wrapKey(dataKey: Buffer): WrappedDataKey {
+    return { keyId: this.activeKeyId, wrappedKey: seal(this.getKey(this.activeKeyId), dataKey) };
+  }
+
+  unwrapKey(keyId: string, wrappedKey: string): Buffer {
+    return unseal(this.getKey(keyId), wrappedKey);
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`PII encryption key "${keyId}" is not configured`);
+    }
+    return key;
+  }
+}
+
+export class FieldEncryption {
+  constructor(private keyProvider: KeyProvider, private blindIndexKey: Buffer) {}
+
+  get activeKeyId(): string {
+    return this.keyProvider.activeKeyId;
+  }
+
+  get keyIds(): string[] {
+    return this.keyProvider.keyIds;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(`${PREFIX}:`);
+  }
+
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const { keyId, wrappedKey } = this.keyProvider.wrapKey(dataKey);
+    // The wrapped key is itself iv:tag:ciphertext, so it is re-encoded to keep one part
+    return [PREFIX, keyId, Buffer.from(wrappedKey).toString('base64'), seal(dataKey, Buffer.from(plaintext, 'utf8'))].join(':');
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const { keyId, wrappedKey, sealed } = this.parse(value);
+    const dataKey = this.keyProvider.unwrapKey(keyId, wrappedKey);
+    return unseal(dataKey, sealed).toString('utf8');
+  }
+
+  // Plaintext values and values whose data key is wrapped with a retired key
+  needsRotation(value: string): boolean {
+    return !this.isEncrypted(value) || this.parse(value).keyId !== this.keyProvider.activeKeyId;
+  }
+
+  // Re-wraps the data key with the active key (plaintext values are encrypted)
+  rotate(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return this.encrypt(value);
+    }
+
+    const { keyId, wrappedKey, sealed } = this.parse(value);
+    if (keyId === this.keyProvider.activeKeyId) {
+      return value;
+    }
+
+    const rewrapped = this.keyProvider.wrapKey(this.keyProvider.unwrapKey(keyId, wrappedKey));
+    return [PREFIX, rewrapped.keyId, Buffer.from(rewrapped.wrappedKey).toString('base64'), sealed].join(':');
+  }
+
+  // Keyed hash used for exact lookups and uniqueness on encrypted fields. The value is normalized
+  // first (CPF, CNS and phone digits only, e-mail in lowercase), so formatted and unformatted input
+  // produce the same index.
+  blindIndex(field: BlindIndexField, value: string): string {
+    const normalized = field === BlindIndexField.CPF || field === BlindIndexField.CNS || field === BlindIndexField.PHONE
+      ? value.replace(/\D/g, '')
+      : field === BlindIndexField.EMAIL
+        ? value.trim().toLowerCase()
+        : value.trim().toUpperCase();
+    return crypto.createHmac('sha256', this.blindIndexKey).update(`${field}:${normalized}`).digest('hex');
+  }
+
+  encryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): T {
+    return this.mapFields(record, fields, value => this.encrypt(value));
+  }
+
+  decryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): T {
+    return this.mapFields(record, fields, value => this.decrypt(value));
+  }
+
+  // UTILITY METHODS
+  private mapFields<T extends Record<string, any>>(record: T, fields: readonly string[], map: (value: string) => string): T {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      if (typeof result[field] === 'string') {
+        result[field] = map(result[field]);
+      }
+    }
+    return result as T;
+  }
+
+  private parse(value: string): { keyId: string; wrappedKey: string; sealed: string } {
+    const parts = value.split(':');
+    if (parts.length !== 7) {
+      throw new Error('Malformed encrypted value');
+    }
+
+    const [, , keyId, wrappedKey, iv, tag, ciphertext] = parts;
+    return {
+      keyId,
+      wrappedKey: Buffer.from(wrappedKey, 'base64').toString(),
+      sealed: [iv, tag, ciphertext].join(':')
+    };
+  }
+}
+
+const createFieldEncryption = (): FieldEncryption => {
+  const { keys, activeKeyId, blindIndexKey } = config.piiEncryption;
+
+  if (keys && blindIndexKey) {
+    const indexKey = Buffer.from(blindIndexKey, 'base64');
+    if (indexKey.length < KEY_LENGTH) {
+      throw new Error(`PII_BLIND_INDEX_KEY must be a base64 key of at least ${KEY_LENGTH} bytes`);
+    }
+    return new FieldEncryption(new LocalKeyProvider(keys, activeKeyId), indexKey);
+  }
+
+  if (config.nodeEnv === 'production') {
+    throw new Error('PII_ENCRYPTION_KEYS and PII_BLIND_INDEX_KEY are required in production');
+  }
+
+  logger.warn('PII encryption keys not configured, using development keys');
+  return new FieldEncryption(
+    new LocalKeyProvider(`${DEVELOPMENT_KEY_ID}:${developmentKey('kek').toString('base64')}`, DEVELOPMENT_KEY_ID),
+    developmentKey('blind-index')
+  );
+};
+
+export const fieldEncryption = createFieldEncryption();
+
+// Generates a key encryption key in the PII_ENCRYPTION_KEYS format
+export const generateEncryptionKey = (keyId: string): string =>
+  `${keyId}:${crypto.randomBytes(KEY_LENGTH).toString('base64')}`;
@@ -0,0 +1,200 @@
+import { EventMessage, EventPublisher, EventSubscriber, ReceivedEvent } from '@/types';
+
+// Broker transports are replaced by fakes, so the selection and the fan-out run without a broker
+const fakeTransport = (name: string) => ({
+  name,
+  connect: jest.fn(async () => undefined),
+  disconnect: jest.fn(async () => undefined),
+  publishEvent: jest.fn(async () => undefined),
+  subscribe: jest.fn(async () => undefined),
+  unsubscribe: jest.fn(async () => undefined)
+});
+
+const mockServiceBus = fakeTransport('servicebus');
+const mockKafka = fakeTransport('kafka');
+
+jest.mock('./eventbus', () => ({ eventBusService: mockServiceBus }));
+jest.mock('./kafka', () => ({ kafkaService: mockKafka }));
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+type EventPublisherModule = typeof import('./event-publisher');
+
+const ENV_KEYS = ['EVENT_PUBLISHER', 'USE_KAFKA', 'USE_SERVICE_BUS', 'NODE_ENV'];
+const originalEnv = { ...process.env };
+
+// The transport is chosen when the module is loaded, so each case loads it again
+const loadWith = (env: Record<string, string>): EventPublisherModule => {
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  Object.assign(process.env, env);
+
+  let loaded!: EventPublisherModule;
+  jest.isolateModules(() => {
+    loaded = require('./event-publisher');
+  });
+  return loaded;
+};
+
+const message: EventMessage = {
+  eventType: 'PatientCreated',
+  patientId: 'patient-1',
+  data: { patientId: 'patient-1' }
+};
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe('event publisher selection', () => {
+  it.each([
+    ['servicebus', 'servicebus'],
+    ['kafka', 'kafka'],
+    ['fanout', 'fanout'],
+    ['memory', 'memory']
+  ])('EVENT_PUBLISHER=%s selects the %s transport', (eventPublisher, name) => {
+    const { eventPublisher: publisher, eventSubscriber } = loadWith({ EVENT_PUBLISHER: eventPublisher, NODE_ENV: 'production' });
+
+    expect(publisher.name).toBe(name);
+    expect(eventSubscriber).toBe(publisher);
+  });
+
+  it('uses the broker services for kafka and servicebus', () => {
+    expect(loadWith({ EVENT_PUBLISHER: 'kafka' }).eventPublisher).toBe(mockKafka);
+    expect(loadWith({ EVENT_PUBLISHER: 'servicebus' }).eventPublisher).toBe(mockServiceBus);
+  });
+
+  it('defaults to the in-memory transport under NODE_ENV=test', () => {
+    const { eventPublisher, InMemoryEventPublisher } = loadWith({ NODE_ENV: 'test' });
+
+    expect(eventPublisher).toBeInstanceOf(InMemoryEventPublisher);
+  });
+
+  it('derives the transport from USE_KAFKA and USE_SERVICE_BUS outside tests', () => {
+    expect(loadWith({ NODE_ENV: 'production' }).eventPublisher.name).toBe('servicebus');
+    expect(loadWith({ NODE_ENV: 'production', USE_KAFKA: 'true' }).eventPublisher.name).toBe('fanout');
+    expect(loadWith({ NODE_ENV: 'production', USE_KAFKA: 'true', USE_SERVICE_BUS: 'false' }).eventPublisher.name).toBe('kafka');
+  });
+
+  it('rejects an unknown transport', () => {
+    expect(() => loadWith({ EVENT_PUBLISHER: 'rabbitmq' })).toThrow('Unknown event publisher: rabbitmq');
+  });
+
+  it('disables publishing only for Service Bus turned off without Kafka', () => {
+    expect(loadWith({ EVENT_PUBLISHER: 'servicebus', USE_SERVICE_BUS: 'false' }).isEventPublishingEnabled()).toBe(false);
+    expect(loadWith({ EVENT_PUBLISHER: 'servicebus' }).isEventPublishingEnabled()).toBe(true);
+    expect(loadWith({ EVENT_PUBLISHER: 'memory', USE_SERVICE_BUS: 'false' }).isEventPublishingEnabled()).toBe(true);
+  });
+});
+
+describe('fan-out publisher', () => {
+  let publisher: EventPublisher & EventSubscriber;
+
+  beforeEach(() => {
+    const loaded = loadWith({ EVENT_PUBLISHER: 'fanout' });
+    publisher = loaded.eventPublisher as EventPublisher & EventSubscriber;
+  });
+
+  it('connects and disconnects both transports', async () => {
+    await publisher.connect();
+    await publisher.disconnect();
+
+    expect(mockServiceBus.connect).toHaveBeenCalledTimes(1);
+    expect(mockKafka.connect).toHaveBeenCalledTimes(1);
+    expect(mockServiceBus.disconnect).toHaveBeenCalledTimes(1);
+    expect(mockKafka.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('publishes every event to both transports with the same message ID', async () => {
+    await publisher.publishEvent('patient.created', message, 'message-1');
+
+    expect(mockServiceBus.publishEvent).toHaveBeenCalledWith('patient.created', message, 'message-1');
+    expect(mockKafka.publishEvent).toHaveBeenCalledWith('patient.created', message, 'message-1');
+  });
+
+  it('fails the publish when one transport fails, after trying both', async () => {
+    mockKafka.publishEvent.mockRejectedValueOnce(new Error('broker unavailable'));
+
+    await expect(publisher.publishEvent('patient.created', message, 'message-1'))
+      .rejects.toThrow('Fan-out publish failed (kafka: broker unavailable)');
+    expect(mockServiceBus.publishEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('names every failed transport', async () => {
+    mockServiceBus.publishEvent.mockRejectedValueOnce(new Error('timeout'));
+    mockKafka.publishEvent.mockRejectedValueOnce('not leader');
+
+    await expect(publisher.publishEvent('patient.created', message))
+      .rejects.toThrow('Fan-out publish failed (servicebus: timeout; kafka: not leader)');
+  });
+
+  it('subscribes and unsubscribes on both transports', async () => {
+    const handler = jest.fn(async (_event: ReceivedEvent) => undefined);
+
+    await publisher.subscribe(['procedure.events'], handler);
+    await publisher.unsubscribe();
+
+    expect(mockServiceBus.subscribe).toHaveBeenCalledWith(['procedure.events'], handler);
+    expect(mockKafka.subscribe).toHaveBeenCalledWith(['procedure.events'], handler);
+    expect(mockServiceBus.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(mockKafka.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('InMemoryEventPublisher', () => {
+  let InMemoryEventPublisher: EventPublisherModule['InMemoryEventPublisher'];
+
+  beforeEach(() => {
+    ({ InMemoryEventPublisher } = loadWith({ EVENT_PUBLISHER: 'memory' }));
+  });
+
+  it('keeps published events in order until cleared', async () => {
+    const publisher = new InMemoryEventPublisher();
+
+    await publisher.publishEvent('patient.created', message, 'message-1');
+    await publisher.publishEvent('patient.updated', { ...message, eventType: 'PatientUpdated' });
+
+    expect(publisher.published).toEqual([
+      expect.objectContaining({ destination: 'patient.created', message, messageId: 'message-1' }),
+      expect.objectContaining({ destination: 'patient.updated', messageId: undefined })
+    ]);
+    expect(publisher.published[0].publishedAt).toBeInstanceOf(Date);
+
+    publisher.clear();
+    expect(publisher.published).toHaveLength(0);
+  });
+
+  it('delivers a message to the handler subscribed to its destination', async () => {
+    const publisher = new InMemoryEventPublisher();
+    const handler = jest.fn(async (_event: ReceivedEvent) => undefined);
+
+    await publisher.subscribe(['procedure.events', 'billing.events'], handler);
+    await publisher.deliver('billing.events', { eventType: 'BillingItemApproved' }, 'message-2');
+
+    expect(handler).toHaveBeenCalledWith({
+      destination: 'billing.events',
+      messageId: 'message-2',
+      body: { eventType: 'BillingItemApproved' }
+    });
+  });
+
+  it('passes handler errors to the caller, as a broker would see them', async () => {
+    const publisher = new InMemoryEventPublisher();
+    await publisher.subscribe(['procedure.events'], async () => {
+      throw new Error('database down');
+    });
+
+    await expect(publisher.deliver('procedure.events', {})).rejects.toThrow('database down');
+  });
+
+  it('rejects a delivery without a subscription, including after unsubscribe', async () => {
+    const publisher = new InMemoryEventPublisher();
+
+    await expect(publisher.deliver('procedure.events', {})).rejects.toThrow('No subscription for procedure.events');
+
+    await publisher.subscribe(['procedure.events'], async () => undefined);
+    await publisher.unsubscribe();
+
+    await expect(publisher.deliver('procedure.events', {})).rejects.toThrow('No subscription for procedure.events');
+  });
+});
@@ -0,0 +1,128 @@
+import { config } from './config';
+import { logger } from './logger';
+import { eventBusService } from './eventbus';
+import { kafkaService } from './kafka';
+import {
+  EventMessage,
+  EventPublisher,
+  EventPublisherTransport,
+  EventSubscriber,
+  PublishedEvent,
+  ReceivedEvent
+} from '@/types';
+
+type EventTransport = EventPublisher & EventSubscriber;
+
+// Publishes every event to all transports (Service Bus and Kafka during the migration). If one of
+// them fails the whole publish fails and the outbox retries it on both, so consumers must rely on
+// the messageId to drop the copy that was already delivered. Subscriptions are made on every
+// transport too, which relies on the same messageId deduplication.
+class FanOutEventPublisher implements EventTransport {
+  readonly name = 'fanout';
+
+  constructor(private publishers: EventTransport[]) {}
+
+  async connect(): Promise<void> {
+    await Promise.all(this.publishers.map(publisher => publisher.connect()));
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all(this.publishers.map(publisher => publisher.disconnect()));
+  }
+
+  async publishEvent(destination: string, message: EventMessage, messageId?: string): Promise<void> {
+    const results = await Promise.allSettled(
+      this.publishers.map(publisher => publisher.publishEvent(destination, message, messageId))
+    );
+
+    const failed = results
+      .map((result, index) => ({ result, name: this.publishers[index].name }))
+      .filter(({ result }) => result.status === 'rejected');
+
+    if (failed.length > 0) {
+      const reasons = failed.map(({ result, name }) => {
+        const reason = (result as PromiseRejectedResult).reason;
+        return `${name}: ${reason instanceof Error ? reason.message : String(reason)}`;
+      });
+      throw new Error(`Fan-out publish failed (${reasons.join('; ')})`);
+    }
+  }
+
+  async subscribe(destinations: string[], handler: (event: ReceivedEvent) => Promise<void>): Promise<void> {
+    await Promise.all(this.publishers.map(publisher => publisher.subscribe(destinations, handler)));
+  }
+
+  async unsubscribe(): Promise<void> {
+    await Promise.all(this.publishers.map(publisher => publisher.unsubscribe()));
+  }
+}
+
+// Keeps published events in memory (tests and local runs without a broker). deliver() hands a
+// message to the subscribed handlers as if it had been received from a broker.
+export class InMemoryEventPublisher implements EventTransport {
+  readonly name = 'memory';
+  readonly published: PublishedEvent[] = [];
+  private handlers = new Map<string, (event: ReceivedEvent) => Promise<void>>();
+
+  async connect(): Promise<void> {
+    logger.info('Event publisher running in memory - events are not sent to a broker');
+  }
+
+  async disconnect(): Promise<void> {}
+
+  async publishEvent(destination: string, message: EventMessage, messageId?: string): Promise<void> {
+    this.published.push({ destination, message, messageId, publishedAt: new Date() });
+    logger.debug(`[MEMORY] Event published to ${destination}:`, { messageId, eventType: message.eventType });
+  }
+
+  async subscribe(destinations: string[], handler: (event: ReceivedEvent) => Promise<void>): Promise<void> {
+    for (const destination of destinations) {
+      this.handlers.set(destination, handler);
+    }
+  }
+
+  async unsubscribe(): Promise<void> {
+    this.handlers.clear();
+  }
+
+  async deliver(destination: string, body: Record<string, any>, messageId?: string): Promise<void> {
+    const handler = this.handlers.get(destination);
+    if (!handler) {
+      throw new Error(`No subscription for ${destination}`);
+    }
+    await handler({ destination, messageId, body });
+  }
+
+  clear(): void {
+    this.published.length = 0;
+  }
+}
+
+const createEventTransport = (): EventTransport => {
+  switch (config.features.eventPublisher) {
+    case EventPublisherTransport.KAFKA:
+      return kafkaService;
+    case EventPublisherTransport.FANOUT:
+      return new FanOutEventPublisher([eventBusService, kafkaService]);
+    case EventPublisherTransport.MEMORY:
+      return new InMemoryEventPublisher();
+    case EventPublisherTransport.SERVICE_BUS:
+      return eventBusService;
+    default:
+      throw new Error(`Unknown event publisher: ${config.features.eventPublisher}`);
+  }
+};
+
+const eventTransport = createEventTransport();
+
+export const eventPublisher: EventPublisher = eventTransport;
+export const eventSubscriber: EventSubscriber = eventTransport;
+
+// Publishing is off only when neither broker is enabled (USE_SERVICE_BUS=false without Kafka)
+export const isEventPublishingEnabled = (): boolean =>
+  eventPublisher.name !== EventPublisherTransport.SERVICE_BUS || config.eventBus.enabled;
+
+export const initializeEventPublisher = async (): Promise<void> => {
+  await eventPublisher.connect();
+  logger.info('Event publisher initialized successfully', { transport: eventPublisher.name });
+};
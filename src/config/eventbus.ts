@@ -1,17 +1,10 @@
 import { ServiceBusClient, ServiceBusSender, ServiceBusReceiver } from '@azure/service-bus';
 import { config } from './config';
 import { logger } from './logger';
+import { EventMessage, EventPublisher, EventSubscriber, ReceivedEvent } from '@/types';
 
-interface EventMessage {
-  eventType: string;
-  patientId?: string;
-  data?: any;
-  timestamp?: string;
-  service?: string;
-  [key: string]: any;
-}
-
-class EventBusService {
+class EventBusService implements EventPublisher, EventSubscriber {
+  readonly name = 'servicebus';
   private client: ServiceBusClient | null = null;
   private senders: Map<string, ServiceBusSender> = new Map();
   private receivers: Map<string, ServiceBusReceiver> = new Map();
@@ -31,9 +24,11 @@ class EventBusService {
 
   async connect(): Promise<void> {
     try {
+      const queues = this.getSenderQueues();
+
       if (this.isTestMode) {
         logger.info('Event Bus running in TEST MODE - no real Azure Service Bus connection');
-        logger.info('Configured queues: patient.created, patient.updated, patient.deleted, patient.validated');
+        logger.info(`Configured queues: ${queues.join(', ')}`);
         return;
       }
 
@@ -42,13 +37,6 @@ class EventBusService {
       }
 
       // Create senders for each queue
-      const queues = [
-        'patient.created',
-        'patient.updated', 
-        'patient.deleted',
-        'patient.validated'
-      ];
-
       for (const queue of queues) {
         const sender = this.client.createSender(queue);
         this.senders.set(queue, sender);
@@ -97,7 +85,7 @@ class EventBusService {
           messageId: messageId || `${message.eventType}-${Date.now()}`,
           body: {
             ...message,
-            timestamp: new Date().toISOString(),
+            timestamp: message.timestamp || new Date().toISOString(),
             service: 'ms-patients',
           },
           contentType: 'application/json',
@@ -122,7 +110,7 @@ class EventBusService {
         messageId: messageId || `${message.eventType}-${Date.now()}`,
         body: {
           ...message,
-          timestamp: new Date().toISOString(),
+          timestamp: message.timestamp || new Date().toISOString(),
           service: 'ms-patients',
         },
         contentType: 'application/json',
@@ -142,10 +130,13 @@ class EventBusService {
     }
   }
 
-  async subscribe(queueName: string, messageHandler: (message: any) => Promise<void>): Promise<void> {
+  // Messages are completed once the handler returns. A handler error abandons the message so
+  // Service Bus redelivers it; after config.consumers.maxAttempts deliveries it is moved to the
+  // queue's dead-letter sub-queue instead of being retried forever.
+  async subscribe(queueNames: string[], messageHandler: (event: ReceivedEvent) => Promise<void>): Promise<void> {
     try {
       if (this.isTestMode) {
-        logger.info(`[TEST MODE] Would subscribe to queue: ${queueName}`);
+        logger.info(`[TEST MODE] Would subscribe to queues: ${queueNames.join(', ')}`);
         return;
       }
 
@@ -153,89 +144,74 @@ class EventBusService {
         throw new Error('Service Bus client not initialized');
       }
 
-      const receiver = this.client.createReceiver(queueName);
-      this.receivers.set(queueName, receiver);
+      for (const queueName of queueNames) {
+        const receiver = this.client.createReceiver(queueName);
+        this.receivers.set(queueName, receiver);
 
-      // Start receiving messages
-      receiver.subscribe({
-        processMessage: async (brokeredMessage) => {
-          try {
+        receiver.subscribe({
+          processMessage: async (brokeredMessage) => {
             logger.info(`Received message from queue ${queueName}:`, {
               messageId: brokeredMessage.messageId,
               correlationId: brokeredMessage.correlationId,
               subject: brokeredMessage.subject,
+              deliveryCount: brokeredMessage.deliveryCount,
             });
 
-            await messageHandler(brokeredMessage.body);
-            
-            // Complete the message (remove from queue)
-            await receiver.completeMessage(brokeredMessage);
-          } catch (error) {
-            logger.error('Error processing message:', error);
-            // Abandon the message (will be retried)
-            await receiver.abandonMessage(brokeredMessage);
+            try {
+              await messageHandler({
+                destination: queueName,
+                messageId: brokeredMessage.messageId?.toString(),
+                body: brokeredMessage.body,
+              });
+              await receiver.completeMessage(brokeredMessage);
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : String(error);
+
+              if ((brokeredMessage.deliveryCount ?? 0) >= config.consumers.maxAttempts) {
+                logger.error('Message dead-lettered after repeated failures:', {
+                  queueName,
+                  messageId: brokeredMessage.messageId,
+                  error: errorMessage,
+                });
+                await receiver.deadLetterMessage(brokeredMessage, {
+                  deadLetterReason: 'MaxAttemptsExceeded',
+                  deadLetterErrorDescription: errorMessage.slice(0, 1024),
+                });
+              } else {
+                logger.warn('Error processing message, it will be redelivered:', { queueName, error: errorMessage });
+                await receiver.abandonMessage(brokeredMessage);
+              }
+            }
+          },
+          processError: async (args) => {
+            logger.error(`Error from source ${args.errorSource}:`, args.error);
           }
-        },
-        processError: async (args) => {
-          logger.error(`Error from source ${args.errorSource}:`, args.error);
-        }
-      });
+        });
 
-      logger.info(`Subscribed to queue: ${queueName}`);
+        logger.info(`Subscribed to queue: ${queueName}`);
+      }
     } catch (error) {
-      logger.error(`Failed to subscribe to queue ${queueName}:`, error);
+      logger.error(`Failed to subscribe to queues ${queueNames.join(', ')}:`, error);
       throw error;
     }
   }
 
-  // Patient-specific event publishers (same interface as Kafka)
-  async publishPatientCreated(patient: any): Promise<void> {
-    await this.publishEvent('patient.created', {
-      eventType: 'PatientCreated',
-      patientId: patient.id,
-      data: patient,
-    }, patient.id);
-  }
-
-  async publishPatientUpdated(patientId: string, oldData: any, newData: any): Promise<void> {
-    await this.publishEvent('patient.updated', {
-      eventType: 'PatientUpdated',
-      patientId,
-      oldData,
-      newData,
-      changes: this.getChanges(oldData, newData),
-    }, patientId);
-  }
-
-  async publishPatientDeleted(patientId: string, patientData: any): Promise<void> {
-    await this.publishEvent('patient.deleted', {
-      eventType: 'PatientDeleted',
-      patientId,
-      data: patientData,
-    }, patientId);
-  }
-
-  async publishPatientValidated(patientId: string, validationResult: any): Promise<void> {
-    await this.publishEvent('patient.validated', {
-      eventType: 'PatientValidated',
-      patientId,
-      validationResult,
-    }, patientId);
+  async unsubscribe(): Promise<void> {
+    for (const [queue, receiver] of this.receivers) {
+      await receiver.close();
+      logger.info(`Receiver for queue ${queue} closed`);
+    }
+    this.receivers.clear();
   }
 
-  private getChanges(oldData: any, newData: any): Record<string, { from: any; to: any }> {
-    const changes: Record<string, { from: any; to: any }> = {};
-    
-    for (const key in newData) {
-      if (oldData[key] !== newData[key]) {
-        changes[key] = {
-          from: oldData[key],
-          to: newData[key],
-        };
-      }
+  // Every patient event queue has a sender, and so does the analytics destination of the
+  // consented event copies when one is configured; a queue without one fails each publish to it
+  private getSenderQueues(): string[] {
+    const queues = Object.values(config.eventBus.queues);
+    if (config.consents.analyticsDestination && !queues.includes(config.consents.analyticsDestination)) {
+      queues.push(config.consents.analyticsDestination);
     }
-    
-    return changes;
+    return queues;
   }
 }
 
@@ -244,8 +220,7 @@ export const eventBusService = new EventBusService();
 export const initializeEventBus = async (): Promise<void> => {
   await eventBusService.connect();
   
-  // Subscribe to relevant queues for this service if needed
-  // For now, this service only publishes events
+  // Consumers of other services' events subscribe through the inbound event consumer
   logger.info('Event Bus initialized successfully');
 };
 
@@ -0,0 +1,264 @@
+import { config } from './config';
+import {
+  FhirBundle,
+  FhirContactPoint,
+  FhirIdentifier,
+  FhirIssue,
+  FhirIssueType,
+  FhirOperationOutcome,
+  FhirPatient,
+  SerializedPatient
+} from '@/types';
+
+// HL7 FHIR R4 representation of the patient. Resources are built from the serialized patient, so
+// the caller's PII policy applies to them as to the JSON API (masked identifiers stay masked).
+// Incoming resources are converted to the request body of the JSON API and validated by the same
+// schema and service rules.
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+// Identifier systems of the Brazilian national health data network (RNDS)
+export const CPF_IDENTIFIER_SYSTEM = 'http://rnds.saude.gov.br/fhir/r4/NamingSystem/cpf';
+export const CNS_IDENTIFIER_SYSTEM = 'http://rnds.saude.gov.br/fhir/r4/NamingSystem/cns';
+export const IDENTIFIER_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+
+export type FhirPatientIdentifier = 'cpf' | 'cns' | 'medicalRecordNumber';
+
+const TO_FHIR_GENDER: Record<string, FhirPatient['gender']> = {
+  male: 'male',
+  female: 'female',
+  other: 'other',
+  not_informed: 'unknown'
+};
+
+const FROM_FHIR_GENDER: Record<string, string> = {
+  male: 'male',
+  female: 'female',
+  other: 'other',
+  unknown: 'not_informed'
+};
+
+const toDate = (value: Date | string): string => new Date(value).toISOString().slice(0, 10);
+
+const isMedicalRecordIdentifier = (identifier: FhirIdentifier): boolean =>
+  identifier.system === config.fhir.medicalRecordSystem ||
+  !!identifier.type?.coding?.some(coding => coding.system === IDENTIFIER_TYPE_SYSTEM && coding.code === 'MR');
+
+const identifierField = (identifier: FhirIdentifier): FhirPatientIdentifier | undefined =>
+  identifier.system === CPF_IDENTIFIER_SYSTEM
+    ? 'cpf'
+    : identifier.system === CNS_IDENTIFIER_SYSTEM
+      ? 'cns'
+      : isMedicalRecordIdentifier(identifier) ? 'medicalRecordNumber' : undefined;
+
+// Phones sent with the country code (+55 11 91234-5678) are reduced to the national number
+const toNationalPhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  const national = (digits.length === 12 || digits.length === 13) && digits.startsWith('55') ? digits.slice(2) : digits;
+  return national.length === 10 || national.length === 11 ? national : value;
+};
+
+export const toFhirPatient = (patient: SerializedPatient): FhirPatient => {
+  const identifier: FhirIdentifier[] = [];
+  if (patient.cpf) {
+    identifier.push({ use: 'official', system: CPF_IDENTIFIER_SYSTEM, value: patient.cpf });
+  }
+  if (patient.cns) {
+    identifier.push({ use: 'official', system: CNS_IDENTIFIER_SYSTEM, value: patient.cns });
+  }
+  if (patient.medicalRecordNumber) {
+    identifier.push({
+      use: 'usual',
+      type: { coding: [{ system: IDENTIFIER_TYPE_SYSTEM, code: 'MR', display: 'Medical record number' }] },
+      system: config.fhir.medicalRecordSystem,
+      value: patient.medicalRecordNumber
+    });
+  }
+
+  const telecom: FhirContactPoint[] = [];
+  if (patient.phone) {
+    telecom.push({ system: 'phone', value: patient.phone });
+  }
+  if (patient.email) {
+    telecom.push({ system: 'email', value: patient.email });
+  }
+
+  // Only the full name is stored: the first word is taken as the given name
+  const [given, ...family] = patient.fullName.split(/\s+/).filter(Boolean);
+
+  return {
+    resourceType: 'Patient',
+    id: patient.id,
+    meta: {
+      versionId: String(patient.version ?? 1),
+      lastUpdated: new Date(patient.updatedAt).toISOString()
+    },
+    ...(identifier.length > 0 && { identifier }),
+    active: patient.status === 'active',
+    name: [{
+      use: 'official',
+      text: patient.fullName,
+      ...(family.length > 0 && { family: family.join(' ') }),
+      ...(given && { given: [given] })
+    }],
+    ...(telecom.length > 0 && { telecom }),
+    gender: TO_FHIR_GENDER[patient.gender] || 'unknown',
+    birthDate: toDate(patient.birthDate),
+    ...(patient.address && { address: [{ use: 'home', text: patient.address }] }),
+    ...(patient.emergencyContact && {
+      contact: [{
+        relationship: [{ text: patient.emergencyContact.relationship }],
+        name: { text: patient.emergencyContact.name },
+        telecom: [{ system: 'phone', value: patient.emergencyContact.phone }]
+      }]
+    })
+  };
+};
+
+// Request body (create or update) of a Patient resource, before validation. Fields the resource
+// does not carry are left out; values that cannot be converted are passed on as they are.
+// Patient has no accommodation element, so a created patient gets the default accommodation
+// type of the create mapping and an update keeps the current one.
+export const fromFhirPatient = (resource: FhirPatient): Record<string, any> => {
+  const data: Record<string, any> = {};
+
+  for (const identifier of resource.identifier || []) {
+    const field = identifierField(identifier);
+    if (field && identifier.value !== undefined && data[field] === undefined) {
+      data[field] = identifier.value;
+    }
+  }
+
+  const name = resource.name?.find(item => item.use === 'official') || resource.name?.[0];
+  const fullName = name?.text || [...(name?.given || []), name?.family].filter(Boolean).join(' ');
+  if (fullName) {
+    data.fullName = fullName;
+  }
+
+  const phone = resource.telecom?.find(item => item.system === 'phone' && item.value);
+  if (phone) {
+    data.phone = toNationalPhone(phone.value!);
+  }
+  const email = resource.telecom?.find(item => item.system === 'email' && item.value);
+  if (email) {
+    data.email = email.value;
+  }
+
+  if (resource.gender !== undefined) {
+    data.gender = FROM_FHIR_GENDER[resource.gender] || resource.gender;
+  }
+  if (resource.birthDate !== undefined) {
+    data.birthDate = resource.birthDate;
+  }
+
+  const address = resource.address?.find(item => item.use === 'home') || resource.address?.[0];
+  const addressText = address && (address.text ||
+    [...(address.line || []), address.district, address.city, address.state, address.postalCode].filter(Boolean).join(', '));
+  if (addressText) {
+    data.address = addressText;
+  }
+
+  const contact = resource.contact?.[0];
+  if (contact) {
+    const contactPhone = contact.telecom?.find(item => item.system === 'phone')?.value;
+    data.emergencyContact = {
+      name: contact.name?.text || [...(contact.name?.given || []), contact.name?.family].filter(Boolean).join(' '),
+      relationship: contact.relationship?.[0]?.text || contact.relationship?.[0]?.coding?.[0]?.display || contact.relationship?.[0]?.coding?.[0]?.code,
+      phone: contactPhone && toNationalPhone(contactPhone)
+    };
+  }
+
+  return data;
+};
+
+// Field and value of an identifier search token (system|value, |value or a value alone). Without
+// a system the value is taken by its format: 11 digits for a CPF, 15 for a CNS, else a medical
+// record number. Returns null for a system this server does not issue.
+export const parseIdentifierSearch = (token: string): { field: FhirPatientIdentifier; value: string } | null => {
+  const separator = token.indexOf('|');
+  const system = separator < 0 ? '' : token.slice(0, separator);
+  const value = token.slice(separator + 1);
+
+  if (!system) {
+    const digits = value.replace(/\D/g, '');
+    const field: FhirPatientIdentifier = /^[\d.\-\s]+$/.test(value) && digits.length === 11
+      ? 'cpf'
+      : /^[\d\s]+$/.test(value) && digits.length === 15 ? 'cns' : 'medicalRecordNumber';
+    return { field, value };
+  }
+
+  const field = identifierField({ system });
+  return field ? { field, value } : null;
+};
+
+// Birth date range of the birthdate search parameters (eq, ge, le, gt or lt followed by a year,
+// year-month or full date; eq when there is no prefix), as search filters
+export const birthDateRange = (values: string[]): { birthDateFrom?: Date; birthDateTo?: Date } => {
+  const range: { birthDateFrom?: Date; birthDateTo?: Date } = {};
+  const later = (a: Date | undefined, b: Date) => (a && a > b ? a : b);
+  const earlier = (a: Date | undefined, b: Date) => (a && a < b ? a : b);
+
+  for (const value of values) {
+    const [, prefix = 'eq', year, month, day] = value.match(/^(eq|ge|le|gt|lt)?(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/)!;
+    const start = new Date(Date.UTC(+year, month ? +month - 1 : 0, day ? +day : 1));
+    const next = new Date(Date.UTC(+year + (month ? 0 : 1), month ? +month - (day ? 1 : 0) : 0, day ? +day + 1 : 1));
+    const end = new Date(next.getTime() - 1);
+
+    if (prefix === 'eq' || prefix === 'ge') {
+      range.birthDateFrom = later(range.birthDateFrom, start);
+    }
+    if (prefix === 'eq' || prefix === 'le') {
+      range.birthDateTo = earlier(range.birthDateTo, end);
+    }
+    if (prefix === 'gt') {
+      range.birthDateFrom = later(range.birthDateFrom, next);
+    }
+    if (prefix === 'lt') {
+      range.birthDateTo = earlier(range.birthDateTo, new Date(start.getTime() - 1));
+    }
+  }
+  return range;
+};
+
+export const toSearchBundle = (
+  baseUrl: string,
+  patients: SerializedPatient[],
+  total: number,
+  selfUrl: string,
+  nextUrl?: string
+): FhirBundle => ({
+  resourceType: 'Bundle',
+  type: 'searchset',
+  total,
+  link: [
+    { relation: 'self', url: selfUrl },
+    ...(nextUrl ? [{ relation: 'next' as const, url: nextUrl }] : [])
+  ],
+  entry: patients.map(patient => ({
+    fullUrl: `${baseUrl}/Patient/${patient.id}`,
+    resource: toFhirPatient(patient),
+    search: { mode: 'match' as const }
+  }))
+});
+
+const ISSUE_TYPES: Record<number, FhirIssueType> = {
+  400: FhirIssueType.INVALID,
+  401: FhirIssueType.LOGIN,
+  403: FhirIssueType.FORBIDDEN,
+  404: FhirIssueType.NOT_FOUND,
+  409: FhirIssueType.CONFLICT,
+  413: FhirIssueType.TOO_COSTLY,
+  415: FhirIssueType.NOT_SUPPORTED,
+  429: FhirIssueType.THROTTLED
+};
+
+// One issue per validation error, else one issue with the message
+export const toOperationOutcome = (statusCode: number, message: string, errors?: string[]): FhirOperationOutcome => {
+  const code = ISSUE_TYPES[statusCode] || (statusCode >= 500 ? FhirIssueType.EXCEPTION : FhirIssueType.INVALID);
+  const issue = (diagnostics: string): FhirIssue => ({ severity: 'error', code, diagnostics });
+
+  return {
+    resourceType: 'OperationOutcome',
+    issue: errors && errors.length > 0 ? errors.map(issue) : [issue(message)]
+  };
+};
@@ -1,8 +1,10 @@
 import { Kafka, Producer, Consumer, EachMessagePayload } from 'kafkajs';
 import { config } from './config';
 import { logger } from './logger';
+import { EventMessage, EventPublisher, EventSubscriber, ReceivedEvent } from '@/types';
 
-class KafkaService {
+class KafkaService implements EventPublisher, EventSubscriber {
+  readonly name = 'kafka';
   private kafka: Kafka;
   private producer: Producer;
   private consumer: Consumer;
@@ -52,45 +54,57 @@ class KafkaService {
     }
   }
 
-  async publishEvent(topic: string, message: any, key?: string): Promise<void> {
+  // Messages are keyed by patient so each patient's events stay ordered within a partition
+  async publishEvent(topic: string, message: EventMessage, messageId?: string): Promise<void> {
     try {
+      const key = message.patientId || null;
       await this.producer.send({
         topic,
         messages: [
           {
-            key: key || null,
+            key,
             value: JSON.stringify({
               ...message,
-              timestamp: new Date().toISOString(),
+              timestamp: message.timestamp || new Date().toISOString(),
               service: 'ms-patients',
             }),
+            headers: {
+              messageId: messageId || `${message.eventType}-${Date.now()}`,
+              eventType: message.eventType,
+            },
           },
         ],
       });
-      logger.info(`Event published to topic ${topic}:`, { key, message });
+      logger.info(`Event published to topic ${topic}:`, { key, messageId, eventType: message.eventType });
     } catch (error) {
       logger.error(`Failed to publish event to topic ${topic}:`, error);
       throw error;
     }
   }
 
-  async subscribe(topics: string[], messageHandler: (payload: EachMessagePayload) => Promise<void>): Promise<void> {
+  // A handler error is rethrown so kafkajs retries the message without committing its offset;
+  // the inbound event consumer only throws for failures worth a redelivery
+  async subscribe(topics: string[], messageHandler: (event: ReceivedEvent) => Promise<void>): Promise<void> {
     try {
       await this.consumer.subscribe({ topics, fromBeginning: false });
       
       await this.consumer.run({
-        eachMessage: async (payload) => {
+        eachMessage: async (payload: EachMessagePayload) => {
+          logger.info(`Received message from topic ${payload.topic}:`, {
+            partition: payload.partition,
+            offset: payload.message.offset,
+            key: payload.message.key?.toString(),
+          });
+
           try {
-            logger.info(`Received message from topic ${payload.topic}:`, {
-              partition: payload.partition,
-              offset: payload.message.offset,
-              key: payload.message.key?.toString(),
+            await messageHandler({
+              destination: payload.topic,
+              messageId: payload.message.headers?.messageId?.toString(),
+              body: this.parseBody(payload.message.value?.toString() || '{}'),
             });
-            
-            await messageHandler(payload);
           } catch (error) {
-            logger.error('Error processing message:', error);
-            // Implement dead letter queue or retry logic here
+            logger.error('Error processing message, it will be retried:', error);
+            throw error;
           }
         },
       });
@@ -102,54 +116,19 @@ class KafkaService {
     }
   }
 
-  // Patient-specific event publishers
-  async publishPatientCreated(patient: any): Promise<void> {
-    await this.publishEvent(config.kafka.topics.patientCreated, {
-      eventType: 'PatientCreated',
-      patientId: patient.id,
-      data: patient,
-    }, patient.id);
-  }
-
-  async publishPatientUpdated(patientId: string, oldData: any, newData: any): Promise<void> {
-    await this.publishEvent(config.kafka.topics.patientUpdated, {
-      eventType: 'PatientUpdated',
-      patientId,
-      oldData,
-      newData,
-      changes: this.getChanges(oldData, newData),
-    }, patientId);
+  // The consumer stays connected until disconnect(); stop() waits for the message in progress
+  async unsubscribe(): Promise<void> {
+    await this.consumer.stop();
+    logger.info('Kafka consumer stopped');
   }
 
-  async publishPatientDeleted(patientId: string, patientData: any): Promise<void> {
-    await this.publishEvent(config.kafka.topics.patientDeleted, {
-      eventType: 'PatientDeleted',
-      patientId,
-      data: patientData,
-    }, patientId);
-  }
-
-  async publishPatientValidated(patientId: string, validationResult: any): Promise<void> {
-    await this.publishEvent(config.kafka.topics.patientValidated, {
-      eventType: 'PatientValidated',
-      patientId,
-      validationResult,
-    }, patientId);
-  }
-
-  private getChanges(oldData: any, newData: any): Record<string, { from: any; to: any }> {
-    const changes: Record<string, { from: any; to: any }> = {};
-    
-    for (const key in newData) {
-      if (oldData[key] !== newData[key]) {
-        changes[key] = {
-          from: oldData[key],
-          to: newData[key],
-        };
-      }
+  // A value that is not JSON is handed over as-is, so the consumer dead-letters it instead of retrying
+  private parseBody(value: string): Record<string, any> {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return { raw: value };
     }
-    
-    return changes;
   }
 }
 
@@ -157,23 +136,7 @@ export const kafkaService = new KafkaService();
 
 export const initializeKafka = async (): Promise<void> => {
   await kafkaService.connect();
-  
-  // Subscribe to relevant topics for this service
-  const topicsToSubscribe: string[] = [
-    // Add topics this service should listen to
-    // For example: billing events, audit events, etc.
-  ];
-  
-  if (topicsToSubscribe.length > 0) {
-    await kafkaService.subscribe(topicsToSubscribe, async (payload) => {
-      // Handle incoming messages
-      const message = JSON.parse(payload.message.value?.toString() || '{}');
-      logger.info('Received event:', { topic: payload.topic, message });
-      
-      // Process the message based on topic and event type
-      // This is where you'd implement event handlers
-    });
-  }
+  // Consumers of other services' events subscribe through the inbound event consumer
 };
 
 // Graceful shutdown
@@ -0,0 +1,83 @@
+import { NAME_PARTICLES } from './patient-matching';
+
+// Search keys of the patient name, stored on the read model by the projector. Words are folded
+// (no accents, lowercase) for prefix matching, and each word also gets a BuscaBR phonetic key
+// (Lucena's algorithm for Brazilian Portuguese) so "Souza"/"Sousa" or "Thiago"/"Tiago" match.
+// Connecting particles ("de", "da", ...) are left out of both.
+
+export interface NameSearchKeys {
+  nameNormalized: string;
+  nameTokens: string[];
+  namePhonetic: string[];
+}
+
+export interface NameSearchTerm {
+  token: string;
+  phonetic: string;
+}
+
+const fold = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+// Whole name without accents, case or punctuation (particles kept)
+export const foldName = (value: string): string =>
+  fold(value || '').replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Words of the name as typed (only the cedilla matters to the phonetic key), without particles
+const nameWords = (value: string): string[] =>
+  (value || '')
+    .toLowerCase()
+    .replace(/[^a-z\u00e0-\u00ff\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_PARTICLES.has(fold(word)));
+
+// Replacements in the order of the algorithm; the terminal sounds are dropped before N/AO become M
+const BUSCABR_STEPS: Array<[RegExp, string]> = [
+  [/B[LR]/g, 'B'],
+  [/PH/g, 'F'],
+  [/(GL|GR|MG|NG|RG)/g, 'G'],
+  [/Y/g, 'I'],
+  [/(GE|GI|RJ|MJ)/g, 'J'],
+  [/(CA|CO|CU|CK|Q)/g, 'K'],
+  [/(CE|CI|CH)/g, 'S'],
+  [/(CS|RS|TS|X|Z)/g, 'S'],
+  [/(TR|TL|CT|RT|ST|PT)/g, 'T'],
+  [/(S|Z|R|M|N|AO|L)$/, ''],
+  [/(AO|N)/g, 'M'],
+  [/L/g, 'R'],
+  [/[AEIOUH]/g, '']
+];
+
+// Relevance of each query term: the whole word, a word prefix, or only the sound. A name that
+// starts with the whole query gets the phrase bonus on top of the average of its terms.
+export const NAME_MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.8,
+  phonetic: 0.6,
+  phrase: 0.1
+};
+
+export const phoneticKey = (word: string): string => {
+  let key = fold(word.toLowerCase().replace(/ç/g, 's')).toUpperCase().replace(/[^A-Z]/g, '');
+  for (const [pattern, replacement] of BUSCABR_STEPS) {
+    key = key.replace(pattern, replacement);
+  }
+  return key.replace(/(.)\1+/g, '$1');
+};
+
+export const nameSearchKeys = (fullName: string): NameSearchKeys => {
+  const words = nameWords(fullName);
+  return {
+    nameNormalized: foldName(fullName),
+    nameTokens: words.map(fold),
+    namePhonetic: [...new Set(words.map(phoneticKey).filter(Boolean))]
+  };
+};
+
+// Terms of a name typed in the search; each one may be a partial word
+export const nameSearchTerms = (query: string): NameSearchTerm[] =>
+  nameWords(query).map(word => ({ token: fold(word), phonetic: phoneticKey(word) }));
+
@@ -0,0 +1,50 @@
+import { SENSITIVE_PATIENT_FIELDS } from './pii-policy';
+import { FieldVisibility, PatientFieldPolicy, SensitivePatientField, SerializedPatient } from '@/types';
+import { PATIENT_EXPORT_COLUMNS, PatientExportColumn, PatientExportFormat } from '@/types/patient-search.types';
+
+// Files produced by the patient search export. Rows are serialized with the caller's PII policy
+// first, so masked fields are exported masked and omitted fields are not columns at all.
+
+export const PATIENT_EXPORT_MIME_TYPES: Record<PatientExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson'
+};
+
+// Columns the policy allows, in file order
+export const allowedExportColumns = (policy: PatientFieldPolicy): PatientExportColumn[] =>
+  PATIENT_EXPORT_COLUMNS.filter(column =>
+    !SENSITIVE_PATIENT_FIELDS.includes(column as SensitivePatientField) ||
+    (policy[column as SensitivePatientField] || FieldVisibility.OMITTED) !== FieldVisibility.OMITTED
+  );
+
+const exportValue = (value: any): any => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Cells starting with these characters are run as formulas by spreadsheet applications
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: any): string => {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// First line of the file (none for NDJSON); the BOM makes Excel read the CSV as UTF-8
+export const exportHeader = (format: PatientExportFormat, columns: PatientExportColumn[]): string =>
+  format === 'csv' ? `\uFEFF${columns.join(',')}\r\n` : '';
+
+export const exportLine = (
+  format: PatientExportFormat,
+  columns: PatientExportColumn[],
+  patient: SerializedPatient
+): string => {
+  const values = columns.map(column => exportValue((patient as Record<string, any>)[column]));
+  if (format === 'csv') {
+    return `${values.map(csvCell).join(',')}\r\n`;
+  }
+  return `${JSON.stringify(Object.fromEntries(columns.map((column, index) => [column, values[index]])))}\n`;
+};
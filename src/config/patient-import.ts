@@ -0,0 +1,171 @@
+import { foldName } from './name-search';
+
+// Columns of the patient import file. Headers are matched without accents, case, spaces or
+// punctuation, in English (the API field names) or Portuguese, so "Data de Nascimento",
+// "data_nascimento" and "birthDate" are the same column. Unknown columns are ignored.
+
+export type PatientImportField =
+  | 'fullName'
+  | 'cpf'
+  | 'rg'
+  | 'cns'
+  | 'birthDate'
+  | 'gender'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'medicalRecordNumber'
+  | 'admissionDate'
+  | 'roomNumber'
+  | 'responsibleDoctor'
+  | 'insurancePlan'
+  | 'insuranceNumber'
+  | 'insuranceValidity'
+  | 'accommodationType'
+  | 'allergies'
+  | 'chronicConditions'
+  | 'emergencyContactName'
+  | 'emergencyContactRelationship'
+  | 'emergencyContactPhone';
+
+export const PATIENT_IMPORT_COLUMNS: Record<PatientImportField, string[]> = {
+  fullName: ['fullName', 'name', 'nome', 'nomeCompleto', 'nomePaciente'],
+  cpf: ['cpf'],
+  rg: ['rg'],
+  cns: ['cns', 'cartaoSus', 'cartaoNacionalDeSaude'],
+  birthDate: ['birthDate', 'dataNascimento', 'dataDeNascimento', 'nascimento'],
+  gender: ['gender', 'sexo', 'genero'],
+  phone: ['phone', 'telefone', 'celular'],
+  email: ['email', 'eMail'],
+  address: ['address', 'endereco'],
+  medicalRecordNumber: ['medicalRecordNumber', 'prontuario', 'numeroProntuario'],
+  admissionDate: ['admissionDate', 'dataAdmissao', 'dataDeAdmissao', 'dataInternacao', 'dataDeInternacao'],
+  roomNumber: ['roomNumber', 'quarto', 'leito'],
+  responsibleDoctor: ['responsibleDoctor', 'medicoResponsavel'],
+  insurancePlan: ['insurancePlan', 'convenio', 'planoDeSaude'],
+  insuranceNumber: ['insuranceNumber', 'carteirinha', 'numeroCarteirinha'],
+  insuranceValidity: ['insuranceValidity', 'validadeCarteirinha', 'validadeConvenio'],
+  accommodationType: ['accommodationType', 'acomodacao', 'tipoAcomodacao'],
+  allergies: ['allergies', 'alergias'],
+  chronicConditions: ['chronicConditions', 'condicoesCronicas', 'doencasCronicas'],
+  emergencyContactName: ['emergencyContactName', 'contatoEmergencia', 'contatoDeEmergencia'],
+  emergencyContactRelationship: ['emergencyContactRelationship', 'parentescoContato', 'parentescoContatoEmergencia'],
+  emergencyContactPhone: ['emergencyContactPhone', 'telefoneContato', 'telefoneContatoEmergencia']
+};
+
+export const REQUIRED_IMPORT_FIELDS: PatientImportField[] = [
+  'fullName',
+  'cpf',
+  'birthDate',
+  'gender',
+  'phone',
+  'email',
+  'address'
+];
+
+export interface PatientImportColumns {
+  // Field of each column of the file, by position (undefined for ignored columns)
+  fields: Array<PatientImportField | undefined>;
+  missing: PatientImportField[];
+  duplicated: PatientImportField[];
+}
+
+const DATE_FIELDS = new Set<PatientImportField>(['birthDate', 'admissionDate', 'insuranceValidity']);
+const LIST_FIELDS = new Set<PatientImportField>(['allergies', 'chronicConditions']);
+
+const GENDERS: Record<string, string> = {
+  m: 'male',
+  masculino: 'male',
+  male: 'male',
+  f: 'female',
+  feminino: 'female',
+  female: 'female',
+  o: 'other',
+  outro: 'other',
+  other: 'other',
+  ni: 'not_informed',
+  naoinformado: 'not_informed',
+  notinformed: 'not_informed'
+};
+
+const ACCOMMODATION_TYPES: Record<string, string> = {
+  apartamento: 'apartment',
+  apartment: 'apartment',
+  enfermaria: 'shared',
+  compartilhado: 'shared',
+  shared: 'shared'
+};
+
+const headerKey = (header: string): string => foldName(header).replace(/ /g, '');
+
+const HEADER_FIELDS = new Map<string, PatientImportField>(
+  (Object.entries(PATIENT_IMPORT_COLUMNS) as Array<[PatientImportField, string[]]>)
+    .flatMap(([field, aliases]) => aliases.map(alias => [headerKey(alias), field] as [string, PatientImportField]))
+);
+
+export const mapImportColumns = (header: string[]): PatientImportColumns => {
+  const fields = header.map(column => HEADER_FIELDS.get(headerKey(column)));
+  const present = fields.filter((field): field is PatientImportField => field !== undefined);
+
+  return {
+    fields,
+    missing: REQUIRED_IMPORT_FIELDS.filter(field => !present.includes(field)),
+    duplicated: [...new Set(present.filter((field, index) => present.indexOf(field) !== index))]
+  };
+};
+
+// Spreadsheet dates: ISO (YYYY-MM-DD), Brazilian (DD/MM/YYYY) or an Excel serial day number
+const toIsoDate = (value: string): string => {
+  const brazilian = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (brazilian) {
+    return `${brazilian[3]}-${brazilian[2].padStart(2, '0')}-${brazilian[1].padStart(2, '0')}`;
+  }
+  if (/^\d{1,5}(\.\d+)?$/.test(value)) {
+    const excelEpoch = Date.UTC(1899, 11, 30);
+    return new Date(excelEpoch + Math.floor(parseFloat(value)) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+  return value;
+};
+
+// Request body of one row, before validation. Empty cells are left out so the create schema
+// reports missing required values; values that cannot be converted are passed on as typed.
+export const toPatientImportData = (cells: string[], columns: PatientImportColumns): Record<string, any> => {
+  const values: Partial<Record<PatientImportField, string>> = {};
+  columns.fields.forEach((field, index) => {
+    const value = (cells[index] ?? '').trim();
+    if (field && value) {
+      values[field] = value;
+    }
+  });
+
+  const data: Record<string, any> = {};
+  for (const [field, value] of Object.entries(values) as Array<[PatientImportField, string]>) {
+    if (field.startsWith('emergencyContact')) {
+      continue;
+    }
+    if (DATE_FIELDS.has(field)) {
+      data[field] = toIsoDate(value);
+    } else if (LIST_FIELDS.has(field)) {
+      data[field] = value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+    } else if (field === 'gender') {
+      data[field] = GENDERS[headerKey(value)] ?? value;
+    } else if (field === 'accommodationType') {
+      data[field] = ACCOMMODATION_TYPES[headerKey(value)] ?? value;
+    } else if (field === 'cpf' && /^\d{9,10}$/.test(value)) {
+      // Spreadsheets store an unformatted CPF as a number and drop its leading zeros
+      data[field] = value.padStart(11, '0');
+    } else {
+      data[field] = value;
+    }
+  }
+
+  if (values.emergencyContactName || values.emergencyContactRelationship || values.emergencyContactPhone) {
+    data.emergencyContact = {
+      name: values.emergencyContactName,
+      relationship: values.emergencyContactRelationship,
+      phone: values.emergencyContactPhone
+    };
+  }
+
+  return data;
+};
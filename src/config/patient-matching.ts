@@ -0,0 +1,162 @@
+import { DuplicateMatch, DuplicateMatchField, Patient } from '@/types';
+
+// Scores how likely two patient records are the same person. Each field gets a similarity from
+// 0 to 1 and the score is their weighted sum. Names are compared without accents, case and
+// connecting particles ("de", "da", ...), and a name whose words are all contained in the other
+// (a missing middle name) counts as a full match. Empty values (e.g. anonymized patients) never match.
+
+const WEIGHTS: Record<DuplicateMatchField, number> = {
+  name: 0.35,
+  birthDate: 0.25,
+  cpf: 0.2,
+  phone: 0.1,
+  email: 0.1
+};
+
+export const NAME_PARTICLES = new Set(['de', 'da', 'do', 'das', 'dos', 'e']);
+
+export const normalizeName = (value: string): string =>
+  (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_PARTICLES.has(word))
+    .join(' ');
+
+const digits = (value?: string): string => (value || '').replace(/\D/g, '');
+
+const jaroWinkler = (a: string, b: string): number => {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (aMatched[i]) {
+      while (!bMatched[j]) {
+        j++;
+      }
+      if (a[i] !== b[j]) {
+        transpositions++;
+      }
+      j++;
+    }
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+
+  const leftWords = left.split(' ');
+  const rightWords = right.split(' ');
+  const [shorter, longer] = leftWords.length <= rightWords.length ? [leftWords, rightWords] : [rightWords, leftWords];
+  const contained = shorter.length >= 2 && shorter.every(word => longer.includes(word));
+
+  return contained ? 1 : jaroWinkler(left, right);
+};
+
+// Same day, or day and month swapped when typed
+const birthDateSimilarity = (a?: Date, b?: Date): number => {
+  if (!a || !b) {
+    return 0;
+  }
+  const left = new Date(a);
+  const right = new Date(b);
+  if (left.getUTCFullYear() !== right.getUTCFullYear()) {
+    return 0;
+  }
+  if (left.getUTCMonth() === right.getUTCMonth() && left.getUTCDate() === right.getUTCDate()) {
+    return 1;
+  }
+  return left.getUTCMonth() + 1 === right.getUTCDate() && left.getUTCDate() === right.getUTCMonth() + 1 ? 0.5 : 0;
+};
+
+// Equal, or one mistyped or transposed digit
+const cpfSimilarity = (a: string, b: string): number => {
+  const left = digits(a);
+  const right = digits(b);
+  if (left.length !== 11 || right.length !== 11) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+
+  const differences = [...left].map((digit, index) => (digit === right[index] ? -1 : index)).filter(index => index >= 0);
+  const transposed = differences.length === 2 && differences[1] === differences[0] + 1 &&
+    left[differences[0]] === right[differences[1]] && left[differences[1]] === right[differences[0]];
+  return differences.length === 1 || transposed ? 0.5 : 0;
+};
+
+// Compared without country and area codes
+const phoneSimilarity = (a: string, b: string): number => {
+  const left = digits(a).slice(-8);
+  const right = digits(b).slice(-8);
+  return left.length === 8 && left === right ? 1 : 0;
+};
+
+const emailSimilarity = (a: string, b: string): number => {
+  const left = (a || '').trim().toLowerCase();
+  const right = (b || '').trim().toLowerCase();
+  if (!left.includes('@') || !right.includes('@')) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  return left.split('@')[0] === right.split('@')[0] ? 0.5 : 0;
+};
+
+export const scorePatientPair = (a: Patient, b: Patient): DuplicateMatch => {
+  const fieldScores: Record<DuplicateMatchField, number> = {
+    name: nameSimilarity(a.fullName, b.fullName),
+    birthDate: birthDateSimilarity(a.birthDate, b.birthDate),
+    cpf: cpfSimilarity(a.cpf, b.cpf),
+    phone: phoneSimilarity(a.phone, b.phone),
+    email: emailSimilarity(a.email, b.email)
+  };
+
+  const score = (Object.keys(WEIGHTS) as DuplicateMatchField[])
+    .reduce((total, field) => total + WEIGHTS[field] * fieldScores[field], 0);
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    fieldScores: Object.fromEntries(
+      Object.entries(fieldScores).map(([field, value]) => [field, Math.round(value * 1000) / 1000])
+    ) as Record<DuplicateMatchField, number>
+  };
+};
@@ -0,0 +1,114 @@
+import { nameSearchTerms } from './name-search';
+import { PATIENT_SORT_FIELDS } from '@/types/patient-search.types';
+
+// Keyset (cursor) pagination of the patient search. A cursor is the sort key and ID of the
+// first or last patient of a page, encoded as opaque base64url JSON, so the next page starts
+// right after that patient no matter how many were admitted meanwhile. The ID breaks ties
+// between patients with the same sort value. A cursor is only valid for the sort it was made for.
+
+export type SortOrder = 'asc' | 'desc';
+export type CursorDirection = 'next' | 'prev';
+
+export interface PatientSearchSort {
+  field: string;
+  order: SortOrder;
+}
+
+export interface PatientSearchCursor {
+  sort: PatientSearchSort;
+  value: string | number | Date | null;
+  id: string;
+  direction: CursorDirection;
+}
+
+// Sort actually applied: the whitelisted sortBy, else relevance for a name search, else newest first
+export const resolvePatientSearchSort = (
+  name: string | undefined,
+  sortBy: string | undefined,
+  sortOrder: string | undefined
+): PatientSearchSort => {
+  const field = PATIENT_SORT_FIELDS.find(sortField => sortField === sortBy);
+  if (field) {
+    return { field, order: sortOrder === 'desc' ? 'desc' : 'asc' };
+  }
+  if (name && nameSearchTerms(name).length > 0) {
+    return { field: 'searchScore', order: 'desc' };
+  }
+  return { field: 'createdAt', order: 'desc' };
+};
+
+export const encodeSearchCursor = (cursor: PatientSearchCursor): string =>
+  Buffer.from(JSON.stringify({
+    f: cursor.sort.field,
+    o: cursor.sort.order,
+    v: cursor.value instanceof Date ? { $date: cursor.value.toISOString() } : cursor.value ?? null,
+    id: cursor.id,
+    d: cursor.direction
+  })).toString('base64url');
+
+// Fields a cursor may sort on: the whitelisted sort fields and the relevance of a name search
+const CURSOR_SORT_FIELDS: readonly string[] = [...PATIENT_SORT_FIELDS, 'searchScore'];
+
+// Sort value of a decoded cursor: a string, a finite number, null or a {$date} object with a valid
+// date. Anything else (e.g. a MongoDB operator object) is rejected, since the value goes into
+// the search filter as it is.
+const decodeCursorValue = (v: unknown): { value: string | number | Date | null } | null => {
+  if (v === null || typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v))) {
+    return { value: v };
+  }
+  if (typeof v === 'object' && !Array.isArray(v) && Object.keys(v).length === 1 && typeof (v as any).$date === 'string') {
+    const date = new Date((v as any).$date);
+    return Number.isNaN(date.getTime()) ? null : { value: date };
+  }
+  return null;
+};
+
+// Returns null for a malformed cursor
+export const decodeSearchCursor = (value: string): PatientSearchCursor | null => {
+  try {
+    const { f, o, v, id, d } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof f !== 'string' || !CURSOR_SORT_FIELDS.includes(f) || (o !== 'asc' && o !== 'desc') ||
+      typeof id !== 'string' || (d !== 'next' && d !== 'prev')) {
+      return null;
+    }
+
+    const decoded = decodeCursorValue(v);
+    if (!decoded) {
+      return null;
+    }
+    return {
+      sort: { field: f, order: o },
+      value: decoded.value,
+      id,
+      direction: d
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Documents after the cursor in the direction of travel. Missing values sort first in ascending
+// order (and last in descending order), as MongoDB does.
+export const searchCursorFilter = (cursor: PatientSearchCursor): Record<string, any> => {
+  const { field } = cursor.sort;
+  const order = travelOrder(cursor);
+  const after = order === 'asc' ? '$gt' : '$lt';
+
+  if (cursor.value === null) {
+    return order === 'asc'
+      ? { $or: [{ [field]: null, id: { $gt: cursor.id } }, { [field]: { $ne: null } }] }
+      : { [field]: null, id: { $lt: cursor.id } };
+  }
+
+  return {
+    $or: [
+      { [field]: { [after]: cursor.value } },
+      { [field]: cursor.value, id: { [after]: cursor.id } },
+      ...(order === 'desc' ? [{ [field]: null }] : [])
+    ]
+  };
+};
+
+// A previous page is read backwards from the cursor and reversed afterwards
+export const travelOrder = (cursor: Pick<PatientSearchCursor, 'sort' | 'direction'>): SortOrder =>
+  cursor.direction === 'next' ? cursor.sort.order : cursor.sort.order === 'asc' ? 'desc' : 'asc';
@@ -0,0 +1,200 @@
+import {
+  AuditLogEntry,
+  FieldVisibility,
+  JWTPayload,
+  PaginatedResponse,
+  Patient,
+  PatientFieldPolicy,
+  SensitivePatientField,
+  SerializedPatient,
+  UserRole
+} from '@/types';
+
+// Which personal data of the patient each role receives from the API. A field is returned in
+// full, masked (e.g. CPF as ***.***.***-01) or omitted; fields missing from a policy are omitted.
+// Permissions in the token widen the role policy: `patients:pii:read` returns every field in
+// full and `patients:pii:read:<field>` a single field. Events published to other services carry
+// no personal data at all (see patient-event.contracts.ts), so they need no policy.
+
+export const PII_READ_PERMISSION = 'patients:pii:read';
+
+export const SENSITIVE_PATIENT_FIELDS: readonly SensitivePatientField[] = [
+  'cpf',
+  'rg',
+  'cns',
+  'phone',
+  'email',
+  'address',
+  'medicalRecordNumber',
+  'insuranceNumber',
+  'emergencyContact'
+];
+
+const { FULL, MASKED } = FieldVisibility;
+
+const FULL_ACCESS: PatientFieldPolicy = Object.fromEntries(SENSITIVE_PATIENT_FIELDS.map(field => [field, FULL]));
+
+// Used for roles without a policy and for requests without a user
+const RESTRICTED: PatientFieldPolicy = { cpf: MASKED };
+
+export const PATIENT_FIELD_POLICIES: Record<UserRole, PatientFieldPolicy> = {
+  [UserRole.ADMIN]: FULL_ACCESS,
+  [UserRole.DIRECTOR]: FULL_ACCESS,
+  [UserRole.AUDITOR]: FULL_ACCESS,
+  [UserRole.DOCTOR]: FULL_ACCESS,
+  [UserRole.NURSE]: {
+    cpf: MASKED,
+    rg: MASKED,
+    cns: MASKED,
+    phone: FULL,
+    email: MASKED,
+    address: MASKED,
+    medicalRecordNumber: FULL,
+    insuranceNumber: MASKED,
+    emergencyContact: FULL
+  },
+  [UserRole.RECEPTIONIST]: {
+    cpf: MASKED,
+    rg: MASKED,
+    cns: MASKED,
+    phone: FULL,
+    email: MASKED,
+    address: MASKED,
+    medicalRecordNumber: FULL,
+    insuranceNumber: MASKED,
+    emergencyContact: FULL
+  },
+  [UserRole.ANALYST]: {
+    cpf: MASKED,
+    rg: MASKED,
+    cns: MASKED,
+    phone: MASKED,
+    email: MASKED,
+    address: MASKED,
+    medicalRecordNumber: FULL,
+    insuranceNumber: FULL
+  },
+  [UserRole.MANAGER]: {
+    cpf: MASKED,
+    rg: MASKED,
+    cns: MASKED,
+    phone: MASKED,
+    email: MASKED,
+    address: MASKED,
+    medicalRecordNumber: FULL,
+    insuranceNumber: MASKED
+  },
+  [UserRole.TECHNICIAN]: {
+    cpf: MASKED,
+    medicalRecordNumber: FULL
+  },
+  [UserRole.PATIENT]: RESTRICTED
+};
+
+const keepLast = (value: string, visible: number): string =>
+  value.length <= visible ? '*'.repeat(value.length) : '*'.repeat(value.length - visible) + value.slice(-visible);
+
+const maskPhone = (value: string): string => `(**) *****-${value.replace(/\D/g, '').slice(-4)}`;
+
+const MASKS: Record<SensitivePatientField, (value: any) => any> = {
+  // Only the check digits are kept
+  cpf: (value: string) => `***.***.***-${value.replace(/\D/g, '').slice(-2)}`,
+  rg: (value: string) => keepLast(value, 2),
+  cns: (value: string) => keepLast(value.replace(/\D/g, ''), 4),
+  phone: maskPhone,
+  email: (value: string) => {
+    const at = value.lastIndexOf('@');
+    return at > 0 ? `${value[0]}***${value.slice(at)}` : '***';
+  },
+  // Only the last part (usually city and state) is kept
+  address: (value: string) => {
+    const parts = value.split(',');
+    return parts.length > 1 ? `***, ${parts[parts.length - 1].trim()}` : '***';
+  },
+  medicalRecordNumber: (value: string) => keepLast(value, 4),
+  insuranceNumber: (value: string) => keepLast(value, 4),
+  emergencyContact: (value: { name: string; relationship: string; phone: string }) => ({
+    ...value,
+    phone: typeof value.phone === 'string' ? maskPhone(value.phone) : value.phone
+  })
+};
+
+// Policy of the user's role plus the fields granted by permissions
+export const resolvePatientFieldPolicy = (user?: Pick<JWTPayload, 'role' | 'permissions'>): PatientFieldPolicy => {
+  if (!user) {
+    return RESTRICTED;
+  }
+
+  const permissions = user.permissions || [];
+  if (permissions.includes(PII_READ_PERMISSION)) {
+    return FULL_ACCESS;
+  }
+
+  const policy: PatientFieldPolicy = { ...(PATIENT_FIELD_POLICIES[user.role] || RESTRICTED) };
+  for (const field of SENSITIVE_PATIENT_FIELDS) {
+    if (permissions.includes(`${PII_READ_PERMISSION}:${field}`)) {
+      policy[field] = FULL;
+    }
+  }
+  return policy;
+};
+
+const isOmitted = (field: string, policy: PatientFieldPolicy): boolean =>
+  SENSITIVE_PATIENT_FIELDS.includes(field as SensitivePatientField) &&
+  (policy[field as SensitivePatientField] || FieldVisibility.OMITTED) === FieldVisibility.OMITTED;
+
+// Applies the policy to any object holding patient fields (patient, audit snapshot)
+const applyPolicy = <T extends Record<string, any>>(record: T, policy: PatientFieldPolicy): T => {
+  const result: Record<string, any> = { ...record };
+  for (const field of SENSITIVE_PATIENT_FIELDS) {
+    if (result[field] === undefined || result[field] === null) {
+      continue;
+    }
+
+    const visibility = policy[field] || FieldVisibility.OMITTED;
+    if (visibility === FieldVisibility.MASKED) {
+      result[field] = MASKS[field](result[field]);
+    } else if (visibility === FieldVisibility.OMITTED) {
+      delete result[field];
+    }
+  }
+  return result as T;
+};
+
+export const serializePatient = (patient: Patient, policy: PatientFieldPolicy): SerializedPatient =>
+  applyPolicy(patient, policy);
+
+export const serializePatientPage = (
+  page: PaginatedResponse<Patient>,
+  policy: PatientFieldPolicy
+): PaginatedResponse<SerializedPatient> => ({
+  ...page,
+  data: page.data.map(patient => serializePatient(patient, policy))
+});
+
+// Audit entries keep snapshots and diffs of the patient, which are filtered the same way
+const serializeAuditEntry = (entry: AuditLogEntry, policy: PatientFieldPolicy): AuditLogEntry => {
+  const isRecord = (value: any): value is Record<string, any> => !!value && typeof value === 'object';
+  const maskChange = (field: string, value: any): any => applyPolicy({ [field]: value }, policy)[field];
+
+  const changes = entry.changes && Object.fromEntries(
+    Object.entries(entry.changes)
+      .filter(([field]) => !isOmitted(field, policy))
+      .map(([field, change]) => [field, { from: maskChange(field, change.from), to: maskChange(field, change.to) }])
+  );
+
+  return {
+    ...entry,
+    oldData: isRecord(entry.oldData) ? applyPolicy(entry.oldData, policy) : entry.oldData,
+    newData: isRecord(entry.newData) ? applyPolicy(entry.newData, policy) : entry.newData,
+    changes
+  };
+};
+
+export const serializeAuditPage = (
+  page: PaginatedResponse<AuditLogEntry>,
+  policy: PatientFieldPolicy
+): PaginatedResponse<AuditLogEntry> => ({
+  ...page,
+  data: page.data.map(entry => serializeAuditEntry(entry, policy))
+});
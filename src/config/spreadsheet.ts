@@ -0,0 +1,174 @@
+import { readZip } from './zip';
+
+// Readers for the tabular files accepted by the patient import: CSV (RFC 4180, comma, semicolon
+// or tab separated, UTF-8 or Windows-1252 as exported by Excel) and XLSX (first worksheet only).
+// Both return the cells as text, one array per row, with the header in the first row; rows keep
+// their position in the file so reports can point to the spreadsheet row number.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const SPREADSHEET_MIME_TYPES: Record<SpreadsheetFormat, string[]> = {
+  csv: ['text/csv', 'application/csv', 'text/plain', 'application/vnd.ms-excel'],
+  xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+};
+
+// Accepted by the upload filter; a generic binary upload is told apart by its file extension
+export const SPREADSHEET_UPLOAD_TYPES = [
+  ...SPREADSHEET_MIME_TYPES.csv,
+  ...SPREADSHEET_MIME_TYPES.xlsx,
+  'application/octet-stream'
+];
+
+// Cap for each XML part inflated from an XLSX archive
+const MAX_XLSX_PART_SIZE = 50 * 1024 * 1024;
+
+export const detectSpreadsheetFormat = (filename: string, mimeType: string): SpreadsheetFormat | null => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || SPREADSHEET_MIME_TYPES.xlsx.includes(mimeType)) {
+    return 'xlsx';
+  }
+  if (extension === 'csv' || SPREADSHEET_MIME_TYPES.csv.includes(mimeType)) {
+    return 'csv';
+  }
+  return null;
+};
+
+export const readSpreadsheet = (content: Buffer, format: SpreadsheetFormat): string[][] =>
+  format === 'xlsx' ? readXlsx(content) : parseCsv(decodeText(content));
+
+// UTF-8 when the bytes are valid UTF-8, else Windows-1252 (Excel's "CSV" on Brazilian Windows)
+const decodeText = (content: Buffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(content);
+  }
+};
+
+// The separator is whichever of comma, semicolon or tab is most frequent in the header line
+const detectDelimiter = (text: string): string => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: header.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code.toLowerCase()];
+  });
+
+const xmlAttribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Text of the <t> runs of a shared or inline string (rich text is split into several runs)
+const xmlText = (xml: string): string =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+
+// Zero-based column of a cell reference ("A1" -> 0, "AB7" -> 27)
+const columnIndex = (reference: string): number =>
+  [...reference.replace(/\d+$/, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const readXlsx = (content: Buffer): string[][] => {
+  const parts = readZip(content, MAX_XLSX_PART_SIZE);
+  const part = (name: string): string | undefined => parts.get(name)?.toString('utf8');
+
+  const sharedStrings = [...(part('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => xmlText(match[1]));
+
+  // First sheet of the workbook, resolved through the workbook relationships
+  const sheetId = xmlAttribute(part('xl/workbook.xml')?.match(/<sheet\s[^>]*>/)?.[0] || '', 'r:id');
+  const relationship = [...(part('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\s[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => xmlAttribute(tag, 'Id') === sheetId);
+  const target = relationship ? xmlAttribute(relationship, 'Target') : undefined;
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+  const sheet = part(sheetPath);
+  if (!sheet) {
+    throw new Error('Workbook has no worksheet');
+  }
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(xmlAttribute(rowMatch[1] || '', 'r') || '', 10) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1] || '';
+      const body = cellMatch[2] || '';
+      const reference = xmlAttribute(attributes, 'r');
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const type = xmlAttribute(attributes, 't');
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[parseInt(value || '', 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = xmlText(body);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      cells[reference ? columnIndex(reference) : cells.length] = text;
+    }
+
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+};
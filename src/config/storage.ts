@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { BlobServiceClient } from '@azure/storage-blob';
+import { config } from './config';
+import { logger } from './logger';
+
+export interface StoredObject {
+  url: string;
+  containerName: string;
+  blobName: string;
+}
+
+// Common interface for document storage backends
+export interface StorageProvider {
+  readonly name: string;
+  upload(blobName: string, content: Buffer, mimeType: string): Promise<StoredObject>;
+  download(containerName: string, blobName: string): Promise<Readable>;
+}
+
+// Local filesystem storage (development and tests)
+class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private basePath: string;
+  private containerName: string;
+
+  constructor() {
+    this.basePath = path.resolve(config.storage.localPath);
+    this.containerName = config.azureStorage.containerName;
+  }
+
+  async upload(blobName: string, content: Buffer): Promise<StoredObject> {
+    const filePath = this.resolvePath(this.containerName, blobName);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+
+    logger.debug('Document stored on local filesystem:', { blobName });
+    return {
+      url: `file://${filePath}`,
+      containerName: this.containerName,
+      blobName
+    };
+  }
+
+  async download(containerName: string, blobName: string): Promise<Readable> {
+    const filePath = this.resolvePath(containerName, blobName);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  private resolvePath(containerName: string, blobName: string): string {
+    const filePath = path.resolve(this.basePath, containerName, blobName);
+
+    // Blob names are generated server-side, but never allow escaping the storage root
+    if (!filePath.startsWith(this.basePath + path.sep)) {
+      throw new Error(`Invalid blob path: ${blobName}`);
+    }
+
+    return filePath;
+  }
+}
+
+// Azure Blob Storage
+class AzureBlobStorageProvider implements StorageProvider {
+  readonly name = 'azure';
+  private client: BlobServiceClient;
+  private containerName: string;
+
+  constructor() {
+    if (!config.azureStorage.connectionString) {
+      throw new Error('AZURE_STORAGE_CONNECTION_STRING is required for the azure storage provider');
+    }
+
+    this.client = BlobServiceClient.fromConnectionString(config.azureStorage.connectionString);
+    this.containerName = config.azureStorage.containerName;
+  }
+
+  async upload(blobName: string, content: Buffer, mimeType: string): Promise<StoredObject> {
+    const container = this.client.getContainerClient(this.containerName);
+    await container.createIfNotExists();
+
+    const blob = container.getBlockBlobClient(blobName);
+    await blob.uploadData(content, {
+      blobHTTPHeaders: { blobContentType: mimeType }
+    });
+
+    logger.debug('Document stored on Azure Blob Storage:', { blobName });
+    return {
+      url: blob.url,
+      containerName: this.containerName,
+      blobName
+    };
+  }
+
+  async download(containerName: string, blobName: string): Promise<Readable> {
+    const blob = this.client.getContainerClient(containerName).getBlobClient(blobName);
+    const response = await blob.download();
+
+    if (!response.readableStreamBody) {
+      throw new Error(`Empty blob body: ${blobName}`);
+    }
+
+    return response.readableStreamBody as Readable;
+  }
+}
+
+const createStorageProvider = (): StorageProvider => {
+  if (config.storage.provider === 'azure') {
+    return new AzureBlobStorageProvider();
+  }
+
+  return new LocalStorageProvider();
+};
+
+export const storageProvider: StorageProvider = createStorageProvider();
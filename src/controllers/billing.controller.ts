@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { BillingService } from '../services/billing.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import {
+  CreateBillingItemRequest,
+  ApproveBillingItemRequest,
+  RejectBillingItemRequest,
+  BillingItemSearchFilters,
+  PaginationParams
+} from '@/types';
+
+export class BillingController {
+  private billingService: BillingService;
+
+  constructor() {
+    this.billingService = new BillingService();
+  }
+
+  // Add a billing item to a patient
+  createBillingItem = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Creating billing item', { patientId: id, userId: req.user?.userId });
+
+    const itemData: CreateBillingItemRequest = req.body;
+    const result = await this.billingService.createBillingItem(id, itemData, {
+      id: req.user?.userId || '',
+      name: itemData.requesterName || req.user?.email || ''
+    });
+
+    res.status(201).json(result);
+  });
+
+  // List billing items of a patient
+  searchBillingItems = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Searching billing items', { patientId: id, query: req.query });
+
+    const filters: BillingItemSearchFilters = {
+      status: req.query.status as string,
+      category: req.query.category as string,
+      coverageType: req.query.coverageType as string,
+      procedureId: req.query.procedureId as string,
+      requestDateFrom: req.query.requestDateFrom as string,
+      requestDateTo: req.query.requestDateTo as string
+    };
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc'
+    };
+
+    const result = await this.billingService.searchBillingItems(id, filters, pagination);
+    res.json(result);
+  });
+
+  // Get a single billing item
+  getBillingItem = asyncHandler(async (req: Request, res: Response) => {
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new AppError('Patient ID and billing item ID are required', 400);
+    }
+
+    logger.info('Getting billing item', { patientId: id, billingItemId: itemId });
+
+    const result = await this.billingService.getBillingItemById(id, itemId);
+    res.json(result);
+  });
+
+  // Approve a billing item
+  approveBillingItem = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new AppError('Patient ID and billing item ID are required', 400);
+    }
+
+    logger.info('Approving billing item', { patientId: id, billingItemId: itemId, userId: req.user?.userId });
+
+    const approveData: ApproveBillingItemRequest = req.body || {};
+    const result = await this.billingService.approveBillingItem(id, itemId, approveData, req.user?.userId || '');
+
+    res.json(result);
+  });
+
+  // Reject a billing item
+  rejectBillingItem = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new AppError('Patient ID and billing item ID are required', 400);
+    }
+
+    logger.info('Rejecting billing item', { patientId: id, billingItemId: itemId, userId: req.user?.userId });
+
+    const rejectData: RejectBillingItemRequest = req.body;
+    const result = await this.billingService.rejectBillingItem(id, itemId, rejectData, req.user?.userId || '');
+
+    res.json(result);
+  });
+
+  // Mark a billing item as billed
+  markBillingItemBilled = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, itemId } = req.params;
+
+    if (!id || !itemId) {
+      throw new AppError('Patient ID and billing item ID are required', 400);
+    }
+
+    logger.info('Billing billing item', { patientId: id, billingItemId: itemId, userId: req.user?.userId });
+
+    const result = await this.billingService.markBillingItemBilled(id, itemId, req.user?.userId || '');
+    res.json(result);
+  });
+}
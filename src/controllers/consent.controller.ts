@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { ConsentService } from '../services/consent.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import {
+  ConsentHistoryFilters,
+  ConsentPurpose,
+  GrantConsentRequest,
+  RevokeConsentRequest
+} from '@/types';
+
+export class ConsentController {
+  private consentService: ConsentService;
+
+  constructor() {
+    this.consentService = new ConsentService();
+  }
+
+  // Consent in force for each purpose
+  getConsents = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    const result = await this.consentService.getConsents(id);
+    res.json(result);
+  });
+
+  // Every recorded version, newest first
+  getConsentHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    const filters: ConsentHistoryFilters = {
+      purpose: req.query.purpose as ConsentPurpose
+    };
+
+    const result = await this.consentService.getConsentHistory(id, filters);
+    res.json(result);
+  });
+
+  // Grant consent for a purpose
+  grantConsent = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, purpose } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Granting patient consent', { patientId: id, purpose, userId: req.user?.userId });
+
+    const data: GrantConsentRequest = req.body || {};
+    const result = await this.consentService.grantConsent(id, purpose as ConsentPurpose, data, getAuditContext(req));
+
+    res.status(201).json(result);
+  });
+
+  // Revoke consent for a purpose
+  revokeConsent = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, purpose } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Revoking patient consent', { patientId: id, purpose, userId: req.user?.userId });
+
+    const data: RevokeConsentRequest = req.body || {};
+    const result = await this.consentService.revokeConsent(id, purpose as ConsentPurpose, data, getAuditContext(req));
+
+    res.status(201).json(result);
+  });
+}
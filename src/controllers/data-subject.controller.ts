@@ -0,0 +1,103 @@
+import { Response } from 'express';
+import { DataSubjectService } from '../services/data-subject.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import {
+  CreateDataSubjectRequest,
+  DataSubjectRequestFilters,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  PaginationParams,
+  PatientDataExportFormat
+} from '@/types';
+
+export class DataSubjectController {
+  private dataSubjectService: DataSubjectService;
+
+  constructor() {
+    this.dataSubjectService = new DataSubjectService();
+  }
+
+  // Register a request received from a data subject
+  createRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    logger.info('Registering data subject request', { userId: req.user?.userId });
+
+    const data: CreateDataSubjectRequest = req.body;
+    const result = await this.dataSubjectService.createRequest(data, getAuditContext(req));
+
+    res.status(201).json(result);
+  });
+
+  // List data subject requests
+  listRequests = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const filters: DataSubjectRequestFilters = {
+      patientId: req.query.patientId as string,
+      type: req.query.type as DataSubjectRequestType,
+      status: req.query.status as DataSubjectRequestStatus,
+      overdue: req.query.overdue === 'true'
+    };
+
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      sortOrder: req.query.sortOrder === 'desc' ? 'desc' : 'asc'
+    };
+
+    const result = await this.dataSubjectService.listRequests(filters, pagination);
+    res.json(result);
+  });
+
+  // Get a data subject request
+  getRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { requestId } = req.params;
+
+    if (!requestId) {
+      throw new AppError('Request ID is required', 400);
+    }
+
+    const result = await this.dataSubjectService.getRequest(requestId);
+    res.json(result);
+  });
+
+  // Export everything held about the patient (access request)
+  exportPatientData = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Exporting patient data', { patientId: id, userId: req.user?.userId });
+
+    const format: PatientDataExportFormat = req.query.format === 'zip' ? 'zip' : 'json';
+    const { request, filename, mimeType, content } = await this.dataSubjectService.exportPatientData(
+      id,
+      format,
+      getAuditContext(req),
+      req.query.requestId as string | undefined
+    );
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Length', content.length.toString());
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Data-Subject-Request-Id', request.id);
+    res.send(content);
+  });
+
+  // Anonymize the patient (erasure request)
+  anonymizePatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Anonymizing patient', { patientId: id, userId: req.user?.userId });
+
+    const { requestId, notes } = req.body || {};
+    const result = await this.dataSubjectService.anonymizePatient(id, getAuditContext(req), requestId, notes);
+    res.json(result);
+  });
+}
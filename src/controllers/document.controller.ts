@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { DocumentService } from '../services/document.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { UploadDocumentRequest, DocumentSearchFilters, PaginationParams } from '@/types';
+
+export class DocumentController {
+  private documentService: DocumentService;
+
+  constructor() {
+    this.documentService = new DocumentService();
+  }
+
+  // Upload a document (multipart/form-data, field "file")
+  uploadDocument = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    if (!req.file) {
+      throw new AppError('File is required', 400);
+    }
+
+    logger.info('Uploading document', { patientId: id, userId: req.user?.userId, size: req.file.size });
+
+    const documentData: UploadDocumentRequest = {
+      category: req.body.category,
+      description: req.body.description
+    };
+    const result = await this.documentService.uploadDocument(id, {
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      buffer: req.file.buffer
+    }, documentData, getAuditContext(req));
+
+    res.status(201).json(result);
+  });
+
+  // List documents of a patient
+  searchDocuments = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Searching documents', { patientId: id, query: req.query });
+
+    const filters: DocumentSearchFilters = {
+      category: req.query.category as string
+    };
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20
+    };
+
+    const result = await this.documentService.searchDocuments(id, filters, pagination);
+    res.json(result);
+  });
+
+  // Get document metadata
+  getDocument = asyncHandler(async (req: Request, res: Response) => {
+    const { id, documentId } = req.params;
+
+    if (!id || !documentId) {
+      throw new AppError('Patient ID and document ID are required', 400);
+    }
+
+    logger.info('Getting document', { patientId: id, documentId });
+
+    const result = await this.documentService.getDocumentById(id, documentId);
+    res.json(result);
+  });
+
+  // Stream document content
+  downloadDocument = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, documentId } = req.params;
+
+    if (!id || !documentId) {
+      throw new AppError('Patient ID and document ID are required', 400);
+    }
+
+    logger.info('Downloading document', { patientId: id, documentId, userId: req.user?.userId });
+
+    const { document, stream } = await this.documentService.downloadDocument(id, documentId, getAuditContext(req));
+
+    res.setHeader('Content-Type', document.mimeType);
+    res.setHeader('Content-Length', document.size.toString());
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(document.originalName)}`
+    );
+
+    stream.on('error', (error) => {
+      logger.error('Document stream failed:', { documentId, error });
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  });
+
+  // Delete document (soft delete)
+  deleteDocument = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, documentId } = req.params;
+
+    if (!id || !documentId) {
+      throw new AppError('Patient ID and document ID are required', 400);
+    }
+
+    logger.info('Deleting document', { patientId: id, documentId, userId: req.user?.userId });
+
+    const result = await this.documentService.deleteDocument(id, documentId, getAuditContext(req));
+    res.json(result);
+  });
+}
@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { EventSchemaService } from '../services/event-schema.service';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+
+export class EventSchemaController {
+  private eventSchemaService: EventSchemaService;
+
+  constructor() {
+    this.eventSchemaService = new EventSchemaService();
+  }
+
+  // All published event contracts
+  listSchemas = asyncHandler(async (req: Request, res: Response) => {
+    res.json(this.eventSchemaService.listSchemas());
+  });
+
+  // Plain JSON Schema document, so the dataschema URL of an event can be fed to code generators
+  getSchema = asyncHandler(async (req: Request, res: Response) => {
+    const { eventType, eventVersion } = req.params;
+    const version = parseInt(eventVersion, 10);
+
+    if (!eventType || !Number.isInteger(version)) {
+      throw new AppError('Event type and numeric version are required', 400);
+    }
+
+    const descriptor = this.eventSchemaService.getSchema(eventType, version);
+    res.type('application/schema+json').send(JSON.stringify(descriptor.schema));
+  });
+}
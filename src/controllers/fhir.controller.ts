@@ -0,0 +1,141 @@
+import { Response } from 'express';
+import { PatientService } from '../services/patient.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { resolvePatientFieldPolicy, serializePatient } from '../config/pii-policy';
+import { birthDateRange, parseIdentifierSearch, toFhirPatient, toSearchBundle } from '../config/fhir';
+import {
+  ApiResponse,
+  AuditContext,
+  CreatePatientRequest,
+  FhirPatientSearchParams,
+  Patient,
+  UpdatePatientRequest
+} from '@/types';
+import { PatientSearchFilters } from '@/types/patient-search.types';
+
+// HL7 FHIR R4 Patient interactions (read, search, create, update) on top of PatientService.
+// Error responses become OperationOutcome resources in the fhirResponses middleware.
+export class FhirController {
+  private patientService: PatientService;
+
+  constructor() {
+    this.patientService = new PatientService();
+  }
+
+  // Read a patient (a merged patient ID returns the surviving patient)
+  readPatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    logger.info('Reading FHIR patient', { patientId: id });
+
+    const result = await this.patientService.getPatientById(id, getAuditContext(req));
+    this.sendPatient(req, res, 200, result.data!);
+  });
+
+  // Search patients by identifier, or by name and birth date, one bundle page at a time
+  searchPatients = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    // Already validated and converted by validateFhirPatientSearch
+    const { identifier, name, birthdate, _count, _cursor, _format } = req.query as unknown as FhirPatientSearchParams;
+    const baseUrl = this.baseUrl(req);
+    const selfUrl = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+    const policy = resolvePatientFieldPolicy(req.user);
+
+    logger.info('Searching FHIR patients', { byIdentifier: !!identifier, userId: req.user?.userId });
+
+    if (identifier) {
+      const patient = await this.findByIdentifier(identifier, getAuditContext(req));
+      const patients = patient ? [serializePatient(patient, policy)] : [];
+      res.json(toSearchBundle(baseUrl, patients, patients.length, selfUrl));
+      return;
+    }
+
+    const filters: PatientSearchFilters = {
+      ...(name && { name }),
+      ...birthDateRange(birthdate || [])
+    };
+    const result = await this.patientService.searchPatients(filters, {
+      limit: _count || config.fhir.defaultCount,
+      cursor: _cursor || ''
+    });
+    const { data, pagination } = result.data!;
+
+    let nextUrl: string | undefined;
+    if (pagination.nextCursor) {
+      const params = new URLSearchParams();
+      if (name) {
+        params.append('name', name);
+      }
+      (birthdate || []).forEach(value => params.append('birthdate', value));
+      params.append('_count', String(pagination.limit));
+      if (_format) {
+        params.append('_format', _format);
+      }
+      params.append('_cursor', pagination.nextCursor);
+      nextUrl = `${baseUrl}/Patient?${params.toString()}`;
+    }
+
+    res.json(toSearchBundle(baseUrl, data.map(patient => serializePatient(patient, policy)), pagination.total, selfUrl, nextUrl));
+  });
+
+  // Create a patient from a Patient resource (converted by validateFhirPatient)
+  createPatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    logger.info('Creating FHIR patient', { userId: req.user?.userId });
+
+    const patientData: CreatePatientRequest = req.body;
+    const result = await this.patientService.createPatient(patientData, getAuditContext(req));
+
+    const patient = result.data!;
+    res.setHeader('Location', `${this.baseUrl(req)}/Patient/${patient.id}/_history/${patient.version ?? 1}`);
+    this.sendPatient(req, res, 201, patient);
+  });
+
+  // Update a patient from the whole Patient resource; fields the resource leaves out are kept
+  updatePatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    logger.info('Updating FHIR patient', { patientId: id, userId: req.user?.userId });
+
+    const updateData: UpdatePatientRequest = req.body;
+    const result = await this.patientService.updatePatient(id, updateData, getAuditContext(req));
+    this.sendPatient(req, res, 200, result.data!);
+  });
+
+  // Null when no patient has the identifier
+  private async findByIdentifier(token: string, context: AuditContext): Promise<Patient | null> {
+    const identifier = parseIdentifierSearch(token);
+    if (!identifier) {
+      throw new AppError(`Unknown identifier system in ${token}`, 400);
+    }
+
+    try {
+      let result: ApiResponse<Patient>;
+      if (identifier.field === 'cpf') {
+        result = await this.patientService.getPatientByCpf(identifier.value, context);
+      } else if (identifier.field === 'cns') {
+        result = await this.patientService.getPatientByCns(identifier.value, context);
+      } else {
+        result = await this.patientService.getPatientByMedicalRecord(identifier.value, context);
+      }
+      return result.data || null;
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Personal data is masked or omitted according to the user's role and permissions
+  private sendPatient(req: AuthenticatedRequest, res: Response, status: number, patient: Patient): void {
+    res.setHeader('ETag', `W/"${patient.version ?? 1}"`);
+    res.status(status).json(toFhirPatient(serializePatient(patient, resolvePatientFieldPolicy(req.user))));
+  }
+
+  private baseUrl(req: AuthenticatedRequest): string {
+    return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+  }
+}
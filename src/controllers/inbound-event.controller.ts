@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { InboundEventService } from '../services/inbound-event.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { InboundEventFilters, InboundEventStatus, PaginationParams } from '@/types';
+
+export class InboundEventController {
+  private inboundEventService: InboundEventService;
+
+  constructor() {
+    this.inboundEventService = new InboundEventService();
+  }
+
+  // Events consumed from other services, with their processing outcome
+  listEvents = asyncHandler(async (req: Request, res: Response) => {
+    const filters: InboundEventFilters = {
+      status: req.query.status as InboundEventStatus,
+      eventType: req.query.eventType as string
+    };
+
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc'
+    };
+
+    const result = await this.inboundEventService.listEvents(filters, pagination);
+    res.json(result);
+  });
+
+  // Run a dead-lettered event again
+  replayEvent = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { eventId } = req.params;
+
+    if (!eventId) {
+      throw new AppError('Event ID is required', 400);
+    }
+
+    logger.info('Replaying inbound event', { eventId, userId: req.user?.userId });
+
+    const result = await this.inboundEventService.replayEvent(eventId, req.user?.userId || 'system');
+    res.json(result);
+  });
+}
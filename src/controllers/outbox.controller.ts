@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { OutboxService } from '../services/outbox.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+
+export class OutboxController {
+  private outboxService: OutboxService;
+
+  constructor() {
+    this.outboxService = new OutboxService();
+  }
+
+  // Delivery counts and messages that are failing or waiting too long
+  getStatus = asyncHandler(async (req: Request, res: Response) => {
+    const result = await this.outboxService.getStatus();
+    res.json(result);
+  });
+
+  // Requeue a message whose retries were exhausted
+  retryMessage = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { messageId } = req.params;
+
+    if (!messageId) {
+      throw new AppError('Message ID is required', 400);
+    }
+
+    logger.info('Retrying outbox message', { messageId, userId: req.user?.userId });
+
+    const result = await this.outboxService.retryMessage(messageId, req.user?.userId || 'system');
+    res.json(result);
+  });
+}
@@ -0,0 +1,54 @@
+import { Response } from 'express';
+import { PatientImportService } from '../services/patient-import.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { StartPatientImportRequest } from '@/types';
+
+export class PatientImportController {
+  private patientImportService: PatientImportService;
+
+  constructor() {
+    this.patientImportService = new PatientImportService();
+  }
+
+  // Start a dry-run or commit import; it runs in the background and is polled by ID
+  startImport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.file) {
+      throw new AppError('File is required', 400);
+    }
+
+    const request: StartPatientImportRequest = { mode: req.body?.mode };
+
+    logger.info('Starting patient import', { mode: request.mode, userId: req.user?.userId, size: req.file.size });
+
+    const result = await this.patientImportService.startImport({
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      buffer: req.file.buffer
+    }, request, req.user?.userId || 'system');
+    this.patientImportService.runInBackground(result.data!.id, getAuditContext(req));
+
+    res.status(202).json(result);
+  });
+
+  // Progress and per-row report of an import
+  getImport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { importId } = req.params;
+
+    if (!importId) {
+      throw new AppError('Import ID is required', 400);
+    }
+
+    const result = await this.patientImportService.getImport(importId);
+    res.json(result);
+  });
+
+  // Most recent imports
+  listImports = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await this.patientImportService.listImports();
+    res.json(result);
+  });
+}
@@ -0,0 +1,119 @@
+import { Response } from 'express';
+import { PatientMergeService } from '../services/patient-merge.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
+import { resolvePatientFieldPolicy, serializePatient } from '../config/pii-policy';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import {
+  DuplicateSearchOptions,
+  MergePatientsRequest,
+  PaginationParams,
+  PatientMergeFilters,
+  PatientMergeStatus
+} from '@/types';
+
+export class PatientMergeController {
+  private patientMergeService: PatientMergeService;
+
+  constructor() {
+    this.patientMergeService = new PatientMergeService();
+  }
+
+  // Duplicate candidates of one patient, best match first
+  findDuplicates = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    const result = await this.patientMergeService.findDuplicates(id, this.parseSearchOptions(req));
+    const policy = resolvePatientFieldPolicy(req.user);
+
+    res.json({
+      ...result,
+      data: result.data?.map(candidate => ({ ...candidate, patient: serializePatient(candidate.patient, policy) }))
+    });
+  });
+
+  // Likely duplicate pairs across the registry
+  scanDuplicates = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await this.patientMergeService.scanDuplicates(this.parseSearchOptions(req));
+    const policy = resolvePatientFieldPolicy(req.user);
+
+    res.json({
+      ...result,
+      data: result.data?.map(pair => ({
+        ...pair,
+        patients: pair.patients.map(patient => serializePatient(patient, policy))
+      }))
+    });
+  });
+
+  // Merge another patient into this one
+  mergePatients = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Merging patients', { survivorId: id, mergedPatientId: req.body?.mergedPatientId, userId: req.user?.userId });
+
+    const data: MergePatientsRequest = req.body;
+    const result = await this.patientMergeService.mergePatients(id, data, getAuditContext(req));
+
+    res.status(201).json(result);
+  });
+
+  // List merges
+  listMerges = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const filters: PatientMergeFilters = {
+      patientId: req.query.patientId as string,
+      status: req.query.status as PatientMergeStatus
+    };
+
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc'
+    };
+
+    const result = await this.patientMergeService.listMerges(filters, pagination);
+    res.json(result);
+  });
+
+  // Get a merge
+  getMerge = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { mergeId } = req.params;
+
+    if (!mergeId) {
+      throw new AppError('Merge ID is required', 400);
+    }
+
+    const result = await this.patientMergeService.getMerge(mergeId);
+    res.json(result);
+  });
+
+  // Undo a merge within the undo window
+  undoMerge = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { mergeId } = req.params;
+
+    if (!mergeId) {
+      throw new AppError('Merge ID is required', 400);
+    }
+
+    logger.info('Undoing patient merge', { mergeId, userId: req.user?.userId });
+
+    const result = await this.patientMergeService.undoMerge(mergeId, getAuditContext(req));
+    res.json(result);
+  });
+
+  private parseSearchOptions(req: AuthenticatedRequest): DuplicateSearchOptions {
+    return {
+      minScore: req.query.minScore !== undefined ? parseFloat(req.query.minScore as string) : undefined,
+      limit: parseInt(req.query.limit as string) || undefined
+    };
+  }
+}
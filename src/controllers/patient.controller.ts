@@ -1,15 +1,41 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { Readable, pipeline } from 'stream';
 import { PatientService } from '../services/patient.service';
+import { AuditService } from '../services/audit.service';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { getAuditContext } from '../middleware/audit-context';
 import { logger } from '../config/logger';
 import { AppError, asyncHandler } from '../middleware/error-handler';
-import { CreatePatientRequest, UpdatePatientRequest, PatientSearchFilters, PaginationParams } from '@/types';
+import {
+  resolvePatientFieldPolicy,
+  serializeAuditPage,
+  serializePatient,
+  serializePatientPage
+} from '../config/pii-policy';
+import {
+  CreatePatientRequest,
+  UpdatePatientRequest,
+  PatientValidationRequest,
+  PaginationParams,
+  PaginatedResponse,
+  AuditTrailFilters,
+  ApiResponse,
+  Patient,
+  SerializedPatient,
+  UserRole
+} from '@/types';
+import { PatientExportOptions, PatientSearchFilters } from '@/types/patient-search.types';
+
+// Roles that may list soft-deleted patients
+const INCLUDE_DELETED_ROLES: string[] = [UserRole.AUDITOR, UserRole.ADMIN];
 
 export class PatientController {
   private patientService: PatientService;
+  private auditService: AuditService;
 
   constructor() {
     this.patientService = new PatientService();
+    this.auditService = new AuditService();
   }
 
   // Create a new patient
@@ -17,13 +43,13 @@ export class PatientController {
     logger.info('Creating patient', { userId: req.user?.userId });
 
     const patientData: CreatePatientRequest = req.body;
-    const result = await this.patientService.createPatient(patientData, req.user?.userId || '');
+    const result = await this.patientService.createPatient(patientData, getAuditContext(req));
 
-    res.status(201).json(result);
+    res.status(201).json(this.serialize(req, result));
   });
 
   // Get patient by ID
-  getPatient = asyncHandler(async (req: Request, res: Response) => {
+  getPatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     
     if (!id) {
@@ -32,8 +58,8 @@ export class PatientController {
 
     logger.info('Getting patient', { patientId: id });
 
-    const result = await this.patientService.getPatientById(id);
-    res.json(result);
+    const result = await this.patientService.getPatientById(id, getAuditContext(req));
+    res.json(this.serialize(req, result));
   });
 
   // Update patient
@@ -47,9 +73,9 @@ export class PatientController {
     logger.info('Updating patient', { patientId: id, userId: req.user?.userId });
 
     const updateData: UpdatePatientRequest = req.body;
-    const result = await this.patientService.updatePatient(id, updateData, req.user?.userId || '');
+    const result = await this.patientService.updatePatient(id, updateData, getAuditContext(req));
 
-    res.json(result);
+    res.json(this.serialize(req, result));
   });
 
   // Delete patient
@@ -62,22 +88,72 @@ export class PatientController {
 
     logger.info('Deleting patient', { patientId: id, userId: req.user?.userId });
 
-    const result = await this.patientService.deletePatient(id, req.user?.userId || '');
+    const result = await this.patientService.deletePatient(id, getAuditContext(req));
     res.json(result);
   });
 
+  // Restore a deleted patient
+  restorePatient = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Restoring patient', { patientId: id, userId: req.user?.userId });
+
+    const result = await this.patientService.restorePatient(id, getAuditContext(req));
+    res.json(this.serialize(req, result));
+  });
+
   // Search patients
-  searchPatients = asyncHandler(async (req: Request, res: Response) => {
+  searchPatients = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     logger.info('Searching patients', { query: req.query });
 
-    const filters: PatientSearchFilters = req.query as any;
+    // Already validated and converted by validatePatientSearchFilters
+    const { page, limit, sortBy, sortOrder, cursor, ...filters } = req.query as unknown as PatientSearchFilters & PaginationParams;
+    if (filters.includeDeleted === true && !INCLUDE_DELETED_ROLES.includes(req.user?.role || '')) {
+      throw new AppError('Only auditors and admins can include deleted patients', 403);
+    }
     const pagination: PaginationParams = {
-      page: parseInt(req.query.page as string) || 1,
-      limit: parseInt(req.query.limit as string) || 10
+      page: page || 1,
+      limit: limit || 10,
+      sortBy,
+      sortOrder: sortOrder === 'desc' ? 'desc' : 'asc',
+      cursor
     };
 
     const result = await this.patientService.searchPatients(filters, pagination);
-    res.json(result);
+    res.json(this.serializePage(req, result));
+  });
+
+  // Export search results as CSV or NDJSON, streamed as they are read
+  exportPatients = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    // Already validated and converted by validatePatientExport
+    const { format, fields, sortBy, sortOrder, ...filters } = req.query as unknown as PatientSearchFilters & PatientExportOptions;
+    if (filters.includeDeleted === true && !INCLUDE_DELETED_ROLES.includes(req.user?.role || '')) {
+      throw new AppError('Only auditors and admins can include deleted patients', 403);
+    }
+
+    logger.info('Exporting patients', { format, userId: req.user?.userId });
+
+    const { exportId, filename, mimeType, content } = this.patientService.exportPatients(
+      filters,
+      { format, fields, sortBy, sortOrder },
+      resolvePatientFieldPolicy(req.user),
+      getAuditContext(req)
+    );
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Export-Id', exportId);
+
+    // Once streaming has started the status is sent, so a failure can only cut the download short
+    pipeline(Readable.from(content), res, error => {
+      if (error) {
+        logger.error('Patient export stream failed:', { exportId, error });
+      }
+    });
   });
 
   // Get patient statistics
@@ -89,21 +165,21 @@ export class PatientController {
   });
 
   // Get patient by CPF
-  getPatientByCpf = asyncHandler(async (req: Request, res: Response) => {
+  getPatientByCpf = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { cpf } = req.params;
     
     if (!cpf) {
       throw new AppError('CPF is required', 400);
     }
 
-    logger.info('Getting patient by CPF', { cpf });
+    logger.info('Getting patient by CPF', { userId: req.user?.userId });
 
-    const result = await this.patientService.getPatientByCpf(cpf);
-    res.json(result);
+    const result = await this.patientService.getPatientByCpf(cpf, getAuditContext(req));
+    res.json(this.serialize(req, result));
   });
 
   // Get patient by medical record number
-  getPatientByMedicalRecord = asyncHandler(async (req: Request, res: Response) => {
+  getPatientByMedicalRecord = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { medicalRecordNumber } = req.params;
     
     if (!medicalRecordNumber) {
@@ -112,8 +188,8 @@ export class PatientController {
 
     logger.info('Getting patient by medical record', { medicalRecordNumber });
 
-    const result = await this.patientService.getPatientByMedicalRecord(medicalRecordNumber);
-    res.json(result);
+    const result = await this.patientService.getPatientByMedicalRecord(medicalRecordNumber, getAuditContext(req));
+    res.json(this.serialize(req, result));
   });
 
   // Validate patient data
@@ -126,8 +202,55 @@ export class PatientController {
 
     logger.info('Validating patient', { patientId: id, userId: req.user?.userId });
 
-    const result = await this.patientService.validatePatient(id, 'validated', req.user?.userId || '');
-    res.json(result);
+    const { validationStatus, validationNotes }: PatientValidationRequest = req.body;
+    const result = await this.patientService.validatePatient(id, validationStatus, getAuditContext(req), validationNotes);
+    res.json(this.serialize(req, result));
   });
-}
 
+  // Get the audit trail of a patient
+  getAuditTrail = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Getting patient audit trail', { patientId: id, userId: req.user?.userId });
+
+    const filters: AuditTrailFilters = {
+      action: req.query.action as string,
+      entityType: req.query.entityType as string,
+      dateFrom: req.query.dateFrom as string,
+      dateTo: req.query.dateTo as string
+    };
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc'
+    };
+
+    const result = await this.auditService.getAuditTrail(id, filters, pagination);
+    res.json({
+      ...result,
+      data: result.data && serializeAuditPage(result.data, resolvePatientFieldPolicy(req.user))
+    });
+  });
+
+  // Personal data is masked or omitted according to the user's role and permissions
+  private serialize(req: AuthenticatedRequest, result: ApiResponse<Patient>): ApiResponse<SerializedPatient> {
+    return {
+      ...result,
+      data: result.data && serializePatient(result.data, resolvePatientFieldPolicy(req.user))
+    };
+  }
+
+  private serializePage(
+    req: AuthenticatedRequest,
+    result: ApiResponse<PaginatedResponse<Patient>>
+  ): ApiResponse<PaginatedResponse<SerializedPatient>> {
+    return {
+      ...result,
+      data: result.data && serializePatientPage(result.data, resolvePatientFieldPolicy(req.user))
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { ProcedureService } from '../services/procedure.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import {
+  CreateProcedureRequest,
+  UpdateProcedureRequest,
+  UpdateProcedureStatusRequest,
+  ProcedureSearchFilters,
+  PaginationParams
+} from '@/types';
+
+export class ProcedureController {
+  private procedureService: ProcedureService;
+
+  constructor() {
+    this.procedureService = new ProcedureService();
+  }
+
+  // Create a procedure for a patient
+  createProcedure = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Creating procedure', { patientId: id, userId: req.user?.userId });
+
+    const procedureData: CreateProcedureRequest = req.body;
+    const result = await this.procedureService.createProcedure(id, procedureData, req.user?.userId || '');
+
+    res.status(201).json(result);
+  });
+
+  // List procedures of a patient
+  searchProcedures = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new AppError('Patient ID is required', 400);
+    }
+
+    logger.info('Searching procedures', { patientId: id, query: req.query });
+
+    const filters: ProcedureSearchFilters = {
+      code: req.query.code as string,
+      status: req.query.status as string,
+      riskLevel: req.query.riskLevel as string,
+      validationStatus: req.query.validationStatus as string,
+      scheduledDateFrom: req.query.scheduledDateFrom as string,
+      scheduledDateTo: req.query.scheduledDateTo as string
+    };
+    const pagination: PaginationParams = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc'
+    };
+
+    const result = await this.procedureService.searchProcedures(id, filters, pagination);
+    res.json(result);
+  });
+
+  // Get a single procedure
+  getProcedure = asyncHandler(async (req: Request, res: Response) => {
+    const { id, procedureId } = req.params;
+
+    if (!id || !procedureId) {
+      throw new AppError('Patient ID and procedure ID are required', 400);
+    }
+
+    logger.info('Getting procedure', { patientId: id, procedureId });
+
+    const result = await this.procedureService.getProcedureById(id, procedureId);
+    res.json(result);
+  });
+
+  // Update procedure data
+  updateProcedure = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, procedureId } = req.params;
+
+    if (!id || !procedureId) {
+      throw new AppError('Patient ID and procedure ID are required', 400);
+    }
+
+    logger.info('Updating procedure', { patientId: id, procedureId, userId: req.user?.userId });
+
+    const updateData: UpdateProcedureRequest = req.body;
+    const result = await this.procedureService.updateProcedure(id, procedureId, updateData, req.user?.userId || '');
+
+    res.json(result);
+  });
+
+  // Change procedure status
+  updateProcedureStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, procedureId } = req.params;
+
+    if (!id || !procedureId) {
+      throw new AppError('Patient ID and procedure ID are required', 400);
+    }
+
+    logger.info('Changing procedure status', {
+      patientId: id,
+      procedureId,
+      status: req.body?.status,
+      userId: req.user?.userId
+    });
+
+    const statusData: UpdateProcedureStatusRequest = req.body;
+    const result = await this.procedureService.updateProcedureStatus(id, procedureId, statusData, req.user?.userId || '');
+
+    res.json(result);
+  });
+
+  // Delete procedure
+  deleteProcedure = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, procedureId } = req.params;
+
+    if (!id || !procedureId) {
+      throw new AppError('Patient ID and procedure ID are required', 400);
+    }
+
+    logger.info('Deleting procedure', { patientId: id, procedureId, userId: req.user?.userId });
+
+    const result = await this.procedureService.deleteProcedure(id, procedureId, req.user?.userId || '');
+    res.json(result);
+  });
+}
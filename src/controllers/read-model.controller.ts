@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { ReadModelService } from '../services/read-model.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { StartReadModelRunRequest } from '@/types';
+
+export class ReadModelController {
+  private readModelService: ReadModelService;
+
+  constructor() {
+    this.readModelService = new ReadModelService();
+  }
+
+  // Start a rebuild or dry-run reconcile; it runs in the background and is polled by ID
+  startRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const request: StartReadModelRunRequest = req.body;
+
+    logger.info('Starting read model run', { mode: request.mode, userId: req.user?.userId });
+
+    const result = await this.readModelService.startRun(request, req.user?.userId || 'system');
+    this.readModelService.runInBackground(result.data!.id);
+
+    res.status(202).json(result);
+  });
+
+  // Resume a failed or interrupted run from its last saved batch
+  resumeRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { runId } = req.params;
+
+    if (!runId) {
+      throw new AppError('Run ID is required', 400);
+    }
+
+    logger.info('Resuming read model run', { runId, userId: req.user?.userId });
+
+    const result = await this.readModelService.resumeRun(runId);
+    this.readModelService.runInBackground(runId);
+
+    res.status(202).json(result);
+  });
+
+  // Progress and report of a run
+  getRun = asyncHandler(async (req: Request, res: Response) => {
+    const { runId } = req.params;
+
+    if (!runId) {
+      throw new AppError('Run ID is required', 400);
+    }
+
+    const result = await this.readModelService.getRun(runId);
+    res.json(result);
+  });
+
+  // Most recent runs
+  listRuns = asyncHandler(async (req: Request, res: Response) => {
+    const result = await this.readModelService.listRuns();
+    res.json(result);
+  });
+}
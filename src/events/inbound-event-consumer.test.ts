@@ -0,0 +1,131 @@
+import { ReceivedEvent } from '@/types';
+
+// The inbox is replaced by an in-memory table with a unique messageId, and the handlers by a
+// single slow handler, so copies of a message can be delivered while one is being handled
+const mockInbox = new Map<string, { status: string; updatedAt: Date }>();
+const mockHandle = jest.fn();
+const mockRecordOutcome = jest.fn();
+
+jest.mock('../repositories/inbound-event.repository', () => ({
+  InboundEventRepository: jest.fn().mockImplementation(() => ({
+    claim: jest.fn(async (messageId: string, _eventType: string, _received: ReceivedEvent, staleBefore: Date) => {
+      const existing = mockInbox.get(messageId);
+      if (!existing) {
+        mockInbox.set(messageId, { status: 'PROCESSING', updatedAt: new Date() });
+        return true;
+      }
+      if (existing.status === 'PROCESSING' && existing.updatedAt < staleBefore) {
+        existing.updatedAt = new Date();
+        return true;
+      }
+      return false;
+    }),
+    releaseClaim: jest.fn(async (messageId: string) => {
+      if (mockInbox.get(messageId)?.status === 'PROCESSING') {
+        mockInbox.delete(messageId);
+      }
+    }),
+    markProcessed: jest.fn(async (messageId: string) => {
+      mockRecordOutcome(messageId);
+      mockInbox.set(messageId, { status: 'PROCESSED', updatedAt: new Date() });
+      return { messageId, status: 'processed' };
+    }),
+    markDeadLettered: jest.fn(async (messageId: string) => {
+      mockInbox.set(messageId, { status: 'DEAD_LETTERED', updatedAt: new Date() });
+      return { messageId, status: 'dead_lettered' };
+    })
+  }))
+}));
+jest.mock('./inbound-event.handlers', () => ({
+  INBOUND_EVENT_HANDLERS: {
+    ProcedureCompleted: {
+      destination: 'procedure.events',
+      schema: require('joi').object().unknown(true),
+      handle: (data: Record<string, any>) => mockHandle(data)
+    }
+  },
+  getInboundDestinations: () => ['procedure.events']
+}));
+jest.mock('../config/event-publisher', () => ({ eventSubscriber: { subscribe: jest.fn(), unsubscribe: jest.fn() } }));
+jest.mock('../config/logger', () => ({
+  logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+import { inboundEventConsumer } from './inbound-event-consumer';
+import { config } from '../config/config';
+import { AppError } from '../middleware/error-handler';
+
+const received = (messageId: string): ReceivedEvent => ({
+  destination: 'procedure.events',
+  messageId,
+  body: { eventType: 'ProcedureCompleted', data: { procedureId: 'procedure-1' } }
+});
+
+beforeEach(() => {
+  mockInbox.clear();
+  mockHandle.mockReset();
+  mockRecordOutcome.mockReset();
+  mockHandle.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 20)));
+});
+
+describe('InboundEventConsumer deduplication', () => {
+  it('handles copies of a message delivered at the same time once', async () => {
+    await Promise.all([
+      inboundEventConsumer.process(received('message-1')),
+      inboundEventConsumer.process(received('message-1'))
+    ]);
+
+    expect(mockHandle).toHaveBeenCalledTimes(1);
+    expect(mockInbox.get('message-1')?.status).toBe('PROCESSED');
+  });
+
+  it('skips a redelivery of a message already handled', async () => {
+    await inboundEventConsumer.process(received('message-1'));
+    await inboundEventConsumer.process(received('message-1'));
+
+    expect(mockHandle).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the outcome of the first copy when the handler rejects', async () => {
+    mockHandle.mockRejectedValue(new AppError('Invalid status transition', 409));
+
+    await Promise.all([
+      inboundEventConsumer.process(received('message-1')),
+      inboundEventConsumer.process(received('message-1'))
+    ]);
+
+    expect(mockHandle).toHaveBeenCalledTimes(1);
+    expect(mockInbox.get('message-1')?.status).toBe('DEAD_LETTERED');
+  });
+
+  it('takes over a claim that never got an outcome once it is stale', async () => {
+    mockInbox.set('message-1', { status: 'PROCESSING', updatedAt: new Date(Date.now() - config.consumers.claimTimeoutMs - 1000) });
+
+    await inboundEventConsumer.process(received('message-1'));
+
+    expect(mockHandle).toHaveBeenCalledTimes(1);
+    expect(mockInbox.get('message-1')?.status).toBe('PROCESSED');
+  });
+
+  it('releases the claim when the outcome cannot be recorded, so the redelivery handles it', async () => {
+    mockRecordOutcome.mockImplementationOnce(() => {
+      throw new Error('database down');
+    });
+
+    await expect(inboundEventConsumer.process(received('message-1'))).rejects.toThrow('database down');
+    expect(mockInbox.has('message-1')).toBe(false);
+
+    await inboundEventConsumer.process(received('message-1'));
+
+    expect(mockHandle).toHaveBeenCalledTimes(2);
+    expect(mockInbox.get('message-1')?.status).toBe('PROCESSED');
+  });
+
+  it('skips a message claimed by a delivery still in progress', async () => {
+    mockInbox.set('message-1', { status: 'PROCESSING', updatedAt: new Date() });
+
+    await inboundEventConsumer.process(received('message-1'));
+
+    expect(mockHandle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { eventSubscriber } from '../config/event-publisher';
+import { InboundEventRepository } from '../repositories/inbound-event.repository';
+import { INBOUND_EVENT_HANDLERS, getInboundDestinations } from './inbound-event.handlers';
+import { AppError } from '../middleware/error-handler';
+import { InboundEvent, ReceivedEvent } from '@/types';
+
+// Consumes the events of the procedures, billing and audit services. Every message is claimed
+// in the inbox by messageId before it is handled, so redeliveries (and the duplicate copies of
+// the fan-out transport, which may arrive at the same time) are skipped. A failing handler is retried in process with backoff; once the attempts are
+// exhausted, or when the failure cannot be fixed by retrying (invalid payload, rule violation),
+// the message is dead-lettered in the inbox and can be replayed from the admin API.
+class InboundEventConsumer {
+  private inboundEventRepository = new InboundEventRepository();
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    const destinations = getInboundDestinations();
+    await eventSubscriber.subscribe(destinations, received => this.process(received));
+
+    this.started = true;
+    logger.info('Inbound event consumer started', { destinations });
+  }
+
+  // Closes the subscriptions before the event publisher is disconnected
+  async stop(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    await eventSubscriber.unsubscribe();
+
+    this.started = false;
+    logger.info('Inbound event consumer stopped');
+  }
+
+  // Throws only when the outcome could not be recorded, so the transport redelivers the message
+  async process(received: ReceivedEvent): Promise<void> {
+    const body = received.body || {};
+    const messageId = received.messageId || body.id;
+    const eventType: string | undefined = body.eventType || this.eventTypeFromName(body.type);
+
+    if (!messageId) {
+      logger.error('Inbound event without a message ID discarded:', { destination: received.destination, eventType });
+      return;
+    }
+
+    if (!eventType) {
+      await this.inboundEventRepository.markDeadLettered(messageId, 'unknown', received, 0, 'Event type is missing');
+      logger.error('Inbound event without an event type dead-lettered:', { messageId, destination: received.destination });
+      return;
+    }
+
+    if (!INBOUND_EVENT_HANDLERS[eventType]) {
+      logger.debug('Inbound event ignored, no handler registered:', { messageId, eventType });
+      return;
+    }
+
+    const staleBefore = new Date(Date.now() - config.consumers.claimTimeoutMs);
+    if (!(await this.inboundEventRepository.claim(messageId, eventType, received, staleBefore))) {
+      logger.info('Inbound event already handled, skipping:', { messageId, eventType });
+      return;
+    }
+
+    try {
+      await this.handle(messageId, eventType, received);
+    } catch (error) {
+      // The outcome was not recorded: without the claim the redelivery handles the message again
+      await this.inboundEventRepository.releaseClaim(messageId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Runs a dead-lettered event again
+  async replay(event: InboundEvent): Promise<InboundEvent> {
+    return this.handle(event.messageId, event.eventType, {
+      destination: event.destination,
+      messageId: event.messageId,
+      body: event.payload
+    });
+  }
+
+  private async handle(messageId: string, eventType: string, received: ReceivedEvent): Promise<InboundEvent> {
+    const handler = INBOUND_EVENT_HANDLERS[eventType];
+    const body = received.body || {};
+
+    if (!handler) {
+      return this.inboundEventRepository.markDeadLettered(messageId, eventType, received, 0, `No handler for event ${eventType}`);
+    }
+
+    const { error: validationError, value: data } = handler.schema.validate(body.data ?? body, { abortEarly: false });
+    if (validationError) {
+      const errorMessage = `Invalid ${eventType} payload: ${validationError.details.map(detail => detail.message).join('; ')}`;
+      logger.error('Inbound event dead-lettered:', { messageId, eventType, error: errorMessage });
+      return this.inboundEventRepository.markDeadLettered(messageId, eventType, received, 0, errorMessage);
+    }
+
+    let attempts = 0;
+    while (true) {
+      attempts++;
+
+      try {
+        await handler.handle(data);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const permanent = error instanceof AppError && error.statusCode < 500;
+
+        if (permanent || attempts >= config.consumers.maxAttempts) {
+          logger.error('Inbound event dead-lettered:', { messageId, eventType, attempts, error: errorMessage });
+          return this.inboundEventRepository.markDeadLettered(messageId, eventType, received, attempts, errorMessage);
+        }
+
+        logger.warn('Inbound event handler failed, will retry:', { messageId, eventType, attempts, error: errorMessage });
+        await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(attempts)));
+        continue;
+      }
+
+      logger.info('Inbound event processed:', { messageId, eventType, attempts });
+      return this.inboundEventRepository.markProcessed(messageId, eventType, received, attempts);
+    }
+  }
+
+  // CloudEvents type names end with the event type and version (e.g. br.com.lazarus.billing.BillingItemApproved.v1)
+  private eventTypeFromName(type?: string): string | undefined {
+    if (typeof type !== 'string') {
+      return undefined;
+    }
+    const parts = type.split('.');
+    return /^v\d+$/.test(parts[parts.length - 1]) ? parts[parts.length - 2] : parts[parts.length - 1];
+  }
+
+  // Exponential backoff capped at retryMaxDelayMs
+  private getRetryDelay(attempts: number): number {
+    return Math.min(config.consumers.retryBaseDelayMs * 2 ** (attempts - 1), config.consumers.retryMaxDelayMs);
+  }
+}
+
+export const inboundEventConsumer = new InboundEventConsumer();
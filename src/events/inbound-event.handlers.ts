@@ -0,0 +1,183 @@
+import Joi from 'joi';
+import { config } from '../config/config';
+import { ProcedureService } from '../services/procedure.service';
+import { BillingService } from '../services/billing.service';
+import { PatientService } from '../services/patient.service';
+import { ProcedureRepository } from '../repositories/procedure.repository';
+import { BillingRepository } from '../repositories/billing.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { AuditContext, BillingStatus, ProcedureStatus } from '@/types';
+
+// Handlers for the events consumed from the procedures, billing and audit services. Each handler
+// receives the event data (validated against its schema) and must be idempotent: when the change
+// is already applied it does nothing, so a redelivery or a replay is harmless. Writes go through
+// the services, so status rules, audit and read model counters behave as for API calls.
+
+export interface InboundEventHandler {
+  destination: string;
+  schema: Joi.ObjectSchema;
+  handle(data: Record<string, any>): Promise<void>;
+}
+
+const PROCEDURES_SERVICE_USER = 'system:procedures';
+const BILLING_SERVICE_USER = 'system:billing';
+
+const procedureService = new ProcedureService();
+const billingService = new BillingService();
+const patientService = new PatientService();
+const procedureRepository = new ProcedureRepository();
+const billingRepository = new BillingRepository();
+const patientRepository = new PatientRepository();
+
+const auditServiceContext = (auditorId: string): AuditContext => ({
+  userId: auditorId,
+  userName: 'audit-service',
+  userRole: 'system',
+  ipAddress: '',
+  userAgent: 'inbound-event-consumer',
+  sessionId: ''
+});
+
+const procedureRef = {
+  patientId: Joi.string().required(),
+  procedureId: Joi.string().required()
+};
+
+const billingItemRef = {
+  patientId: Joi.string().required(),
+  billingItemId: Joi.string().required()
+};
+
+// Moves the procedure to the target status unless it is already there
+const changeProcedureStatus = async (
+  data: Record<string, any>,
+  status: ProcedureStatus,
+  extra: { completedDate?: string; actualDuration?: number; auditNotes?: string } = {}
+): Promise<void> => {
+  const procedure = await procedureRepository.findById(data.patientId, data.procedureId);
+  if (procedure?.status === status) {
+    return;
+  }
+
+  await procedureService.updateProcedureStatus(
+    data.patientId,
+    data.procedureId,
+    { status, ...extra },
+    PROCEDURES_SERVICE_USER
+  );
+};
+
+// True when the billing item already reached one of the given statuses
+const billingItemIn = async (data: Record<string, any>, statuses: BillingStatus[]): Promise<boolean> => {
+  const item = await billingRepository.findById(data.patientId, data.billingItemId);
+  return !!item && statuses.includes(item.status as BillingStatus);
+};
+
+export const INBOUND_EVENT_HANDLERS: Record<string, InboundEventHandler> = {
+  ProcedureStarted: {
+    destination: config.consumers.destinations.procedureEvents,
+    schema: Joi.object(procedureRef).unknown(true),
+    handle: data => changeProcedureStatus(data, ProcedureStatus.IN_PROGRESS)
+  },
+
+  ProcedureCompleted: {
+    destination: config.consumers.destinations.procedureEvents,
+    schema: Joi.object({
+      ...procedureRef,
+      completedDate: Joi.string().isoDate(),
+      actualDuration: Joi.number().integer().min(0)
+    }).unknown(true),
+    handle: data => changeProcedureStatus(data, ProcedureStatus.COMPLETED, {
+      completedDate: data.completedDate,
+      actualDuration: data.actualDuration
+    })
+  },
+
+  ProcedureCancelled: {
+    destination: config.consumers.destinations.procedureEvents,
+    schema: Joi.object({ ...procedureRef, reason: Joi.string() }).unknown(true),
+    handle: data => changeProcedureStatus(data, ProcedureStatus.CANCELLED, { auditNotes: data.reason })
+  },
+
+  BillingItemApproved: {
+    destination: config.consumers.destinations.billingEvents,
+    schema: Joi.object({ ...billingItemRef, justification: Joi.string() }).unknown(true),
+    handle: async data => {
+      // A billed item was approved before
+      if (await billingItemIn(data, [BillingStatus.APPROVED, BillingStatus.BILLED])) {
+        return;
+      }
+      await billingService.approveBillingItem(
+        data.patientId,
+        data.billingItemId,
+        { justification: data.justification },
+        BILLING_SERVICE_USER
+      );
+    }
+  },
+
+  BillingItemRejected: {
+    destination: config.consumers.destinations.billingEvents,
+    schema: Joi.object({ ...billingItemRef, reason: Joi.string().required() }).unknown(true),
+    handle: async data => {
+      if (await billingItemIn(data, [BillingStatus.REJECTED])) {
+        return;
+      }
+      await billingService.rejectBillingItem(
+        data.patientId,
+        data.billingItemId,
+        { reason: data.reason },
+        BILLING_SERVICE_USER
+      );
+    }
+  },
+
+  BillingItemBilled: {
+    destination: config.consumers.destinations.billingEvents,
+    schema: Joi.object(billingItemRef).unknown(true),
+    handle: async data => {
+      if (await billingItemIn(data, [BillingStatus.BILLED])) {
+        return;
+      }
+      await billingService.markBillingItemBilled(data.patientId, data.billingItemId, BILLING_SERVICE_USER);
+    }
+  },
+
+  // Result of an audit of a procedure or of the patient's registration data
+  AuditFinished: {
+    destination: config.consumers.destinations.auditEvents,
+    schema: Joi.object({
+      entityType: Joi.string().valid('procedure', 'patient').required(),
+      entityId: Joi.string().required(),
+      patientId: Joi.string().required(),
+      result: Joi.string().valid('approved', 'rejected', 'under_review').required(),
+      auditorId: Joi.string().required(),
+      notes: Joi.string()
+    }).unknown(true),
+    handle: async data => {
+      if (data.entityType === 'procedure') {
+        const procedure = await procedureRepository.findById(data.patientId, data.entityId);
+        if (procedure?.validationStatus === data.result && procedure?.auditorId === data.auditorId) {
+          return;
+        }
+        await procedureService.recordAuditResult(
+          data.patientId,
+          data.entityId,
+          { validationStatus: data.result, auditNotes: data.notes },
+          data.auditorId
+        );
+        return;
+      }
+
+      const patient = await patientRepository.findById(data.entityId);
+      if (patient?.validationStatus === data.result) {
+        return;
+      }
+      await patientService.validatePatient(data.entityId, data.result, auditServiceContext(data.auditorId), data.notes);
+    }
+  }
+};
+
+// Queues (Service Bus) or topics (Kafka) the consumer subscribes to
+export const getInboundDestinations = (): string[] =>
+  [...new Set(Object.values(INBOUND_EVENT_HANDLERS).map(handler => handler.destination))];
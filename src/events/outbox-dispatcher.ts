@@ -0,0 +1,176 @@
+import { prisma } from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { eventPublisher } from '../config/event-publisher';
+import { consentPurposeForDestination } from '../config/consent-policy';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { ConsentService } from '../services/consent.service';
+import { EventMessage, OutboxMessage } from '@/types';
+
+// Polls the outbox and delivers messages through the event publisher (at-least-once; the outbox
+// id is sent as messageId so consumers and Service Bus duplicate detection can drop redeliveries).
+// Messages for consent-gated destinations are withheld unless the patient allows the purpose.
+class OutboxDispatcher {
+  private outboxRepository = new OutboxRepository();
+  private consentService = new ConsentService();
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private started = false;
+  private lastRunAt?: Date;
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.schedule(0);
+    logger.info('Outbox dispatcher started', {
+      pollIntervalMs: config.outbox.pollIntervalMs,
+      batchSize: config.outbox.batchSize
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Let an in-flight batch finish so its delivery outcomes are recorded
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+
+    logger.info('Outbox dispatcher stopped');
+  }
+
+  getState(): { running: boolean; lastRunAt?: Date } {
+    return { running: this.started, lastRunAt: this.lastRunAt };
+  }
+
+  // Delivers one batch and returns how many messages were published. The batch is claimed in a
+  // short transaction; the broker calls and the outcome writes happen outside it, so a slow broker
+  // holds no connection or lock and cannot roll back the outcomes already recorded.
+  async dispatchBatch(): Promise<number> {
+    const leaseUntil = new Date(Date.now() + config.outbox.claimLeaseMs);
+    const messages = await this.claimBatch(leaseUntil);
+
+    // Once a message fails, later messages of the same patient wait for it
+    const blocked = new Set<string>();
+    const skipped: string[] = [];
+    let published = 0;
+
+    for (const message of messages) {
+      // Past the lease the messages may already be claimed by another dispatcher
+      if (Date.now() >= leaseUntil.getTime()) {
+        logger.warn('Outbox claim lease expired, leaving the rest of the batch:', {
+          remaining: messages.length - messages.indexOf(message)
+        });
+        break;
+      }
+
+      if (blocked.has(message.aggregateId)) {
+        skipped.push(message.id);
+        continue;
+      }
+
+      try {
+        // Checked at delivery time, so a consent revoked after the write is still honoured
+        const purpose = consentPurposeForDestination(message.destination);
+        if (purpose && !(await this.consentService.isAllowed(message.aggregateId, purpose))) {
+          await this.outboxRepository.markWithheld(message.id, `Patient has not consented to ${purpose}`);
+          continue;
+        }
+
+        await eventPublisher.publishEvent(message.destination, message.payload as unknown as EventMessage, message.id);
+      } catch (error) {
+        blocked.add(message.aggregateId);
+        await this.recordFailure(message, error);
+        continue;
+      }
+
+      await this.outboxRepository.markPublished(message.id);
+      published++;
+    }
+
+    await this.outboxRepository.release(skipped);
+    return published;
+  }
+
+  // Due messages, leased until the given time; none while another instance is claiming
+  private async claimBatch(leaseUntil: Date): Promise<OutboxMessage[]> {
+    return prisma.$transaction(async (tx) => {
+      if (!(await this.outboxRepository.tryLock(tx))) {
+        return [];
+      }
+
+      const messages = await this.outboxRepository.findDispatchable(tx, config.outbox.batchSize);
+      await this.outboxRepository.lease(tx, messages.map(message => message.id), leaseUntil);
+      return messages;
+    });
+  }
+
+  private async recordFailure(message: OutboxMessage, error: unknown): Promise<void> {
+    const attempts = message.attempts + 1;
+    const exhausted = attempts >= config.outbox.maxAttempts;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    await this.outboxRepository.markAttemptFailed(
+      message.id,
+      attempts,
+      errorMessage,
+      exhausted ? null : new Date(Date.now() + this.getRetryDelay(attempts))
+    );
+
+    if (exhausted) {
+      logger.error('Outbox message failed permanently:', {
+        messageId: message.id,
+        eventType: message.eventType,
+        aggregateId: message.aggregateId,
+        attempts,
+        error: errorMessage
+      });
+    } else {
+      logger.warn('Outbox message delivery failed, will retry:', {
+        messageId: message.id,
+        eventType: message.eventType,
+        aggregateId: message.aggregateId,
+        attempts,
+        error: errorMessage
+      });
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.currentRun = this.run();
+    }, delayMs);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      const published = await this.dispatchBatch();
+      if (published > 0) {
+        logger.debug('Outbox batch dispatched:', { published });
+      }
+    } catch (error) {
+      logger.error('Outbox dispatch failed:', error);
+    } finally {
+      this.lastRunAt = new Date();
+      this.currentRun = null;
+      if (this.started) {
+        this.schedule(config.outbox.pollIntervalMs);
+      }
+    }
+  }
+
+  // Exponential backoff capped at retryMaxDelayMs
+  private getRetryDelay(attempts: number): number {
+    return Math.min(config.outbox.retryBaseDelayMs * 2 ** (attempts - 1), config.outbox.retryMaxDelayMs);
+  }
+}
+
+export const outboxDispatcher = new OutboxDispatcher();
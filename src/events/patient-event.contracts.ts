@@ -0,0 +1,276 @@
+import Joi from 'joi';
+import { config } from '../config/config';
+import { EventSchemaDescriptor } from '@/types';
+
+// Versioned contracts for the patient events. Every event is a CloudEvents 1.0 envelope whose
+// data is validated against the contract of its eventType/eventVersion. Data schemas reject
+// unknown keys, so a field carrying patient data (CPF, name, contact, address) cannot be added to
+// an event without a new contract version. Breaking changes get a new version; the previous one
+// stays registered so consumers can migrate.
+
+export const EVENT_SOURCE = '/lazarus/ms-patients';
+export const EVENT_SCHEMAS_PATH = '/api/v1/events/schemas';
+
+interface EventContract {
+  eventType: string;
+  eventVersion: number;
+  destination: string;
+  description: string;
+  data: Joi.ObjectSchema;
+}
+
+const isoDate = () => Joi.string().isoDate();
+
+const CONTRACTS: EventContract[] = [
+  {
+    eventType: 'PatientCreated',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientCreated,
+    description: 'A patient was registered',
+    data: Joi.object({
+      status: Joi.string().valid('active', 'inactive', 'transferred', 'discharged').required(),
+      validationStatus: Joi.string().valid('pending', 'approved', 'rejected', 'under_review').required(),
+      accommodationType: Joi.string().required(),
+      accommodationStatus: Joi.string().required(),
+      insurancePlan: Joi.string().allow(null).required(),
+      roomNumber: Joi.string().allow(null).required(),
+      responsibleDoctor: Joi.string().allow(null).required(),
+      admissionDate: isoDate().allow(null).required(),
+      createdAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientUpdated',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientUpdated,
+    description: 'Patient fields changed; only the field names are sent, read the patient API for the values',
+    data: Joi.object({
+      changedFields: Joi.array().items(Joi.string()).required(),
+      status: Joi.string().valid('active', 'inactive', 'transferred', 'discharged').required(),
+      validationStatus: Joi.string().valid('pending', 'approved', 'rejected', 'under_review').required(),
+      updatedAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientDeleted',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientDeleted,
+    description: 'A patient was deleted (soft delete; the patient can be restored)',
+    data: Joi.object({
+      deletedAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientRestored',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientRestored,
+    description: 'A deleted patient was restored',
+    data: Joi.object({
+      restoredAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientMerged',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientMerged,
+    description: 'A duplicate record was merged into this patient; consumers must repoint references to mergedPatientId (which also gets a PatientDeleted event)',
+    data: Joi.object({
+      mergeId: Joi.string().required(),
+      mergedPatientId: Joi.string().required(),
+      reassigned: Joi.object({
+        procedures: Joi.number().integer().min(0).required(),
+        billingItems: Joi.number().integer().min(0).required(),
+        documents: Joi.number().integer().min(0).required(),
+        auditLogs: Joi.number().integer().min(0).required()
+      }).required(),
+      mergedAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientUnmerged',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientUnmerged,
+    description: 'A merge into this patient was undone; the records moved by it belong to mergedPatientId again (which also gets a PatientRestored event)',
+    data: Joi.object({
+      mergeId: Joi.string().required(),
+      mergedPatientId: Joi.string().required(),
+      undoneAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientValidated',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientValidated,
+    description: 'An auditor reviewed the patient data',
+    data: Joi.object({
+      status: Joi.string().valid('pending', 'approved', 'rejected', 'under_review').required(),
+      validatedBy: Joi.string().required(),
+      validatedAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientSummaryChanged',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientSummaryChanged,
+    description: 'A procedure or billing item of the patient changed its summary counters',
+    data: Joi.object({
+      reason: Joi.string().required(),
+      procedureId: Joi.string(),
+      billingItemId: Joi.string()
+    })
+  },
+  {
+    eventType: 'PatientAnonymized',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientAnonymized,
+    description: 'The personal data of the patient was erased at the data subject\'s request; consumers must drop their own copies',
+    data: Joi.object({
+      anonymizedAt: isoDate().required()
+    })
+  },
+  {
+    eventType: 'PatientConsentChanged',
+    eventVersion: 1,
+    destination: config.eventBus.queues.patientConsentChanged,
+    description: 'A consent of the patient for a processing purpose was granted or revoked; consumers relying on it must stop processing when it is revoked',
+    data: Joi.object({
+      purpose: Joi.string().valid('care', 'insurance_billing', 'research', 'communications').required(),
+      status: Joi.string().valid('granted', 'revoked').required(),
+      legalBasis: Joi.string()
+        .valid('consent', 'health_protection', 'contract', 'legal_obligation', 'exercise_of_rights')
+        .required(),
+      consentVersion: Joi.number().integer().min(1).required(),
+      termsVersion: Joi.string().allow(null).required(),
+      changedAt: isoDate().required()
+    })
+  }
+];
+
+const envelopeSchema = (contract: EventContract): Joi.ObjectSchema =>
+  Joi.object({
+    specversion: Joi.string().valid('1.0').required(),
+    id: Joi.string().uuid().required(),
+    source: Joi.string().valid(EVENT_SOURCE).required(),
+    type: Joi.string().valid(eventTypeName(contract.eventType, contract.eventVersion)).required(),
+    subject: Joi.string().required().description('Patient ID'),
+    time: isoDate().required(),
+    datacontenttype: Joi.string().valid('application/json').required(),
+    dataschema: Joi.string().valid(dataSchemaPath(contract.eventType, contract.eventVersion)).required(),
+    eventType: Joi.string().valid(contract.eventType).required(),
+    eventVersion: Joi.number().integer().valid(contract.eventVersion).required(),
+    patientId: Joi.string().required(),
+    version: Joi.number().integer().min(1).description('Patient version produced by the change'),
+    data: contract.data.required()
+  })
+    // CloudEvents extension attributes (e.g. the transport's service/timestamp) are allowed on the envelope
+    .unknown(true);
+
+export const eventTypeName = (eventType: string, eventVersion: number): string =>
+  `br.com.lazarus.patients.${eventType}.v${eventVersion}`;
+
+export const dataSchemaPath = (eventType: string, eventVersion: number): string =>
+  `${EVENT_SCHEMAS_PATH}/${eventType}/${eventVersion}`;
+
+const findContract = (eventType: string, eventVersion: number): EventContract | undefined =>
+  CONTRACTS.find(contract => contract.eventType === eventType && contract.eventVersion === eventVersion);
+
+// Latest version of an event type, used when building new events
+export const currentEventVersion = (eventType: string): number => {
+  const versions = CONTRACTS.filter(contract => contract.eventType === eventType).map(contract => contract.eventVersion);
+  if (versions.length === 0) {
+    throw new Error(`No contract registered for event ${eventType}`);
+  }
+  return Math.max(...versions);
+};
+
+// Throws when the envelope does not match the contract of its eventType/eventVersion
+export const validateEvent = (envelope: Record<string, any>): void => {
+  const contract = findContract(envelope.eventType, envelope.eventVersion);
+  if (!contract) {
+    throw new Error(`No contract registered for event ${envelope.eventType} v${envelope.eventVersion}`);
+  }
+
+  const { error } = envelopeSchema(contract).validate(envelope, { abortEarly: false });
+  if (error) {
+    throw new Error(
+      `Event ${contract.eventType} v${contract.eventVersion} violates its contract: ` +
+      error.details.map(detail => detail.message).join('; ')
+    );
+  }
+};
+
+export const getEventSchemas = (): EventSchemaDescriptor[] =>
+  CONTRACTS.map(contract => ({
+    eventType: contract.eventType,
+    eventVersion: contract.eventVersion,
+    type: eventTypeName(contract.eventType, contract.eventVersion),
+    destination: contract.destination,
+    description: contract.description,
+    schema: {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      $id: dataSchemaPath(contract.eventType, contract.eventVersion),
+      title: `${contract.eventType} v${contract.eventVersion}`,
+      description: contract.description,
+      ...toJsonSchema(envelopeSchema(contract).describe())
+    }
+  }));
+
+// Converts a Joi description to JSON Schema (draft-07). Covers the subset used by the contracts.
+const toJsonSchema = (description: Joi.Description): Record<string, any> => {
+  const flags = (description.flags || {}) as Record<string, any>;
+  const allowed: any[] = description.allow || [];
+  const rules: { name: string; args?: Record<string, any> }[] = (description as any).rules || [];
+  const schema: Record<string, any> = {};
+
+  switch (description.type) {
+    case 'object': {
+      const keys: Record<string, Joi.Description> = (description as any).keys || {};
+      schema.type = 'object';
+      schema.properties = Object.fromEntries(
+        Object.entries(keys).map(([key, child]) => [key, toJsonSchema(child)])
+      );
+      schema.required = Object.entries(keys)
+        .filter(([, child]) => (child.flags as Record<string, any> | undefined)?.presence === 'required')
+        .map(([key]) => key);
+      schema.additionalProperties = flags.unknown === true;
+      break;
+    }
+    case 'array':
+      schema.type = 'array';
+      if ((description as any).items?.length) {
+        schema.items = toJsonSchema((description as any).items[0]);
+      }
+      break;
+    case 'number':
+      schema.type = rules.some(rule => rule.name === 'integer') ? 'integer' : 'number';
+      break;
+    default:
+      schema.type = description.type;
+  }
+
+  for (const rule of rules) {
+    if (rule.name === 'isoDate') {
+      schema.format = 'date-time';
+    } else if (rule.name === 'guid') {
+      schema.format = 'uuid';
+    } else if (rule.name === 'min' && rule.args) {
+      schema.minimum = rule.args.limit;
+    }
+  }
+
+  const values = allowed.filter(value => value !== null);
+  if (flags.only && values.length > 0) {
+    schema.enum = values;
+  }
+  if (allowed.includes(null)) {
+    schema.type = [schema.type, 'null'];
+    if (schema.enum) {
+      schema.enum = [...schema.enum, null];
+    }
+  }
+  if (flags.description) {
+    schema.description = flags.description;
+  }
+
+  return schema;
+};
@@ -0,0 +1,161 @@
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { PatientProjectionRepository, PATIENT_PROJECTION } from '../repositories/patient-projection.repository';
+import { OutboxMessage } from '@/types';
+
+// Keeps the MongoDB/Cosmos DB read model in line with PostgreSQL by consuming the patient
+// events from the outbox in sequence order. Each event re-projects the current row, guarded by
+// its version, so applying an event twice or late is harmless. Failed projections go to a retry
+// queue and do not hold back the other patients.
+class PatientProjector {
+  private outboxRepository = new OutboxRepository();
+  private projectionRepository = new PatientProjectionRepository();
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private started = false;
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.schedule(0);
+    logger.info('Read model projector started', {
+      pollIntervalMs: config.projection.pollIntervalMs,
+      batchSize: config.projection.batchSize
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+
+    logger.info('Read model projector stopped');
+  }
+
+  // Called after a patient write commits so reads catch up without waiting for the next poll
+  notify(): void {
+    if (!this.started || this.currentRun) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.schedule(0);
+  }
+
+  // Applies the next batch of events and returns the new position
+  async projectBatch(): Promise<number> {
+    let position = await this.projectionRepository.getPosition(PATIENT_PROJECTION);
+    const messages = await this.outboxRepository.findAfter(position, config.projection.batchSize);
+
+    for (const message of messages) {
+      // A missing sequence number may belong to a transaction that has not committed yet
+      const isGap = message.sequence !== position + 1;
+      if (isGap && Date.now() - message.createdAt.getTime() < config.projection.gapTimeoutMs) {
+        break;
+      }
+
+      if (message.aggregateType === 'Patient') {
+        await this.apply(message);
+      }
+      position = message.sequence;
+    }
+
+    if (messages.length > 0) {
+      await this.projectionRepository.savePosition(PATIENT_PROJECTION, position);
+    }
+
+    return position;
+  }
+
+  async processRetries(): Promise<void> {
+    const retries = await this.projectionRepository.findDueRetries(PATIENT_PROJECTION, config.projection.batchSize);
+
+    for (const retry of retries) {
+      try {
+        await this.projectionRepository.projectPatient(retry.patientId);
+        await this.projectionRepository.resolveRetry(retry.id);
+        logger.info('Read model retry succeeded:', { patientId: retry.patientId, attempts: retry.attempts + 1 });
+      } catch (error) {
+        const attempts = retry.attempts + 1;
+        const exhausted = attempts >= config.projection.maxAttempts;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        await this.projectionRepository.markRetryFailed(
+          retry.id,
+          attempts,
+          errorMessage,
+          exhausted ? null : new Date(Date.now() + this.getRetryDelay(attempts))
+        );
+
+        if (exhausted) {
+          logger.error('Read model projection failed permanently:', { patientId: retry.patientId, attempts, error: errorMessage });
+        }
+      }
+    }
+  }
+
+  private async apply(message: OutboxMessage): Promise<void> {
+    try {
+      await this.projectionRepository.projectPatient(message.aggregateId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn('Read model projection failed, queued for retry:', {
+        patientId: message.aggregateId,
+        sequence: message.sequence,
+        eventType: message.eventType,
+        error: errorMessage
+      });
+
+      // If the retry queue is unavailable too, this throws and the position is not advanced
+      await this.projectionRepository.enqueueRetry(
+        PATIENT_PROJECTION,
+        message.aggregateId,
+        message.sequence,
+        message.eventType,
+        errorMessage,
+        new Date(Date.now() + config.projection.retryBaseDelayMs)
+      );
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentRun = this.run();
+    }, delayMs);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await this.projectBatch();
+      await this.processRetries();
+    } catch (error) {
+      logger.error('Read model projection run failed:', error);
+    } finally {
+      this.currentRun = null;
+      if (this.started) {
+        this.schedule(config.projection.pollIntervalMs);
+      }
+    }
+  }
+
+  // Exponential backoff capped at retryMaxDelayMs
+  private getRetryDelay(attempts: number): number {
+    return Math.min(config.projection.retryBaseDelayMs * 2 ** attempts, config.projection.retryMaxDelayMs);
+  }
+}
+
+export const patientProjector = new PatientProjector();
@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  OutboxEvent,
+  Patient,
+  PatientEventEnvelope,
+  PatientCreatedData,
+  PatientUpdatedData,
+  PatientDeletedData,
+  PatientRestoredData,
+  PatientMergedData,
+  PatientUnmergedData,
+  PatientMerge,
+  PatientValidatedData,
+  PatientSummaryChangedData,
+  PatientAnonymizedData,
+  PatientConsent,
+  PatientConsentChangedData
+} from '@/types';
+import {
+  EVENT_SOURCE,
+  currentEventVersion,
+  dataSchemaPath,
+  eventTypeName,
+  validateEvent
+} from './patient-event.contracts';
+import { config } from '../config/config';
+
+// Patient domain events as CloudEvents envelopes (see patient-event.contracts.ts). The time is
+// taken when the change is written, not when the dispatcher delivers it, and version is the
+// patient row version produced by the change. Each event is validated against its contract here,
+// so an invalid event aborts the write instead of reaching the outbox.
+const patientEvent = <T>(
+  destination: string,
+  eventType: string,
+  patientId: string,
+  version: number | undefined,
+  data: T
+): OutboxEvent => {
+  const eventVersion = currentEventVersion(eventType);
+  const envelope: PatientEventEnvelope<T> = {
+    specversion: '1.0',
+    id: uuidv4(),
+    source: EVENT_SOURCE,
+    type: eventTypeName(eventType, eventVersion),
+    subject: patientId,
+    time: new Date().toISOString(),
+    datacontenttype: 'application/json',
+    dataschema: dataSchemaPath(eventType, eventVersion),
+    eventType,
+    eventVersion,
+    patientId,
+    ...(version !== undefined && { version }),
+    data
+  };
+
+  validateEvent(envelope);
+
+  return {
+    aggregateType: 'Patient',
+    aggregateId: patientId,
+    eventType,
+    destination,
+    payload: envelope
+  };
+};
+
+const toIsoDate = (value?: Date | string | null): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+export const patientCreatedEvent = (patient: Patient): OutboxEvent =>
+  patientEvent<PatientCreatedData>(config.eventBus.queues.patientCreated, 'PatientCreated', patient.id, patient.version, {
+    status: patient.status,
+    validationStatus: patient.validationStatus || 'pending',
+    accommodationType: patient.accommodationType || 'shared',
+    accommodationStatus: patient.accommodationStatus || 'correct',
+    insurancePlan: patient.insurancePlan || null,
+    roomNumber: patient.roomNumber || null,
+    responsibleDoctor: patient.responsibleDoctor || null,
+    admissionDate: toIsoDate(patient.admissionDate),
+    createdAt: toIsoDate(patient.createdAt)!
+  });
+
+// Only the names of the changed fields are sent; the old and new values may be personal data
+export const patientUpdatedEvent = (
+  oldData: Patient,
+  newData: Patient,
+  changes: Record<string, { from: any; to: any }>
+): OutboxEvent =>
+  patientEvent<PatientUpdatedData>(config.eventBus.queues.patientUpdated, 'PatientUpdated', newData.id, newData.version, {
+    changedFields: Object.keys(changes),
+    status: newData.status,
+    validationStatus: newData.validationStatus || oldData.validationStatus || 'pending',
+    updatedAt: toIsoDate(newData.updatedAt)!
+  });
+
+export const patientDeletedEvent = (patient: Patient): OutboxEvent =>
+  patientEvent<PatientDeletedData>(config.eventBus.queues.patientDeleted, 'PatientDeleted', patient.id, patient.version, {
+    deletedAt: toIsoDate(patient.deletedAt) || new Date().toISOString()
+  });
+
+export const patientRestoredEvent = (patient: Patient): OutboxEvent =>
+  patientEvent<PatientRestoredData>(config.eventBus.queues.patientRestored, 'PatientRestored', patient.id, patient.version, {
+    restoredAt: toIsoDate(patient.updatedAt)!
+  });
+
+// Sent for the survivor; the merged record gets a PatientDeleted event in the same transaction
+export const patientMergedEvent = (survivor: Patient, merge: PatientMerge): OutboxEvent =>
+  patientEvent<PatientMergedData>(config.eventBus.queues.patientMerged, 'PatientMerged', survivor.id, survivor.version, {
+    mergeId: merge.id,
+    mergedPatientId: merge.mergedPatientId,
+    reassigned: merge.reassigned,
+    mergedAt: merge.mergedAt.toISOString()
+  });
+
+export const patientUnmergedEvent = (survivor: Patient, merge: PatientMerge): OutboxEvent =>
+  patientEvent<PatientUnmergedData>(config.eventBus.queues.patientUnmerged, 'PatientUnmerged', survivor.id, survivor.version, {
+    mergeId: merge.id,
+    mergedPatientId: merge.mergedPatientId,
+    undoneAt: merge.undoneAt!.toISOString()
+  });
+
+// Procedures and billing items changed the patient's summary counters (no patient data in the payload)
+export const patientSummaryChangedEvent = (
+  patientId: string,
+  version: number,
+  change: PatientSummaryChangedData
+): OutboxEvent =>
+  patientEvent<PatientSummaryChangedData>(
+    config.eventBus.queues.patientSummaryChanged,
+    'PatientSummaryChanged',
+    patientId,
+    version,
+    change
+  );
+
+// Validation notes are free text and are not published
+export const patientValidatedEvent = (
+  patient: Patient,
+  validationResult: { status: string; validatedBy: string; validatedAt: Date; notes?: string }
+): OutboxEvent =>
+  patientEvent<PatientValidatedData>(config.eventBus.queues.patientValidated, 'PatientValidated', patient.id, patient.version, {
+    status: validationResult.status,
+    validatedBy: validationResult.validatedBy,
+    validatedAt: validationResult.validatedAt.toISOString()
+  });
+
+// Tells consumers to erase what they hold about the patient; the event itself carries no personal data
+export const patientAnonymizedEvent = (patient: Patient): OutboxEvent =>
+  patientEvent<PatientAnonymizedData>(config.eventBus.queues.patientAnonymized, 'PatientAnonymized', patient.id, patient.version, {
+    anonymizedAt: toIsoDate(patient.anonymizedAt)!
+  });
+
+// Consents do not change the patient row, so the event carries no patient version
+export const patientConsentChangedEvent = (consent: PatientConsent): OutboxEvent =>
+  patientEvent<PatientConsentChangedData>(
+    config.eventBus.queues.patientConsentChanged,
+    'PatientConsentChanged',
+    consent.patientId,
+    undefined,
+    {
+      purpose: consent.purpose,
+      status: consent.status,
+      legalBasis: consent.legalBasis,
+      consentVersion: consent.version,
+      termsVersion: consent.termsVersion ?? null,
+      changedAt: consent.createdAt.toISOString()
+    }
+  );
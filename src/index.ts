@@ -9,14 +9,28 @@ import swaggerUi from 'swagger-ui-express';
 import { config } from './config/config';
 import { logger } from './config/logger';
 import { connectDatabases } from './config/database';
-import { initializeEventBus } from './config/eventbus';
-// import { initializeKafka } from './config/kafka'; // Disabled for MVP1
+import { eventPublisher, initializeEventPublisher, isEventPublishingEnabled } from './config/event-publisher';
+import { outboxDispatcher } from './events/outbox-dispatcher';
+import { patientProjector } from './events/patient-projector';
+import { inboundEventConsumer } from './events/inbound-event-consumer';
 import { errorHandler, notFoundHandler } from './middleware/error-handler';
 import { requestLogger } from './middleware/request-logger';
 import { authMiddleware } from './middleware/auth';
 
 // Routes
 import patientRoutes from './routes/patient.routes';
+import procedureRoutes from './routes/procedure.routes';
+import billingRoutes from './routes/billing.routes';
+import documentRoutes from './routes/document.routes';
+import consentRoutes from './routes/consent.routes';
+import outboxRoutes from './routes/outbox.routes';
+import readModelRoutes from './routes/read-model.routes';
+import eventSchemaRoutes from './routes/event-schema.routes';
+import inboundEventRoutes from './routes/inbound-event.routes';
+import dataSubjectRoutes from './routes/data-subject.routes';
+import patientMergeRoutes from './routes/patient-merge.routes';
+import patientImportRoutes from './routes/patient-import.routes';
+import fhirRoutes from './routes/fhir.routes';
 import healthRoutes from './routes/health.routes';
 // import mcpRoutes from './routes/mcp.routes'; // TODO: Implement MCP routes
 
@@ -50,7 +64,7 @@ class PatientService {
       origin: '*',
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Session-Id']
     }));
 
     // Rate limiting
@@ -81,7 +95,21 @@ class PatientService {
     this.app.use('/health', healthRoutes);
     
     // API routes (auth required)
+    this.app.use('/api/v1/patients/:id/procedures', authMiddleware, procedureRoutes);
+    this.app.use('/api/v1/patients/:id/billing-items', authMiddleware, billingRoutes);
+    this.app.use('/api/v1/patients/:id/documents', authMiddleware, documentRoutes);
+    this.app.use('/api/v1/patients/:id/consents', authMiddleware, consentRoutes);
     this.app.use('/api/v1/patients', authMiddleware, patientRoutes);
+    this.app.use('/api/v1/outbox', authMiddleware, outboxRoutes);
+    this.app.use('/api/v1/read-model', authMiddleware, readModelRoutes);
+    this.app.use('/api/v1/events', authMiddleware, eventSchemaRoutes);
+    this.app.use('/api/v1/inbound-events', authMiddleware, inboundEventRoutes);
+    this.app.use('/api/v1/data-subject-requests', authMiddleware, dataSubjectRoutes);
+    this.app.use('/api/v1/patient-merges', authMiddleware, patientMergeRoutes);
+    this.app.use('/api/v1/patient-imports', authMiddleware, patientImportRoutes);
+
+    // HL7 FHIR R4 facade (the router authenticates, so its errors are OperationOutcome resources)
+    this.app.use('/fhir', fhirRoutes);
     
     // MCP routes (auth required) - TODO: Implement
     // this.app.use('/mcp', authMiddleware, mcpRoutes);
@@ -98,7 +126,8 @@ class PatientService {
           cosmosDB: config.features.useCosmosDB,
           mongoDBAtlas: config.features.useMongoDBAtlas,
           serviceBus: config.features.useServiceBus,
-          kafka: config.features.useKafka
+          kafka: config.features.useKafka,
+          eventPublisher: config.features.eventPublisher
         }
       });
     });
@@ -149,6 +178,54 @@ class PatientService {
           {
             name: 'Patients',
             description: 'Patient management endpoints'
+          },
+          {
+            name: 'Procedures',
+            description: 'Patient procedure endpoints'
+          },
+          {
+            name: 'Billing',
+            description: 'Patient billing item endpoints'
+          },
+          {
+            name: 'Documents',
+            description: 'Patient document endpoints'
+          },
+          {
+            name: 'Consents',
+            description: 'Patient consents per processing purpose (LGPD)'
+          },
+          {
+            name: 'Outbox',
+            description: 'Event outbox monitoring endpoints'
+          },
+          {
+            name: 'Read Model',
+            description: 'Read model rebuild and reconciliation endpoints'
+          },
+          {
+            name: 'Events',
+            description: 'Published event contracts (JSON Schema)'
+          },
+          {
+            name: 'Inbound Events',
+            description: 'Events consumed from the procedures, billing and audit services'
+          },
+          {
+            name: 'Data Subject Requests',
+            description: 'LGPD access (export) and erasure (anonymization) requests'
+          },
+          {
+            name: 'Patient Merges',
+            description: 'Duplicate patient detection and undoable merges'
+          },
+          {
+            name: 'Patient Imports',
+            description: 'Bulk patient import from CSV or XLSX files'
+          },
+          {
+            name: 'FHIR',
+            description: 'HL7 FHIR R4 Patient resource (read, search, create, update)'
           }
         ]
       },
@@ -181,17 +258,25 @@ class PatientService {
         logger.info('Database connection skipped (test mode)');
       }
 
-      // Initialize Event Bus (Azure Service Bus)
-      if (config.eventBus.enabled) {
-        await initializeEventBus();
-        logger.info('Event Bus (Azure Service Bus) initialized successfully');
+      // Initialize the event publisher (Service Bus, Kafka or both, per config.features.eventPublisher)
+      if (isEventPublishingEnabled()) {
+        await initializeEventPublisher();
+      }
+
+      // Project patient events into the read model (needs both databases)
+      if (config.projection.enabled && process.env.SKIP_DATABASE_CONNECTION !== 'true') {
+        patientProjector.start();
       }
 
-      // Initialize Kafka (disabled for MVP1)
-      // if (config.kafka.enabled) {
-      //   await initializeKafka();
-      //   logger.info('Kafka initialized successfully');
-      // }
+      // Deliver outbox events (needs the write database and the event publisher)
+      if (isEventPublishingEnabled() && config.outbox.dispatcherEnabled && process.env.SKIP_DATABASE_CONNECTION !== 'true') {
+        outboxDispatcher.start();
+      }
+
+      // Consume procedure, billing and audit events (needs the write database and a broker)
+      if (isEventPublishingEnabled() && config.consumers.enabled && process.env.SKIP_DATABASE_CONNECTION !== 'true') {
+        await inboundEventConsumer.start();
+      }
 
       // Start server
       this.app.listen(this.port, '0.0.0.0', () => {
@@ -217,6 +302,10 @@ class PatientService {
 
   public async stop(): Promise<void> {
     logger.info('Stopping Patients service...');
+    await inboundEventConsumer.stop();
+    await outboxDispatcher.stop();
+    await patientProjector.stop();
+    await eventPublisher.disconnect();
     // Add graceful shutdown logic here
     process.exit(0);
   }
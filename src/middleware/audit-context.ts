@@ -0,0 +1,17 @@
+import { AuthenticatedRequest } from './auth';
+import { AuditContext } from '@/types';
+
+// Builds the audit context (who, from where) for the current request
+export const getAuditContext = (req: AuthenticatedRequest): AuditContext => {
+  const sessionHeader = req.get('X-Session-Id');
+
+  return {
+    userId: req.user?.userId || '',
+    userName: req.user?.email || '',
+    userRole: req.user?.role || '',
+    ipAddress: req.ip || req.socket?.remoteAddress || '',
+    userAgent: req.get('User-Agent') || '',
+    // Without an explicit session header, the token issue time identifies the login session
+    sessionId: sessionHeader || (req.user ? `${req.user.userId}:${req.user.iat}` : '')
+  };
+};
@@ -0,0 +1,39 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { FHIR_CONTENT_TYPE, toOperationOutcome } from '../config/fhir';
+
+// Values of _format the facade answers; it only speaks JSON. An unencoded "+" arrives as a space.
+const JSON_FORMATS = ['json', 'application/json', FHIR_CONTENT_TYPE];
+
+// Every response under /fhir is sent as FHIR JSON. Error bodies of the shared middlewares and
+// handlers (authentication, roles, validators, error and not-found handlers) are replaced by an
+// OperationOutcome, so the routes can use them unchanged.
+export const fhirResponses = (req: Request, res: Response, next: NextFunction): void => {
+  const json = res.json.bind(res);
+
+  res.json = (body?: any) => {
+    res.type(FHIR_CONTENT_TYPE);
+    if (body && body.success === false) {
+      return json(toOperationOutcome(res.statusCode, body.message, body.errors));
+    }
+    return json(body);
+  };
+  next();
+};
+
+export const fhirFormat = (req: Request, res: Response, next: NextFunction): void => {
+  const format = req.query._format;
+  const mediaType = typeof format === 'string' ? format.split(';')[0].trim().replace(/ /g, '+').toLowerCase() : '';
+
+  if (format !== undefined && !JSON_FORMATS.includes(mediaType)) {
+    res.status(415).json({
+      success: false,
+      message: `Format ${String(format)} is not supported; use _format=json`,
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+  next();
+};
+
+// application/json bodies are already parsed by the application
+export const fhirBodyParser = express.json({ limit: '10mb', type: FHIR_CONTENT_TYPE });
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '../config/config';
+import { AppError } from './error-handler';
+
+// Files are kept in memory: the size limit bounds usage and the service streams them to storage
+const createUpload = (allowedTypes: string[]) => multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: 1
+  },
+  fileFilter: (req, file, callback) => {
+    if (!allowedTypes.includes(file.mimetype)) {
+      callback(new AppError(
+        `File type ${file.mimetype} is not allowed. Allowed types: ${allowedTypes.join(', ')}`,
+        415
+      ));
+      return;
+    }
+    callback(null, true);
+  }
+});
+
+// Single file upload that reports multer errors in the standard error format
+export const uploadSingleFile = (fieldName: string, allowedTypes: string[] = config.upload.allowedTypes) => {
+  const handler = createUpload(allowedTypes).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          next(new AppError(`File exceeds the maximum size of ${config.upload.maxFileSize} bytes`, 413));
+          return;
+        }
+        next(new AppError(error.message, 400));
+        return;
+      }
+
+      next(error);
+    });
+  };
+};
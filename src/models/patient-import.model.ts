@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Importações em lote de pacientes: progresso e relatório por linha (sem os dados das células)
+export interface PatientImportDocument extends Document {
+  mode: 'dry_run' | 'commit';
+  status: 'running' | 'completed' | 'failed';
+  filename: string;
+  format: 'csv' | 'xlsx';
+  total: number;
+  processed: number;
+  summary: {
+    valid: number;
+    created: number;
+    failed: number;
+  };
+  rowErrors: { row: number; messages: string[] }[];
+  created: { row: number; patientId: string }[];
+  error?: string;
+  startedBy: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+}
+
+const PatientImportSchema = new Schema<PatientImportDocument>({
+  mode: {
+    type: String,
+    enum: ['dry_run', 'commit'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    required: true,
+    default: 'running',
+    index: true
+  },
+  filename: {
+    type: String,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['csv', 'xlsx'],
+    required: true
+  },
+  total: {
+    type: Number,
+    default: 0
+  },
+  processed: {
+    type: Number,
+    default: 0
+  },
+  summary: {
+    valid: { type: Number, default: 0 },
+    created: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  rowErrors: [{
+    _id: false,
+    row: { type: Number, required: true },
+    messages: [{ type: String }]
+  }],
+  created: [{
+    _id: false,
+    row: { type: Number, required: true },
+    patientId: { type: String, required: true }
+  }],
+  error: {
+    type: String
+  },
+  startedBy: {
+    type: String,
+    required: true,
+    index: true
+  },
+  startedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+  collection: 'patient_imports'
+});
+
+export const PatientImportModel = mongoose.model<PatientImportDocument>('PatientImport', PatientImportSchema);
@@ -1,25 +1,37 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { Patient as PatientType, ValidationStatus } from '@/types';
+import { foldName } from '../config/name-search';
 
 // Interface para o documento MongoDB
 export interface PatientDocument extends Document {
   // ID compatível com Prisma (CUID)
   id: string;
   
-  // Identificação
+  // Identificação (cpf, rg, cns, contato, endereço e prontuário criptografados, copiados do PostgreSQL)
   fullName: string;
   cpf: string;
+  cpfHash?: string;
   rg: string;
+  cns?: string;
+  cnsHash?: string;
   birthDate: Date;
   gender: 'male' | 'female' | 'other';
   
+  // Chaves de busca do nome (sem acentos e fonéticas, geradas pelo projetor)
+  nameNormalized: string;
+  nameTokens: string[];
+  namePhonetic: string[];
+  
   // Contato
   phone: string;
+  phoneHash?: string;
   email: string;
+  emailHash?: string;
   address: string;
   
   // Atendimento
   medicalRecordNumber: string;
+  medicalRecordNumberHash?: string;
   admissionDate: Date;
   roomNumber: string;
   responsibleDoctor: string;
@@ -36,6 +48,7 @@ export interface PatientDocument extends Document {
   // Status
   status: 'active' | 'inactive' | 'transferred' | 'discharged';
   validationStatus: ValidationStatus;
+  anonymizedAt?: Date;
   
   // Metadados para CQRS
   lastSyncedAt: Date;
@@ -71,14 +84,27 @@ const PatientSchema = new Schema<PatientDocument>({
   },
   cpf: { 
     type: String, 
-    required: true, 
+    required: true
+  },
+  // Blind index (HMAC) do CPF, para busca exata e unicidade
+  cpfHash: {
+    type: String,
     unique: true,
-    index: true
+    sparse: true
   },
   rg: { 
     type: String, 
     required: true 
   },
+  cns: {
+    type: String
+  },
+  // Blind index (HMAC) do CNS; ausente quando o paciente não tem CNS
+  cnsHash: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
   birthDate: { 
     type: Date, 
     required: true 
@@ -89,6 +115,21 @@ const PatientSchema = new Schema<PatientDocument>({
     required: true 
   },
   
+  // Chaves de busca do nome
+  nameNormalized: {
+    type: String
+  },
+  // Palavras sem acento, para busca por prefixo
+  nameTokens: {
+    type: [String],
+    index: true
+  },
+  // Chave fonética (BuscaBR) de cada palavra
+  namePhonetic: {
+    type: [String],
+    index: true
+  },
+  
   // Contato
   phone: { 
     type: String, 
@@ -98,6 +139,17 @@ const PatientSchema = new Schema<PatientDocument>({
     type: String, 
     required: true 
   },
+  // Blind indexes (HMAC) do telefone e do e-mail, para os filtros exatos da busca
+  phoneHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  emailHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
   address: { 
     type: String, 
     required: true 
@@ -106,9 +158,13 @@ const PatientSchema = new Schema<PatientDocument>({
   // Atendimento
   medicalRecordNumber: { 
     type: String, 
-    required: true, 
+    required: true
+  },
+  // Blind index (HMAC) do prontuário; ausente quando o paciente não tem prontuário
+  medicalRecordNumberHash: {
+    type: String,
     unique: true,
-    index: true
+    sparse: true
   },
   admissionDate: { 
     type: Date, 
@@ -172,6 +228,9 @@ const PatientSchema = new Schema<PatientDocument>({
     required: true,
     index: true
   },
+  anonymizedAt: {
+    type: Date
+  },
   
   // Metadados para CQRS
   lastSyncedAt: { 
@@ -210,7 +269,7 @@ const PatientSchema = new Schema<PatientDocument>({
   _id: false, // Desabilita _id automático
   id: false, // Desabilita virtual id
   // Configurações específicas para Cosmos DB
-  shardKey: { cpf: 1 }, // Para particionamento no Cosmos DB
+  shardKey: { cpfHash: 1 }, // Para particionamento no Cosmos DB (o CPF criptografado muda a cada escrita)
 });
 
 // Índices compostos para consultas otimizadas
@@ -219,18 +278,17 @@ PatientSchema.index({ insurancePlan: 1, status: 1 });
 PatientSchema.index({ responsibleDoctor: 1, admissionDate: -1 });
 PatientSchema.index({ roomNumber: 1, status: 1 });
 PatientSchema.index({ admissionDate: -1, status: 1 });
-
-// Índice de texto para busca full-text
-PatientSchema.index({ 
-  fullName: 'text', 
-  cpf: 'text', 
-  medicalRecordNumber: 'text' 
-});
+PatientSchema.index({ pendingValidations: -1, totalBillingAmount: -1 });
+PatientSchema.index({ totalBillingAmount: -1 });
+PatientSchema.index({ proceduresCount: -1 });
+PatientSchema.index({ lastProcedureDate: -1 });
 
 // Middleware para soft delete
-PatientSchema.pre(/^find/, function(this: any) {
-  // Excluir documentos deletados por padrão
-  this.where({ deletedAt: { $exists: false } });
+PatientSchema.pre(/^(find|countDocuments)/, function(this: any) {
+  // Excluir documentos deletados por padrão (a opção includeDeleted da query inclui todos)
+  if (!this.getOptions().includeDeleted) {
+    this.where({ deletedAt: { $exists: false } });
+  }
 });
 
 // Métodos do schema
@@ -257,10 +315,10 @@ PatientSchema.statics.findPendingValidation = function() {
   return this.find({ validationStatus: 'pending' });
 };
 
+// Pacientes cujo nome (sem acentos) começa pelo termo
 PatientSchema.statics.searchByName = function(searchTerm: string) {
-  return this.find({
-    $text: { $search: searchTerm }
-  }).sort({ score: { $meta: 'textScore' } });
+  const prefix = foldName(searchTerm).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return this.find({ nameNormalized: { $regex: `^${prefix}` } });
 };
 
 // Virtual para idade
@@ -298,13 +356,22 @@ export interface CreatePatientReadModel {
   id: string; // ID do Prisma (CUID)
   fullName: string;
   cpf: string;
+  cpfHash?: string;
   rg: string;
+  cns?: string;
+  cnsHash?: string;
   birthDate: Date;
   gender: 'male' | 'female' | 'other';
+  nameNormalized: string;
+  nameTokens: string[];
+  namePhonetic: string[];
   phone: string;
+  phoneHash?: string;
   email: string;
+  emailHash?: string;
   address: string;
   medicalRecordNumber: string;
+  medicalRecordNumberHash?: string;
   admissionDate: Date;
   roomNumber: string;
   responsibleDoctor: string;
@@ -317,5 +384,6 @@ export interface CreatePatientReadModel {
   observations?: string;
   status: 'active' | 'inactive' | 'transferred' | 'discharged';
   validationStatus: ValidationStatus;
+  anonymizedAt?: Date;
 }
 
@@ -0,0 +1,180 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Posição da última mensagem do outbox aplicada por cada projeção (CQRS)
+export interface ProjectionCheckpointDocument extends Document {
+  name: string;
+  position: number;
+  updatedAt: Date;
+}
+
+const ProjectionCheckpointSchema = new Schema<ProjectionCheckpointDocument>({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  position: {
+    type: Number,
+    required: true,
+    default: 0
+  }
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+  collection: 'projection_checkpoints'
+});
+
+// Fila de retry: pacientes cuja projeção falhou e será refeita a partir do PostgreSQL
+export interface ProjectionRetryDocument extends Document {
+  projection: string;
+  patientId: string;
+  sequence: number;
+  eventType: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError: string;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectionRetrySchema = new Schema<ProjectionRetryDocument>({
+  projection: {
+    type: String,
+    required: true
+  },
+  patientId: {
+    type: String,
+    required: true
+  },
+  // Outbox sequence of the event that failed (latest one, if it failed more than once)
+  sequence: {
+    type: Number,
+    required: true
+  },
+  eventType: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'failed'],
+    required: true,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String,
+    required: true
+  },
+  nextAttemptAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'projection_retries'
+});
+
+// Uma entrada por paciente: o retry reprojeta o estado atual, não o evento
+ProjectionRetrySchema.index({ projection: 1, patientId: 1 }, { unique: true });
+ProjectionRetrySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Execuções de rebuild/reconciliação do read model (retomáveis a partir do cursor)
+export interface ReadModelRunDocument extends Document {
+  mode: 'rebuild' | 'reconcile';
+  status: 'running' | 'completed' | 'failed';
+  phase: 'postgres' | 'read_model';
+  cursor?: string;
+  batchSize: number;
+  total: number;
+  processed: number;
+  summary: {
+    missing: number;
+    extra: number;
+    divergent: number;
+    repaired: number;
+  };
+  missing: string[];
+  extra: string[];
+  divergent: { patientId: string; fields: string[] }[];
+  error?: string;
+  startedBy: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+}
+
+const ReadModelRunSchema = new Schema<ReadModelRunDocument>({
+  mode: {
+    type: String,
+    enum: ['rebuild', 'reconcile'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    required: true,
+    default: 'running',
+    index: true
+  },
+  phase: {
+    type: String,
+    enum: ['postgres', 'read_model'],
+    required: true,
+    default: 'postgres'
+  },
+  // Last patient ID handled in the current phase
+  cursor: {
+    type: String
+  },
+  batchSize: {
+    type: Number,
+    required: true
+  },
+  total: {
+    type: Number,
+    default: 0
+  },
+  processed: {
+    type: Number,
+    default: 0
+  },
+  summary: {
+    missing: { type: Number, default: 0 },
+    extra: { type: Number, default: 0 },
+    divergent: { type: Number, default: 0 },
+    repaired: { type: Number, default: 0 }
+  },
+  missing: [{ type: String }],
+  extra: [{ type: String }],
+  divergent: [{
+    _id: false,
+    patientId: { type: String, required: true },
+    fields: [{ type: String }]
+  }],
+  error: {
+    type: String
+  },
+  startedBy: {
+    type: String,
+    required: true
+  },
+  startedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+  collection: 'read_model_runs'
+});
+
+export const ProjectionCheckpointModel = mongoose.model<ProjectionCheckpointDocument>('ProjectionCheckpoint', ProjectionCheckpointSchema);
+export const ProjectionRetryModel = mongoose.model<ProjectionRetryDocument>('ProjectionRetry', ProjectionRetrySchema);
+export const ReadModelRunModel = mongoose.model<ReadModelRunDocument>('ReadModelRun', ReadModelRunSchema);
@@ -0,0 +1,307 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { fieldEncryption, PATIENT_PII_FIELDS } from '../config/encryption';
+import {
+  AuditContext,
+  AuditLogEntry,
+  EncryptedAuditRow,
+  RecordAuditRequest,
+  AuditTrailFilters,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+
+const REDACTED = '[redacted]';
+
+export class AuditRepository {
+  // WRITE OPERATIONS (PostgreSQL) - audit rows are append-only. The personal data fields of the
+  // patient snapshots and diffs are encrypted like the patient row (see config/encryption.ts).
+  async create(entry: RecordAuditRequest, context: AuditContext): Promise<AuditLogEntry> {
+    try {
+      const { oldData, newData, changes } = this.mapPersonalData(entry, value => fieldEncryption.encrypt(value));
+      const auditLog = await prisma.auditLog.create({
+        data: {
+          entityType: entry.entityType.toUpperCase() as any,
+          entityId: entry.entityId,
+          action: entry.action.toUpperCase() as any,
+          description: entry.description,
+          userId: context.userId,
+          userName: context.userName,
+          userRole: context.userRole,
+          oldData: this.toJson(oldData),
+          newData: this.toJson(newData),
+          changes: this.toJson(changes),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          sessionId: context.sessionId,
+          validationStatus: entry.validationStatus ? entry.validationStatus.toUpperCase() as any : null,
+          justification: entry.justification ?? null,
+          metadata: this.toJson(entry.metadata),
+          patientId: entry.patientId ?? null,
+          procedureId: entry.procedureId ?? null,
+          billingId: entry.billingId ?? null
+        }
+      });
+
+      return this.mapPrismaToAuditLog(auditLog);
+    } catch (error) {
+      logger.error('Failed to create audit log:', error);
+      throw error;
+    }
+  }
+
+  // One of the two changes allowed to existing rows: when a patient is anonymized, the values of the
+  // given fields are replaced in the stored snapshots and diffs. The rows themselves (who did
+  // what and when) are kept for the retention period. Returns the number of rows rewritten.
+  async redactPatientData(tx: Prisma.TransactionClient, patientId: string, fields: readonly string[]): Promise<number> {
+    const auditLogs = await tx.auditLog.findMany({
+      where: this.patientWhere(patientId),
+      select: { id: true, oldData: true, newData: true, changes: true }
+    });
+
+    let redacted = 0;
+    for (const auditLog of auditLogs) {
+      const oldData = this.redact(auditLog.oldData, fields);
+      const newData = this.redact(auditLog.newData, fields);
+      const changes = this.redact(auditLog.changes, fields, { from: REDACTED, to: REDACTED });
+      if (!oldData && !newData && !changes) {
+        continue;
+      }
+
+      await tx.auditLog.update({
+        where: { id: auditLog.id },
+        data: {
+          ...(oldData && { oldData }),
+          ...(newData && { newData }),
+          ...(changes && { changes })
+        }
+      });
+      redacted++;
+    }
+
+    return redacted;
+  }
+
+  // Key rotation: a batch of rows with a snapshot or diff, after afterId in ID order
+  async findSnapshotBatch(afterId: string | undefined, limit: number): Promise<EncryptedAuditRow[]> {
+    try {
+      const auditLogs = await prisma.auditLog.findMany({
+        where: {
+          OR: [
+            { oldData: { not: Prisma.DbNull } },
+            { newData: { not: Prisma.DbNull } },
+            { changes: { not: Prisma.DbNull } }
+          ],
+          ...(afterId && { id: { gt: afterId } })
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+        select: { id: true, oldData: true, newData: true, changes: true }
+      });
+      return auditLogs.map(auditLog => ({
+        id: auditLog.id,
+        oldData: auditLog.oldData ?? undefined,
+        newData: auditLog.newData ?? undefined,
+        changes: auditLog.changes ?? undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to read audit log batch:', error);
+      throw error;
+    }
+  }
+
+  // The other change allowed to existing rows: the personal data values of the snapshots are
+  // moved to the active key (or encrypted, for rows written before encryption). Redacted values
+  // are kept as they are. Returns false when nothing had to change.
+  async rotateEncryptedSnapshots(row: EncryptedAuditRow): Promise<boolean> {
+    try {
+      const rotated = this.mapPersonalData(row, value => (value === REDACTED ? value : fieldEncryption.rotate(value)));
+      if (JSON.stringify(rotated) === JSON.stringify({ oldData: row.oldData, newData: row.newData, changes: row.changes })) {
+        return false;
+      }
+
+      await prisma.auditLog.update({
+        where: { id: row.id },
+        data: {
+          ...(rotated.oldData !== undefined && { oldData: this.toJson(rotated.oldData) }),
+          ...(rotated.newData !== undefined && { newData: this.toJson(rotated.newData) }),
+          ...(rotated.changes !== undefined && { changes: this.toJson(rotated.changes) })
+        }
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to rotate audit log snapshots:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findByPatient(
+    patientId: string,
+    filters: AuditTrailFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<AuditLogEntry>> {
+    try {
+      const where: Prisma.AuditLogWhereInput = this.patientWhere(patientId);
+
+      if (filters.action) {
+        where.action = filters.action.toUpperCase() as any;
+      }
+      if (filters.entityType) {
+        where.entityType = filters.entityType.toUpperCase() as any;
+      }
+      if (filters.dateFrom || filters.dateTo) {
+        where.createdAt = {
+          ...(filters.dateFrom && { gte: new Date(filters.dateFrom) }),
+          ...(filters.dateTo && { lte: new Date(filters.dateTo) })
+        };
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 20, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [auditLogs, total] = await Promise.all([
+        prisma.auditLog.findMany({
+          where,
+          orderBy: { createdAt: pagination.sortOrder === 'asc' ? 'asc' : 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.auditLog.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: auditLogs.map(auditLog => this.mapPrismaToAuditLog(auditLog)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find audit trail:', error);
+      throw error;
+    }
+  }
+
+  // Whole trail of the patient (data subject export)
+  async findAllByPatient(patientId: string): Promise<AuditLogEntry[]> {
+    try {
+      const auditLogs = await prisma.auditLog.findMany({
+        where: this.patientWhere(patientId),
+        orderBy: { createdAt: 'asc' }
+      });
+      return auditLogs.map(auditLog => this.mapPrismaToAuditLog(auditLog));
+    } catch (error) {
+      logger.error('Failed to find all audit logs of patient:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  // Rows written after a deletion no longer reference the patient, so match the entity as well
+  private patientWhere(patientId: string): Prisma.AuditLogWhereInput {
+    return {
+      OR: [
+        { patientId },
+        { entityType: 'PATIENT', entityId: patientId }
+      ]
+    };
+  }
+
+  // Snapshots and diff with map applied to the string values of the personal data fields
+  private mapPersonalData(
+    entry: Pick<EncryptedAuditRow, 'oldData' | 'newData' | 'changes'>,
+    map: (value: string) => string
+  ): Pick<EncryptedAuditRow, 'oldData' | 'newData' | 'changes'> {
+    const isRecord = (value: any): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+    const mapValue = (value: any) => (typeof value === 'string' ? map(value) : value);
+    const mapSnapshot = (snapshot: any) => {
+      if (!isRecord(snapshot)) {
+        return snapshot;
+      }
+      const mapped: Record<string, any> = { ...snapshot };
+      for (const field of PATIENT_PII_FIELDS) {
+        if (field in mapped) {
+          mapped[field] = mapValue(mapped[field]);
+        }
+      }
+      return mapped;
+    };
+
+    const changes = isRecord(entry.changes) ? { ...entry.changes } : entry.changes;
+    if (isRecord(changes)) {
+      for (const field of PATIENT_PII_FIELDS) {
+        if (isRecord(changes[field])) {
+          changes[field] = { ...changes[field], from: mapValue(changes[field].from), to: mapValue(changes[field].to) };
+        }
+      }
+    }
+
+    return { oldData: mapSnapshot(entry.oldData), newData: mapSnapshot(entry.newData), changes };
+  }
+
+  // Copy of a snapshot or diff with the values of the fields replaced, or undefined when none is present
+  private redact(
+    value: Prisma.JsonValue,
+    fields: readonly string[],
+    replacement: Prisma.JsonValue = REDACTED
+  ): Prisma.InputJsonValue | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+
+    const present = fields.filter(field => field in value);
+    if (present.length === 0) {
+      return undefined;
+    }
+
+    const redacted: Prisma.JsonObject = { ...value };
+    for (const field of present) {
+      redacted[field] = replacement;
+    }
+    return redacted;
+  }
+
+  private toJson(value: any): Prisma.InputJsonValue | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    // Round-trip to drop undefined fields and serialize dates
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private mapPrismaToAuditLog(prismaAuditLog: any): AuditLogEntry {
+    const { oldData, newData, changes } = this.mapPersonalData(prismaAuditLog, value => fieldEncryption.decrypt(value));
+    return {
+      id: prismaAuditLog.id,
+      entityType: prismaAuditLog.entityType.toLowerCase(),
+      entityId: prismaAuditLog.entityId,
+      action: prismaAuditLog.action.toLowerCase(),
+      description: prismaAuditLog.description,
+      userId: prismaAuditLog.userId,
+      userName: prismaAuditLog.userName,
+      userRole: prismaAuditLog.userRole,
+      oldData: oldData ?? undefined,
+      newData: newData ?? undefined,
+      changes: changes ?? undefined,
+      ipAddress: prismaAuditLog.ipAddress,
+      userAgent: prismaAuditLog.userAgent,
+      sessionId: prismaAuditLog.sessionId,
+      validationStatus: prismaAuditLog.validationStatus?.toLowerCase(),
+      justification: prismaAuditLog.justification ?? undefined,
+      metadata: prismaAuditLog.metadata ?? undefined,
+      patientId: prismaAuditLog.patientId ?? undefined,
+      procedureId: prismaAuditLog.procedureId ?? undefined,
+      billingId: prismaAuditLog.billingId ?? undefined,
+      createdAt: prismaAuditLog.createdAt
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { PatientRepository } from './patient.repository';
+import { patientProjector } from '../events/patient-projector';
+import {
+  BillingItem,
+  CreateBillingItemRequest,
+  BillingItemSearchFilters,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+
+export class BillingRepository {
+  private patientRepository = new PatientRepository();
+
+  // WRITE OPERATIONS (PostgreSQL)
+  // Every write also refreshes the patient's read model counters (see PatientRepository.touchSummary)
+  async create(
+    patientId: string,
+    data: CreateBillingItemRequest,
+    requester: { id: string; name: string }
+  ): Promise<BillingItem> {
+    try {
+      // Decimal(10, 2) in the database: round before multiplying so the total matches the stored unit price
+      const unitPrice = new Prisma.Decimal(String(data.unitPrice)).toDecimalPlaces(2);
+      const totalPrice = unitPrice.mul(data.quantity).toDecimalPlaces(2);
+
+      const item = await prisma.$transaction(async (tx) => {
+        const created = await tx.billingItem.create({
+          data: {
+            patientId,
+            procedureId: data.procedureId || null,
+            code: data.code,
+            description: data.description,
+            category: data.category.toUpperCase() as any,
+            unitPrice,
+            quantity: data.quantity,
+            totalPrice,
+            port: data.port ?? null,
+            coverageType: data.coverageType.toUpperCase() as any,
+            riskLevel: data.riskLevel.toUpperCase() as any,
+            requesterId: requester.id,
+            requesterName: requester.name,
+            requestDate: data.requestDate ? new Date(data.requestDate) : new Date(),
+            status: 'PENDING',
+            validationStatus: 'PENDING'
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, patientId, { reason: 'billing_item.created', billingItemId: created.id });
+        return created;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Billing item created successfully:', { billingItemId: item.id, patientId });
+      return this.mapPrismaToBillingItem(item);
+    } catch (error) {
+      logger.error('Failed to create billing item:', error);
+      throw error;
+    }
+  }
+
+  async updateStatus(
+    id: string,
+    status: string,
+    extra: { validationStatus?: string; auditNotes?: string; rejectionReason?: string }
+  ): Promise<BillingItem> {
+    try {
+      const item = await prisma.$transaction(async (tx) => {
+        const updated = await tx.billingItem.update({
+          where: { id },
+          data: {
+            status: status.toUpperCase() as any,
+            ...(extra.validationStatus && { validationStatus: extra.validationStatus.toUpperCase() as any }),
+            ...(extra.auditNotes !== undefined && { auditNotes: extra.auditNotes }),
+            ...(extra.rejectionReason !== undefined && { rejectionReason: extra.rejectionReason })
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, updated.patientId, { reason: 'billing_item.status_changed', billingItemId: id });
+        return updated;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Billing item status updated successfully:', { billingItemId: id, status });
+      return this.mapPrismaToBillingItem(item);
+    } catch (error) {
+      logger.error('Failed to update billing item status:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(patientId: string, id: string): Promise<BillingItem | null> {
+    try {
+      const item = await prisma.billingItem.findFirst({
+        where: { id, patientId, deletedAt: null }
+      });
+
+      return item ? this.mapPrismaToBillingItem(item) : null;
+    } catch (error) {
+      logger.error('Failed to find billing item by ID:', error);
+      throw error;
+    }
+  }
+
+  async findMany(
+    patientId: string,
+    filters: BillingItemSearchFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<BillingItem> & { totalAmount: string }> {
+    try {
+      const where: Prisma.BillingItemWhereInput = { patientId, deletedAt: null };
+
+      if (filters.status) {
+        where.status = filters.status.toUpperCase() as any;
+      }
+      if (filters.category) {
+        where.category = filters.category.toUpperCase() as any;
+      }
+      if (filters.coverageType) {
+        where.coverageType = filters.coverageType.toUpperCase() as any;
+      }
+      if (filters.procedureId) {
+        where.procedureId = filters.procedureId;
+      }
+      if (filters.requestDateFrom || filters.requestDateTo) {
+        where.requestDate = {
+          ...(filters.requestDateFrom && { gte: new Date(filters.requestDateFrom) }),
+          ...(filters.requestDateTo && { lte: new Date(filters.requestDateTo) })
+        };
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [items, total, sum] = await Promise.all([
+        prisma.billingItem.findMany({
+          where,
+          orderBy: { requestDate: pagination.sortOrder === 'asc' ? 'asc' : 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.billingItem.count({ where }),
+        prisma.billingItem.aggregate({ where, _sum: { totalPrice: true } })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: items.map(item => this.mapPrismaToBillingItem(item)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        },
+        totalAmount: (sum._sum.totalPrice ?? new Prisma.Decimal(0)).toFixed(2)
+      };
+    } catch (error) {
+      logger.error('Failed to find billing items:', error);
+      throw error;
+    }
+  }
+
+  async procedureBelongsToPatient(patientId: string, procedureId: string): Promise<boolean> {
+    try {
+      const count = await prisma.procedure.count({ where: { id: procedureId, patientId, deletedAt: null } });
+      return count > 0;
+    } catch (error) {
+      logger.error('Failed to check billing item procedure:', error);
+      throw error;
+    }
+  }
+
+  // Every billing item of the patient, including deleted ones (data subject export)
+  async findAllByPatient(patientId: string): Promise<BillingItem[]> {
+    try {
+      const rows = await prisma.billingItem.findMany({
+        where: { patientId },
+        orderBy: { createdAt: 'asc' }
+      });
+      return rows.map(row => this.mapPrismaToBillingItem(row));
+    } catch (error) {
+      logger.error('Failed to find all billing items of patient:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToBillingItem(prismaItem: any): BillingItem {
+    return {
+      id: prismaItem.id,
+      patientId: prismaItem.patientId,
+      procedureId: prismaItem.procedureId ?? undefined,
+      code: prismaItem.code,
+      description: prismaItem.description,
+      category: prismaItem.category.toLowerCase(),
+      unitPrice: new Prisma.Decimal(prismaItem.unitPrice).toFixed(2),
+      quantity: prismaItem.quantity,
+      totalPrice: new Prisma.Decimal(prismaItem.totalPrice).toFixed(2),
+      port: prismaItem.port ?? undefined,
+      coverageType: prismaItem.coverageType.toLowerCase(),
+      riskLevel: prismaItem.riskLevel.toLowerCase(),
+      requesterId: prismaItem.requesterId,
+      requesterName: prismaItem.requesterName,
+      requestDate: prismaItem.requestDate,
+      status: prismaItem.status.toLowerCase(),
+      validationStatus: prismaItem.validationStatus.toLowerCase(),
+      auditNotes: prismaItem.auditNotes ?? undefined,
+      rejectionReason: prismaItem.rejectionReason ?? undefined,
+      createdAt: prismaItem.createdAt,
+      updatedAt: prismaItem.updatedAt
+    };
+  }
+}
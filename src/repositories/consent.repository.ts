@@ -0,0 +1,150 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { OutboxRepository } from './outbox.repository';
+import { patientProjector } from '../events/patient-projector';
+import {
+  ConsentHistoryFilters,
+  ConsentLegalBasis,
+  ConsentPurpose,
+  ConsentStatus,
+  OutboxEvent,
+  PatientConsent
+} from '@/types';
+
+// Consent history of the patients. Rows are never updated: every grant or revocation of a
+// purpose is a new version, and the latest version is the one in force.
+export class ConsentRepository {
+  private outboxRepository = new OutboxRepository();
+
+  // WRITE OPERATIONS (PostgreSQL)
+  // The patient row is locked so concurrent changes of the same patient get consecutive versions
+  async record(
+    data: {
+      patientId: string;
+      purpose: ConsentPurpose;
+      status: ConsentStatus;
+      legalBasis: ConsentLegalBasis;
+      termsVersion?: string;
+      grantedAt?: Date;
+      revokedAt?: Date;
+      recordedBy: string;
+      recordedByName: string;
+      notes?: string;
+    },
+    events: (consent: PatientConsent) => OutboxEvent[] = () => []
+  ): Promise<PatientConsent> {
+    try {
+      const consent = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT "id" FROM "patients" WHERE "id" = ${data.patientId} FOR UPDATE`;
+
+        const purpose = data.purpose.toUpperCase() as any;
+        const latest = await tx.patientConsent.findFirst({
+          where: { patientId: data.patientId, purpose },
+          orderBy: { version: 'desc' },
+          select: { version: true }
+        });
+
+        const created = await tx.patientConsent.create({
+          data: {
+            patientId: data.patientId,
+            purpose,
+            version: (latest?.version ?? 0) + 1,
+            status: data.status.toUpperCase() as any,
+            legalBasis: data.legalBasis.toUpperCase() as any,
+            termsVersion: data.termsVersion ?? null,
+            grantedAt: data.grantedAt ?? null,
+            revokedAt: data.revokedAt ?? null,
+            recordedBy: data.recordedBy,
+            recordedByName: data.recordedByName,
+            notes: data.notes ?? null
+          }
+        });
+
+        const mapped = this.mapPrismaToConsent(created);
+        await this.outboxRepository.enqueue(tx, events(mapped));
+        return mapped;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Patient consent recorded:', {
+        patientId: consent.patientId,
+        purpose: consent.purpose,
+        status: consent.status,
+        version: consent.version
+      });
+      return consent;
+    } catch (error) {
+      logger.error('Failed to record patient consent:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  // Latest version of each purpose that has one
+  async findCurrent(patientId: string): Promise<PatientConsent[]> {
+    try {
+      const consents = await prisma.patientConsent.findMany({
+        where: { patientId },
+        distinct: ['purpose'],
+        orderBy: [{ purpose: 'asc' }, { version: 'desc' }]
+      });
+
+      return consents.map(consent => this.mapPrismaToConsent(consent));
+    } catch (error) {
+      logger.error('Failed to find current patient consents:', error);
+      throw error;
+    }
+  }
+
+  async findLatest(patientId: string, purpose: ConsentPurpose): Promise<PatientConsent | null> {
+    try {
+      const consent = await prisma.patientConsent.findFirst({
+        where: { patientId, purpose: purpose.toUpperCase() as any },
+        orderBy: { version: 'desc' }
+      });
+
+      return consent ? this.mapPrismaToConsent(consent) : null;
+    } catch (error) {
+      logger.error('Failed to find latest patient consent:', error);
+      throw error;
+    }
+  }
+
+  // Every version, newest first
+  async findHistory(patientId: string, filters: ConsentHistoryFilters = {}): Promise<PatientConsent[]> {
+    try {
+      const consents = await prisma.patientConsent.findMany({
+        where: {
+          patientId,
+          ...(filters.purpose && { purpose: filters.purpose.toUpperCase() as any })
+        },
+        orderBy: [{ createdAt: 'desc' }, { version: 'desc' }]
+      });
+
+      return consents.map(consent => this.mapPrismaToConsent(consent));
+    } catch (error) {
+      logger.error('Failed to find patient consent history:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToConsent(prismaConsent: any): PatientConsent {
+    return {
+      id: prismaConsent.id,
+      patientId: prismaConsent.patientId,
+      purpose: prismaConsent.purpose.toLowerCase(),
+      version: prismaConsent.version,
+      status: prismaConsent.status.toLowerCase(),
+      legalBasis: prismaConsent.legalBasis.toLowerCase(),
+      termsVersion: prismaConsent.termsVersion ?? undefined,
+      grantedAt: prismaConsent.grantedAt ?? undefined,
+      revokedAt: prismaConsent.revokedAt ?? undefined,
+      recordedBy: prismaConsent.recordedBy,
+      recordedByName: prismaConsent.recordedByName,
+      notes: prismaConsent.notes ?? undefined,
+      createdAt: prismaConsent.createdAt
+    };
+  }
+}
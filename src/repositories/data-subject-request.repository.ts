@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  DataSubjectRequest,
+  DataSubjectRequestFilters,
+  DataSubjectRequestType,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+
+// Requests of data subjects (LGPD). A request stays open (pending or failed) until it is
+// fulfilled, and its deadline is counted from the moment it was registered.
+export class DataSubjectRequestRepository {
+  // WRITE OPERATIONS (PostgreSQL)
+  async create(data: {
+    patientId: string;
+    type: DataSubjectRequestType;
+    requestedBy: string;
+    requestedByName: string;
+    notes?: string;
+    dueAt: Date;
+  }): Promise<DataSubjectRequest> {
+    try {
+      const request = await prisma.dataSubjectRequest.create({
+        data: {
+          patientId: data.patientId,
+          type: data.type.toUpperCase() as any,
+          requestedBy: data.requestedBy,
+          requestedByName: data.requestedByName,
+          notes: data.notes ?? null,
+          dueAt: data.dueAt
+        }
+      });
+
+      return this.mapPrismaToRequest(request);
+    } catch (error) {
+      logger.error('Failed to create data subject request:', error);
+      throw error;
+    }
+  }
+
+  async markCompleted(id: string, completedBy: string, result: Record<string, any>): Promise<DataSubjectRequest> {
+    try {
+      const request = await prisma.dataSubjectRequest.update({
+        where: { id },
+        data: {
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          completedBy,
+          lastError: null,
+          result: result as Prisma.InputJsonValue
+        }
+      });
+
+      return this.mapPrismaToRequest(request);
+    } catch (error) {
+      logger.error('Failed to complete data subject request:', error);
+      throw error;
+    }
+  }
+
+  async markFailed(id: string, lastError: string): Promise<DataSubjectRequest> {
+    try {
+      const request = await prisma.dataSubjectRequest.update({
+        where: { id },
+        data: { status: 'FAILED', lastError }
+      });
+
+      return this.mapPrismaToRequest(request);
+    } catch (error) {
+      logger.error('Failed to record data subject request failure:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(id: string): Promise<DataSubjectRequest | null> {
+    try {
+      const request = await prisma.dataSubjectRequest.findUnique({ where: { id } });
+      return request ? this.mapPrismaToRequest(request) : null;
+    } catch (error) {
+      logger.error('Failed to find data subject request by ID:', error);
+      throw error;
+    }
+  }
+
+  async findMany(
+    filters: DataSubjectRequestFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<DataSubjectRequest>> {
+    try {
+      const where: Prisma.DataSubjectRequestWhereInput = {};
+
+      if (filters.patientId) {
+        where.patientId = filters.patientId;
+      }
+      if (filters.type) {
+        where.type = filters.type.toUpperCase() as any;
+      }
+      if (filters.status) {
+        where.status = filters.status.toUpperCase() as any;
+      }
+      if (filters.overdue) {
+        where.AND = [
+          { status: { in: ['PENDING', 'FAILED'] } },
+          { dueAt: { lt: new Date() } }
+        ];
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [requests, total] = await Promise.all([
+        prisma.dataSubjectRequest.findMany({
+          where,
+          // Closest deadline first
+          orderBy: { dueAt: pagination.sortOrder === 'desc' ? 'desc' : 'asc' },
+          skip,
+          take: limit
+        }),
+        prisma.dataSubjectRequest.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: requests.map(request => this.mapPrismaToRequest(request)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find data subject requests:', error);
+      throw error;
+    }
+  }
+
+  // Rows kept after an anonymization for their retention periods
+  async countRetainedRecords(patientId: string): Promise<{
+    procedures: number;
+    billingItems: number;
+    documents: number;
+    auditLogs: number;
+  }> {
+    try {
+      const [procedures, billingItems, documents, auditLogs] = await Promise.all([
+        prisma.procedure.count({ where: { patientId } }),
+        prisma.billingItem.count({ where: { patientId } }),
+        prisma.document.count({ where: { patientId } }),
+        prisma.auditLog.count({ where: { OR: [{ patientId }, { entityType: 'PATIENT', entityId: patientId }] } })
+      ]);
+
+      return { procedures, billingItems, documents, auditLogs };
+    } catch (error) {
+      logger.error('Failed to count retained patient records:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToRequest(prismaRequest: any): DataSubjectRequest {
+    return {
+      id: prismaRequest.id,
+      patientId: prismaRequest.patientId,
+      type: prismaRequest.type.toLowerCase(),
+      requestedBy: prismaRequest.requestedBy,
+      requestedByName: prismaRequest.requestedByName,
+      notes: prismaRequest.notes ?? undefined,
+      status: prismaRequest.status.toLowerCase(),
+      dueAt: prismaRequest.dueAt,
+      completedAt: prismaRequest.completedAt ?? undefined,
+      completedBy: prismaRequest.completedBy ?? undefined,
+      lastError: prismaRequest.lastError ?? undefined,
+      result: prismaRequest.result ?? undefined,
+      createdAt: prismaRequest.createdAt,
+      updatedAt: prismaRequest.updatedAt
+    };
+  }
+}
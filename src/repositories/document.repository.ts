@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { StoredObject } from '../config/storage';
+import {
+  DocumentMetadata,
+  DocumentSearchFilters,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+
+export interface StoredDocumentLocation {
+  containerName: string;
+  blobName: string;
+}
+
+export class DocumentRepository {
+  // WRITE OPERATIONS (PostgreSQL)
+  async create(
+    patientId: string,
+    data: {
+      filename: string;
+      originalName: string;
+      mimeType: string;
+      size: number;
+      category: string;
+      description?: string;
+      uploadedBy: string;
+      uploadedByName: string;
+    },
+    stored: StoredObject
+  ): Promise<DocumentMetadata> {
+    try {
+      const document = await prisma.document.create({
+        data: {
+          patientId,
+          filename: data.filename,
+          originalName: data.originalName,
+          mimeType: data.mimeType,
+          size: data.size,
+          category: data.category.toUpperCase() as any,
+          description: data.description || null,
+          blobUrl: stored.url,
+          containerName: stored.containerName,
+          blobName: stored.blobName,
+          uploadedBy: data.uploadedBy,
+          uploadedByName: data.uploadedByName
+        }
+      });
+
+      logger.info('Document created successfully:', { documentId: document.id, patientId });
+      return this.mapPrismaToDocument(document);
+    } catch (error) {
+      logger.error('Failed to create document:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      // Soft delete: the blob is kept for the retention period
+      await prisma.document.update({
+        where: { id },
+        data: { deletedAt: new Date() }
+      });
+
+      logger.info('Document deleted successfully:', { documentId: id });
+    } catch (error) {
+      logger.error('Failed to delete document:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(patientId: string, id: string): Promise<DocumentMetadata | null> {
+    try {
+      const document = await prisma.document.findFirst({
+        where: { id, patientId, deletedAt: null }
+      });
+
+      return document ? this.mapPrismaToDocument(document) : null;
+    } catch (error) {
+      logger.error('Failed to find document by ID:', error);
+      throw error;
+    }
+  }
+
+  async findLocation(patientId: string, id: string): Promise<(DocumentMetadata & StoredDocumentLocation) | null> {
+    try {
+      const document = await prisma.document.findFirst({
+        where: { id, patientId, deletedAt: null }
+      });
+
+      if (!document) {
+        return null;
+      }
+
+      return {
+        ...this.mapPrismaToDocument(document),
+        containerName: document.containerName,
+        blobName: document.blobName
+      };
+    } catch (error) {
+      logger.error('Failed to find document location:', error);
+      throw error;
+    }
+  }
+
+  async findMany(
+    patientId: string,
+    filters: DocumentSearchFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<DocumentMetadata>> {
+    try {
+      const where: Prisma.DocumentWhereInput = { patientId, deletedAt: null };
+
+      if (filters.category) {
+        where.category = filters.category.toUpperCase() as any;
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 20, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [documents, total] = await Promise.all([
+        prisma.document.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.document.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: documents.map(document => this.mapPrismaToDocument(document)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find documents:', error);
+      throw error;
+    }
+  }
+
+  // Every document of the patient, including deleted ones (data subject export)
+  async findAllByPatient(patientId: string): Promise<DocumentMetadata[]> {
+    try {
+      const rows = await prisma.document.findMany({
+        where: { patientId },
+        orderBy: { createdAt: 'asc' }
+      });
+      return rows.map(row => this.mapPrismaToDocument(row));
+    } catch (error) {
+      logger.error('Failed to find all documents of patient:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToDocument(prismaDocument: any): DocumentMetadata {
+    return {
+      id: prismaDocument.id,
+      patientId: prismaDocument.patientId,
+      filename: prismaDocument.filename,
+      originalName: prismaDocument.originalName,
+      mimeType: prismaDocument.mimeType,
+      size: prismaDocument.size,
+      category: prismaDocument.category.toLowerCase(),
+      description: prismaDocument.description ?? undefined,
+      uploadedBy: prismaDocument.uploadedBy,
+      uploadedByName: prismaDocument.uploadedByName,
+      metadata: prismaDocument.metadata ?? undefined,
+      createdAt: prismaDocument.createdAt,
+      updatedAt: prismaDocument.updatedAt
+    };
+  }
+}
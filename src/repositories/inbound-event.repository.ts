@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  InboundEvent,
+  InboundEventFilters,
+  PaginationParams,
+  PaginatedResponse,
+  ReceivedEvent
+} from '@/types';
+
+// Inbox of the events consumed from other services. A message is claimed by its messageId before
+// it is handled and then gets its final outcome (processed or dead-lettered), so a redelivered
+// or duplicate copy of the messageId is recognised and skipped.
+export class InboundEventRepository {
+  // WRITE OPERATIONS (PostgreSQL)
+  // False when the messageId is already in the inbox. A claim older than staleBefore that never
+  // got an outcome is taken over.
+  async claim(messageId: string, eventType: string, received: ReceivedEvent, staleBefore: Date): Promise<boolean> {
+    try {
+      await prisma.inboundEvent.create({
+        data: {
+          messageId,
+          destination: received.destination,
+          eventType,
+          payload: received.body as Prisma.InputJsonValue,
+          status: 'PROCESSING'
+        }
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        logger.error('Failed to claim inbound event:', error);
+        throw error;
+      }
+    }
+
+    try {
+      const { count } = await prisma.inboundEvent.updateMany({
+        where: { messageId, status: 'PROCESSING', updatedAt: { lt: staleBefore } },
+        data: { updatedAt: new Date() }
+      });
+      return count === 1;
+    } catch (error) {
+      logger.error('Failed to take over stale inbound event claim:', error);
+      throw error;
+    }
+  }
+
+  // Drops a claim without an outcome, so the next delivery of the message handles it again
+  async releaseClaim(messageId: string): Promise<void> {
+    try {
+      await prisma.inboundEvent.deleteMany({ where: { messageId, status: 'PROCESSING' } });
+    } catch (error) {
+      logger.error('Failed to release inbound event claim:', error);
+      throw error;
+    }
+  }
+
+  async markProcessed(messageId: string, eventType: string, received: ReceivedEvent, attempts: number): Promise<InboundEvent> {
+    try {
+      const data = {
+        status: 'PROCESSED' as const,
+        attempts,
+        lastError: null,
+        processedAt: new Date()
+      };
+
+      const event = await prisma.inboundEvent.upsert({
+        where: { messageId },
+        create: {
+          messageId,
+          destination: received.destination,
+          eventType,
+          payload: received.body as Prisma.InputJsonValue,
+          ...data
+        },
+        update: data
+      });
+
+      return this.mapPrismaToInboundEvent(event);
+    } catch (error) {
+      logger.error('Failed to record processed inbound event:', error);
+      throw error;
+    }
+  }
+
+  async markDeadLettered(
+    messageId: string,
+    eventType: string,
+    received: ReceivedEvent,
+    attempts: number,
+    lastError: string
+  ): Promise<InboundEvent> {
+    try {
+      const event = await prisma.inboundEvent.upsert({
+        where: { messageId },
+        create: {
+          messageId,
+          destination: received.destination,
+          eventType,
+          payload: received.body as Prisma.InputJsonValue,
+          status: 'DEAD_LETTERED',
+          attempts,
+          lastError
+        },
+        update: { status: 'DEAD_LETTERED', attempts, lastError }
+      });
+
+      return this.mapPrismaToInboundEvent(event);
+    } catch (error) {
+      logger.error('Failed to record dead-lettered inbound event:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(id: string): Promise<InboundEvent | null> {
+    try {
+      const event = await prisma.inboundEvent.findUnique({ where: { id } });
+      return event ? this.mapPrismaToInboundEvent(event) : null;
+    } catch (error) {
+      logger.error('Failed to find inbound event by ID:', error);
+      throw error;
+    }
+  }
+
+  async findMany(filters: InboundEventFilters, pagination: PaginationParams): Promise<PaginatedResponse<InboundEvent>> {
+    try {
+      const where: Prisma.InboundEventWhereInput = {};
+
+      if (filters.status) {
+        where.status = filters.status.toUpperCase() as any;
+      }
+      if (filters.eventType) {
+        where.eventType = filters.eventType;
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [events, total] = await Promise.all([
+        prisma.inboundEvent.findMany({
+          where,
+          orderBy: { createdAt: pagination.sortOrder === 'asc' ? 'asc' : 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.inboundEvent.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: events.map(event => this.mapPrismaToInboundEvent(event)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find inbound events:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToInboundEvent(prismaEvent: any): InboundEvent {
+    return {
+      id: prismaEvent.id,
+      messageId: prismaEvent.messageId,
+      destination: prismaEvent.destination,
+      eventType: prismaEvent.eventType,
+      payload: prismaEvent.payload,
+      status: prismaEvent.status.toLowerCase(),
+      attempts: prismaEvent.attempts,
+      lastError: prismaEvent.lastError ?? undefined,
+      processedAt: prismaEvent.processedAt ?? undefined,
+      createdAt: prismaEvent.createdAt,
+      updatedAt: prismaEvent.updatedAt
+    };
+  }
+}
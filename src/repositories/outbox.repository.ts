@@ -0,0 +1,255 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { isAnalyticsEvent } from '../config/consent-policy';
+import { OutboxEvent, OutboxMessage, OutboxMessageStatus } from '@/types';
+
+// Arbitrary application-wide key for the dispatcher's Postgres advisory lock
+const DISPATCHER_LOCK_KEY = 4_812_006;
+
+export class OutboxRepository {
+  // WRITE OPERATIONS (PostgreSQL) - always called inside the transaction of the domain change
+  async enqueue(tx: Prisma.TransactionClient, events: OutboxEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    // Analytics consumers get their own copy, which the dispatcher withholds without research consent
+    const analyticsCopies = events
+      .filter(event => isAnalyticsEvent(event.eventType))
+      .map(event => ({ ...event, destination: config.consents.analyticsDestination }));
+
+    await tx.outboxMessage.createMany({
+      data: [...events, ...analyticsCopies].map(event => ({
+        aggregateType: event.aggregateType,
+        aggregateId: event.aggregateId,
+        eventType: event.eventType,
+        destination: event.destination,
+        payload: event.payload as Prisma.InputJsonValue
+      }))
+    });
+  }
+
+  // Claims messages for delivery: they stay PENDING but are not due again until the lease ends, so
+  // other dispatchers skip them and later messages of the same aggregate keep waiting behind them
+  async lease(tx: Prisma.TransactionClient, ids: string[], until: Date): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await tx.outboxMessage.updateMany({
+      where: { id: { in: ids }, status: 'PENDING' },
+      data: { nextAttemptAt: until }
+    });
+  }
+
+  // DELIVERY OUTCOMES (PostgreSQL) - one short write per message, after the broker call. Only a
+  // message still PENDING is updated, so an outcome recorded by another dispatcher after the
+  // lease expired is kept.
+  async markPublished(id: string): Promise<void> {
+    await prisma.outboxMessage.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'PUBLISHED', publishedAt: new Date(), lastError: null }
+    });
+  }
+
+  // Closed without delivery; lastError records why
+  async markWithheld(id: string, reason: string): Promise<void> {
+    await prisma.outboxMessage.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'WITHHELD', lastError: reason }
+    });
+  }
+
+  // A null nextAttemptAt means the retries are exhausted and the message is parked as FAILED
+  async markAttemptFailed(id: string, attempts: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await prisma.outboxMessage.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        attempts,
+        lastError: error,
+        ...(nextAttemptAt ? { nextAttemptAt } : { status: 'FAILED' })
+      }
+    });
+  }
+
+  // Ends the lease of claimed messages that were not attempted, so they are due again as soon as
+  // nothing earlier of their aggregate holds them back
+  async release(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await prisma.outboxMessage.updateMany({
+      where: { id: { in: ids }, status: 'PENDING' },
+      data: { nextAttemptAt: new Date() }
+    });
+  }
+
+  async retry(id: string): Promise<OutboxMessage | null> {
+    try {
+      const { count } = await prisma.outboxMessage.updateMany({
+        where: { id, status: 'FAILED' },
+        data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const message = await prisma.outboxMessage.findUnique({ where: { id } });
+      return message ? this.mapPrismaToOutboxMessage(message) : null;
+    } catch (error) {
+      logger.error('Failed to retry outbox message:', error);
+      throw error;
+    }
+  }
+
+  // Only one dispatcher instance may claim at a time; the lock is released when the transaction ends
+  async tryLock(tx: Prisma.TransactionClient): Promise<boolean> {
+    const [result] = await tx.$queryRaw<{ locked: boolean }[]>`
+      SELECT pg_try_advisory_xact_lock(${DISPATCHER_LOCK_KEY}) AS locked
+    `;
+    return result?.locked === true;
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  // Returns due messages in sequence order, skipping any message that has an earlier
+  // undelivered message for the same aggregate (backing off or FAILED), so delivery stays ordered.
+  async findDispatchable(tx: Prisma.TransactionClient, limit: number): Promise<OutboxMessage[]> {
+    const now = new Date();
+
+    const candidates = await tx.outboxMessage.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { sequence: 'asc' },
+      take: limit
+    });
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const blockers = await tx.outboxMessage.findMany({
+      where: {
+        aggregateId: { in: [...new Set(candidates.map(message => message.aggregateId))] },
+        OR: [
+          { status: 'FAILED' },
+          { status: 'PENDING', nextAttemptAt: { gt: now } }
+        ]
+      },
+      select: { aggregateId: true, sequence: true }
+    });
+
+    const firstBlocker = new Map<string, number>();
+    for (const blocker of blockers) {
+      const current = firstBlocker.get(blocker.aggregateId);
+      if (current === undefined || blocker.sequence < current) {
+        firstBlocker.set(blocker.aggregateId, blocker.sequence);
+      }
+    }
+
+    return candidates
+      .filter(message => {
+        const blockedFrom = firstBlocker.get(message.aggregateId);
+        return blockedFrom === undefined || message.sequence < blockedFrom;
+      })
+      .map(message => this.mapPrismaToOutboxMessage(message));
+  }
+
+  // Committed messages after the given position, whatever their delivery status (read by projections)
+  async findAfter(sequence: number, limit: number): Promise<OutboxMessage[]> {
+    try {
+      const messages = await prisma.outboxMessage.findMany({
+        where: { sequence: { gt: sequence } },
+        orderBy: { sequence: 'asc' },
+        take: limit
+      });
+
+      return messages.map(message => this.mapPrismaToOutboxMessage(message));
+    } catch (error) {
+      logger.error('Failed to read outbox messages:', error);
+      throw error;
+    }
+  }
+
+  async countByStatus(): Promise<Record<OutboxMessageStatus, number>> {
+    try {
+      const groups = await prisma.outboxMessage.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      });
+
+      const counts = {
+        [OutboxMessageStatus.PENDING]: 0,
+        [OutboxMessageStatus.PUBLISHED]: 0,
+        [OutboxMessageStatus.FAILED]: 0,
+        [OutboxMessageStatus.WITHHELD]: 0
+      };
+      for (const group of groups) {
+        counts[group.status.toLowerCase() as OutboxMessageStatus] = group._count._all;
+      }
+
+      return counts;
+    } catch (error) {
+      logger.error('Failed to count outbox messages:', error);
+      throw error;
+    }
+  }
+
+  async findOldestPending(): Promise<OutboxMessage | null> {
+    try {
+      const message = await prisma.outboxMessage.findFirst({
+        where: { status: 'PENDING' },
+        orderBy: { sequence: 'asc' }
+      });
+
+      return message ? this.mapPrismaToOutboxMessage(message) : null;
+    } catch (error) {
+      logger.error('Failed to find oldest pending outbox message:', error);
+      throw error;
+    }
+  }
+
+  // Stuck = parked as FAILED, already retried at least once, or pending longer than the threshold
+  async findStuck(pendingBefore: Date, limit: number): Promise<OutboxMessage[]> {
+    try {
+      const messages = await prisma.outboxMessage.findMany({
+        where: {
+          OR: [
+            { status: 'FAILED' },
+            { status: 'PENDING', attempts: { gt: 0 } },
+            { status: 'PENDING', createdAt: { lt: pendingBefore } }
+          ]
+        },
+        orderBy: { sequence: 'asc' },
+        take: limit
+      });
+
+      return messages.map(message => this.mapPrismaToOutboxMessage(message));
+    } catch (error) {
+      logger.error('Failed to find stuck outbox messages:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToOutboxMessage(prismaMessage: any): OutboxMessage {
+    return {
+      id: prismaMessage.id,
+      sequence: prismaMessage.sequence,
+      aggregateType: prismaMessage.aggregateType,
+      aggregateId: prismaMessage.aggregateId,
+      eventType: prismaMessage.eventType,
+      destination: prismaMessage.destination,
+      payload: prismaMessage.payload,
+      status: prismaMessage.status.toLowerCase(),
+      attempts: prismaMessage.attempts,
+      nextAttemptAt: prismaMessage.nextAttemptAt,
+      lastError: prismaMessage.lastError ?? undefined,
+      publishedAt: prismaMessage.publishedAt ?? undefined,
+      createdAt: prismaMessage.createdAt,
+      updatedAt: prismaMessage.updatedAt
+    };
+  }
+}
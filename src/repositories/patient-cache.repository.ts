@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/database';
+import { config } from '../config/config';
+import { fieldEncryption, PATIENT_PII_FIELDS } from '../config/encryption';
+import { logger } from '../config/logger';
+import { Patient, PaginatedResponse, PatientCacheLookup, PatientCacheStats } from '@/types';
+
+const KEY_PREFIX = 'patient:';
+// Bumped on every patient change; search keys embed it, so old results are simply never read again
+const SEARCH_GENERATION_KEY = `${KEY_PREFIX}search:generation`;
+
+const DATE_FIELDS = [
+  'birthDate',
+  'admissionDate',
+  'insuranceValidity',
+  'lastProcedureDate',
+  'createdAt',
+  'updatedAt',
+  'deletedAt'
+] as const;
+
+interface CachedPatient {
+  version: number;
+  data: Patient;
+}
+
+// Counters are per process
+const stats = {
+  hits: { id: 0, cpf: 0, record: 0, search: 0 } as Record<PatientCacheLookup, number>,
+  misses: { id: 0, cpf: 0, record: 0, search: 0 } as Record<PatientCacheLookup, number>,
+  errors: 0,
+  invalidations: 0
+};
+
+// Cache-aside for patient reads. Entries are never looked up by pattern: each patient has a
+// version floor key written when the read model changes, and an entry older than the floor is a
+// miss. Because the entry carries the version of the document it was read from, a reader that
+// loaded the old document before an invalidation cannot put stale data back. When Redis is
+// disabled or unavailable every call goes straight to the loader. Personal data fields are kept
+// encrypted in the entries, and CPF/medical record keys use the blind index instead of the value.
+export class PatientCacheRepository {
+  isEnabled(): boolean {
+    return config.features.useRedisCache && redisClient.isReady;
+  }
+
+  async getOrLoadPatient(
+    lookup: Exclude<PatientCacheLookup, 'search'>,
+    value: string,
+    load: () => Promise<Patient | null>
+  ): Promise<Patient | null> {
+    if (!this.isEnabled()) {
+      return load();
+    }
+
+    const key = `${KEY_PREFIX}${lookup}:${value}`;
+    try {
+      const cached = await this.readPatient(lookup, key, value);
+      if (cached) {
+        stats.hits[lookup]++;
+        return cached;
+      }
+    } catch (error) {
+      this.recordError('get', error);
+      return load();
+    }
+
+    stats.misses[lookup]++;
+    const patient = await load();
+
+    // Not-found results are not cached, so a new patient is visible as soon as it is projected
+    if (patient) {
+      const entry: CachedPatient = { version: patient.version ?? 0, data: this.protect(patient) };
+      await redisClient
+        .set(key, JSON.stringify(entry), { EX: config.redis.cacheTtlSeconds })
+        .catch(error => this.recordError('set', error));
+    }
+
+    return patient;
+  }
+
+  async getOrLoadSearch(
+    params: object,
+    load: () => Promise<PaginatedResponse<Patient>>
+  ): Promise<PaginatedResponse<Patient>> {
+    if (!this.isEnabled()) {
+      return load();
+    }
+
+    let key: string;
+    try {
+      // The generation is read before loading, so a change made during the query invalidates the result
+      const generation = (await redisClient.get(SEARCH_GENERATION_KEY)) || '0';
+      const hash = crypto.createHash('sha1').update(JSON.stringify(params)).digest('hex');
+      key = `${KEY_PREFIX}search:${generation}:${hash}`;
+
+      const cached = await redisClient.get(key);
+      if (cached) {
+        stats.hits.search++;
+        const result = JSON.parse(cached) as PaginatedResponse<Patient>;
+        return { ...result, data: result.data.map(patient => this.unprotect(patient)) };
+      }
+    } catch (error) {
+      this.recordError('get', error);
+      return load();
+    }
+
+    stats.misses.search++;
+    const result = await load();
+
+    const entry: PaginatedResponse<Patient> = { ...result, data: result.data.map(patient => this.protect(patient)) };
+    await redisClient
+      .set(key, JSON.stringify(entry), { EX: config.redis.searchCacheTtlSeconds })
+      .catch(error => this.recordError('set', error));
+
+    return result;
+  }
+
+  // Called after the read model document changes. minVersion is the lowest document version that
+  // may still be served from the cache.
+  async invalidate(patientId: string, minVersion: number): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await redisClient
+        .multi()
+        // Outlives any entry cached before it, including one written just after the invalidation
+        .set(this.versionKey(patientId), String(minVersion), { EX: config.redis.cacheTtlSeconds * 2 })
+        .incr(SEARCH_GENERATION_KEY)
+        .exec();
+      stats.invalidations++;
+    } catch (error) {
+      this.recordError('invalidate', error);
+    }
+  }
+
+  getStats(): PatientCacheStats {
+    const lookups = Object.keys(stats.hits) as PatientCacheLookup[];
+    const hits = lookups.reduce((sum, lookup) => sum + stats.hits[lookup], 0);
+    const misses = lookups.reduce((sum, lookup) => sum + stats.misses[lookup], 0);
+
+    return {
+      enabled: config.features.useRedisCache,
+      connected: redisClient.isReady,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 10 : 0,
+      errors: stats.errors,
+      invalidations: stats.invalidations,
+      byLookup: lookups.reduce((byLookup, lookup) => {
+        byLookup[lookup] = { hits: stats.hits[lookup], misses: stats.misses[lookup] };
+        return byLookup;
+      }, {} as PatientCacheStats['byLookup'])
+    };
+  }
+
+  // UTILITY METHODS
+  // Returns the cached patient, or null when there is no entry or it is older than the version floor
+  private async readPatient(lookup: PatientCacheLookup, key: string, value: string): Promise<Patient | null> {
+    let raw: string | null;
+    let floor: string | null;
+
+    if (lookup === 'id') {
+      [raw, floor] = await redisClient.mGet([key, this.versionKey(value)]);
+    } else {
+      raw = await redisClient.get(key);
+      if (!raw) {
+        return null;
+      }
+      floor = await redisClient.get(this.versionKey((JSON.parse(raw) as CachedPatient).data.id));
+    }
+
+    if (!raw) {
+      return null;
+    }
+
+    const entry = JSON.parse(raw) as CachedPatient;
+    if (floor && entry.version < Number(floor)) {
+      return null;
+    }
+
+    return this.unprotect(entry.data);
+  }
+
+  private protect(patient: Patient): Patient {
+    return fieldEncryption.encryptFields(patient, PATIENT_PII_FIELDS);
+  }
+
+  private unprotect(patient: Patient): Patient {
+    return this.reviveDates(fieldEncryption.decryptFields(patient, PATIENT_PII_FIELDS));
+  }
+
+  private reviveDates(patient: Patient): Patient {
+    const revived: Record<string, any> = { ...patient };
+    for (const field of DATE_FIELDS) {
+      if (revived[field]) {
+        revived[field] = new Date(revived[field]);
+      }
+    }
+    return revived as Patient;
+  }
+
+  private versionKey(patientId: string): string {
+    return `${KEY_PREFIX}version:${patientId}`;
+  }
+
+  private recordError(operation: string, error: unknown): void {
+    stats.errors++;
+    logger.warn(`Patient cache ${operation} failed, using the database:`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+import { PatientImportModel, PatientImportDocument } from '../models/patient-import.model';
+
+// Import jobs are operational state, kept in MongoDB next to the read model runs. The rows of
+// the file are never stored: only counts, row numbers, error messages and created patient IDs.
+export class PatientImportRepository {
+  async create(data: Partial<PatientImportDocument>): Promise<PatientImportDocument> {
+    return PatientImportModel.create(data);
+  }
+
+  async findById(id: string): Promise<PatientImportDocument | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return PatientImportModel.findById(id);
+  }
+
+  // Without the per-row report, which can hold one entry per row of the file
+  async findRecent(limit: number): Promise<PatientImportDocument[]> {
+    return PatientImportModel.find()
+      .select({ rowErrors: 0, created: 0 })
+      .sort({ startedAt: -1 })
+      .limit(limit);
+  }
+}
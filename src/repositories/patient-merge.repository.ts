@@ -0,0 +1,142 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  PaginatedResponse,
+  PaginationParams,
+  PatientMerge,
+  PatientMergeFilters,
+  ReassignedRecords
+} from '@/types';
+
+// Merges of duplicate patient records. The rows moved to the survivor are kept by ID so an undo
+// moves back exactly those rows; the patient rows themselves are changed by PatientRepository.
+export class PatientMergeRepository {
+  // WRITE OPERATIONS (PostgreSQL) - called inside the transaction of the merge or undo
+  async create(
+    tx: Prisma.TransactionClient,
+    data: {
+      survivorId: string;
+      mergedPatientId: string;
+      reason?: string;
+      reassignedRecords: ReassignedRecords;
+      mergedBy: string;
+      mergedByName: string;
+      undoDeadline: Date;
+    }
+  ): Promise<PatientMerge> {
+    const merge = await tx.patientMerge.create({
+      data: {
+        survivorId: data.survivorId,
+        mergedPatientId: data.mergedPatientId,
+        reason: data.reason ?? null,
+        reassignedRecords: data.reassignedRecords as unknown as Prisma.InputJsonValue,
+        mergedBy: data.mergedBy,
+        mergedByName: data.mergedByName,
+        undoDeadline: data.undoDeadline
+      }
+    });
+
+    return this.mapPrismaToMerge(merge);
+  }
+
+  // Returns null when the merge was undone meanwhile
+  async markUndone(
+    tx: Prisma.TransactionClient,
+    id: string,
+    undoneBy: string
+  ): Promise<{ merge: PatientMerge; reassignedRecords: ReassignedRecords } | null> {
+    const { count } = await tx.patientMerge.updateMany({
+      where: { id, status: 'MERGED' },
+      data: { status: 'UNDONE', undoneAt: new Date(), undoneBy }
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const merge = await tx.patientMerge.findUniqueOrThrow({ where: { id } });
+    return {
+      merge: this.mapPrismaToMerge(merge),
+      reassignedRecords: merge.reassignedRecords as unknown as ReassignedRecords
+    };
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(id: string): Promise<PatientMerge | null> {
+    try {
+      const merge = await prisma.patientMerge.findUnique({ where: { id } });
+      return merge ? this.mapPrismaToMerge(merge) : null;
+    } catch (error) {
+      logger.error('Failed to find patient merge by ID:', error);
+      throw error;
+    }
+  }
+
+  async findMany(filters: PatientMergeFilters, pagination: PaginationParams): Promise<PaginatedResponse<PatientMerge>> {
+    try {
+      const where: Prisma.PatientMergeWhereInput = {};
+
+      if (filters.patientId) {
+        where.OR = [{ survivorId: filters.patientId }, { mergedPatientId: filters.patientId }];
+      }
+      if (filters.status) {
+        where.status = filters.status.toUpperCase() as any;
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [merges, total] = await Promise.all([
+        prisma.patientMerge.findMany({
+          where,
+          orderBy: { createdAt: pagination.sortOrder === 'asc' ? 'asc' : 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.patientMerge.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: merges.map(merge => this.mapPrismaToMerge(merge)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find patient merges:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToMerge(prismaMerge: any): PatientMerge {
+    const records = prismaMerge.reassignedRecords as ReassignedRecords;
+    return {
+      id: prismaMerge.id,
+      survivorId: prismaMerge.survivorId,
+      mergedPatientId: prismaMerge.mergedPatientId,
+      reason: prismaMerge.reason ?? undefined,
+      status: prismaMerge.status.toLowerCase(),
+      reassigned: {
+        procedures: records.procedureIds.length,
+        billingItems: records.billingItemIds.length,
+        documents: records.documentIds.length,
+        auditLogs: records.auditLogIds.length
+      },
+      mergedBy: prismaMerge.mergedBy,
+      mergedByName: prismaMerge.mergedByName,
+      mergedAt: prismaMerge.createdAt,
+      undoDeadline: prismaMerge.undoDeadline,
+      undoneAt: prismaMerge.undoneAt ?? undefined,
+      undoneBy: prismaMerge.undoneBy ?? undefined
+    };
+  }
+}
@@ -0,0 +1,329 @@
+import mongoose from 'mongoose';
+import { Patient as PrismaPatient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { PatientReadModel, CreatePatientReadModel } from '../models/patient.model';
+import {
+  ProjectionCheckpointModel,
+  ProjectionRetryModel,
+  ProjectionRetryDocument,
+  ReadModelRunModel,
+  ReadModelRunDocument
+} from '../models/projection.model';
+import { PatientCacheRepository } from './patient-cache.repository';
+import { nameSearchKeys } from '../config/name-search';
+import { PatientReadSummary } from '@/types';
+
+export const PATIENT_PROJECTION = 'patients_read';
+
+export class PatientProjectionRepository {
+  private cache = new PatientCacheRepository();
+
+  // READ MODEL WRITES (MongoDB/Cosmos DB)
+  // Copies the current PostgreSQL row into the read model. Returns false when the row no longer
+  // exists in PostgreSQL (the document is soft deleted instead).
+  async projectPatient(patientId: string): Promise<boolean> {
+    const prismaPatient = await prisma.patient.findUnique({ where: { id: patientId } });
+    if (!prismaPatient) {
+      await this.markDeleted(patientId);
+      return false;
+    }
+
+    const summaries = await this.loadSummaries([patientId]);
+    await this.applySnapshot(prismaPatient, summaries.get(patientId)!);
+    return true;
+  }
+
+  // The update only matches an older version, so replaying an event (or applying one out of order)
+  // never overwrites newer data. Personal data is copied encrypted, as stored in PostgreSQL. A
+  // rebuild passes overwriteSyncedBefore so documents with a wrong version are replaced too,
+  // unless the projector already refreshed them during the rebuild.
+  async applySnapshot(
+    prismaPatient: PrismaPatient,
+    summary: PatientReadSummary,
+    overwriteSyncedBefore?: Date
+  ): Promise<void> {
+    const update: Record<string, any> = {
+      $set: {
+        ...this.toReadModel(prismaPatient),
+        ...summary,
+        version: prismaPatient.version,
+        createdAt: prismaPatient.createdAt,
+        updatedAt: prismaPatient.updatedAt,
+        lastSyncedAt: new Date(),
+        ...(prismaPatient.deletedAt && { deletedAt: prismaPatient.deletedAt })
+      }
+    };
+    if (!prismaPatient.deletedAt) {
+      update.$unset = { deletedAt: '' };
+    }
+    // Absent optional fields are unset (the blind indexes are sparse unique indexes)
+    for (const field of ['lastProcedureDate', 'cpfHash', 'cnsHash', 'medicalRecordNumberHash', 'emailHash', 'phoneHash']) {
+      if (update.$set[field] === undefined) {
+        delete update.$set[field];
+        update.$unset = { ...update.$unset, [field]: '' };
+      }
+    }
+
+    const filter = overwriteSyncedBefore
+      ? {
+          id: prismaPatient.id,
+          $or: [
+            { version: { $lte: prismaPatient.version } },
+            { lastSyncedAt: { $lt: overwriteSyncedBefore } }
+          ]
+        }
+      : { id: prismaPatient.id, version: { $lt: prismaPatient.version } };
+
+    try {
+      // updateOne is not covered by the soft-delete find hook, so deleted documents match too
+      await PatientReadModel.updateOne(filter, update, { upsert: true, timestamps: false });
+    } catch (error: any) {
+      // The upsert collides with the existing document when it already has this version or newer
+      if (error?.code === 11000 && error.keyPattern?.id) {
+        logger.debug('Read model already up to date:', { patientId: prismaPatient.id, version: prismaPatient.version });
+        return;
+      }
+      throw error;
+    }
+
+    // A rebuild may rewrite a document without changing its version, so entries of that version are dropped too
+    await this.cache.invalidate(prismaPatient.id, overwriteSyncedBefore ? prismaPatient.version + 1 : prismaPatient.version);
+
+    logger.debug('Patient projected to read database:', { patientId: prismaPatient.id, version: prismaPatient.version });
+  }
+
+  // Rows removed from PostgreSQL are kept in the read model as soft-deleted documents
+  async markDeleted(patientId: string): Promise<void> {
+    const previous = await PatientReadModel.findOneAndUpdate(
+      { id: patientId, deletedAt: { $exists: false } },
+      { $set: { deletedAt: new Date(), lastSyncedAt: new Date() } },
+      { timestamps: false, projection: { version: 1 } }
+    ).lean();
+
+    if (previous) {
+      await this.cache.invalidate(patientId, previous.version + 1);
+    }
+  }
+
+  // CHECKPOINT
+  async getPosition(projection: string): Promise<number> {
+    const checkpoint = await ProjectionCheckpointModel.findOne({ name: projection }).lean();
+    return checkpoint?.position ?? 0;
+  }
+
+  // $max keeps the position monotonic if two instances run the projector at the same time
+  async savePosition(projection: string, position: number): Promise<void> {
+    await ProjectionCheckpointModel.updateOne(
+      { name: projection },
+      { $max: { position } },
+      { upsert: true }
+    );
+  }
+
+  // RETRY QUEUE
+  async enqueueRetry(
+    projection: string,
+    patientId: string,
+    sequence: number,
+    eventType: string,
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    await ProjectionRetryModel.updateOne(
+      { projection, patientId },
+      {
+        $set: { sequence, eventType, lastError: error, status: 'pending', nextAttemptAt },
+        $setOnInsert: { attempts: 0 }
+      },
+      { upsert: true }
+    );
+  }
+
+  async findDueRetries(projection: string, limit: number): Promise<ProjectionRetryDocument[]> {
+    return ProjectionRetryModel.find({
+      projection,
+      status: 'pending',
+      nextAttemptAt: { $lte: new Date() }
+    })
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit);
+  }
+
+  async resolveRetry(id: string): Promise<void> {
+    await ProjectionRetryModel.deleteOne({ _id: id });
+  }
+
+  // A null nextAttemptAt parks the entry as failed
+  async markRetryFailed(id: string, attempts: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await ProjectionRetryModel.updateOne(
+      { _id: id },
+      {
+        $set: {
+          attempts,
+          lastError: error,
+          ...(nextAttemptAt ? { nextAttemptAt } : { status: 'failed' })
+        }
+      }
+    );
+  }
+
+  // SUMMARY COUNTERS (PostgreSQL)
+  // Counts exclude soft-deleted rows. Billing total ignores rejected items; pending validations are
+  // procedures awaiting approval plus billing items awaiting approval. The last procedure date is
+  // the completion date, else the scheduled date, else the creation date, ignoring cancelled ones.
+  async loadSummaries(patientIds: string[]): Promise<Map<string, PatientReadSummary>> {
+    const summaries = new Map<string, PatientReadSummary>(
+      patientIds.map(id => [id, { proceduresCount: 0, totalBillingAmount: 0, pendingValidations: 0 }])
+    );
+    if (patientIds.length === 0) {
+      return summaries;
+    }
+
+    const [procedures, pendingProcedures, billing, pendingBilling, lastProcedures] = await Promise.all([
+      prisma.procedure.groupBy({
+        by: ['patientId'],
+        where: { patientId: { in: patientIds }, deletedAt: null },
+        _count: { _all: true }
+      }),
+      prisma.procedure.groupBy({
+        by: ['patientId'],
+        where: { patientId: { in: patientIds }, deletedAt: null, status: 'PENDING_APPROVAL' },
+        _count: { _all: true }
+      }),
+      prisma.billingItem.groupBy({
+        by: ['patientId'],
+        where: { patientId: { in: patientIds }, deletedAt: null, status: { not: 'REJECTED' } },
+        _sum: { totalPrice: true }
+      }),
+      prisma.billingItem.groupBy({
+        by: ['patientId'],
+        where: { patientId: { in: patientIds }, deletedAt: null, status: 'PENDING' },
+        _count: { _all: true }
+      }),
+      prisma.$queryRaw<{ patientId: string; lastProcedureDate: Date | null }[]>`
+        SELECT "patientId", MAX(COALESCE("completedDate", "scheduledDate", "createdAt")) AS "lastProcedureDate"
+        FROM "procedures"
+        WHERE "patientId" IN (${Prisma.join(patientIds)})
+          AND "deletedAt" IS NULL
+          AND "status" <> 'CANCELLED'
+        GROUP BY "patientId"
+      `
+    ]);
+
+    for (const group of procedures) {
+      summaries.get(group.patientId)!.proceduresCount = group._count._all;
+    }
+    for (const group of pendingProcedures) {
+      summaries.get(group.patientId)!.pendingValidations += group._count._all;
+    }
+    for (const group of billing) {
+      summaries.get(group.patientId)!.totalBillingAmount = group._sum.totalPrice?.toNumber() ?? 0;
+    }
+    for (const group of pendingBilling) {
+      summaries.get(group.patientId)!.pendingValidations += group._count._all;
+    }
+    for (const row of lastProcedures) {
+      summaries.get(row.patientId)!.lastProcedureDate = row.lastProcedureDate ?? undefined;
+    }
+
+    return summaries;
+  }
+
+  // REBUILD / RECONCILE SOURCES
+  async countSource(): Promise<number> {
+    return prisma.patient.count();
+  }
+
+  // PostgreSQL rows in ID order, for cursor-based batches
+  async findSourceBatch(afterId: string | undefined, limit: number): Promise<PrismaPatient[]> {
+    return prisma.patient.findMany({
+      where: afterId ? { id: { gt: afterId } } : undefined,
+      orderBy: { id: 'asc' },
+      take: limit
+    });
+  }
+
+  async findExistingSourceIds(ids: string[]): Promise<Set<string>> {
+    const rows = await prisma.patient.findMany({
+      where: { id: { in: ids } },
+      select: { id: true }
+    });
+    return new Set(rows.map(row => row.id));
+  }
+
+  // aggregate() bypasses the soft-delete find hook, so deleted documents are included
+  async findReadModelDocuments(ids: string[]): Promise<Map<string, any>> {
+    const documents = await PatientReadModel.aggregate([
+      { $match: { id: { $in: ids } } }
+    ]);
+    return new Map(documents.map(document => [document.id, document]));
+  }
+
+  async countReadModel(): Promise<number> {
+    return PatientReadModel.collection.countDocuments({ deletedAt: { $exists: false } });
+  }
+
+  // Live (not soft-deleted) read model documents in ID order, for cursor-based batches
+  async findReadModelBatch(afterId: string | undefined, limit: number): Promise<string[]> {
+    const documents = await PatientReadModel.aggregate([
+      { $match: { deletedAt: { $exists: false }, ...(afterId && { id: { $gt: afterId } }) } },
+      { $sort: { id: 1 } },
+      { $limit: limit },
+      { $project: { _id: 0, id: 1 } }
+    ]);
+    return documents.map(document => document.id);
+  }
+
+  // RUNS
+  async createRun(data: Partial<ReadModelRunDocument>): Promise<ReadModelRunDocument> {
+    return ReadModelRunModel.create(data);
+  }
+
+  async findRun(id: string): Promise<ReadModelRunDocument | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return ReadModelRunModel.findById(id);
+  }
+
+  async findRecentRuns(limit: number): Promise<ReadModelRunDocument[]> {
+    return ReadModelRunModel.find().sort({ startedAt: -1 }).limit(limit);
+  }
+
+  // UTILITY METHODS
+  toReadModel(prismaPatient: PrismaPatient): CreatePatientReadModel {
+    return {
+      id: prismaPatient.id,
+      fullName: prismaPatient.fullName,
+      cpf: prismaPatient.cpf,
+      cpfHash: prismaPatient.cpfHash ?? undefined,
+      rg: prismaPatient.rg,
+      cns: prismaPatient.cns,
+      cnsHash: prismaPatient.cnsHash ?? undefined,
+      birthDate: prismaPatient.birthDate,
+      gender: prismaPatient.gender.toLowerCase() as CreatePatientReadModel['gender'],
+      ...nameSearchKeys(prismaPatient.fullName),
+      phone: prismaPatient.phone,
+      phoneHash: prismaPatient.phoneHash ?? undefined,
+      email: prismaPatient.email,
+      emailHash: prismaPatient.emailHash ?? undefined,
+      address: prismaPatient.address,
+      medicalRecordNumber: prismaPatient.medicalRecordNumber,
+      medicalRecordNumberHash: prismaPatient.medicalRecordNumberHash ?? undefined,
+      admissionDate: prismaPatient.admissionDate,
+      roomNumber: prismaPatient.roomNumber,
+      responsibleDoctor: prismaPatient.responsibleDoctor,
+      insurancePlan: prismaPatient.insurancePlan,
+      insuranceNumber: prismaPatient.insuranceNumber,
+      insuranceValidity: prismaPatient.insuranceValidity,
+      accommodationType: prismaPatient.accommodationType.toLowerCase() as CreatePatientReadModel['accommodationType'],
+      currentAccommodation: prismaPatient.currentAccommodation.toLowerCase() as CreatePatientReadModel['currentAccommodation'],
+      accommodationStatus: prismaPatient.accommodationStatus.toLowerCase() as CreatePatientReadModel['accommodationStatus'],
+      observations: prismaPatient.observations ?? undefined,
+      status: prismaPatient.status.toLowerCase() as CreatePatientReadModel['status'],
+      validationStatus: prismaPatient.validationStatus.toLowerCase() as CreatePatientReadModel['validationStatus'],
+      anonymizedAt: prismaPatient.anonymizedAt ?? undefined
+    };
+  }
+}
@@ -1,55 +1,85 @@
-import { PrismaClient } from '@prisma/client';
-import { PatientReadModel, PatientDocument, CreatePatientReadModel } from '../models/patient.model';
+import crypto from 'crypto';
+import { AccommodationType, PrismaClient, Prisma } from '@prisma/client';
+import { PatientReadModel, PatientDocument } from '../models/patient.model';
 import { prisma } from '../config/database';
-//import { cacheUtils } from '../config/database';
+import { OutboxRepository } from './outbox.repository';
+import { patientProjector } from '../events/patient-projector';
+import { patientSummaryChangedEvent } from '../events/patient.events';
+import { PatientCacheRepository } from './patient-cache.repository';
+import { AuditRepository } from './audit.repository';
+import { PatientMergeRepository } from './patient-merge.repository';
+import { fieldEncryption, encryptedValuePrefix, PATIENT_PII_FIELDS, PatientPiiField } from '../config/encryption';
 import { logger } from '../config/logger';
+import { foldName, nameSearchTerms, NameSearchTerm, NAME_MATCH_SCORES } from '../config/name-search';
+import {
+  CursorDirection,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  resolvePatientSearchSort,
+  searchCursorFilter,
+  travelOrder
+} from '../config/patient-search-cursor';
 import { 
   Patient,
   CreatePatientRequest,
   UpdatePatientRequest,
   PaginationParams,
-  PaginatedResponse
+  PaginatedResponse,
+  PatientStatistics,
+  PatientAgeGroup,
+  OutboxEventFactory,
+  OutboxEvent,
+  BlindIndexField,
+  EncryptedPatientRow,
+  PatientMerge,
+  ReassignedRecords
 } from '@/types';
 import { PatientSearchFilters } from '@/types/patient-search.types';
 
+// Accommodation of a new patient when none is given (lowercase, as in the API)
+const DEFAULT_ACCOMMODATION_TYPE = 'shared';
+
+// Read model documents fetched per round trip when streaming search results (exports)
+const STREAM_BATCH_SIZE = 500;
+
+// Fields erased by anonymization, in the patient row and in the audit snapshots of the patient
+const ERASED_PATIENT_FIELDS = [
+  'fullName',
+  'firstName',
+  'lastName',
+  'cpf',
+  'rg',
+  'cns',
+  'birthDate',
+  'phone',
+  'email',
+  'address',
+  'medicalRecordNumber',
+  'insuranceNumber',
+  'emergencyContact',
+  'observations'
+] as const;
+
 export class PatientRepository {
-  private readonly CACHE_TTL = 3600; // 1 hour
-  private readonly CACHE_PREFIX = 'patient:';
+  private outboxRepository = new OutboxRepository();
+  private auditRepository = new AuditRepository();
+  private mergeRepository = new PatientMergeRepository();
+  private cache = new PatientCacheRepository();
 
   // WRITE OPERATIONS (PostgreSQL)
-  async create(data: CreatePatientRequest): Promise<Patient> {
+  // Domain events are written to the outbox in the same transaction as the patient row;
+  // the read model is updated from those events by the projector. Personal data fields are
+  // encrypted before the write (see config/encryption.ts).
+  async create(data: CreatePatientRequest, events: OutboxEventFactory = () => []): Promise<Patient> {
     try {
-      const patient = await prisma.patient.create({
-        data: {
-          fullName: data.fullName,
-          cpf: data.cpf,
-          rg: data.rg || '',
-          birthDate: new Date(data.birthDate),
-          gender: data.gender.toUpperCase() as any,
-          phone: data.phone,
-          email: data.email,
-          address: data.address,
-          medicalRecordNumber: data.medicalRecordNumber || '',
-          admissionDate: data.admissionDate ? new Date(data.admissionDate) : new Date(),
-          roomNumber: data.roomNumber || '',
-          responsibleDoctor: data.responsibleDoctor || '',
-          insurancePlan: data.insurancePlan || '',
-          insuranceNumber: data.insuranceNumber || '',
-          insuranceValidity: data.insuranceValidity ? new Date(data.insuranceValidity) : new Date(),
-          accommodationType: data.accommodationType ? data.accommodationType.toUpperCase() as any : undefined,
-          currentAccommodation: data.accommodationType ? data.accommodationType.toUpperCase() as any : 'STANDARD',
-          accommodationStatus: 'CORRECT',
-          observations: '',
-          status: 'ACTIVE',
-          validationStatus: 'PENDING'
-        }
-      });
+      const patient = await prisma.$transaction(async (tx) => {
+        const created = await tx.patient.create({ data: this.toCreateData(data) });
 
-      // Sync to read database (MongoDB/Cosmos DB)
-      await this.syncToReadDatabase(patient);
+        await this.outboxRepository.enqueue(tx, events(this.mapPrismaToPatient(created)));
+        return created;
+      });
 
-      // Clear related cache
-      //await this.clearPatientCache(patient.id);
+      patientProjector.notify();
 
       logger.info('Patient created successfully:', { patientId: patient.id });
       return this.mapPrismaToPatient(patient);
@@ -59,36 +89,74 @@ export class PatientRepository {
     }
   }
 
-  async update(id: string, data: UpdatePatientRequest): Promise<Patient> {
+  // Row written for a new patient. Also run by the import dry run, so a row that passes the dry
+  // run is mapped exactly as on commit.
+  toCreateData(data: CreatePatientRequest): Prisma.PatientCreateInput {
+    const accommodationType = (data.accommodationType || DEFAULT_ACCOMMODATION_TYPE).toUpperCase() as AccommodationType;
+
+    return {
+      fullName: data.fullName,
+      ...this.encryptPersonalData({
+        cpf: data.cpf,
+        rg: data.rg || '',
+        cns: data.cns || '',
+        phone: data.phone,
+        email: data.email,
+        address: data.address,
+        medicalRecordNumber: data.medicalRecordNumber || ''
+      }),
+      birthDate: new Date(data.birthDate),
+      gender: data.gender.toUpperCase() as any,
+      admissionDate: data.admissionDate ? new Date(data.admissionDate) : new Date(),
+      roomNumber: data.roomNumber || '',
+      responsibleDoctor: data.responsibleDoctor || '',
+      insurancePlan: data.insurancePlan || '',
+      insuranceNumber: data.insuranceNumber || '',
+      insuranceValidity: data.insuranceValidity ? new Date(data.insuranceValidity) : new Date(),
+      accommodationType,
+      currentAccommodation: accommodationType,
+      accommodationStatus: 'CORRECT',
+      observations: '',
+      status: 'ACTIVE',
+      validationStatus: 'PENDING'
+    };
+  }
+
+  async update(id: string, data: UpdatePatientRequest, events: OutboxEventFactory = () => []): Promise<Patient> {
     try {
-      const patient = await prisma.patient.update({
-        where: { id },
-        data: {
-          ...(data.fullName && { fullName: data.fullName }),
-          ...(data.cpf && { cpf: data.cpf }),
-          ...(data.rg && { rg: data.rg }),
-          ...(data.birthDate && { birthDate: new Date(data.birthDate) }),
-          ...(data.gender && { gender: data.gender.toUpperCase() as any }),
-          ...(data.phone && { phone: data.phone }),
-          ...(data.email && { email: data.email }),
-          ...(data.address && { address: data.address }),
-          ...(data.medicalRecordNumber && { medicalRecordNumber: data.medicalRecordNumber }),
-          ...(data.admissionDate && { admissionDate: new Date(data.admissionDate) }),
-          ...(data.roomNumber && { roomNumber: data.roomNumber }),
-          ...(data.responsibleDoctor && { responsibleDoctor: data.responsibleDoctor }),
-          ...(data.insurancePlan && { insurancePlan: data.insurancePlan }),
-          ...(data.insuranceNumber && { insuranceNumber: data.insuranceNumber }),
-          ...(data.insuranceValidity && { insuranceValidity: new Date(data.insuranceValidity) }),
-          ...(data.accommodationType && { accommodationType: data.accommodationType.toUpperCase() as any }),
-          ...(data.accommodationType !== undefined && { accommodationType: data.accommodationType.toUpperCase() }),
-        }
-      });
+      const patient = await prisma.$transaction(async (tx) => {
+        const updated = await tx.patient.update({
+          where: { id, deletedAt: null },
+          data: {
+            ...(data.fullName && { fullName: data.fullName }),
+            ...this.encryptPersonalData({
+              ...(data.cpf && { cpf: data.cpf }),
+              ...(data.rg && { rg: data.rg }),
+              ...(data.cns !== undefined && { cns: data.cns }),
+              ...(data.phone && { phone: data.phone }),
+              ...(data.email && { email: data.email }),
+              ...(data.address && { address: data.address }),
+              ...(data.medicalRecordNumber && { medicalRecordNumber: data.medicalRecordNumber })
+            }),
+            ...(data.birthDate && { birthDate: new Date(data.birthDate) }),
+            ...(data.gender && { gender: data.gender.toUpperCase() as any }),
+            ...(data.admissionDate && { admissionDate: new Date(data.admissionDate) }),
+            ...(data.roomNumber && { roomNumber: data.roomNumber }),
+            ...(data.responsibleDoctor && { responsibleDoctor: data.responsibleDoctor }),
+            ...(data.insurancePlan && { insurancePlan: data.insurancePlan }),
+            ...(data.insuranceNumber && { insuranceNumber: data.insuranceNumber }),
+            ...(data.insuranceValidity && { insuranceValidity: new Date(data.insuranceValidity) }),
+            ...(data.accommodationType && { accommodationType: data.accommodationType.toUpperCase() as AccommodationType }),
+            ...(data.validationStatus && { validationStatus: data.validationStatus.toUpperCase() as any }),
+            version: { increment: 1 }
+          }
+        });
 
-      // Sync to read database
-      await this.syncToReadDatabase(patient);
+        await this.outboxRepository.enqueue(tx, events(this.mapPrismaToPatient(updated)));
+        return updated;
+      });
 
-      // Clear cache
-     // await this.clearPatientCache(id);
+      patientProjector.notify();
 
       logger.info('Patient updated successfully:', { patientId: id });
       return this.mapPrismaToPatient(patient);
@@ -98,252 +166,914 @@ export class PatientRepository {
     }
   }
 
-  async delete(id: string): Promise<void> {
+  // Soft delete: the row keeps its procedures, billing items and documents and can be restored.
+  // The projector copies deletedAt to the read model, whose queries leave deleted documents out.
+  async delete(id: string, events: OutboxEventFactory = () => []): Promise<Patient> {
     try {
-      await prisma.patient.delete({
-        where: { id },
-      });
+      const patient = await prisma.$transaction(async (tx) => {
+        const deleted = await tx.patient.update({
+          where: { id, deletedAt: null },
+          data: {
+            deletedAt: new Date(),
+            version: { increment: 1 }
+          }
+        });
 
-      // Soft delete in read database
+        const mapped = this.mapPrismaToPatient(deleted);
+        await this.outboxRepository.enqueue(tx, events(mapped));
+        return mapped;
+      });
 
-      // Clear cache
-      //await this.clearPatientCache(id);
+      patientProjector.notify();
 
       logger.info('Patient deleted successfully:', { patientId: id });
+      return patient;
     } catch (error) {
       logger.error('Failed to delete patient:', error);
       throw error;
     }
   }
 
-  // READ OPERATIONS (MongoDB/Cosmos DB with Cache)
-  async findById(id: string): Promise<Patient | null> {
+  async restore(id: string, events: OutboxEventFactory = () => []): Promise<Patient> {
     try {
-      // Try cache first
-    //  const cacheKey = `${this.CACHE_PREFIX}${id}`;
-     // const cached = await cacheUtils.get<Patient>(cacheKey);
-     // if (cached) {
-     //   return cached;
-     // }
-
-      // Query read database
-      const patient = await PatientReadModel.findOne({ id }).lean();
-      if (!patient) {
-        return null;
-      }
+      const patient = await prisma.$transaction(async (tx) => {
+        const restored = await tx.patient.update({
+          where: { id, deletedAt: { not: null } },
+          data: {
+            deletedAt: null,
+            version: { increment: 1 }
+          }
+        });
 
-      const result = this.mapMongoToPatient(patient);
+        const mapped = this.mapPrismaToPatient(restored);
+        await this.outboxRepository.enqueue(tx, events(mapped));
+        return mapped;
+      });
 
-      // Cache the result
-    //  await cacheUtils.set(cacheKey, result, this.CACHE_TTL);
+      patientProjector.notify();
 
+      logger.info('Patient restored successfully:', { patientId: id });
+      return patient;
+    } catch (error) {
+      logger.error('Failed to restore patient:', error);
+      throw error;
+    }
+  }
+
+  // Erasure at the data subject's request (LGPD). Personal data is emptied or replaced by a
+  // pseudonym, the blind indexes are dropped and the birth date keeps only the year. Procedures,
+  // billing items and documents stay linked to the patient ID for their retention periods, and
+  // the audit rows are kept with the personal data redacted from their snapshots.
+  async anonymize(
+    id: string,
+    events: OutboxEventFactory = () => []
+  ): Promise<{ patient: Patient; auditLogsRedacted: number }> {
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const current = await tx.patient.findUniqueOrThrow({ where: { id }, select: { birthDate: true } });
+        const pseudonym = crypto.createHash('sha256').update(id).digest('hex').slice(0, 12);
+
+        const anonymized = await tx.patient.update({
+          where: { id },
+          data: {
+            fullName: `Paciente anonimizado ${pseudonym}`,
+            ...this.encryptPersonalData({ cpf: '', rg: '', cns: '', phone: '', email: '', address: '', medicalRecordNumber: '' }),
+            cpfHash: null,
+            birthDate: new Date(Date.UTC(current.birthDate.getUTCFullYear(), 0, 1)),
+            insuranceNumber: '',
+            observations: null,
+            anonymizedAt: new Date(),
+            version: { increment: 1 }
+          }
+        });
+
+        const auditLogsRedacted = await this.auditRepository.redactPatientData(tx, id, ERASED_PATIENT_FIELDS);
+
+        const patient = this.mapPrismaToPatient(anonymized);
+        await this.outboxRepository.enqueue(tx, events(patient));
+        return { patient, auditLogsRedacted };
+      }, {
+        // Long audit trails are rewritten in the same transaction
+        timeout: 60 * 1000
+      });
+
+      // The projector copies the anonymized row to the read model and invalidates the cache
+      patientProjector.notify();
+
+      logger.info('Patient anonymized successfully:', { patientId: id, auditLogsRedacted: result.auditLogsRedacted });
       return result;
     } catch (error) {
-      logger.error('Failed to find patient by ID:', error);
+      logger.error('Failed to anonymize patient:', error);
       throw error;
     }
   }
 
-  async findByCpf(cpf: string): Promise<Patient | null> {
+  // Merge of a duplicate record: its procedures, billing items, documents and audit rows (deleted
+  // ones included) are moved to the survivor, and the merged row stays as a soft-deleted alias
+  // pointing to the survivor. Both rows are locked in ID order so concurrent merges cannot deadlock.
+  async merge(
+    survivorId: string,
+    mergedPatientId: string,
+    data: { reason?: string; mergedBy: string; mergedByName: string; undoDeadline: Date },
+    events: (survivor: Patient, merged: Patient, merge: PatientMerge) => OutboxEvent[] = () => []
+  ): Promise<{ survivor: Patient; merged: Patient; merge: PatientMerge }> {
     try {
-    //  const cacheKey = `${this.CACHE_PREFIX}cpf:${cpf}`;
-     // const cached = await cacheUtils.get<Patient>(cacheKey);
-   //   if (cached) {
-    //    return cached;
-    //  }
-
-      const patient = await PatientReadModel.findOne({ cpf }).lean();
-      if (!patient) {
-        return null;
-      }
+      const result = await prisma.$transaction(async (tx) => {
+        await this.lockPatients(tx, [survivorId, mergedPatientId]);
+
+        const from = { patientId: mergedPatientId };
+        const [procedures, billingItems, documents, auditLogs] = await Promise.all([
+          tx.procedure.findMany({ where: from, select: { id: true } }),
+          tx.billingItem.findMany({ where: from, select: { id: true } }),
+          tx.document.findMany({ where: from, select: { id: true } }),
+          tx.auditLog.findMany({ where: from, select: { id: true } })
+        ]);
+        const reassignedRecords: ReassignedRecords = {
+          procedureIds: procedures.map(row => row.id),
+          billingItemIds: billingItems.map(row => row.id),
+          documentIds: documents.map(row => row.id),
+          auditLogIds: auditLogs.map(row => row.id)
+        };
+
+        const to = { patientId: survivorId };
+        await tx.procedure.updateMany({ where: { id: { in: reassignedRecords.procedureIds } }, data: to });
+        await tx.billingItem.updateMany({ where: { id: { in: reassignedRecords.billingItemIds } }, data: to });
+        await tx.document.updateMany({ where: { id: { in: reassignedRecords.documentIds } }, data: to });
+        await tx.auditLog.updateMany({ where: { id: { in: reassignedRecords.auditLogIds } }, data: to });
 
-      const result = this.mapMongoToPatient(patient);
-      //await cacheUtils.set(cacheKey, result, this.CACHE_TTL);
+        const now = new Date();
+        const merged = await tx.patient.update({
+          where: { id: mergedPatientId, deletedAt: null, mergedIntoId: null },
+          data: { mergedIntoId: survivorId, mergedAt: now, deletedAt: now, version: { increment: 1 } }
+        });
+        // The survivor's counters change, so its version moves too
+        const survivor = await tx.patient.update({
+          where: { id: survivorId, deletedAt: null, mergedIntoId: null },
+          data: { version: { increment: 1 } }
+        });
 
+        const merge = await this.mergeRepository.create(tx, {
+          survivorId,
+          mergedPatientId,
+          reason: data.reason,
+          reassignedRecords,
+          mergedBy: data.mergedBy,
+          mergedByName: data.mergedByName,
+          undoDeadline: data.undoDeadline
+        });
+
+        const result = {
+          survivor: this.mapPrismaToPatient(survivor),
+          merged: this.mapPrismaToPatient(merged),
+          merge
+        };
+        await this.outboxRepository.enqueue(tx, events(result.survivor, result.merged, merge));
+        return result;
+      }, {
+        timeout: 60 * 1000
+      });
+
+      patientProjector.notify();
+
+      logger.info('Patients merged successfully:', { survivorId, mergedPatientId, mergeId: result.merge.id });
       return result;
     } catch (error) {
-      logger.error('Failed to find patient by CPF:', error);
+      logger.error('Failed to merge patients:', error);
       throw error;
     }
   }
 
-  async findByMedicalRecord(medicalRecordNumber: string): Promise<Patient | null> {
+  // Moves back the rows the merge moved (rows added to the survivor afterwards stay) and restores
+  // the merged record. Returns null when the merge was already undone.
+  async unmerge(
+    mergeId: string,
+    survivorId: string,
+    mergedPatientId: string,
+    undoneBy: string,
+    events: (survivor: Patient, merged: Patient, merge: PatientMerge) => OutboxEvent[] = () => []
+  ): Promise<{ survivor: Patient; merged: Patient; merge: PatientMerge } | null> {
     try {
-      //const cacheKey = `${this.CACHE_PREFIX}record:${medicalRecordNumber}`;
-     // const cached = await cacheUtils.get<Patient>(cacheKey);
-      //if (cached) {
-      //  return cached;
-     // }
-
-      const patient = await PatientReadModel.findOne({ medicalRecordNumber }).lean();
-      if (!patient) {
-        return null;
-      }
+      const result = await prisma.$transaction(async (tx) => {
+        await this.lockPatients(tx, [survivorId, mergedPatientId]);
+
+        const undone = await this.mergeRepository.markUndone(tx, mergeId, undoneBy);
+        if (!undone) {
+          return null;
+        }
+
+        const { reassignedRecords } = undone;
+        const back = (ids: string[]) => ({ where: { id: { in: ids }, patientId: survivorId }, data: { patientId: mergedPatientId } });
+        await tx.procedure.updateMany(back(reassignedRecords.procedureIds));
+        await tx.billingItem.updateMany(back(reassignedRecords.billingItemIds));
+        await tx.document.updateMany(back(reassignedRecords.documentIds));
+        await tx.auditLog.updateMany(back(reassignedRecords.auditLogIds));
 
-      const result = this.mapMongoToPatient(patient);
-      //await cacheUtils.set(cacheKey, result, this.CACHE_TTL);
+        const merged = await tx.patient.update({
+          where: { id: mergedPatientId, mergedIntoId: survivorId },
+          data: { mergedIntoId: null, mergedAt: null, deletedAt: null, version: { increment: 1 } }
+        });
+        const survivor = await tx.patient.update({
+          where: { id: survivorId },
+          data: { version: { increment: 1 } }
+        });
 
+        const result = {
+          survivor: this.mapPrismaToPatient(survivor),
+          merged: this.mapPrismaToPatient(merged),
+          merge: undone.merge
+        };
+        await this.outboxRepository.enqueue(tx, events(result.survivor, result.merged, undone.merge));
+        return result;
+      }, {
+        timeout: 60 * 1000
+      });
+
+      if (result) {
+        patientProjector.notify();
+        logger.info('Patient merge undone successfully:', { mergeId, survivorId, mergedPatientId });
+      }
       return result;
+    } catch (error) {
+      logger.error('Failed to undo patient merge:', error);
+      throw error;
+    }
+  }
+
+  // Procedures and billing items feed the read model counters, so their writes bump the patient
+  // version and enqueue a summary event inside the caller's transaction. Raw SQL keeps the
+  // patient's updatedAt unchanged.
+  async touchSummary(
+    tx: Prisma.TransactionClient,
+    patientId: string,
+    change: { reason: string; procedureId?: string; billingItemId?: string }
+  ): Promise<void> {
+    const [row] = await tx.$queryRaw<{ version: number }[]>`
+      UPDATE "patients" SET "version" = "version" + 1 WHERE "id" = ${patientId} RETURNING "version"
+    `;
+    if (!row) {
+      return;
+    }
+
+    await this.outboxRepository.enqueue(tx, [patientSummaryChangedEvent(patientId, row.version, change)]);
+  }
+
+  // READ OPERATIONS (MongoDB/Cosmos DB with Cache)
+  // The cache is invalidated by the projector when the read model changes (see PatientCacheRepository).
+  // CPF and medical record number are looked up by their blind index, never by value.
+  async findById(id: string): Promise<Patient | null> {
+    try {
+      return await this.cache.getOrLoadPatient('id', id, async () => {
+        const patient = await PatientReadModel.findOne({ id }).lean();
+        return patient ? this.mapMongoToPatient(patient) : null;
+      });
+    } catch (error) {
+      logger.error('Failed to find patient by ID:', error);
+      throw error;
+    }
+  }
+
+  async findByCpf(cpf: string): Promise<Patient | null> {
+    try {
+      const cpfHash = fieldEncryption.blindIndex(BlindIndexField.CPF, cpf);
+      return await this.cache.getOrLoadPatient('cpf', cpfHash, async () => {
+        const patient = await PatientReadModel.findOne({ cpfHash }).lean();
+        return patient ? this.mapMongoToPatient(patient) : null;
+      });
+    } catch (error) {
+      logger.error('Failed to find patient by CPF:', error);
+      throw error;
+    }
+  }
+
+  // Deleted patients are included: they still hold their CNS
+  async findByCns(cns: string): Promise<Patient | null> {
+    try {
+      const cnsHash = fieldEncryption.blindIndex(BlindIndexField.CNS, cns);
+      const patient = await PatientReadModel.findOne({ cnsHash }).setOptions({ includeDeleted: true }).lean();
+      return patient ? this.mapMongoToPatient(patient) : null;
+    } catch (error) {
+      logger.error('Failed to find patient by CNS:', error);
+      throw error;
+    }
+  }
+
+  async findByMedicalRecord(medicalRecordNumber: string): Promise<Patient | null> {
+    try {
+      const medicalRecordNumberHash = fieldEncryption.blindIndex(BlindIndexField.MEDICAL_RECORD_NUMBER, medicalRecordNumber);
+      return await this.cache.getOrLoadPatient('record', medicalRecordNumberHash, async () => {
+        const patient = await PatientReadModel.findOne({ medicalRecordNumberHash }).lean();
+        return patient ? this.mapMongoToPatient(patient) : null;
+      });
     } catch (error) {
       logger.error('Failed to find patient by medical record:', error);
       throw error;
     }
   }
 
+  // The soft-delete hook of the read model leaves deleted patients out unless filters.includeDeleted is set
   async findMany(
     filters: PatientSearchFilters,
     pagination: PaginationParams
   ): Promise<PaginatedResponse<Patient>> {
     try {
-      //const cacheKey = `${this.CACHE_PREFIX}search:${JSON.stringify({ filters, pagination })}`;
-      //const cached = await cacheUtils.get<PaginatedResponse<Patient>>(cacheKey);
-     // if (cached) {
-     //   return cached;
-      //}
+      return await this.cache.getOrLoadSearch({ filters, pagination }, () => this.searchReadModel(filters, pagination));
+    } catch (error) {
+      logger.error('Failed to find patients:', error);
+      throw error;
+    }
+  }
 
-      // Build query
-      const query: any = {};
+  // Every patient matching the search filters, read from a MongoDB cursor one batch at a time
+  // (nothing is buffered beyond the batch), in the same order as the search
+  async *streamMany(filters: PatientSearchFilters, sortBy?: string, sortOrder?: string): AsyncGenerator<Patient> {
+    const { query, nameTerms } = this.buildSearchQuery(filters);
+    const sortKey = resolvePatientSearchSort(filters.name, sortBy, sortOrder);
+    const direction = sortKey.order === 'desc' ? -1 : 1;
+    const sort = { [sortKey.field]: direction, id: direction } as Record<string, 1 | -1>;
+    const includeDeleted = filters.includeDeleted === true || filters.includeDeleted === 'true';
 
-      if (filters.name) {
-        query.$text = { $search: filters.name };
-      }
-      if (filters.cpf) {
-        query.cpf = { $regex: filters.cpf, $options: 'i' };
-      }
-      if (filters.roomNumber) {
-        query.roomNumber = filters.roomNumber;
-      }
-      if (filters.insurancePlan) {
-        query.insurancePlan = filters.insurancePlan;
-      }
-      if (filters.status) {
-        query.status = filters.status;
-      }
-      if (filters.responsibleDoctor) {
-        query.responsibleDoctor = { $regex: filters.responsibleDoctor, $options: 'i' };
-      }
-      if (filters.admissionDateFrom || filters.admissionDateTo) {
-        query.admissionDate = {};
-        if (filters.admissionDateFrom) {
-          query.admissionDate.$gte = new Date(filters.admissionDateFrom);
-        }
-        if (filters.admissionDateTo) {
-          query.admissionDate.$lte = new Date(filters.admissionDateTo);
-        }
-      }
+    const cursor = nameTerms.length > 0
+      ? PatientReadModel.aggregate([
+          { $match: includeDeleted ? query : { ...query, deletedAt: { $exists: false } } },
+          { $addFields: { searchScore: this.nameRelevance(nameTerms, foldName(filters.name!)) } },
+          { $sort: sort }
+        ]).cursor({ batchSize: STREAM_BATCH_SIZE })
+      : PatientReadModel.find(query)
+          .setOptions({ includeDeleted })
+          .sort(sort)
+          .lean()
+          .cursor({ batchSize: STREAM_BATCH_SIZE });
 
-      // Calculate pagination
-      const page = pagination?.page || 1;
-      const limit = pagination?.limit || 10;
-      const skip = (page - 1) * limit;
-      const maxLimit = Math.min(limit, 100); // Max 100 items per page
-
-      // Build sort
-      const sort: any = {};
-      if (pagination.sortBy) {
-        sort[pagination.sortBy] = pagination.sortOrder === 'desc' ? -1 : 1;
-      } else {
-        sort.createdAt = -1; // Default sort by creation date
+    try {
+      for await (const document of cursor) {
+        yield this.mapMongoToPatient(document);
       }
+    } finally {
+      await cursor.close();
+    }
+  }
 
-      // Execute query with pagination
-      const [patients, total] = await Promise.all([
-        PatientReadModel.find(query)
-          .sort(sort)
-          .skip(skip)
-          .limit(maxLimit)
-          .lean(),
-        PatientReadModel.countDocuments(query)
-      ]);
+  private async searchReadModel(
+    filters: PatientSearchFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<Patient>> {
+    const { query, nameTerms } = this.buildSearchQuery(filters);
 
-      const totalPages = Math.ceil(total / limit);
+    // Calculate pagination: offset (page) or cursor mode, when a cursor (empty for the first page) is given
+    const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+    const cursorMode = pagination?.cursor !== undefined;
+    const cursor = pagination?.cursor ? decodeSearchCursor(pagination.cursor) : null;
+    const page = cursorMode ? undefined : pagination?.page || 1;
+    const skip = page ? (page - 1) * limit : 0;
 
-      const result = {
-        data: patients as Patient[],
+    // Build sort (only whitelisted fields; a name search is ranked by relevance, else newest first).
+    // The ID breaks ties, so pages never overlap.
+    const sortKey = resolvePatientSearchSort(filters.name, pagination.sortBy, pagination.sortOrder);
+    const order = cursor ? travelOrder(cursor) : sortKey.order;
+    const sort = { [sortKey.field]: order === 'desc' ? -1 : 1, id: order === 'desc' ? -1 : 1 } as Record<string, 1 | -1>;
+    const after = cursor ? searchCursorFilter({ ...cursor, sort: sortKey }) : undefined;
+
+    const includeDeleted = filters.includeDeleted === true || filters.includeDeleted === 'true';
+    // One extra patient tells whether there is another page in the direction of travel
+    const take = cursorMode ? limit + 1 : limit;
+
+    // The aggregation is not covered by the soft-delete hook, so deleted documents are filtered here
+    const [patients, total] = await Promise.all([
+      nameTerms.length > 0
+        ? PatientReadModel.aggregate([
+            { $match: includeDeleted ? query : { ...query, deletedAt: { $exists: false } } },
+            { $addFields: { searchScore: this.nameRelevance(nameTerms, foldName(filters.name!)) } },
+            ...(after ? [{ $match: after }] : []),
+            { $sort: sort },
+            { $skip: skip },
+            { $limit: take }
+          ])
+        : PatientReadModel.find(after ? { $and: [query, after] } : query)
+            .setOptions({ includeDeleted })
+            .sort(sort)
+            .skip(skip)
+            .limit(take)
+            .lean(),
+      PatientReadModel.countDocuments(query).setOptions({ includeDeleted })
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    if (!cursorMode) {
+      return {
+        data: patients.map(patient => this.mapMongoToPatient(patient)),
         pagination: {
           page: page,
           limit: limit,
           total,
           totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
+          hasNext: page! < totalPages,
+          hasPrev: page! > 1
         }
       };
+    }
 
-      // Cache for shorter time due to frequent updates
-     // await cacheUtils.set(cacheKey, result, 300); // 5 minutes
+    const hasMore = patients.length > limit;
+    const backwards = cursor?.direction === 'prev';
+    const rows = backwards ? patients.slice(0, limit).reverse() : patients.slice(0, limit);
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = backwards ? hasMore : !!cursor;
+    const cursorAt = (row: any, direction: CursorDirection) =>
+      encodeSearchCursor({ sort: sortKey, value: row[sortKey.field] ?? null, id: row.id, direction });
 
-      return result;
+    return {
+      data: rows.map(patient => this.mapMongoToPatient(patient)),
+      pagination: {
+        limit,
+        total,
+        totalPages,
+        hasNext,
+        hasPrev,
+        nextCursor: hasNext && rows.length > 0 ? cursorAt(rows[rows.length - 1], 'next') : null,
+        prevCursor: hasPrev && rows.length > 0 ? cursorAt(rows[0], 'prev') : null
+      }
+    };
+  }
+
+  // STATISTICS (MongoDB/Cosmos DB aggregation)
+  async getStatistics(): Promise<PatientStatistics> {
+    try {
+      const now = new Date();
+      const yearsAgo = (years: number) => new Date(now.getFullYear() - years, now.getMonth(), now.getDate());
+      // $dateToString groups in UTC, so the month window is computed in UTC too
+      const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1));
+
+      // Age groups as birthDate ranges, so the buckets work without $dateDiff (unsupported on Cosmos DB)
+      const ageBoundaries = [new Date(0, 0, 1), yearsAgo(71), yearsAgo(51), yearsAgo(31), yearsAgo(19), new Date(9999, 0, 1)];
+      const ageGroups: PatientAgeGroup[] = ['70+', '51-70', '31-50', '19-30', '0-18'];
+
+      const countBy = (field: string) => [
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } }
+      ];
+
+      // aggregate() bypasses the soft-delete find hook, so filter deleted documents explicitly
+      const [result] = await PatientReadModel.aggregate([
+        { $match: { deletedAt: { $exists: false } } },
+        {
+          $facet: {
+            total: [{ $count: 'count' }],
+            byStatus: countBy('status'),
+            byValidationStatus: countBy('validationStatus'),
+            byGender: countBy('gender'),
+            byInsurancePlan: countBy('insurancePlan'),
+            byAccommodationStatus: countBy('accommodationStatus'),
+            byAgeGroup: [
+              {
+                $bucket: {
+                  groupBy: '$birthDate',
+                  boundaries: ageBoundaries,
+                  default: 'unknown',
+                  output: { count: { $sum: 1 } }
+                }
+              }
+            ],
+            lengthOfStay: [
+              { $match: { status: 'active' } },
+              { $group: { _id: null, averageMs: { $avg: { $subtract: [now, '$admissionDate'] } } } }
+            ],
+            admissionsByMonth: [
+              { $match: { admissionDate: { $gte: firstMonth } } },
+              {
+                $group: {
+                  _id: { $dateToString: { format: '%Y-%m', date: '$admissionDate' } },
+                  count: { $sum: 1 }
+                }
+              }
+            ]
+          }
+        }
+      ]);
+
+      const toRecord = <K extends string>(rows: Array<{ _id: any; count: number }>, keys: readonly K[]) => {
+        const record = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+        for (const row of rows) {
+          if (row._id !== null && row._id !== undefined && row._id !== '') {
+            record[row._id as K] = row.count;
+          }
+        }
+        return record;
+      };
+
+      const byAgeGroup = toRecord<PatientAgeGroup>([], ageGroups);
+      for (const row of result.byAgeGroup as Array<{ _id: any; count: number }>) {
+        const index = ageBoundaries.findIndex(boundary => boundary.getTime() === new Date(row._id).getTime());
+        if (index >= 0 && index < ageGroups.length) {
+          byAgeGroup[ageGroups[index]] = row.count;
+        }
+      }
+
+      const admissions = new Map<string, number>(
+        (result.admissionsByMonth as Array<{ _id: string; count: number }>).map(row => [row._id, row.count])
+      );
+      const admissionsByMonth = Array.from({ length: 12 }, (_, offset) => {
+        const date = new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + offset, 1));
+        const month = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+        return { month, count: admissions.get(month) || 0 };
+      });
+
+      const averageMs = result.lengthOfStay[0]?.averageMs || 0;
+
+      return {
+        total: result.total[0]?.count || 0,
+        byStatus: toRecord(result.byStatus, ['active', 'inactive', 'transferred', 'discharged'] as const),
+        byValidationStatus: toRecord(result.byValidationStatus, ['pending', 'approved', 'rejected', 'under_review'] as const),
+        byGender: toRecord(result.byGender, ['male', 'female', 'other'] as const),
+        byInsurancePlan: toRecord<string>(result.byInsurancePlan, []),
+        byAccommodationStatus: toRecord(result.byAccommodationStatus, ['correct', 'incorrect'] as const),
+        byAgeGroup,
+        averageLengthOfStay: Math.round((averageMs / (1000 * 60 * 60 * 24)) * 10) / 10,
+        admissionsByMonth,
+        generatedAt: now.toISOString()
+      };
     } catch (error) {
-      logger.error('Failed to find patients:', error);
+      logger.error('Failed to compute patient statistics:', error);
       throw error;
     }
   }
 
-  // SYNC OPERATIONS (CQRS)
-  private async syncToReadDatabase(prismaPatient: any): Promise<void> {
+  // Reads the write database, for flows that must not depend on the read model (data subject export,
+  // restore). Soft-deleted patients are only returned with includeDeleted.
+  async findStoredById(id: string, options: { includeDeleted?: boolean } = {}): Promise<Patient | null> {
     try {
-      const readData: CreatePatientReadModel = {
-        id: prismaPatient.id, // Incluir o ID do Prisma
-        fullName: prismaPatient.fullName,
-        cpf: prismaPatient.cpf,
-        rg: prismaPatient.rg,
-        birthDate: prismaPatient.birthDate,
-        gender: prismaPatient.gender.toLowerCase(),
-        phone: prismaPatient.phone,
-        email: prismaPatient.email,
-        address: prismaPatient.address,
-        medicalRecordNumber: prismaPatient.medicalRecordNumber,
-        admissionDate: prismaPatient.admissionDate,
-        roomNumber: prismaPatient.roomNumber,
-        responsibleDoctor: prismaPatient.responsibleDoctor,
-        insurancePlan: prismaPatient.insurancePlan,
-        insuranceNumber: prismaPatient.insuranceNumber,
-        insuranceValidity: prismaPatient.insuranceValidity,
-        accommodationType: prismaPatient.accommodationType.toLowerCase(),
-        currentAccommodation: prismaPatient.currentAccommodation || 'standard',
-        accommodationStatus: prismaPatient.accommodationStatus.toLowerCase(),
-        observations: prismaPatient.observations,
-        status: prismaPatient.status.toLowerCase(),
-        validationStatus: prismaPatient.validationStatus.toLowerCase()
-      };
+      const patient = await prisma.patient.findFirst({
+        where: { id, ...(!options.includeDeleted && { deletedAt: null }) }
+      });
+      return patient ? this.mapPrismaToPatient(patient) : null;
+    } catch (error) {
+      logger.error('Failed to find stored patient by ID:', error);
+      throw error;
+    }
+  }
+
+  // Checks the write database, which holds the foreign keys of child records
+  async exists(id: string): Promise<boolean> {
+    try {
+      const count = await prisma.patient.count({ where: { id, deletedAt: null } });
+      return count > 0;
+    } catch (error) {
+      logger.error('Failed to check patient existence:', error);
+      throw error;
+    }
+  }
+
+  // DUPLICATE DETECTION (PostgreSQL)
+  // Blocking for the candidate search: same birth date, or a name with the same first and last words
+  async findDuplicateCandidates(patient: Patient, limit: number): Promise<Patient[]> {
+    try {
+      const words = patient.fullName.trim().split(/\s+/).filter(word => word.length > 1);
+      const nameBlock = words.length >= 2
+        ? [{
+            AND: [
+              { fullName: { startsWith: words[0], mode: 'insensitive' as const } },
+              { fullName: { contains: words[words.length - 1], mode: 'insensitive' as const } }
+            ]
+          }]
+        : [];
 
-      await PatientReadModel.findOneAndUpdate(
-        { id: prismaPatient.id }, // Usar campo 'id' em vez de '_id'
-        { 
-          ...readData,
-          lastSyncedAt: new Date(),
-          $inc: { version: 1 }
+      const patients = await prisma.patient.findMany({
+        where: {
+          id: { not: patient.id },
+          deletedAt: null,
+          anonymizedAt: null,
+          OR: [{ birthDate: patient.birthDate }, ...nameBlock]
         },
-        { 
-          upsert: true, 
-          new: true,
-          setDefaultsOnInsert: true
+        orderBy: { createdAt: 'asc' },
+        take: limit
+      });
+
+      return patients.map(candidate => this.mapPrismaToPatient(candidate));
+    } catch (error) {
+      logger.error('Failed to find duplicate candidates:', error);
+      throw error;
+    }
+  }
+
+  // Birth dates shared by more than one patient, for the duplicate scan
+  async findSharedBirthDates(limit: number): Promise<Date[]> {
+    try {
+      const groups = await prisma.patient.groupBy({
+        by: ['birthDate'],
+        where: { deletedAt: null, anonymizedAt: null },
+        having: { birthDate: { _count: { gt: 1 } } },
+        orderBy: { birthDate: 'asc' },
+        take: limit
+      });
+
+      return groups.map(group => group.birthDate);
+    } catch (error) {
+      logger.error('Failed to find shared birth dates:', error);
+      throw error;
+    }
+  }
+
+  async findByBirthDates(birthDates: Date[]): Promise<Patient[]> {
+    try {
+      const patients = await prisma.patient.findMany({
+        where: { birthDate: { in: birthDates }, deletedAt: null, anonymizedAt: null },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return patients.map(patient => this.mapPrismaToPatient(patient));
+    } catch (error) {
+      logger.error('Failed to find patients by birth date:', error);
+      throw error;
+    }
+  }
+
+  // A deleted patient keeps its CPF and medical record blind indexes, so it has to be restored
+  // instead of registered again
+  async findDeletedByIdentity(cpf: string, medicalRecordNumber?: string): Promise<Patient | null> {
+    try {
+      const patient = await prisma.patient.findFirst({
+        where: {
+          deletedAt: { not: null },
+          OR: [
+            { cpfHash: fieldEncryption.blindIndex(BlindIndexField.CPF, cpf) },
+            ...(medicalRecordNumber
+              ? [{ medicalRecordNumberHash: fieldEncryption.blindIndex(BlindIndexField.MEDICAL_RECORD_NUMBER, medicalRecordNumber) }]
+              : [])
+          ]
         }
-      );
+      });
+      return patient ? this.mapPrismaToPatient(patient) : null;
+    } catch (error) {
+      logger.error('Failed to find deleted patient by identity:', error);
+      throw error;
+    }
+  }
 
-      logger.debug('Patient synced to read database:', { patientId: prismaPatient.id });
+  // Open work that prevents a deletion
+  async countDeletionBlockers(id: string): Promise<{ inProgressProcedures: number; pendingBillingItems: number }> {
+    try {
+      const [inProgressProcedures, pendingBillingItems] = await Promise.all([
+        prisma.procedure.count({ where: { patientId: id, deletedAt: null, status: 'IN_PROGRESS' } }),
+        prisma.billingItem.count({ where: { patientId: id, deletedAt: null, status: 'PENDING' } })
+      ]);
+      return { inProgressProcedures, pendingBillingItems };
+    } catch (error) {
+      logger.error('Failed to count patient deletion blockers:', error);
+      throw error;
+    }
+  }
+
+  // KEY ROTATION (PostgreSQL)
+  // Stored (encrypted) personal data of the patients, deleted ones included, in ID order, that have
+  // a field in plaintext or wrapped with another key than keyId, or a blind index not computed yet
+  async findPendingRotationBatch(keyId: string, afterId: string | undefined, limit: number): Promise<EncryptedPatientRow[]> {
+    try {
+      return await prisma.patient.findMany({
+        where: {
+          ...this.pendingRotationWhere(keyId),
+          ...(afterId && { id: { gt: afterId } })
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+        select: {
+          id: true,
+          version: true,
+          cpf: true,
+          rg: true,
+          cns: true,
+          phone: true,
+          email: true,
+          address: true,
+          medicalRecordNumber: true,
+          cpfHash: true,
+          cnsHash: true,
+          medicalRecordNumberHash: true,
+          emailHash: true,
+          phoneHash: true
+        }
+      });
     } catch (error) {
-      logger.error('Failed to sync patient to read database:', error);
-      // Don't throw - this shouldn't break the main operation
+      logger.error('Failed to read encrypted patient batch:', error);
+      throw error;
     }
   }
 
+  // Rewrites the encrypted fields without touching updatedAt or version (the data itself is
+  // unchanged). Returns false when the patient was written meanwhile; that write already used the
+  // active key.
+  async rewriteEncryptedFields(row: EncryptedPatientRow): Promise<boolean> {
+    try {
+      const count = await prisma.$executeRaw`
+        UPDATE "patients"
+        SET "cpf" = ${row.cpf},
+            "rg" = ${row.rg},
+            "cns" = ${row.cns},
+            "phone" = ${row.phone},
+            "email" = ${row.email},
+            "address" = ${row.address},
+            "medicalRecordNumber" = ${row.medicalRecordNumber},
+            "cpfHash" = ${row.cpfHash},
+            "cnsHash" = ${row.cnsHash},
+            "medicalRecordNumberHash" = ${row.medicalRecordNumberHash},
+            "emailHash" = ${row.emailHash},
+            "phoneHash" = ${row.phoneHash}
+        WHERE "id" = ${row.id} AND "version" = ${row.version}
+      `;
+      return count > 0;
+    } catch (error) {
+      logger.error('Failed to rewrite encrypted patient fields:', error);
+      throw error;
+    }
+  }
+
+  async countPendingRotation(keyId: string): Promise<{ total: number; pending: number }> {
+    try {
+      const [total, pending] = await Promise.all([
+        prisma.patient.count(),
+        prisma.patient.count({ where: this.pendingRotationWhere(keyId) })
+      ]);
+      return { total, pending };
+    } catch (error) {
+      logger.error('Failed to count patients pending key rotation:', error);
+      throw error;
+    }
+  }
+
+  // MongoDB filter of the search (everything but pagination and sort)
+  private buildSearchQuery(filters: PatientSearchFilters): { query: Record<string, any>; nameTerms: NameSearchTerm[] } {
+    const query: any = {};
+
+    // Every term of the name must start a word of the patient name or sound like one
+    const nameTerms = filters.name ? nameSearchTerms(filters.name) : [];
+    if (nameTerms.length > 0) {
+      query.$and = nameTerms.map(term => ({
+        $or: [
+          { nameTokens: { $regex: `^${this.escapeRegex(term.token)}` } },
+          ...(term.phonetic ? [{ namePhonetic: term.phonetic }] : [])
+        ]
+      }));
+    }
+    // CPF, e-mail and phone are encrypted, so only an exact match (on the blind index) is possible
+    if (filters.cpf) {
+      query.cpfHash = fieldEncryption.blindIndex(BlindIndexField.CPF, filters.cpf);
+    }
+    if (filters.email) {
+      query.emailHash = fieldEncryption.blindIndex(BlindIndexField.EMAIL, filters.email);
+    }
+    if (filters.phone) {
+      query.phoneHash = fieldEncryption.blindIndex(BlindIndexField.PHONE, filters.phone);
+    }
+    if (filters.gender) {
+      query.gender = filters.gender;
+    }
+    if (filters.accommodationType) {
+      query.accommodationType = filters.accommodationType;
+    }
+    if (filters.validationStatus) {
+      query.validationStatus = filters.validationStatus;
+    }
+    if (filters.roomNumber) {
+      query.roomNumber = filters.roomNumber;
+    }
+    if (filters.insurancePlan) {
+      query.insurancePlan = filters.insurancePlan;
+    }
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.responsibleDoctor) {
+      query.responsibleDoctor = { $regex: this.escapeRegex(filters.responsibleDoctor), $options: 'i' };
+    }
+    if (filters.admissionDateFrom || filters.admissionDateTo) {
+      query.admissionDate = {};
+      if (filters.admissionDateFrom) {
+        query.admissionDate.$gte = new Date(filters.admissionDateFrom);
+      }
+      if (filters.admissionDateTo) {
+        query.admissionDate.$lte = new Date(filters.admissionDateTo);
+      }
+    }
+    if (filters.birthDateFrom || filters.birthDateTo) {
+      query.birthDate = {};
+      if (filters.birthDateFrom) {
+        query.birthDate.$gte = new Date(filters.birthDateFrom);
+      }
+      if (filters.birthDateTo) {
+        query.birthDate.$lte = new Date(filters.birthDateTo);
+      }
+    }
+
+    // Denormalized counters (query string values arrive as strings)
+    if (filters.hasPendingValidations !== undefined) {
+      const hasPending = filters.hasPendingValidations === true || filters.hasPendingValidations === 'true';
+      query.pendingValidations = hasPending ? { $gt: 0 } : 0;
+    }
+    if (filters.minProceduresCount !== undefined) {
+      query.proceduresCount = { $gte: Number(filters.minProceduresCount) };
+    }
+    if (filters.minBillingAmount !== undefined || filters.maxBillingAmount !== undefined) {
+      query.totalBillingAmount = {};
+      if (filters.minBillingAmount !== undefined) {
+        query.totalBillingAmount.$gte = Number(filters.minBillingAmount);
+      }
+      if (filters.maxBillingAmount !== undefined) {
+        query.totalBillingAmount.$lte = Number(filters.maxBillingAmount);
+      }
+    }
+    if (filters.lastProcedureDateFrom || filters.lastProcedureDateTo) {
+      query.lastProcedureDate = {};
+      if (filters.lastProcedureDateFrom) {
+        query.lastProcedureDate.$gte = new Date(filters.lastProcedureDateFrom);
+      }
+      if (filters.lastProcedureDateTo) {
+        query.lastProcedureDate.$lte = new Date(filters.lastProcedureDateTo);
+      }
+    }
+
+    return { query, nameTerms };
+  }
+
+  // Relevance of a name search (see NAME_MATCH_SCORES), computed by the read model
+  private nameRelevance(terms: NameSearchTerm[], phrase: string): Record<string, any> {
+    const startsWith = (field: string, value: string) => ({ $eq: [{ $indexOfCP: [field, value] }, 0] });
+
+    const termScores = terms.map(term => ({
+      $cond: [
+        { $in: [term.token, '$nameTokens'] },
+        NAME_MATCH_SCORES.exact,
+        {
+          $cond: [
+            { $anyElementTrue: [{ $map: { input: '$nameTokens', as: 'token', in: startsWith('$$token', term.token) } }] },
+            NAME_MATCH_SCORES.prefix,
+            { $cond: [{ $in: [term.phonetic, '$namePhonetic'] }, NAME_MATCH_SCORES.phonetic, 0] }
+          ]
+        }
+      ]
+    }));
+
+    return {
+      $add: [
+        { $multiply: [{ $avg: termScores }, 1 - NAME_MATCH_SCORES.phrase] },
+        { $cond: [startsWith('$nameNormalized', phrase), NAME_MATCH_SCORES.phrase, 0] }
+      ]
+    };
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private async lockPatients(tx: Prisma.TransactionClient, ids: string[]): Promise<void> {
+    for (const id of [...ids].sort()) {
+      await tx.$queryRaw`SELECT "id" FROM "patients" WHERE "id" = ${id} FOR UPDATE`;
+    }
+  }
+
+  private pendingRotationWhere(keyId: string): Prisma.PatientWhereInput {
+    return {
+      OR: [
+        ...PATIENT_PII_FIELDS.map(field => ({ NOT: { [field]: { startsWith: encryptedValuePrefix(keyId) } } })),
+        // Anonymized patients have no CPF or contact data to index
+        { cpfHash: null, anonymizedAt: null },
+        { emailHash: null, anonymizedAt: null },
+        { phoneHash: null, anonymizedAt: null }
+      ]
+    };
+  }
+
   // UTILITY METHODS
-  //private async clearPatientCache(patientId: string): Promise<void> {
-  //  try {
-   //   await Promise.all([
-        //cacheUtils.del(`${this.CACHE_PREFIX}${patientId}`),
-       // cacheUtils.clearPattern(`${this.CACHE_PREFIX}cpf:*`),
-      //  cacheUtils.clearPattern(`${this.CACHE_PREFIX}record:*`),
-      //  cacheUtils.clearPattern(`${this.CACHE_PREFIX}search:*`)
-    //  ]);
-  //  } catch (error) {
-  //    logger.error('Failed to clear patient cache:', error);
-  //  }
- // }
+  // Encrypts the personal data fields present in data and recomputes the blind indexes. An empty
+  // CNS, medical record number, e-mail or phone gets no index, so patients without one do not collide.
+  private encryptPersonalData<T extends Partial<Record<PatientPiiField, string>>>(
+    data: T
+  ): T & { cpfHash?: string; cnsHash?: string | null; medicalRecordNumberHash?: string | null; emailHash?: string | null; phoneHash?: string | null } {
+    const encrypted: T & { cpfHash?: string; cnsHash?: string | null; medicalRecordNumberHash?: string | null; emailHash?: string | null; phoneHash?: string | null } =
+      fieldEncryption.encryptFields(data, PATIENT_PII_FIELDS);
+
+    if (data.cpf !== undefined) {
+      encrypted.cpfHash = fieldEncryption.blindIndex(BlindIndexField.CPF, data.cpf);
+    }
+    if (data.cns !== undefined) {
+      encrypted.cnsHash = data.cns ? fieldEncryption.blindIndex(BlindIndexField.CNS, data.cns) : null;
+    }
+    if (data.medicalRecordNumber !== undefined) {
+      encrypted.medicalRecordNumberHash = data.medicalRecordNumber
+        ? fieldEncryption.blindIndex(BlindIndexField.MEDICAL_RECORD_NUMBER, data.medicalRecordNumber)
+        : null;
+    }
+    if (data.email !== undefined) {
+      encrypted.emailHash = data.email ? fieldEncryption.blindIndex(BlindIndexField.EMAIL, data.email) : null;
+    }
+    if (data.phone !== undefined) {
+      encrypted.phoneHash = data.phone ? fieldEncryption.blindIndex(BlindIndexField.PHONE, data.phone) : null;
+    }
+
+    return encrypted;
+  }
 
   private mapPrismaToPatient(prismaPatient: any): Patient {
+    return fieldEncryption.decryptFields(this.mapPrismaRow(prismaPatient), PATIENT_PII_FIELDS);
+  }
+
+  private mapPrismaRow(prismaPatient: any): Patient {
     return {
       id: prismaPatient.id,
       createdAt: prismaPatient.createdAt,
@@ -351,6 +1081,7 @@ export class PatientRepository {
       fullName: prismaPatient.fullName,
       cpf: prismaPatient.cpf,
       rg: prismaPatient.rg,
+      cns: prismaPatient.cns,
       birthDate: prismaPatient.birthDate,
       gender: prismaPatient.gender.toLowerCase(),
       phone: prismaPatient.phone,
@@ -367,11 +1098,20 @@ export class PatientRepository {
       accommodationStatus: prismaPatient.accommodationStatus.toLowerCase(),
       observations: prismaPatient.observations,
       status: prismaPatient.status.toLowerCase(),
-      validationStatus: prismaPatient.validationStatus.toLowerCase()
+      validationStatus: prismaPatient.validationStatus.toLowerCase(),
+      version: prismaPatient.version,
+      anonymizedAt: prismaPatient.anonymizedAt ?? undefined,
+      deletedAt: prismaPatient.deletedAt ?? undefined,
+      mergedIntoId: prismaPatient.mergedIntoId ?? undefined,
+      mergedAt: prismaPatient.mergedAt ?? undefined
     };
   }
 
   private mapMongoToPatient(mongoPatient: any): Patient {
+    return fieldEncryption.decryptFields(this.mapMongoDocument(mongoPatient), PATIENT_PII_FIELDS);
+  }
+
+  private mapMongoDocument(mongoPatient: any): Patient {
     return {
       id: mongoPatient.id, // Usar campo 'id' em vez de '_id'
       createdAt: mongoPatient.createdAt,
@@ -379,6 +1119,7 @@ export class PatientRepository {
       fullName: mongoPatient.fullName,
       cpf: mongoPatient.cpf,
       rg: mongoPatient.rg,
+      cns: mongoPatient.cns,
       birthDate: mongoPatient.birthDate,
       gender: mongoPatient.gender,
       phone: mongoPatient.phone,
@@ -395,7 +1136,15 @@ export class PatientRepository {
       accommodationStatus: mongoPatient.accommodationStatus,
       observations: mongoPatient.observations,
       status: mongoPatient.status,
-      validationStatus: mongoPatient.validationStatus
+      validationStatus: mongoPatient.validationStatus,
+      version: mongoPatient.version,
+      anonymizedAt: mongoPatient.anonymizedAt,
+      deletedAt: mongoPatient.deletedAt,
+      proceduresCount: mongoPatient.proceduresCount,
+      totalBillingAmount: mongoPatient.totalBillingAmount,
+      lastProcedureDate: mongoPatient.lastProcedureDate,
+      pendingValidations: mongoPatient.pendingValidations,
+      searchScore: mongoPatient.searchScore !== undefined ? Math.round(mongoPatient.searchScore * 1000) / 1000 : undefined
     };
   }
 }
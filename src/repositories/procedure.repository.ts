@@ -0,0 +1,284 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { PatientRepository } from './patient.repository';
+import { patientProjector } from '../events/patient-projector';
+import {
+  Procedure,
+  CreateProcedureRequest,
+  UpdateProcedureRequest,
+  ProcedureSearchFilters,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+
+export class ProcedureRepository {
+  private patientRepository = new PatientRepository();
+
+  // WRITE OPERATIONS (PostgreSQL)
+  // Every write also refreshes the patient's read model counters (see PatientRepository.touchSummary)
+  async create(patientId: string, data: CreateProcedureRequest): Promise<Procedure> {
+    try {
+      const procedure = await prisma.$transaction(async (tx) => {
+        const created = await tx.procedure.create({
+          data: {
+            patientId,
+            code: data.code,
+            description: data.description,
+            suggestedPort: data.suggestedPort,
+            currentPort: data.currentPort,
+            portDivergence: data.suggestedPort !== data.currentPort,
+            status: (data.status || 'scheduled').toUpperCase() as any,
+            validationStatus: 'PENDING',
+            riskLevel: data.riskLevel.toUpperCase() as any,
+            scheduledDate: data.scheduledDate ? new Date(data.scheduledDate) : null,
+            estimatedDuration: data.estimatedDuration ?? null
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, patientId, { reason: 'procedure.created', procedureId: created.id });
+        return created;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Procedure created successfully:', { procedureId: procedure.id, patientId });
+      return this.mapPrismaToProcedure(procedure);
+    } catch (error) {
+      logger.error('Failed to create procedure:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, data: UpdateProcedureRequest, current: Procedure): Promise<Procedure> {
+    try {
+      const suggestedPort = data.suggestedPort ?? current.suggestedPort;
+      const currentPort = data.currentPort ?? current.currentPort;
+
+      const procedure = await prisma.$transaction(async (tx) => {
+        const updated = await tx.procedure.update({
+          where: { id },
+          data: {
+            ...(data.code && { code: data.code }),
+            ...(data.description && { description: data.description }),
+            ...(data.suggestedPort !== undefined && { suggestedPort: data.suggestedPort }),
+            ...(data.currentPort !== undefined && { currentPort: data.currentPort }),
+            ...(data.riskLevel && { riskLevel: data.riskLevel.toUpperCase() as any }),
+            ...(data.scheduledDate && { scheduledDate: new Date(data.scheduledDate) }),
+            ...(data.estimatedDuration !== undefined && { estimatedDuration: data.estimatedDuration }),
+            ...(data.actualDuration !== undefined && { actualDuration: data.actualDuration }),
+            ...(data.auditNotes !== undefined && { auditNotes: data.auditNotes }),
+            portDivergence: suggestedPort !== currentPort
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, updated.patientId, { reason: 'procedure.updated', procedureId: id });
+        return updated;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Procedure updated successfully:', { procedureId: id });
+      return this.mapPrismaToProcedure(procedure);
+    } catch (error) {
+      logger.error('Failed to update procedure:', error);
+      throw error;
+    }
+  }
+
+  async updateStatus(
+    id: string,
+    status: string,
+    extra: { completedDate?: Date; actualDuration?: number; auditNotes?: string; auditorId?: string }
+  ): Promise<Procedure> {
+    try {
+      const procedure = await prisma.$transaction(async (tx) => {
+        const updated = await tx.procedure.update({
+          where: { id },
+          data: {
+            status: status.toUpperCase() as any,
+            ...(extra.completedDate && { completedDate: extra.completedDate }),
+            ...(extra.actualDuration !== undefined && { actualDuration: extra.actualDuration }),
+            ...(extra.auditNotes !== undefined && { auditNotes: extra.auditNotes }),
+            ...(extra.auditorId && { auditorId: extra.auditorId, lastAuditDate: new Date() })
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, updated.patientId, { reason: 'procedure.status_changed', procedureId: id });
+        return updated;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Procedure status updated successfully:', { procedureId: id, status });
+      return this.mapPrismaToProcedure(procedure);
+    } catch (error) {
+      logger.error('Failed to update procedure status:', error);
+      throw error;
+    }
+  }
+
+  // Result of an audit made by the audit service
+  async updateValidation(
+    id: string,
+    data: { validationStatus: string; auditorId: string; auditNotes?: string }
+  ): Promise<Procedure> {
+    try {
+      const procedure = await prisma.$transaction(async (tx) => {
+        const updated = await tx.procedure.update({
+          where: { id },
+          data: {
+            validationStatus: data.validationStatus.toUpperCase() as any,
+            auditorId: data.auditorId,
+            lastAuditDate: new Date(),
+            ...(data.auditNotes !== undefined && { auditNotes: data.auditNotes })
+          }
+        });
+
+        await this.patientRepository.touchSummary(tx, updated.patientId, { reason: 'procedure.audited', procedureId: id });
+        return updated;
+      });
+
+      patientProjector.notify();
+
+      logger.info('Procedure validation updated successfully:', { procedureId: id, validationStatus: data.validationStatus });
+      return this.mapPrismaToProcedure(procedure);
+    } catch (error) {
+      logger.error('Failed to update procedure validation:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const deleted = await tx.procedure.update({
+          where: { id },
+          data: { deletedAt: new Date() }
+        });
+
+        await this.patientRepository.touchSummary(tx, deleted.patientId, { reason: 'procedure.deleted', procedureId: id });
+      });
+
+      patientProjector.notify();
+
+      logger.info('Procedure deleted successfully:', { procedureId: id });
+    } catch (error) {
+      logger.error('Failed to delete procedure:', error);
+      throw error;
+    }
+  }
+
+  // READ OPERATIONS (PostgreSQL)
+  async findById(patientId: string, id: string): Promise<Procedure | null> {
+    try {
+      const procedure = await prisma.procedure.findFirst({
+        where: { id, patientId, deletedAt: null }
+      });
+
+      return procedure ? this.mapPrismaToProcedure(procedure) : null;
+    } catch (error) {
+      logger.error('Failed to find procedure by ID:', error);
+      throw error;
+    }
+  }
+
+  async findMany(
+    patientId: string,
+    filters: ProcedureSearchFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<Procedure>> {
+    try {
+      const where: Prisma.ProcedureWhereInput = { patientId, deletedAt: null };
+
+      if (filters.code) {
+        where.code = { startsWith: filters.code };
+      }
+      if (filters.status) {
+        where.status = filters.status.toUpperCase() as any;
+      }
+      if (filters.riskLevel) {
+        where.riskLevel = filters.riskLevel.toUpperCase() as any;
+      }
+      if (filters.validationStatus) {
+        where.validationStatus = filters.validationStatus.toUpperCase() as any;
+      }
+      if (filters.scheduledDateFrom || filters.scheduledDateTo) {
+        where.scheduledDate = {
+          ...(filters.scheduledDateFrom && { gte: new Date(filters.scheduledDateFrom) }),
+          ...(filters.scheduledDateTo && { lte: new Date(filters.scheduledDateTo) })
+        };
+      }
+
+      const page = pagination?.page || 1;
+      const limit = Math.min(pagination?.limit || 10, 100); // Max 100 items per page
+      const skip = (page - 1) * limit;
+
+      const [procedures, total] = await Promise.all([
+        prisma.procedure.findMany({
+          where,
+          orderBy: { scheduledDate: pagination.sortOrder === 'asc' ? 'asc' : 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.procedure.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        data: procedures.map(procedure => this.mapPrismaToProcedure(procedure)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to find procedures:', error);
+      throw error;
+    }
+  }
+
+  // Every procedure of the patient, including deleted ones (data subject export)
+  async findAllByPatient(patientId: string): Promise<Procedure[]> {
+    try {
+      const rows = await prisma.procedure.findMany({
+        where: { patientId },
+        orderBy: { createdAt: 'asc' }
+      });
+      return rows.map(row => this.mapPrismaToProcedure(row));
+    } catch (error) {
+      logger.error('Failed to find all procedures of patient:', error);
+      throw error;
+    }
+  }
+
+  // UTILITY METHODS
+  private mapPrismaToProcedure(prismaProcedure: any): Procedure {
+    return {
+      id: prismaProcedure.id,
+      patientId: prismaProcedure.patientId,
+      code: prismaProcedure.code,
+      description: prismaProcedure.description,
+      suggestedPort: prismaProcedure.suggestedPort,
+      currentPort: prismaProcedure.currentPort,
+      portDivergence: prismaProcedure.portDivergence,
+      status: prismaProcedure.status.toLowerCase(),
+      validationStatus: prismaProcedure.validationStatus.toLowerCase(),
+      riskLevel: prismaProcedure.riskLevel.toLowerCase(),
+      lastAuditDate: prismaProcedure.lastAuditDate ?? undefined,
+      auditorId: prismaProcedure.auditorId ?? undefined,
+      auditNotes: prismaProcedure.auditNotes ?? undefined,
+      scheduledDate: prismaProcedure.scheduledDate ?? undefined,
+      completedDate: prismaProcedure.completedDate ?? undefined,
+      estimatedDuration: prismaProcedure.estimatedDuration ?? undefined,
+      actualDuration: prismaProcedure.actualDuration ?? undefined,
+      createdAt: prismaProcedure.createdAt,
+      updatedAt: prismaProcedure.updatedAt
+    };
+  }
+}
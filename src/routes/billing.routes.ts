@@ -0,0 +1,305 @@
+import { Router } from 'express';
+import { BillingController } from '../controllers/billing.controller';
+import { requireRole } from '../middleware/auth';
+import {
+  validateCreateBillingItem,
+  validateApproveBillingItem,
+  validateRejectBillingItem,
+  validateBillingItemSearchFilters
+} from '../validators/billing.validator';
+import { UserRole } from '@/types';
+
+// mergeParams exposes the patient :id from the parent mount path
+const router = Router({ mergeParams: true });
+const billingController = new BillingController();
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items:
+ *   post:
+ *     summary: Add a billing item to a patient
+ *     description: totalPrice is computed by the server as unitPrice × quantity.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - description
+ *               - category
+ *               - unitPrice
+ *               - quantity
+ *               - coverageType
+ *               - riskLevel
+ *             properties:
+ *               procedureId:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "90014123"
+ *               description:
+ *                 type: string
+ *                 example: "Cateter venoso central"
+ *               category:
+ *                 type: string
+ *                 enum: [procedure, material, medication, exam, accommodation, other]
+ *               unitPrice:
+ *                 type: string
+ *                 example: "125.90"
+ *               quantity:
+ *                 type: integer
+ *                 example: 2
+ *               port:
+ *                 type: integer
+ *               coverageType:
+ *                 type: string
+ *                 enum: [included, extra, blocked]
+ *               riskLevel:
+ *                 type: string
+ *                 enum: [low, medium, high, critical]
+ *               requesterName:
+ *                 type: string
+ *               requestDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Billing item created successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Patient or procedure not found
+ */
+// Add billing item - requires admin, director, analyst, or doctor role
+router.post(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.DOCTOR]),
+  validateCreateBillingItem,
+  billingController.createBillingItem
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items:
+ *   get:
+ *     summary: List billing items of a patient
+ *     description: Returns the page of items plus the total amount of all items matching the filters.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, billed]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: coverageType
+ *         schema:
+ *           type: string
+ *           enum: [included, extra, blocked]
+ *       - in: query
+ *         name: procedureId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of billing items
+ *       404:
+ *         description: Patient not found
+ */
+// List billing items - requires billing or audit roles
+router.get(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.AUDITOR, UserRole.DOCTOR]),
+  validateBillingItemSearchFilters,
+  billingController.searchBillingItems
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items/{itemId}:
+ *   get:
+ *     summary: Get a billing item by ID
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Billing item ID
+ *     responses:
+ *       200:
+ *         description: Billing item found
+ *       404:
+ *         description: Patient or billing item not found
+ */
+// Get billing item - requires billing or audit roles
+router.get(
+  '/:itemId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.AUDITOR, UserRole.DOCTOR]),
+  billingController.getBillingItem
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items/{itemId}/approve:
+ *   patch:
+ *     summary: Approve a pending billing item
+ *     description: Items with blocked coverage require a justification.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               justification:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Billing item approved
+ *       400:
+ *         description: Justification missing for blocked coverage
+ *       409:
+ *         description: Billing item is not pending
+ */
+// Approve billing item - requires admin, director, analyst, or auditor role
+router.patch(
+  '/:itemId/approve',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.AUDITOR]),
+  validateApproveBillingItem,
+  billingController.approveBillingItem
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items/{itemId}/reject:
+ *   patch:
+ *     summary: Reject a pending billing item
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Billing item rejected
+ *       409:
+ *         description: Billing item is not pending
+ */
+// Reject billing item - requires admin, director, analyst, or auditor role
+router.patch(
+  '/:itemId/reject',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.AUDITOR]),
+  validateRejectBillingItem,
+  billingController.rejectBillingItem
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/billing-items/{itemId}/bill:
+ *   patch:
+ *     summary: Mark an approved billing item as billed
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Billing item marked as billed
+ *       409:
+ *         description: Billing item is not approved
+ */
+// Mark billing item as billed - requires admin, director, or analyst role
+router.patch(
+  '/:itemId/bill',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  billingController.markBillingItemBilled
+);
+
+export default router;
@@ -0,0 +1,180 @@
+import { Router } from 'express';
+import { ConsentController } from '../controllers/consent.controller';
+import { requireRole } from '../middleware/auth';
+import {
+  validateGrantConsent,
+  validateRevokeConsent,
+  validateConsentHistoryFilters
+} from '../validators/consent.validator';
+import { UserRole } from '@/types';
+
+// mergeParams exposes the patient :id from the parent mount path
+const router = Router({ mergeParams: true });
+const consentController = new ConsentController();
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/consents:
+ *   get:
+ *     summary: Get the consents in force for each processing purpose
+ *     description: One entry per purpose (care, insurance_billing, research, communications). Purposes without a recorded consent show their default legal basis (source=default); care and insurance billing are allowed by default, research and communications need a granted consent.
+ *     tags: [Consents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Consents of the patient
+ *       404:
+ *         description: Patient not found
+ */
+// Get consents - all authenticated users can view
+router.get(
+  '/',
+  consentController.getConsents
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/consents/history:
+ *   get:
+ *     summary: Get the consent history of a patient
+ *     description: Every grant and revocation, newest first. Each change of a purpose is a new version.
+ *     tags: [Consents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: query
+ *         name: purpose
+ *         schema:
+ *           type: string
+ *           enum: [care, insurance_billing, research, communications]
+ *     responses:
+ *       200:
+ *         description: Consent history
+ *       404:
+ *         description: Patient not found
+ */
+// Get consent history - requires admin, director, auditor, or receptionist role
+router.get(
+  '/history',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR, UserRole.RECEPTIONIST]),
+  validateConsentHistoryFilters,
+  consentController.getConsentHistory
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/consents/{purpose}/grant:
+ *   post:
+ *     summary: Grant consent for a processing purpose
+ *     description: Records a new consent version and publishes PatientConsentChanged. The legal basis defaults to consent.
+ *     tags: [Consents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: purpose
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [care, insurance_billing, research, communications]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               legalBasis:
+ *                 type: string
+ *                 enum: [consent, health_protection, contract, legal_obligation, exercise_of_rights]
+ *               termsVersion:
+ *                 type: string
+ *                 example: "2025-10"
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Consent granted
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Patient not found
+ *       409:
+ *         description: Consent already granted with the same terms, or patient anonymized
+ */
+// Grant consent - requires admin, director, receptionist, or doctor role
+router.post(
+  '/:purpose/grant',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.RECEPTIONIST, UserRole.DOCTOR]),
+  validateGrantConsent,
+  consentController.grantConsent
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/consents/{purpose}/revoke:
+ *   post:
+ *     summary: Revoke consent for a processing purpose
+ *     description: Records a new consent version and publishes PatientConsentChanged. Purposes that rely on another legal basis (care, insurance billing) remain allowed.
+ *     tags: [Consents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: purpose
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [care, insurance_billing, research, communications]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Consent revoked
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Patient not found
+ *       409:
+ *         description: Consent is not granted
+ */
+// Revoke consent - requires admin, director, receptionist, or doctor role
+router.post(
+  '/:purpose/revoke',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.RECEPTIONIST, UserRole.DOCTOR]),
+  validateRevokeConsent,
+  consentController.revokeConsent
+);
+
+export default router;
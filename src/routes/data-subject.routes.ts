@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { DataSubjectController } from '../controllers/data-subject.controller';
+import { requireRole } from '../middleware/auth';
+import {
+  validateCreateDataSubjectRequest,
+  validateDataSubjectRequestFilters
+} from '../validators/data-subject.validator';
+import { UserRole } from '@/types';
+
+const router = Router();
+const dataSubjectController = new DataSubjectController();
+
+/**
+ * @swagger
+ * /api/v1/data-subject-requests:
+ *   post:
+ *     summary: Register a data subject request (LGPD)
+ *     description: Records an access or erasure request when it is received; the deadline (DATA_SUBJECT_REQUEST_DEADLINE_DAYS, 15 days by default) starts now. Fulfil it with the patient data-export or anonymize endpoint passing its requestId.
+ *     tags: [Data Subject Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [patientId, type]
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [access, erasure]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Request registered
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Patient not found
+ */
+// Register data subject request - requires admin or director role
+router.post(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  validateCreateDataSubjectRequest,
+  dataSubjectController.createRequest
+);
+
+/**
+ * @swagger
+ * /api/v1/data-subject-requests:
+ *   get:
+ *     summary: List data subject requests
+ *     description: Ordered by deadline. overdue=true lists open (pending or failed) requests past their deadline.
+ *     tags: [Data Subject Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [access, erasure]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed]
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: Data subject requests
+ *       400:
+ *         description: Invalid filters
+ */
+// List data subject requests - requires admin, director, or auditor role
+router.get(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  validateDataSubjectRequestFilters,
+  dataSubjectController.listRequests
+);
+
+/**
+ * @swagger
+ * /api/v1/data-subject-requests/{requestId}:
+ *   get:
+ *     summary: Get a data subject request
+ *     tags: [Data Subject Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Data subject request with its status, deadline and result
+ *       404:
+ *         description: Request not found
+ */
+// Get data subject request - requires admin, director, or auditor role
+router.get(
+  '/:requestId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  dataSubjectController.getRequest
+);
+
+export default router;
@@ -0,0 +1,202 @@
+import { Router } from 'express';
+import { DocumentController } from '../controllers/document.controller';
+import { requireRole } from '../middleware/auth';
+import { uploadSingleFile } from '../middleware/upload';
+import { validateUploadDocument, validateDocumentSearchFilters } from '../validators/document.validator';
+import { UserRole } from '@/types';
+
+// mergeParams exposes the patient :id from the parent mount path
+const router = Router({ mergeParams: true });
+const documentController = new DocumentController();
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/documents:
+ *   post:
+ *     summary: Upload a patient document
+ *     description: Accepts the MIME types and maximum size configured in config.upload.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - category
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               category:
+ *                 type: string
+ *                 enum: [exam, prescription, report, image, other]
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Document uploaded successfully
+ *       400:
+ *         description: Validation error
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: File type not allowed
+ */
+// Upload document - requires clinical or administrative role
+router.post(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.DOCTOR, UserRole.NURSE]),
+  uploadSingleFile('file'),
+  validateUploadDocument,
+  documentController.uploadDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/documents:
+ *   get:
+ *     summary: List documents of a patient
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [exam, prescription, report, image, other]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: List of document metadata
+ *       404:
+ *         description: Patient not found
+ */
+// List documents - all authenticated users can view
+router.get(
+  '/',
+  validateDocumentSearchFilters,
+  documentController.searchDocuments
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/documents/{documentId}:
+ *   get:
+ *     summary: Get document metadata
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document metadata
+ *       404:
+ *         description: Patient or document not found
+ */
+// Get document metadata - all authenticated users can view
+router.get(
+  '/:documentId',
+  documentController.getDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/documents/{documentId}/download:
+ *   get:
+ *     summary: Download document content
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document content streamed as attachment
+ *       404:
+ *         description: Patient or document not found
+ */
+// Download document - all authenticated users can view
+router.get(
+  '/:documentId/download',
+  documentController.downloadDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/documents/{documentId}:
+ *   delete:
+ *     summary: Delete a document (soft delete)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document deleted successfully
+ *       404:
+ *         description: Patient or document not found
+ */
+// Delete document - requires admin or director role only
+router.delete(
+  '/:documentId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  documentController.deleteDocument
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { EventSchemaController } from '../controllers/event-schema.controller';
+
+const router = Router();
+const eventSchemaController = new EventSchemaController();
+
+/**
+ * @swagger
+ * /api/v1/events/schemas:
+ *   get:
+ *     summary: List the patient event contracts
+ *     description: Every event type and version published by this service, with its CloudEvents envelope as JSON Schema (draft-07).
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event contracts
+ */
+// List event schemas - all authenticated users
+router.get(
+  '/schemas',
+  eventSchemaController.listSchemas
+);
+
+/**
+ * @swagger
+ * /api/v1/events/schemas/{eventType}/{eventVersion}:
+ *   get:
+ *     summary: Get the JSON Schema of one event version
+ *     description: Returned as a plain JSON Schema document; this is the URL in the dataschema attribute of each event.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: PatientCreated
+ *       - in: path
+ *         name: eventVersion
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           example: 1
+ *     responses:
+ *       200:
+ *         description: JSON Schema document
+ *         content:
+ *           application/schema+json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Unknown event type or version
+ */
+// Get one event schema - all authenticated users
+router.get(
+  '/schemas/:eventType/:eventVersion',
+  eventSchemaController.getSchema
+);
+
+export default router;
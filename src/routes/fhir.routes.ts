@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { FhirController } from '../controllers/fhir.controller';
+import { authMiddleware, requireRole } from '../middleware/auth';
+import { fhirBodyParser, fhirFormat, fhirResponses } from '../middleware/fhir';
+import { validateFhirPatient, validateFhirPatientSearch } from '../validators/fhir.validator';
+import { UserRole } from '@/types';
+
+const router = Router();
+const fhirController = new FhirController();
+
+// Authentication runs after fhirResponses, so a missing or invalid token is an OperationOutcome too
+router.use(fhirResponses, fhirFormat, fhirBodyParser, authMiddleware);
+
+/**
+ * @swagger
+ * /fhir/Patient:
+ *   get:
+ *     summary: Search FHIR Patient resources
+ *     description: |
+ *       Returns a searchset Bundle. `identifier` (system|value) finds a patient by CPF, CNS or
+ *       medical record number and cannot be combined with other parameters; `name` and `birthdate`
+ *       (repeatable, with eq, ge, le, gt or lt prefixes) may be combined. Further pages are read
+ *       from the `next` link of the bundle.
+ *     tags: [FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: identifier
+ *         schema:
+ *           type: string
+ *         description: "e.g. http://rnds.saude.gov.br/fhir/r4/NamingSystem/cpf|12345678909"
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: birthdate
+ *         schema:
+ *           type: string
+ *         description: "e.g. 1980-05-12, ge1980, lt1990-01"
+ *       - in: query
+ *         name: _count
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: _format
+ *         schema:
+ *           type: string
+ *           enum: [json, application/json, application/fhir+json]
+ *     responses:
+ *       200:
+ *         description: Bundle of matching patients
+ *       400:
+ *         description: Invalid search parameter (OperationOutcome)
+ *       415:
+ *         description: Unsupported _format (OperationOutcome)
+ */
+// Search patients - all authenticated users can search
+router.get(
+  '/Patient',
+  validateFhirPatientSearch,
+  fhirController.searchPatients
+);
+
+/**
+ * @swagger
+ * /fhir/Patient/{id}:
+ *   get:
+ *     summary: Read a FHIR Patient resource
+ *     tags: [FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patient resource
+ *       404:
+ *         description: Patient not found (OperationOutcome)
+ */
+// Read patient - all authenticated users can view
+router.get(
+  '/Patient/:id',
+  fhirController.readPatient
+);
+
+/**
+ * @swagger
+ * /fhir/Patient:
+ *   post:
+ *     summary: Create a patient from a FHIR Patient resource
+ *     tags: [FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/fhir+json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Patient created (Location header with the new resource version)
+ *       400:
+ *         description: Invalid resource (OperationOutcome)
+ *       409:
+ *         description: CPF, CNS or medical record number already in use (OperationOutcome)
+ */
+// Create patient - requires admin, director, or analyst role
+router.post(
+  '/Patient',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  validateFhirPatient,
+  fhirController.createPatient
+);
+
+/**
+ * @swagger
+ * /fhir/Patient/{id}:
+ *   put:
+ *     summary: Update a patient from a FHIR Patient resource
+ *     tags: [FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/fhir+json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Patient updated
+ *       400:
+ *         description: Invalid resource or resource id different from the URL (OperationOutcome)
+ *       404:
+ *         description: Patient not found (OperationOutcome)
+ */
+// Update patient - requires admin, director, analyst, or doctor role
+router.put(
+  '/Patient/:id',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.DOCTOR]),
+  validateFhirPatient,
+  fhirController.updatePatient
+);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { InboundEventController } from '../controllers/inbound-event.controller';
+import { requireRole } from '../middleware/auth';
+import { validateInboundEventFilters } from '../validators/inbound-event.validator';
+import { UserRole } from '@/types';
+
+const router = Router();
+const inboundEventController = new InboundEventController();
+
+/**
+ * @swagger
+ * /api/v1/inbound-events:
+ *   get:
+ *     summary: List events consumed from other services
+ *     description: Procedure, billing and audit events received by this service with their outcome. Dead-lettered events failed validation, broke a business rule or exhausted their retries.
+ *     tags: [Inbound Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [processed, dead_lettered]
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *         example: BillingItemApproved
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: Consumed events
+ *       400:
+ *         description: Invalid filters
+ *       403:
+ *         description: Insufficient permissions
+ */
+// List consumed events - requires admin role only
+router.get(
+  '/',
+  requireRole([UserRole.ADMIN]),
+  validateInboundEventFilters,
+  inboundEventController.listEvents
+);
+
+/**
+ * @swagger
+ * /api/v1/inbound-events/{eventId}/replay:
+ *   post:
+ *     summary: Replay a dead-lettered event
+ *     description: Runs the event handler again. The event is marked as processed on success and stays dead-lettered otherwise.
+ *     tags: [Inbound Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Replay outcome
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: Event is not dead-lettered
+ */
+// Replay dead-lettered event - requires admin role only
+router.post(
+  '/:eventId/replay',
+  requireRole([UserRole.ADMIN]),
+  inboundEventController.replayEvent
+);
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { OutboxController } from '../controllers/outbox.controller';
+import { requireRole } from '../middleware/auth';
+import { UserRole } from '@/types';
+
+const router = Router();
+const outboxController = new OutboxController();
+
+/**
+ * @swagger
+ * /api/v1/outbox/status:
+ *   get:
+ *     summary: Get event outbox delivery status
+ *     description: Message counts by status, the oldest pending message and the messages that are failing or pending longer than the configured threshold.
+ *     tags: [Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Outbox status
+ *       403:
+ *         description: Insufficient permissions
+ */
+// Outbox status - requires admin or director role
+router.get(
+  '/status',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  outboxController.getStatus
+);
+
+/**
+ * @swagger
+ * /api/v1/outbox/messages/{messageId}/retry:
+ *   post:
+ *     summary: Requeue a failed outbox message
+ *     tags: [Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Message requeued
+ *       404:
+ *         description: No failed message with this ID
+ */
+// Retry failed message - requires admin role only
+router.post(
+  '/messages/:messageId/retry',
+  requireRole([UserRole.ADMIN]),
+  outboxController.retryMessage
+);
+
+export default router;
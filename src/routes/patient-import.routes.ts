@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { PatientImportController } from '../controllers/patient-import.controller';
+import { requireRole } from '../middleware/auth';
+import { UserRole } from '@/types';
+
+const router = Router();
+const patientImportController = new PatientImportController();
+
+/**
+ * @swagger
+ * /api/v1/patient-imports:
+ *   get:
+ *     summary: List recent patient imports
+ *     tags: [Patient Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Recent imports with progress and summary (without the per-row report)
+ */
+// List imports - requires admin, director, or analyst role
+router.get(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  patientImportController.listImports
+);
+
+/**
+ * @swagger
+ * /api/v1/patient-imports/{importId}:
+ *   get:
+ *     summary: Get patient import progress and report
+ *     description: |
+ *       `errors` lists the failed rows (spreadsheet row numbers, the header being row 1) with the reasons;
+ *       `created` lists the patients created by a commit import.
+ *     tags: [Patient Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import with progress, summary and per-row report
+ *       404:
+ *         description: Patient import not found
+ */
+// Get import - requires admin, director, or analyst role
+router.get(
+  '/:importId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  patientImportController.getImport
+);
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { PatientMergeController } from '../controllers/patient-merge.controller';
+import { requireRole } from '../middleware/auth';
+import { validatePatientMergeFilters } from '../validators/patient-merge.validator';
+import { UserRole } from '@/types';
+
+const router = Router();
+const patientMergeController = new PatientMergeController();
+
+/**
+ * @swagger
+ * /api/v1/patient-merges:
+ *   get:
+ *     summary: List patient merges
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *         description: Surviving or merged patient
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [merged, undone]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *     responses:
+ *       200:
+ *         description: Paginated patient merges, newest first by default
+ */
+// List merges - requires admin, director, or auditor role
+router.get(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  validatePatientMergeFilters,
+  patientMergeController.listMerges
+);
+
+/**
+ * @swagger
+ * /api/v1/patient-merges/{mergeId}:
+ *   get:
+ *     summary: Get a patient merge
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mergeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patient merge with the number of rows moved per table
+ *       404:
+ *         description: Patient merge not found
+ */
+// Get merge - requires admin, director, or auditor role
+router.get(
+  '/:mergeId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  patientMergeController.getMerge
+);
+
+/**
+ * @swagger
+ * /api/v1/patient-merges/{mergeId}/undo:
+ *   post:
+ *     summary: Undo a patient merge
+ *     description: Moves the procedures, billing items, documents and audit rows back to the merged patient and restores it. Allowed until the undo deadline (PATIENT_MERGE_UNDO_WINDOW_HOURS after the merge, 72 hours by default). Publishes PatientUnmerged.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mergeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patient merge undone
+ *       404:
+ *         description: Patient merge not found
+ *       409:
+ *         description: Merge already undone, undo window expired, or surviving patient changed state
+ */
+// Undo merge - requires admin or director role
+router.post(
+  '/:mergeId/undo',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  patientMergeController.undoMerge
+);
+
+export default router;
@@ -1,10 +1,22 @@
 import { Router } from 'express';
 import { PatientController } from '../controllers/patient.controller';
+import { DataSubjectController } from '../controllers/data-subject.controller';
+import { PatientMergeController } from '../controllers/patient-merge.controller';
+import { PatientImportController } from '../controllers/patient-import.controller';
 import { requireRole, requirePermission } from '../middleware/auth';
+import { uploadSingleFile } from '../middleware/upload';
+import { SPREADSHEET_UPLOAD_TYPES } from '../config/spreadsheet';
+import { validatePatientValidation, validatePatientSearchFilters, validatePatientExport } from '../validators/patient.validator';
+import { validatePatientDataExport, validateAnonymizePatient } from '../validators/data-subject.validator';
+import { validateDuplicateSearch, validateMergePatients } from '../validators/patient-merge.validator';
+import { validateStartPatientImport } from '../validators/patient-import.validator';
 import { UserRole } from '@/types';
 
 const router = Router();
 const patientController = new PatientController();
+const dataSubjectController = new DataSubjectController();
+const patientMergeController = new PatientMergeController();
+const patientImportController = new PatientImportController();
 
 /**
  * @swagger
@@ -77,6 +89,54 @@ router.post(
   patientController.createPatient
 );
 
+/**
+ * @swagger
+ * /api/v1/patients/import:
+ *   post:
+ *     summary: Import patients from a CSV or XLSX file
+ *     description: |
+ *       The first row holds the column names (API field names or Portuguese, e.g. `nome`, `cpf`, `data_nascimento`, `sexo`).
+ *       Every row is validated like POST /api/v1/patients, including CPF check digits and CPF/medical record uniqueness.
+ *       `dry_run` (default) only reports the rows that would fail; `commit` creates the valid rows and reports the others.
+ *       The import runs in the background; poll it with GET /api/v1/patient-imports/{importId}.
+ *     tags: [Patients, Patient Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               mode:
+ *                 type: string
+ *                 enum: [dry_run, commit]
+ *                 default: dry_run
+ *     responses:
+ *       202:
+ *         description: Import started
+ *       400:
+ *         description: Unreadable file, missing required columns, no data rows or too many rows
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: File is not a CSV or XLSX spreadsheet
+ */
+// Import patients - requires admin, director, or analyst role
+router.post(
+  '/import',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  uploadSingleFile('file', SPREADSHEET_UPLOAD_TYPES),
+  validateStartPatientImport,
+  patientImportController.startImport
+);
+
 /**
  * @swagger
  * /api/v1/patients/{id}:
@@ -115,7 +175,8 @@ router.put(
  * @swagger
  * /api/v1/patients/{id}:
  *   delete:
- *     summary: Delete a patient
+ *     summary: Delete a patient (soft delete)
+ *     description: Marks the patient as deleted in PostgreSQL and in the read model; procedures, billing items and documents are kept and the patient can be restored. Refused while the patient has procedures in progress or pending billing items.
  *     tags: [Patients]
  *     security:
  *       - bearerAuth: []
@@ -139,6 +200,149 @@ router.delete(
   patientController.deletePatient
 );
 
+/**
+ * @swagger
+ * /api/v1/patients/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted patient
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Patient restored successfully
+ *       404:
+ *         description: Patient not found
+ *       409:
+ *         description: Patient is not deleted
+ */
+// Restore patient - requires admin role only
+router.post(
+  '/:id/restore',
+  requireRole([UserRole.ADMIN]),
+  patientController.restorePatient
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/statistics:
+ *   get:
+ *     summary: Get patient statistics
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Patient statistics
+ */
+// Get patient statistics - requires admin, director, or analyst role
+// (registered before /:id so "statistics" is not taken as a patient ID)
+router.get(
+  '/statistics',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
+  patientController.getPatientStatistics
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/export:
+ *   get:
+ *     summary: Export patient search results as CSV or NDJSON
+ *     description: |
+ *       Accepts the same filters and sort as GET /api/v1/patients and streams every matching patient (no pagination).
+ *       The columns and the masking of personal data follow the caller's role, as in the search.
+ *       Each export is recorded in the audit trail; its ID is returned in the X-Export-Id header.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *         description: Comma-separated columns (default all the columns the role may see)
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: CSV (text/csv) or NDJSON (application/x-ndjson) file
+ *       400:
+ *         description: Invalid filters, format or fields
+ *       403:
+ *         description: A requested column is not allowed for the role
+ */
+// Export patients - requires admin, director, analyst, or auditor role
+// (registered before /:id so "export" is not taken as a patient ID)
+router.get(
+  '/export',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.AUDITOR]),
+  validatePatientExport,
+  patientController.exportPatients
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/duplicates:
+ *   get:
+ *     summary: Scan the registry for likely duplicate patients
+ *     description: Compares the patients sharing a birth date on normalized name, birth date, CPF, phone and email and returns the pairs scoring at least minScore, best match first.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Defaults to PATIENT_DUPLICATE_MIN_SCORE (0.6)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Duplicate candidate pairs with the score of each field
+ */
+// Scan duplicates - requires admin, director, or receptionist role
+// (registered before /:id so "duplicates" is not taken as a patient ID)
+router.get(
+  '/duplicates',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.RECEPTIONIST]),
+  validateDuplicateSearch,
+  patientMergeController.scanDuplicates
+);
+
 /**
  * @swagger
  * /api/v1/patients/{id}:
@@ -239,42 +443,146 @@ router.get(
  *         name: limit
  *         schema:
  *           type: integer
- *           default: 20
+ *           default: 10
+ *           maximum: 100
  *         description: Items per page
  *       - in: query
- *         name: search
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor mode (instead of page) - empty for the first page, then pagination.nextCursor or prevCursor of the previous response. Stable while patients are added; valid only for the same sortBy/sortOrder
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Patient name, accent-insensitive; each word may be partial (prefix) or sound alike (BuscaBR). Results are ranked by relevance (searchScore, 0 to 1) unless sortBy is given
+ *       - in: query
+ *         name: cpf
+ *         schema:
+ *           type: string
+ *         description: Exact CPF (with or without mask)
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: Exact e-mail (case-insensitive)
+ *       - in: query
+ *         name: phone
  *         schema:
  *           type: string
- *         description: Search term
+ *         description: Exact phone (digits compared)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, inactive, transferred, discharged]
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [male, female, other]
+ *       - in: query
+ *         name: roomNumber
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: insurancePlan
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: responsibleDoctor
+ *         schema:
+ *           type: string
+ *         description: Partial, case-insensitive
+ *       - in: query
+ *         name: accommodationType
+ *         schema:
+ *           type: string
+ *           enum: [apartment, shared]
+ *       - in: query
+ *         name: validationStatus
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, under_review]
+ *       - in: query
+ *         name: admissionDateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: admissionDateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: birthDateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: birthDateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: hasPendingValidations
+ *         schema:
+ *           type: boolean
+ *         description: Only patients with (or without) procedures/billing items awaiting approval
+ *       - in: query
+ *         name: minProceduresCount
+ *         schema:
+ *           type: integer
+ *         description: Minimum number of procedures
+ *       - in: query
+ *         name: minBillingAmount
+ *         schema:
+ *           type: number
+ *         description: Minimum total billing amount
+ *       - in: query
+ *         name: maxBillingAmount
+ *         schema:
+ *           type: number
+ *         description: Maximum total billing amount
+ *       - in: query
+ *         name: lastProcedureDateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: lastProcedureDateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Include soft-deleted patients (auditor and admin only)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [fullName, birthDate, admissionDate, roomNumber, responsibleDoctor, insurancePlan, status, validationStatus, proceduresCount, totalBillingAmount, lastProcedureDate, pendingValidations, createdAt, updatedAt]
+ *         description: Sort field (default createdAt, newest first)
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
  *     responses:
  *       200:
  *         description: List of patients
+ *       400:
+ *         description: Invalid filter, unknown parameter or sort field not allowed
  */
-// Search patients - all authenticated users can search
+// Search patients - all authenticated users can search (deleted patients: auditor or admin role)
 router.get(
   '/',
+  validatePatientSearchFilters,
   patientController.searchPatients
 );
 
-/**
- * @swagger
- * /api/v1/patients/statistics:
- *   get:
- *     summary: Get patient statistics
- *     tags: [Patients]
- *     security:
- *       - bearerAuth: []
- *     responses:
- *       200:
- *         description: Patient statistics
- */
-// Get patient statistics - requires admin, director, or analyst role
-router.get(
-  '/statistics',
-  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST]),
-  patientController.getPatientStatistics
-);
-
 /**
  * @swagger
  * /api/v1/patients/{id}/validate:
@@ -311,8 +619,237 @@ router.get(
 router.patch(
   '/:id/validate',
   requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  validatePatientValidation,
   patientController.validatePatient
 );
 
+/**
+ * @swagger
+ * /api/v1/patients/{id}/audit-trail:
+ *   get:
+ *     summary: Get the audit trail of a patient
+ *     description: Returns persisted audit records (create, update, delete, view, approve, reject), newest first.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, view, approve, reject]
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [patient, procedure, billing]
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated audit trail
+ *       404:
+ *         description: Patient not found
+ */
+/**
+ * @swagger
+ * /api/v1/patients/{id}/duplicates:
+ *   get:
+ *     summary: Find likely duplicates of a patient
+ *     description: Patients with the same birth date or a similar name, scored on normalized name, birth date, CPF, phone and email.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Duplicate candidates, best match first
+ *       404:
+ *         description: Patient not found
+ */
+// Find duplicates - requires admin, director, or receptionist role
+router.get(
+  '/:id/duplicates',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.RECEPTIONIST]),
+  validateDuplicateSearch,
+  patientMergeController.findDuplicates
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/merge:
+ *   post:
+ *     summary: Merge a duplicate patient into this patient
+ *     description: Moves the procedures, billing items, documents and audit rows of the merged patient to this one. The merged record is kept as a deleted alias, so GET /patients/{mergedPatientId} returns this patient. Publishes PatientMerged; the merge can be undone within PATIENT_MERGE_UNDO_WINDOW_HOURS.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Surviving patient
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mergedPatientId
+ *             properties:
+ *               mergedPatientId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Patients merged
+ *       404:
+ *         description: Patient not found
+ *       409:
+ *         description: A patient is deleted, anonymized or already merged
+ */
+// Merge patients - requires admin or director role
+router.post(
+  '/:id/merge',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  validateMergePatients,
+  patientMergeController.mergePatients
+);
+
+// Get audit trail - requires admin, director, or auditor role
+router.get(
+  '/:id/audit-trail',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.AUDITOR]),
+  patientController.getAuditTrail
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/data-export:
+ *   get:
+ *     summary: Export all data held about a patient (LGPD access request)
+ *     description: Patient, procedures, billing items, document metadata and audit trail, including deleted rows. Fulfils the given access request, or registers a new one. The request ID is returned in the X-Data-Subject-Request-Id header.
+ *     tags: [Data Subject Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, zip]
+ *           default: json
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         description: Registered access request being fulfilled
+ *     responses:
+ *       200:
+ *         description: Export bundle (application/json or application/zip)
+ *       404:
+ *         description: Patient or request not found
+ *       409:
+ *         description: Request belongs to another patient, is not an access request or is already completed
+ */
+// Export patient data - requires admin or director role
+router.get(
+  '/:id/data-export',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  validatePatientDataExport,
+  dataSubjectController.exportPatientData
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/anonymize:
+ *   post:
+ *     summary: Anonymize a patient (LGPD erasure request)
+ *     description: Erases the personal data in PostgreSQL, the read model and the cache and publishes PatientAnonymized. Procedures, billing items, documents and audit rows are kept for their retention periods, with personal data redacted from the audit snapshots. Irreversible.
+ *     tags: [Data Subject Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               requestId:
+ *                 type: string
+ *                 description: Registered erasure request being fulfilled
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Completed erasure request with the anonymization result
+ *       404:
+ *         description: Patient or request not found
+ *       409:
+ *         description: Patient already anonymized, or request mismatch
+ */
+// Anonymize patient - requires admin or director role
+router.post(
+  '/:id/anonymize',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  validateAnonymizePatient,
+  dataSubjectController.anonymizePatient
+);
+
 export default router;
 
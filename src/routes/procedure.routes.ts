@@ -0,0 +1,316 @@
+import { Router } from 'express';
+import { ProcedureController } from '../controllers/procedure.controller';
+import { requireRole } from '../middleware/auth';
+import {
+  validateCreateProcedure,
+  validateUpdateProcedure,
+  validateUpdateProcedureStatus,
+  validateProcedureSearchFilters
+} from '../validators/procedure.validator';
+import { UserRole } from '@/types';
+
+// mergeParams exposes the patient :id from the parent mount path
+const router = Router({ mergeParams: true });
+const procedureController = new ProcedureController();
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures:
+ *   post:
+ *     summary: Create a procedure for a patient
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - description
+ *               - suggestedPort
+ *               - currentPort
+ *               - riskLevel
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "30602106"
+ *               description:
+ *                 type: string
+ *                 example: "Colecistectomia com colangiografia"
+ *               suggestedPort:
+ *                 type: integer
+ *                 example: 5
+ *               currentPort:
+ *                 type: integer
+ *                 example: 6
+ *               riskLevel:
+ *                 type: string
+ *                 enum: [low, medium, high, critical]
+ *               status:
+ *                 type: string
+ *                 enum: [scheduled, pending_approval]
+ *               scheduledDate:
+ *                 type: string
+ *                 format: date-time
+ *               estimatedDuration:
+ *                 type: integer
+ *                 description: Duration in minutes
+ *     responses:
+ *       201:
+ *         description: Procedure created successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Patient not found
+ */
+// Create procedure - requires admin, director, analyst, or doctor role
+router.post(
+  '/',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.DOCTOR]),
+  validateCreateProcedure,
+  procedureController.createProcedure
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures:
+ *   get:
+ *     summary: List procedures of a patient
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         description: Procedure code (prefix match)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, in_progress, completed, cancelled, pending_approval]
+ *       - in: query
+ *         name: riskLevel
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high, critical]
+ *       - in: query
+ *         name: scheduledDateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: scheduledDateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of procedures
+ *       404:
+ *         description: Patient not found
+ */
+// List procedures - all authenticated users can view
+router.get(
+  '/',
+  validateProcedureSearchFilters,
+  procedureController.searchProcedures
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures/{procedureId}:
+ *   get:
+ *     summary: Get a procedure by ID
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: procedureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Procedure ID
+ *     responses:
+ *       200:
+ *         description: Procedure found
+ *       404:
+ *         description: Patient or procedure not found
+ */
+// Get procedure by ID - all authenticated users can view
+router.get(
+  '/:procedureId',
+  procedureController.getProcedure
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures/{procedureId}:
+ *   put:
+ *     summary: Update a procedure
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: procedureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Procedure ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Procedure updated successfully
+ *       404:
+ *         description: Patient or procedure not found
+ *       409:
+ *         description: Procedure is completed or cancelled
+ */
+// Update procedure - requires admin, director, analyst, or doctor role
+router.put(
+  '/:procedureId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.ANALYST, UserRole.DOCTOR]),
+  validateUpdateProcedure,
+  procedureController.updateProcedure
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures/{procedureId}/status:
+ *   patch:
+ *     summary: Change the status of a procedure
+ *     description: |
+ *       Allowed transitions: scheduled → in_progress | pending_approval | cancelled,
+ *       pending_approval → scheduled | cancelled, in_progress → completed | cancelled.
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: procedureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Procedure ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [scheduled, in_progress, completed, cancelled, pending_approval]
+ *               completedDate:
+ *                 type: string
+ *                 format: date-time
+ *               actualDuration:
+ *                 type: integer
+ *               auditNotes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Procedure status updated successfully
+ *       409:
+ *         description: Invalid status transition
+ */
+// Change procedure status - requires admin, director, doctor, or auditor role
+router.patch(
+  '/:procedureId/status',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR, UserRole.DOCTOR, UserRole.AUDITOR]),
+  validateUpdateProcedureStatus,
+  procedureController.updateProcedureStatus
+);
+
+/**
+ * @swagger
+ * /api/v1/patients/{id}/procedures/{procedureId}:
+ *   delete:
+ *     summary: Delete a procedure (soft delete)
+ *     tags: [Procedures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient ID
+ *       - in: path
+ *         name: procedureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Procedure ID
+ *     responses:
+ *       200:
+ *         description: Procedure deleted successfully
+ *       404:
+ *         description: Patient or procedure not found
+ *       409:
+ *         description: Procedure is in progress
+ */
+// Delete procedure - requires admin or director role only
+router.delete(
+  '/:procedureId',
+  requireRole([UserRole.ADMIN, UserRole.DIRECTOR]),
+  procedureController.deleteProcedure
+);
+
+export default router;
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { ReadModelController } from '../controllers/read-model.controller';
+import { requireRole } from '../middleware/auth';
+import { validateStartReadModelRun } from '../validators/read-model.validator';
+import { UserRole } from '@/types';
+
+const router = Router();
+const readModelController = new ReadModelController();
+
+/**
+ * @swagger
+ * /api/v1/read-model/runs:
+ *   post:
+ *     summary: Rebuild or reconcile the patient read model
+ *     description: |
+ *       `rebuild` rewrites missing and divergent documents from PostgreSQL and soft deletes documents without a PostgreSQL row.
+ *       `reconcile` is a dry run that only reports missing, extra and divergent records.
+ *       The run executes in the background; poll it with GET /api/v1/read-model/runs/{runId}.
+ *     tags: [Read Model]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mode
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [rebuild, reconcile]
+ *               batchSize:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5000
+ *     responses:
+ *       202:
+ *         description: Run started
+ *       409:
+ *         description: Another run is in progress
+ */
+// Start run - requires admin role only
+router.post(
+  '/runs',
+  requireRole([UserRole.ADMIN]),
+  validateStartReadModelRun,
+  readModelController.startRun
+);
+
+/**
+ * @swagger
+ * /api/v1/read-model/runs:
+ *   get:
+ *     summary: List recent read model runs
+ *     tags: [Read Model]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Recent runs with progress and summary
+ */
+// List runs - requires admin role only
+router.get(
+  '/runs',
+  requireRole([UserRole.ADMIN]),
+  readModelController.listRuns
+);
+
+/**
+ * @swagger
+ * /api/v1/read-model/runs/{runId}:
+ *   get:
+ *     summary: Get read model run progress and report
+ *     tags: [Read Model]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Run progress and report
+ *       404:
+ *         description: Run not found
+ */
+// Get run - requires admin role only
+router.get(
+  '/runs/:runId',
+  requireRole([UserRole.ADMIN]),
+  readModelController.getRun
+);
+
+/**
+ * @swagger
+ * /api/v1/read-model/runs/{runId}/resume:
+ *   post:
+ *     summary: Resume a failed or interrupted read model run
+ *     tags: [Read Model]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Run resumed
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run already completed or still in progress
+ */
+// Resume run - requires admin role only
+router.post(
+  '/runs/:runId/resume',
+  requireRole([UserRole.ADMIN]),
+  readModelController.resumeRun
+);
+
+export default router;
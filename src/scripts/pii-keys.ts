@@ -0,0 +1,75 @@
+// Manage the encryption keys of patient personal data (PostgreSQL)
+//
+// Uso:
+//   npm run pii-keys -- generate-key <keyId>
+//   npm run pii-keys -- status
+//   npm run pii-keys -- rotate [--batch-size=200]
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { generateEncryptionKey } from '../config/encryption';
+import { PiiEncryptionService } from '../services/pii-encryption.service';
+import { PiiKeyRotationResult } from '@/types';
+
+const USAGE = `Usage:
+  npm run pii-keys -- generate-key <keyId>
+  npm run pii-keys -- status
+  npm run pii-keys -- rotate [--batch-size=N]`;
+
+const printProgress = (result: PiiKeyRotationResult): void => {
+  process.stdout.write(`[${result.activeKeyId}] scanned=${result.scanned} rewritten=${result.rewritten} auditLogsScanned=${result.auditLogsScanned} auditLogsRewritten=${result.auditLogsRewritten}\n`);
+};
+
+const parseBatchSize = (args: string[]): number | undefined => {
+  const option = args.find(arg => arg.startsWith('--batch-size='));
+  if (!option) {
+    return undefined;
+  }
+
+  const batchSize = parseInt(option.split('=')[1], 10);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+  return batchSize;
+};
+
+const main = async (): Promise<number> => {
+  const [command, ...args] = process.argv.slice(2);
+  const piiEncryptionService = new PiiEncryptionService();
+
+  switch (command) {
+    case 'generate-key':
+      if (!args[0] || args[0].includes(':') || args[0].includes(',')) {
+        process.stderr.write(`${USAGE}\n`);
+        return 1;
+      }
+      process.stdout.write(`${generateEncryptionKey(args[0])}\n`);
+      return 0;
+    case 'status': {
+      await prisma.$connect();
+      const status = await piiEncryptionService.getStatus();
+      process.stdout.write(`${JSON.stringify(status, null, 2)}\n`);
+      return 0;
+    }
+    case 'rotate': {
+      await prisma.$connect();
+      const result = await piiEncryptionService.rotateKeys(parseBatchSize(args), printProgress);
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+      process.stdout.write('Run `npm run read-model -- rebuild` before removing retired keys\n');
+      return 0;
+    }
+    default:
+      process.stderr.write(`${USAGE}\n`);
+      return 1;
+  }
+};
+
+main()
+  .then(async (exitCode) => {
+    await prisma.$disconnect();
+    process.exit(exitCode);
+  })
+  .catch(async (error) => {
+    logger.error('PII key command failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
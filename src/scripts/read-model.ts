@@ -0,0 +1,103 @@
+// Rebuild or reconcile the patient read model (MongoDB/Cosmos DB) from PostgreSQL
+//
+// Uso:
+//   npm run read-model -- rebuild [--batch-size=500]
+//   npm run read-model -- reconcile [--batch-size=500]
+//   npm run read-model -- resume <runId>
+//   npm run read-model -- status <runId>
+import mongoose from 'mongoose';
+import { prisma, connectDatabases } from '../config/database';
+import { logger } from '../config/logger';
+import { ReadModelService } from '../services/read-model.service';
+import { ReadModelRun, ReadModelRunMode } from '@/types';
+
+const USAGE = `Usage:
+  npm run read-model -- rebuild [--batch-size=N]
+  npm run read-model -- reconcile [--batch-size=N]
+  npm run read-model -- resume <runId>
+  npm run read-model -- status <runId>`;
+
+const printProgress = (run: ReadModelRun): void => {
+  process.stdout.write(
+    `[${run.phase}] ${run.processed}/${run.total} (${run.progress}%) ` +
+    `missing=${run.summary.missing} extra=${run.summary.extra} ` +
+    `divergent=${run.summary.divergent} repaired=${run.summary.repaired}\n`
+  );
+};
+
+const parseBatchSize = (args: string[]): number | undefined => {
+  const option = args.find(arg => arg.startsWith('--batch-size='));
+  if (!option) {
+    return undefined;
+  }
+
+  const batchSize = parseInt(option.split('=')[1], 10);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+  return batchSize;
+};
+
+const main = async (): Promise<number> => {
+  const [command, ...args] = process.argv.slice(2);
+  const readModelService = new ReadModelService();
+
+  let runId: string;
+  switch (command) {
+    case ReadModelRunMode.REBUILD:
+    case ReadModelRunMode.RECONCILE: {
+      await connectDatabases();
+      const started = await readModelService.startRun(
+        { mode: command, batchSize: parseBatchSize(args) },
+        process.env.USER || 'cli'
+      );
+      runId = started.data!.id;
+      process.stdout.write(`Run ${runId} started (${command})\n`);
+      break;
+    }
+    case 'resume':
+      if (!args[0]) {
+        process.stderr.write(`${USAGE}\n`);
+        return 1;
+      }
+      await connectDatabases();
+      runId = (await readModelService.resumeRun(args[0])).data!.id;
+      process.stdout.write(`Run ${runId} resumed\n`);
+      break;
+    case 'status': {
+      if (!args[0]) {
+        process.stderr.write(`${USAGE}\n`);
+        return 1;
+      }
+      await connectDatabases();
+      const result = await readModelService.getRun(args[0]);
+      process.stdout.write(`${JSON.stringify(result.data, null, 2)}\n`);
+      return 0;
+    }
+    default:
+      process.stderr.write(`${USAGE}\n`);
+      return 1;
+  }
+
+  try {
+    const run = await readModelService.execute(runId, printProgress);
+    process.stdout.write(`${JSON.stringify(run, null, 2)}\n`);
+    return 0;
+  } catch (error) {
+    process.stderr.write(`Run ${runId} failed; resume it with: npm run read-model -- resume ${runId}\n`);
+    throw error;
+  }
+};
+
+main()
+  .then(async (exitCode) => {
+    await prisma.$disconnect();
+    await mongoose.disconnect();
+    process.exit(exitCode);
+  })
+  .catch(async (error) => {
+    logger.error('Read model command failed:', error);
+    await prisma.$disconnect();
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+import { AuditRepository } from '../repositories/audit.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { logger } from '../config/logger';
+import {
+  AuditContext,
+  AuditLogEntry,
+  RecordAuditRequest,
+  AuditTrailFilters,
+  PaginationParams,
+  PaginatedResponse,
+  ApiResponse
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+export class AuditService {
+  private auditRepository: AuditRepository;
+  private patientRepository: PatientRepository;
+
+  constructor() {
+    this.auditRepository = new AuditRepository();
+    this.patientRepository = new PatientRepository();
+  }
+
+  // Records an audit row. Called after the audited operation has committed, so a
+  // failure here must not turn a successful request into an error; the full entry
+  // is logged instead so it can be recovered.
+  async record(entry: RecordAuditRequest, context: AuditContext): Promise<void> {
+    try {
+      await this.auditRepository.create(entry, context);
+    } catch (error) {
+      logger.error('Failed to persist audit log:', {
+        error,
+        entry: { ...entry, oldData: undefined, newData: undefined },
+        userId: context.userId
+      });
+    }
+  }
+
+  async getAuditTrail(
+    patientId: string,
+    filters: AuditTrailFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<AuditLogEntry>>> {
+    try {
+      const result = await this.auditRepository.findByPatient(patientId, filters, pagination);
+
+      // Deleted patients still have a trail, so only 404 when nothing was ever recorded
+      if (result.pagination.total === 0 && !(await this.patientRepository.exists(patientId))) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get audit trail:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get audit trail', 500);
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { BillingRepository } from '../repositories/billing.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { logger } from '../config/logger';
+import {
+  BillingItem,
+  CreateBillingItemRequest,
+  ApproveBillingItemRequest,
+  RejectBillingItemRequest,
+  BillingItemSearchFilters,
+  BillingStatus,
+  CoverageType,
+  PaginationParams,
+  PaginatedResponse,
+  ApiResponse
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+export class BillingService {
+  private billingRepository: BillingRepository;
+  private patientRepository: PatientRepository;
+
+  constructor() {
+    this.billingRepository = new BillingRepository();
+    this.patientRepository = new PatientRepository();
+  }
+
+  async createBillingItem(
+    patientId: string,
+    data: CreateBillingItemRequest,
+    requester: { id: string; name: string }
+  ): Promise<ApiResponse<BillingItem>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      if (data.procedureId) {
+        const belongs = await this.billingRepository.procedureBelongsToPatient(patientId, data.procedureId);
+        if (!belongs) {
+          throw new AppError('Procedure not found for this patient', 404);
+        }
+      }
+
+      const item = await this.billingRepository.create(patientId, data, requester);
+
+      logger.info('Billing item created:', {
+        billingItemId: item.id,
+        patientId,
+        userId: requester.id,
+        totalPrice: item.totalPrice
+      });
+
+      return {
+        success: true,
+        data: item,
+        message: 'Billing item created successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to create billing item:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to create billing item', 500);
+    }
+  }
+
+  async approveBillingItem(
+    patientId: string,
+    id: string,
+    data: ApproveBillingItemRequest,
+    userId: string
+  ): Promise<ApiResponse<BillingItem>> {
+    try {
+      const existingItem = await this.getExistingItem(patientId, id);
+
+      if (existingItem.status !== BillingStatus.PENDING) {
+        throw new AppError(`Cannot approve a ${existingItem.status} billing item`, 409);
+      }
+
+      // Blocked coverage may only be billed with an explicit auditor justification
+      const justification = data.justification?.trim();
+      if (existingItem.coverageType === CoverageType.BLOCKED && !justification) {
+        throw new AppError('Justification is required to approve an item with blocked coverage', 400);
+      }
+
+      const item = await this.billingRepository.updateStatus(id, BillingStatus.APPROVED, {
+        validationStatus: 'approved',
+        ...(justification && { auditNotes: justification })
+      });
+
+      logger.info('Billing item approved:', {
+        billingItemId: id,
+        patientId,
+        userId,
+        coverageType: item.coverageType
+      });
+
+      return {
+        success: true,
+        data: item,
+        message: 'Billing item approved successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to approve billing item:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to approve billing item', 500);
+    }
+  }
+
+  async rejectBillingItem(
+    patientId: string,
+    id: string,
+    data: RejectBillingItemRequest,
+    userId: string
+  ): Promise<ApiResponse<BillingItem>> {
+    try {
+      const existingItem = await this.getExistingItem(patientId, id);
+
+      if (existingItem.status !== BillingStatus.PENDING) {
+        throw new AppError(`Cannot reject a ${existingItem.status} billing item`, 409);
+      }
+
+      const item = await this.billingRepository.updateStatus(id, BillingStatus.REJECTED, {
+        validationStatus: 'rejected',
+        rejectionReason: data.reason
+      });
+
+      logger.info('Billing item rejected:', { billingItemId: id, patientId, userId });
+
+      return {
+        success: true,
+        data: item,
+        message: 'Billing item rejected successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to reject billing item:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to reject billing item', 500);
+    }
+  }
+
+  async markBillingItemBilled(patientId: string, id: string, userId: string): Promise<ApiResponse<BillingItem>> {
+    try {
+      const existingItem = await this.getExistingItem(patientId, id);
+
+      if (existingItem.status !== BillingStatus.APPROVED) {
+        throw new AppError('Only approved billing items can be billed', 409);
+      }
+
+      const item = await this.billingRepository.updateStatus(id, BillingStatus.BILLED, {});
+
+      logger.info('Billing item billed:', { billingItemId: id, patientId, userId });
+
+      return {
+        success: true,
+        data: item,
+        message: 'Billing item marked as billed',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to bill billing item:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to bill billing item', 500);
+    }
+  }
+
+  async getBillingItemById(patientId: string, id: string): Promise<ApiResponse<BillingItem>> {
+    try {
+      const item = await this.getExistingItem(patientId, id);
+
+      return {
+        success: true,
+        data: item,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get billing item:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get billing item', 500);
+    }
+  }
+
+  async searchBillingItems(
+    patientId: string,
+    filters: BillingItemSearchFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<BillingItem> & { totalAmount: string }>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const result = await this.billingRepository.findMany(patientId, filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to search billing items:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to search billing items', 500);
+    }
+  }
+
+  // PRIVATE VALIDATION METHODS
+  private async ensurePatientExists(patientId: string): Promise<void> {
+    const exists = await this.patientRepository.exists(patientId);
+    if (!exists) {
+      throw new AppError('Patient not found', 404);
+    }
+  }
+
+  private async getExistingItem(patientId: string, id: string): Promise<BillingItem> {
+    await this.ensurePatientExists(patientId);
+
+    const item = await this.billingRepository.findById(patientId, id);
+    if (!item) {
+      throw new AppError('Billing item not found', 404);
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,256 @@
+import { ConsentRepository } from '../repositories/consent.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { AuditService } from './audit.service';
+import { patientConsentChangedEvent } from '../events/patient.events';
+import { CONSENT_PURPOSE_DEFAULTS, dependsOnConsent } from '../config/consent-policy';
+import { logger } from '../config/logger';
+import {
+  ApiResponse,
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+  ConsentDecision,
+  ConsentHistoryFilters,
+  ConsentLegalBasis,
+  ConsentPurpose,
+  ConsentStatus,
+  GrantConsentRequest,
+  Patient,
+  PatientConsent,
+  PatientConsentSummary,
+  RevokeConsentRequest
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+// Consents of the patient per processing purpose (see consent-policy.ts for the defaults). Besides
+// the endpoints, other modules use the guard methods (evaluate, isAllowed, assertAllowed) before
+// processing patient data for a purpose, e.g. the outbox dispatcher before delivering analytics events.
+export class ConsentService {
+  private consentRepository: ConsentRepository;
+  private patientRepository: PatientRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.consentRepository = new ConsentRepository();
+    this.patientRepository = new PatientRepository();
+    this.auditService = new AuditService();
+  }
+
+  async getConsents(patientId: string): Promise<ApiResponse<PatientConsentSummary>> {
+    try {
+      await this.getStoredPatient(patientId);
+
+      const current = await this.consentRepository.findCurrent(patientId);
+      const consents = Object.values(ConsentPurpose).map(purpose =>
+        this.decide(purpose, current.find(consent => consent.purpose === purpose) || null)
+      );
+
+      return {
+        success: true,
+        data: { patientId, consents },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get patient consents:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get patient consents', 500);
+    }
+  }
+
+  async getConsentHistory(patientId: string, filters: ConsentHistoryFilters): Promise<ApiResponse<PatientConsent[]>> {
+    try {
+      await this.getStoredPatient(patientId);
+
+      const history = await this.consentRepository.findHistory(patientId, filters);
+
+      return {
+        success: true,
+        data: history,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get patient consent history:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get patient consent history', 500);
+    }
+  }
+
+  // Granting again with other terms or another legal basis records a new version
+  async grantConsent(
+    patientId: string,
+    purpose: ConsentPurpose,
+    data: GrantConsentRequest,
+    context: AuditContext
+  ): Promise<ApiResponse<PatientConsent>> {
+    try {
+      const patient = await this.getStoredPatient(patientId);
+      if (patient.anonymizedAt) {
+        throw new AppError('Consents of anonymized patients cannot be changed', 409);
+      }
+
+      const legalBasis = data.legalBasis || ConsentLegalBasis.CONSENT;
+      const latest = await this.consentRepository.findLatest(patientId, purpose);
+      if (
+        latest?.status === ConsentStatus.GRANTED &&
+        latest.legalBasis === legalBasis &&
+        latest.termsVersion === data.termsVersion
+      ) {
+        throw new AppError('Consent is already granted', 409);
+      }
+
+      const consent = await this.consentRepository.record({
+        patientId,
+        purpose,
+        status: ConsentStatus.GRANTED,
+        legalBasis,
+        termsVersion: data.termsVersion,
+        grantedAt: new Date(),
+        recordedBy: context.userId,
+        recordedByName: context.userName,
+        notes: data.notes
+      }, recorded => [patientConsentChangedEvent(recorded)]);
+
+      await this.recordAudit(consent, context);
+
+      return {
+        success: true,
+        data: consent,
+        message: 'Consent granted successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to grant patient consent:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to grant patient consent', 500);
+    }
+  }
+
+  async revokeConsent(
+    patientId: string,
+    purpose: ConsentPurpose,
+    data: RevokeConsentRequest,
+    context: AuditContext
+  ): Promise<ApiResponse<PatientConsent>> {
+    try {
+      await this.getStoredPatient(patientId);
+
+      const latest = await this.consentRepository.findLatest(patientId, purpose);
+      if (latest?.status !== ConsentStatus.GRANTED) {
+        throw new AppError('Consent is not granted', 409);
+      }
+
+      const consent = await this.consentRepository.record({
+        patientId,
+        purpose,
+        status: ConsentStatus.REVOKED,
+        legalBasis: latest.legalBasis,
+        termsVersion: latest.termsVersion,
+        grantedAt: latest.grantedAt,
+        revokedAt: new Date(),
+        recordedBy: context.userId,
+        recordedByName: context.userName,
+        notes: data.notes
+      }, recorded => [patientConsentChangedEvent(recorded)]);
+
+      await this.recordAudit(consent, context);
+
+      return {
+        success: true,
+        data: consent,
+        message: 'Consent revoked successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to revoke patient consent:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to revoke patient consent', 500);
+    }
+  }
+
+  // GUARD
+  async evaluate(patientId: string, purpose: ConsentPurpose): Promise<ConsentDecision> {
+    return this.decide(purpose, await this.consentRepository.findLatest(patientId, purpose));
+  }
+
+  async isAllowed(patientId: string, purpose: ConsentPurpose): Promise<boolean> {
+    return (await this.evaluate(patientId, purpose)).allowed;
+  }
+
+  // For request handlers: fails with 403 when the purpose is not allowed
+  async assertAllowed(patientId: string, purpose: ConsentPurpose): Promise<void> {
+    if (!(await this.isAllowed(patientId, purpose))) {
+      throw new AppError(`Patient has not consented to ${purpose}`, 403);
+    }
+  }
+
+  // PRIVATE METHODS
+  private decide(purpose: ConsentPurpose, latest: PatientConsent | null): ConsentDecision {
+    const defaultDecision: ConsentDecision = {
+      purpose,
+      allowed: !dependsOnConsent(purpose),
+      legalBasis: CONSENT_PURPOSE_DEFAULTS[purpose],
+      source: 'default'
+    };
+
+    if (!latest) {
+      return defaultDecision;
+    }
+
+    const recorded = {
+      status: latest.status,
+      consentVersion: latest.version,
+      termsVersion: latest.termsVersion,
+      grantedAt: latest.grantedAt,
+      revokedAt: latest.revokedAt
+    };
+
+    if (latest.status === ConsentStatus.GRANTED) {
+      return { purpose, allowed: true, legalBasis: latest.legalBasis, source: 'record', ...recorded };
+    }
+
+    // Revoked: only the default legal basis of the purpose is left
+    return { ...defaultDecision, source: 'record', ...recorded };
+  }
+
+  private async getStoredPatient(patientId: string): Promise<Patient> {
+    const patient = await this.patientRepository.findStoredById(patientId);
+    if (!patient) {
+      throw new AppError('Patient not found', 404);
+    }
+    return patient;
+  }
+
+  private async recordAudit(consent: PatientConsent, context: AuditContext): Promise<void> {
+    await this.auditService.record({
+      entityType: AuditEntityType.PATIENT,
+      entityId: consent.patientId,
+      action: AuditAction.UPDATE,
+      description: `Consent for ${consent.purpose} ${consent.status}`,
+      metadata: {
+        consentId: consent.id,
+        purpose: consent.purpose,
+        status: consent.status,
+        legalBasis: consent.legalBasis,
+        consentVersion: consent.version,
+        termsVersion: consent.termsVersion
+      },
+      patientId: consent.patientId
+    }, context);
+  }
+}
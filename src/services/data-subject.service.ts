@@ -0,0 +1,326 @@
+import { DataSubjectRequestRepository } from '../repositories/data-subject-request.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { ProcedureRepository } from '../repositories/procedure.repository';
+import { BillingRepository } from '../repositories/billing.repository';
+import { DocumentRepository } from '../repositories/document.repository';
+import { AuditRepository } from '../repositories/audit.repository';
+import { ConsentRepository } from '../repositories/consent.repository';
+import { AuditService } from './audit.service';
+import { patientAnonymizedEvent } from '../events/patient.events';
+import { createZip } from '../config/zip';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import {
+  ApiResponse,
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+  CreateDataSubjectRequest,
+  DataSubjectRequest,
+  DataSubjectRequestFilters,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  PaginatedResponse,
+  PaginationParams,
+  Patient,
+  PatientAnonymizationResult,
+  PatientDataExport,
+  PatientDataExportFormat
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+// Data subject requests (LGPD art. 18): access is fulfilled with an export of everything held
+// about the patient, erasure with an anonymization that keeps the clinical, billing and audit
+// rows the retention rules require. Requests can be registered first (the deadline starts when
+// they are received) or opened and fulfilled in one call.
+export class DataSubjectService {
+  private requestRepository: DataSubjectRequestRepository;
+  private patientRepository: PatientRepository;
+  private procedureRepository: ProcedureRepository;
+  private billingRepository: BillingRepository;
+  private documentRepository: DocumentRepository;
+  private auditRepository: AuditRepository;
+  private consentRepository: ConsentRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.requestRepository = new DataSubjectRequestRepository();
+    this.patientRepository = new PatientRepository();
+    this.procedureRepository = new ProcedureRepository();
+    this.billingRepository = new BillingRepository();
+    this.documentRepository = new DocumentRepository();
+    this.auditRepository = new AuditRepository();
+    this.consentRepository = new ConsentRepository();
+    this.auditService = new AuditService();
+  }
+
+  async createRequest(data: CreateDataSubjectRequest, context: AuditContext): Promise<ApiResponse<DataSubjectRequest>> {
+    try {
+      await this.getStoredPatient(data.patientId);
+
+      const request = await this.openRequest(data.patientId, data.type, context, undefined, data.notes);
+
+      return {
+        success: true,
+        data: request,
+        message: 'Data subject request registered successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to register data subject request:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to register data subject request', 500);
+    }
+  }
+
+  async listRequests(
+    filters: DataSubjectRequestFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<DataSubjectRequest>>> {
+    try {
+      const result = await this.requestRepository.findMany(filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to list data subject requests:', error);
+      throw new AppError('Failed to list data subject requests', 500);
+    }
+  }
+
+  async getRequest(id: string): Promise<ApiResponse<DataSubjectRequest>> {
+    try {
+      const request = await this.requestRepository.findById(id);
+      if (!request) {
+        throw new AppError('Data subject request not found', 404);
+      }
+
+      return {
+        success: true,
+        data: request,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get data subject request:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get data subject request', 500);
+    }
+  }
+
+  // Access request: patient row, procedures, billing items, document metadata, consent history and audit trail,
+  // as one JSON file or a ZIP with one JSON file per section
+  async exportPatientData(
+    patientId: string,
+    format: PatientDataExportFormat,
+    context: AuditContext,
+    requestId?: string
+  ): Promise<{ request: DataSubjectRequest; filename: string; mimeType: string; content: Buffer }> {
+    try {
+      const patient = await this.getStoredPatient(patientId);
+      const request = await this.openRequest(patientId, DataSubjectRequestType.ACCESS, context, requestId);
+
+      try {
+        const [procedures, billingItems, documents, consents, auditLogs] = await Promise.all([
+          this.procedureRepository.findAllByPatient(patientId),
+          this.billingRepository.findAllByPatient(patientId),
+          this.documentRepository.findAllByPatient(patientId),
+          this.consentRepository.findHistory(patientId),
+          this.auditRepository.findAllByPatient(patientId)
+        ]);
+
+        const bundle: PatientDataExport = {
+          requestId: request.id,
+          generatedAt: new Date().toISOString(),
+          patient,
+          procedures,
+          billingItems,
+          documents,
+          consents,
+          auditLogs
+        };
+        const counts = {
+          procedures: procedures.length,
+          billingItems: billingItems.length,
+          documents: documents.length,
+          consents: consents.length,
+          auditLogs: auditLogs.length
+        };
+
+        const content = format === 'zip'
+          ? createZip([
+            { name: 'manifest.json', content: this.toJson({ requestId: request.id, patientId, generatedAt: bundle.generatedAt, counts }) },
+            { name: 'patient.json', content: this.toJson(patient) },
+            { name: 'procedures.json', content: this.toJson(procedures) },
+            { name: 'billing-items.json', content: this.toJson(billingItems) },
+            { name: 'documents.json', content: this.toJson(documents) },
+            { name: 'consents.json', content: this.toJson(consents) },
+            { name: 'audit-logs.json', content: this.toJson(auditLogs) }
+          ])
+          : Buffer.from(this.toJson(bundle), 'utf8');
+
+        const completed = await this.requestRepository.markCompleted(request.id, context.userId, { format, ...counts });
+
+        await this.auditService.record({
+          entityType: AuditEntityType.PATIENT,
+          entityId: patientId,
+          action: AuditAction.VIEW,
+          description: 'Patient data exported for a data subject access request',
+          metadata: { requestId: request.id, format },
+          patientId
+        }, context);
+
+        logger.info('Patient data exported:', { patientId, requestId: request.id, format, userId: context.userId });
+
+        return {
+          request: completed,
+          filename: `patient-${patientId}-data.${format}`,
+          mimeType: format === 'zip' ? 'application/zip' : 'application/json',
+          content
+        };
+      } catch (error) {
+        await this.requestRepository.markFailed(request.id, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Failed to export patient data:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to export patient data', 500);
+    }
+  }
+
+  // Erasure request: the patient is anonymized in PostgreSQL, the read model and the cache (via
+  // the projector) and a PatientAnonymized event asks the other services to drop their copies
+  async anonymizePatient(
+    patientId: string,
+    context: AuditContext,
+    requestId?: string,
+    notes?: string
+  ): Promise<ApiResponse<DataSubjectRequest>> {
+    try {
+      const patient = await this.getStoredPatient(patientId);
+      if (patient.anonymizedAt) {
+        throw new AppError('Patient is already anonymized', 409);
+      }
+
+      const request = await this.openRequest(patientId, DataSubjectRequestType.ERASURE, context, requestId, notes);
+
+      let result: PatientAnonymizationResult;
+      try {
+        const { patient: anonymized, auditLogsRedacted } = await this.patientRepository.anonymize(patientId, updated => [
+          patientAnonymizedEvent(updated)
+        ]);
+
+        result = {
+          patientId,
+          anonymizedAt: anonymized.anonymizedAt!.toISOString(),
+          auditLogsRedacted,
+          retained: await this.requestRepository.countRetainedRecords(patientId)
+        };
+      } catch (error) {
+        await this.requestRepository.markFailed(request.id, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+
+      const completed = await this.requestRepository.markCompleted(request.id, context.userId, result);
+
+      // Recorded after the redaction, without patient data
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: patientId,
+        action: AuditAction.UPDATE,
+        description: 'Patient anonymized for a data subject erasure request',
+        metadata: { requestId: request.id, auditLogsRedacted: result.auditLogsRedacted },
+        patientId
+      }, context);
+
+      logger.info('Patient anonymized:', { patientId, requestId: request.id, userId: context.userId });
+
+      return {
+        success: true,
+        data: completed,
+        message: 'Patient anonymized successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to anonymize patient:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to anonymize patient', 500);
+    }
+  }
+
+  // PRIVATE METHODS
+  // Deleted patients are still data subjects: their rows are kept until anonymized
+  private async getStoredPatient(patientId: string): Promise<Patient> {
+    const patient = await this.patientRepository.findStoredById(patientId, { includeDeleted: true });
+    if (!patient) {
+      throw new AppError('Patient not found', 404);
+    }
+    return patient;
+  }
+
+  // Returns the registered request being fulfilled, or registers a new one
+  private async openRequest(
+    patientId: string,
+    type: DataSubjectRequestType,
+    context: AuditContext,
+    requestId?: string,
+    notes?: string
+  ): Promise<DataSubjectRequest> {
+    if (requestId) {
+      const request = await this.requestRepository.findById(requestId);
+      if (!request) {
+        throw new AppError('Data subject request not found', 404);
+      }
+      if (request.patientId !== patientId || request.type !== type) {
+        throw new AppError(`Data subject request is not a ${type} request of this patient`, 409);
+      }
+      if (request.status === DataSubjectRequestStatus.COMPLETED) {
+        throw new AppError('Data subject request is already completed', 409);
+      }
+      return request;
+    }
+
+    const request = await this.requestRepository.create({
+      patientId,
+      type,
+      requestedBy: context.userId,
+      requestedByName: context.userName,
+      notes,
+      dueAt: new Date(Date.now() + config.dataSubjectRequests.responseDeadlineDays * 24 * 60 * 60 * 1000)
+    });
+
+    await this.auditService.record({
+      entityType: AuditEntityType.PATIENT,
+      entityId: patientId,
+      action: AuditAction.CREATE,
+      description: `Data subject ${type} request registered`,
+      metadata: { requestId: request.id, type, dueAt: request.dueAt.toISOString() },
+      patientId
+    }, context);
+
+    return request;
+  }
+
+  private toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+  }
+}
@@ -0,0 +1,268 @@
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentRepository } from '../repositories/document.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { AuditService } from './audit.service';
+import { storageProvider } from '../config/storage';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import {
+  DocumentMetadata,
+  UploadDocumentRequest,
+  UploadedFile,
+  DocumentSearchFilters,
+  PaginationParams,
+  PaginatedResponse,
+  ApiResponse,
+  AuditContext,
+  AuditAction,
+  AuditEntityType
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+// File signatures used to confirm the declared MIME type
+const FILE_SIGNATURES: Record<string, number[][]> = {
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]]
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'text/plain': '.txt'
+};
+
+export class DocumentService {
+  private documentRepository: DocumentRepository;
+  private patientRepository: PatientRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.documentRepository = new DocumentRepository();
+    this.patientRepository = new PatientRepository();
+    this.auditService = new AuditService();
+  }
+
+  async uploadDocument(
+    patientId: string,
+    file: UploadedFile,
+    data: UploadDocumentRequest,
+    context: AuditContext
+  ): Promise<ApiResponse<DocumentMetadata>> {
+    try {
+      await this.ensurePatientExists(patientId);
+      this.validateFile(file);
+
+      const filename = `${uuidv4()}${FILE_EXTENSIONS[file.mimeType] || ''}`;
+      const stored = await storageProvider.upload(`${patientId}/${filename}`, file.buffer, file.mimeType);
+
+      const document = await this.documentRepository.create(patientId, {
+        filename,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+        category: data.category,
+        description: data.description,
+        uploadedBy: context.userId,
+        uploadedByName: context.userName
+      }, stored);
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: patientId,
+        action: AuditAction.UPDATE,
+        description: 'Document uploaded',
+        newData: document,
+        metadata: { documentId: document.id, storage: storageProvider.name },
+        patientId
+      }, context);
+
+      logger.info('Document uploaded:', {
+        documentId: document.id,
+        patientId,
+        userId: context.userId,
+        size: document.size
+      });
+
+      return {
+        success: true,
+        data: document,
+        message: 'Document uploaded successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to upload document:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to upload document', 500);
+    }
+  }
+
+  async searchDocuments(
+    patientId: string,
+    filters: DocumentSearchFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<DocumentMetadata>>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const result = await this.documentRepository.findMany(patientId, filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to search documents:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to search documents', 500);
+    }
+  }
+
+  async getDocumentById(patientId: string, id: string): Promise<ApiResponse<DocumentMetadata>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const document = await this.documentRepository.findById(patientId, id);
+      if (!document) {
+        throw new AppError('Document not found', 404);
+      }
+
+      return {
+        success: true,
+        data: document,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get document:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get document', 500);
+    }
+  }
+
+  async downloadDocument(
+    patientId: string,
+    id: string,
+    context: AuditContext
+  ): Promise<{ document: DocumentMetadata; stream: Readable }> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const location = await this.documentRepository.findLocation(patientId, id);
+      if (!location) {
+        throw new AppError('Document not found', 404);
+      }
+
+      const stream = await storageProvider.download(location.containerName, location.blobName);
+      const { containerName, blobName, ...document } = location;
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: patientId,
+        action: AuditAction.VIEW,
+        description: 'Document downloaded',
+        metadata: { documentId: id },
+        patientId
+      }, context);
+
+      return { document, stream };
+    } catch (error) {
+      logger.error('Failed to download document:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to download document', 500);
+    }
+  }
+
+  async deleteDocument(patientId: string, id: string, context: AuditContext): Promise<ApiResponse<void>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const document = await this.documentRepository.findById(patientId, id);
+      if (!document) {
+        throw new AppError('Document not found', 404);
+      }
+
+      await this.documentRepository.delete(id);
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: patientId,
+        action: AuditAction.UPDATE,
+        description: 'Document deleted',
+        oldData: document,
+        metadata: { documentId: id },
+        patientId
+      }, context);
+
+      logger.info('Document deleted:', { documentId: id, patientId, userId: context.userId });
+
+      return {
+        success: true,
+        message: 'Document deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to delete document:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to delete document', 500);
+    }
+  }
+
+  // PRIVATE VALIDATION METHODS
+  private async ensurePatientExists(patientId: string): Promise<void> {
+    const exists = await this.patientRepository.exists(patientId);
+    if (!exists) {
+      throw new AppError('Patient not found', 404);
+    }
+  }
+
+  // The upload middleware already filters on the declared type and size; this re-checks
+  // them and confirms the content actually matches the declared type.
+  private validateFile(file: UploadedFile): void {
+    if (file.size === 0) {
+      throw new AppError('File is empty', 400);
+    }
+
+    if (file.size > config.upload.maxFileSize) {
+      throw new AppError(`File exceeds the maximum size of ${config.upload.maxFileSize} bytes`, 413);
+    }
+
+    if (!config.upload.allowedTypes.includes(file.mimeType)) {
+      throw new AppError(`File type ${file.mimeType} is not allowed`, 415);
+    }
+
+    const signatures = FILE_SIGNATURES[file.mimeType];
+    if (signatures) {
+      const matches = signatures.some(signature =>
+        signature.every((byte, index) => file.buffer[index] === byte)
+      );
+      if (!matches) {
+        throw new AppError(`File content does not match type ${file.mimeType}`, 415);
+      }
+    } else if (file.mimeType === 'text/plain' && file.buffer.includes(0x00)) {
+      throw new AppError('File content does not match type text/plain', 415);
+    }
+  }
+}
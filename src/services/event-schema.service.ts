@@ -0,0 +1,25 @@
+import { getEventSchemas } from '../events/patient-event.contracts';
+import { ApiResponse, EventSchemaDescriptor } from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+export class EventSchemaService {
+  listSchemas(): ApiResponse<EventSchemaDescriptor[]> {
+    return {
+      success: true,
+      data: getEventSchemas(),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  getSchema(eventType: string, eventVersion: number): EventSchemaDescriptor {
+    const descriptor = getEventSchemas().find(schema =>
+      schema.eventType === eventType && schema.eventVersion === eventVersion
+    );
+
+    if (!descriptor) {
+      throw new AppError('Event schema not found', 404);
+    }
+
+    return descriptor;
+  }
+}
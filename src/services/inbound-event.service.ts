@@ -0,0 +1,78 @@
+import { InboundEventRepository } from '../repositories/inbound-event.repository';
+import { inboundEventConsumer } from '../events/inbound-event-consumer';
+import { logger } from '../config/logger';
+import {
+  ApiResponse,
+  InboundEvent,
+  InboundEventFilters,
+  InboundEventStatus,
+  PaginationParams,
+  PaginatedResponse
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+export class InboundEventService {
+  private inboundEventRepository: InboundEventRepository;
+
+  constructor() {
+    this.inboundEventRepository = new InboundEventRepository();
+  }
+
+  async listEvents(
+    filters: InboundEventFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<InboundEvent>>> {
+    try {
+      const result = await this.inboundEventRepository.findMany(filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to list inbound events:', error);
+      throw new AppError('Failed to list inbound events', 500);
+    }
+  }
+
+  // Runs the handler of a dead-lettered event again (after the cause was fixed)
+  async replayEvent(id: string, userId: string): Promise<ApiResponse<InboundEvent>> {
+    try {
+      const event = await this.inboundEventRepository.findById(id);
+      if (!event) {
+        throw new AppError('Inbound event not found', 404);
+      }
+
+      if (event.status !== InboundEventStatus.DEAD_LETTERED) {
+        throw new AppError('Only dead-lettered events can be replayed', 409);
+      }
+
+      const result = await inboundEventConsumer.replay(event);
+      const processed = result.status === InboundEventStatus.PROCESSED;
+
+      logger.info('Inbound event replayed:', {
+        eventId: id,
+        messageId: event.messageId,
+        eventType: event.eventType,
+        status: result.status,
+        userId
+      });
+
+      return {
+        success: true,
+        data: result,
+        message: processed ? 'Inbound event processed successfully' : 'Inbound event failed again and is still dead-lettered',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to replay inbound event:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to replay inbound event', 500);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { outboxDispatcher } from '../events/outbox-dispatcher';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { ApiResponse, OutboxMessage, OutboxStatusSummary } from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+const STUCK_MESSAGES_LIMIT = 50;
+
+export class OutboxService {
+  private outboxRepository: OutboxRepository;
+
+  constructor() {
+    this.outboxRepository = new OutboxRepository();
+  }
+
+  async getStatus(): Promise<ApiResponse<OutboxStatusSummary>> {
+    try {
+      const pendingBefore = new Date(Date.now() - config.outbox.stuckThresholdMs);
+
+      const [counts, oldestPending, stuck] = await Promise.all([
+        this.outboxRepository.countByStatus(),
+        this.outboxRepository.findOldestPending(),
+        this.outboxRepository.findStuck(pendingBefore, STUCK_MESSAGES_LIMIT)
+      ]);
+
+      return {
+        success: true,
+        data: {
+          counts,
+          oldestPendingAt: oldestPending?.createdAt,
+          dispatcher: outboxDispatcher.getState(),
+          stuck
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get outbox status:', error);
+      throw new AppError('Failed to get outbox status', 500);
+    }
+  }
+
+  // Puts a FAILED message back in the queue; later messages of the same patient follow it
+  async retryMessage(id: string, userId: string): Promise<ApiResponse<OutboxMessage>> {
+    try {
+      const message = await this.outboxRepository.retry(id);
+      if (!message) {
+        throw new AppError('Failed outbox message not found', 404);
+      }
+
+      logger.info('Outbox message requeued:', { messageId: id, eventType: message.eventType, userId });
+
+      return {
+        success: true,
+        data: message,
+        message: 'Outbox message requeued successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to retry outbox message:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to retry outbox message', 500);
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { PatientImportRepository } from '../repositories/patient-import.repository';
+import { PatientImportDocument } from '../models/patient-import.model';
+import { PatientService } from './patient.service';
+import { createPatientSchema } from '../validators/patient.validator';
+import { detectSpreadsheetFormat, readSpreadsheet } from '../config/spreadsheet';
+import { mapImportColumns, PatientImportColumns, toPatientImportData } from '../config/patient-import';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import {
+  ApiResponse,
+  AuditContext,
+  CreatePatientRequest,
+  PatientImport,
+  PatientImportMode,
+  PatientImportStatus,
+  StartPatientImportRequest,
+  UploadedFile
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+// A "running" import not updated for this long was interrupted (its rows only live in memory)
+const IMPORT_STALE_AFTER_MS = 5 * 60 * 1000;
+const RECENT_IMPORTS_LIMIT = 20;
+
+interface PendingImport {
+  columns: PatientImportColumns;
+  rows: Array<{ row: number; cells: string[] }>;
+}
+
+// Rows of the imports created in this process, until they are processed. They are not stored,
+// so an import interrupted by a restart is not resumed: the file must be submitted again.
+const pendingImports = new Map<string, PendingImport>();
+// Imports executing in this process
+const activeImports = new Set<string>();
+
+// Bulk patient import from a CSV or XLSX file. Every row goes through the same schema and
+// business rules as POST /patients; a dry run only reports what would fail, a commit creates
+// the valid rows (each in its own transaction, with the usual event and audit entry) and
+// reports the others. Rows are independent: one failing row does not stop the rest.
+export class PatientImportService {
+  private importRepository: PatientImportRepository;
+  private patientService: PatientService;
+
+  constructor() {
+    this.importRepository = new PatientImportRepository();
+    this.patientService = new PatientService();
+  }
+
+  // Reads the file and creates the import; the caller processes the rows with runInBackground()
+  async startImport(
+    file: UploadedFile,
+    request: StartPatientImportRequest,
+    startedBy: string
+  ): Promise<ApiResponse<PatientImport>> {
+    try {
+      const format = detectSpreadsheetFormat(file.originalName, file.mimeType);
+      if (!format) {
+        throw new AppError('Import file must be a CSV or XLSX spreadsheet', 415);
+      }
+
+      let sheet: string[][];
+      try {
+        sheet = readSpreadsheet(file.buffer, format);
+      } catch (error) {
+        throw new AppError(`Import file could not be read: ${error instanceof Error ? error.message : String(error)}`, 400);
+      }
+
+      const [header = [], ...body] = sheet;
+      const columns = mapImportColumns(header);
+      if (columns.missing.length > 0) {
+        throw new AppError(`Import file is missing the required columns: ${columns.missing.join(', ')}`, 400);
+      }
+      if (columns.duplicated.length > 0) {
+        throw new AppError(`Import file has more than one column for: ${columns.duplicated.join(', ')}`, 400);
+      }
+
+      const rows = body
+        .map((cells, index) => ({ row: index + 2, cells }))
+        .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+      if (rows.length === 0) {
+        throw new AppError('Import file has no data rows', 400);
+      }
+      if (rows.length > config.patientImport.maxRows) {
+        throw new AppError(`Import file has ${rows.length} rows; the maximum is ${config.patientImport.maxRows}`, 400);
+      }
+
+      const job = await this.importRepository.create({
+        mode: request.mode || PatientImportMode.DRY_RUN,
+        filename: file.originalName,
+        format,
+        total: rows.length,
+        startedBy
+      });
+      pendingImports.set(job.id, { columns, rows });
+
+      logger.info('Patient import created:', { importId: job.id, mode: job.mode, rows: rows.length, startedBy });
+
+      return {
+        success: true,
+        data: this.mapImport(job),
+        message: `Patient import (${job.mode}) started`,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to start patient import:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to start patient import', 500);
+    }
+  }
+
+  async getImport(id: string): Promise<ApiResponse<PatientImport>> {
+    try {
+      const job = await this.importRepository.findById(id);
+      if (!job) {
+        throw new AppError('Patient import not found', 404);
+      }
+
+      if (job.status === PatientImportStatus.RUNNING && !activeImports.has(job.id) && this.isStale(job)) {
+        job.status = PatientImportStatus.FAILED;
+        job.error = 'Import was interrupted; rows after the last processed one were not imported';
+        job.finishedAt = new Date();
+        await job.save();
+      }
+
+      return {
+        success: true,
+        data: this.mapImport(job),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get patient import:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get patient import', 500);
+    }
+  }
+
+  // Most recent imports, without the per-row report
+  async listImports(): Promise<ApiResponse<PatientImport[]>> {
+    try {
+      const jobs = await this.importRepository.findRecent(RECENT_IMPORTS_LIMIT);
+
+      return {
+        success: true,
+        data: jobs.map(job => this.mapImport(job)),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to list patient imports:', error);
+      throw new AppError('Failed to list patient imports', 500);
+    }
+  }
+
+  runInBackground(id: string, context: AuditContext): void {
+    this.execute(id, context).catch(error => {
+      logger.error('Patient import failed:', { importId: id, error });
+    });
+  }
+
+  // Processes the rows in file order, saving the progress every config.patientImport.batchSize rows.
+  // Patients are created with the context of the user who submitted the file.
+  async execute(id: string, context: AuditContext): Promise<PatientImport> {
+    const job = await this.importRepository.findById(id);
+    if (!job) {
+      throw new AppError('Patient import not found', 404);
+    }
+
+    const pending = pendingImports.get(job.id);
+    if (!pending || activeImports.has(job.id)) {
+      throw new AppError('Patient import is not pending in this process', 409);
+    }
+
+    pendingImports.delete(job.id);
+    activeImports.add(job.id);
+    try {
+      // First row of each CPF, CNS and medical record number seen in the file
+      const seen = new Map<string, number>();
+
+      for (const { row, cells } of pending.rows) {
+        const errors = await this.processRow(job, pending.columns, row, cells, seen, context);
+        if (errors.length > 0) {
+          job.summary.failed++;
+          job.rowErrors.push({ row, messages: errors });
+        }
+
+        job.processed++;
+        if (job.processed % config.patientImport.batchSize === 0) {
+          await this.saveProgress(job);
+        }
+      }
+
+      job.status = PatientImportStatus.COMPLETED;
+      job.finishedAt = new Date();
+      job.markModified('summary');
+      await job.save();
+
+      logger.info('Patient import completed:', { importId: job.id, mode: job.mode, summary: job.summary });
+      return this.mapImport(job);
+    } catch (error) {
+      job.status = PatientImportStatus.FAILED;
+      job.error = error instanceof Error ? error.message : String(error);
+      job.finishedAt = new Date();
+      job.markModified('summary');
+      await job.save().catch(saveError => logger.error('Failed to save patient import state:', saveError));
+
+      logger.error('Patient import failed:', { importId: job.id, processed: job.processed, error: job.error });
+      throw error;
+    } finally {
+      activeImports.delete(job.id);
+    }
+  }
+
+  // PRIVATE METHODS
+  // Error messages of the row (none when it is valid or was created). Rule violations are
+  // reported on the row; any other failure (database down) stops the import.
+  private async processRow(
+    job: PatientImportDocument,
+    columns: PatientImportColumns,
+    row: number,
+    cells: string[],
+    seen: Map<string, number>,
+    context: AuditContext
+  ): Promise<string[]> {
+    const { error, value } = createPatientSchema.validate(toPatientImportData(cells, columns), { abortEarly: false });
+    if (error) {
+      return error.details.map(detail => detail.message);
+    }
+
+    const data = value as CreatePatientRequest;
+    const keys = [`cpf:${data.cpf.replace(/\D/g, '')}`];
+    if (data.cns) {
+      keys.push(`cns:${data.cns.replace(/\D/g, '')}`);
+    }
+    if (data.medicalRecordNumber) {
+      keys.push(`medicalRecordNumber:${data.medicalRecordNumber}`);
+    }
+    const repeatedRow = keys.map(key => seen.get(key)).find(seenRow => seenRow !== undefined);
+    if (repeatedRow !== undefined) {
+      return [`Same CPF, CNS or medical record number as row ${repeatedRow}`];
+    }
+    keys.forEach(key => seen.set(key, row));
+
+    try {
+      if (job.mode === PatientImportMode.COMMIT) {
+        const result = await this.patientService.createPatient(data, context);
+        job.created.push({ row, patientId: result.data!.id });
+        job.summary.created++;
+      } else {
+        await this.patientService.checkNewPatient(data);
+      }
+      job.summary.valid++;
+      return [];
+    } catch (rowError) {
+      if (rowError instanceof AppError && rowError.statusCode < 500) {
+        return [rowError.message];
+      }
+      throw rowError;
+    }
+  }
+
+  private async saveProgress(job: PatientImportDocument): Promise<void> {
+    job.markModified('summary');
+    await job.save();
+
+    const progress = this.mapImport(job);
+    logger.info('Patient import progress:', {
+      importId: job.id,
+      mode: job.mode,
+      processed: progress.processed,
+      total: progress.total,
+      progress: progress.progress
+    });
+  }
+
+  // UTILITY METHODS
+  private isStale(job: PatientImportDocument): boolean {
+    return Date.now() - job.updatedAt.getTime() > IMPORT_STALE_AFTER_MS;
+  }
+
+  private mapImport(job: PatientImportDocument): PatientImport {
+    return {
+      id: job.id,
+      mode: job.mode as PatientImportMode,
+      status: job.status as PatientImportStatus,
+      filename: job.filename,
+      format: job.format,
+      total: job.total,
+      processed: job.processed,
+      progress: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 0,
+      summary: {
+        valid: job.summary.valid,
+        created: job.summary.created,
+        failed: job.summary.failed
+      },
+      errors: (job.rowErrors || []).map(item => ({ row: item.row, errors: [...item.messages] })),
+      created: (job.created || []).map(item => ({ row: item.row, patientId: item.patientId })),
+      error: job.error ?? undefined,
+      startedBy: job.startedBy,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt ?? undefined,
+      updatedAt: job.updatedAt
+    };
+  }
+}
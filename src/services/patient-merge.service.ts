@@ -0,0 +1,313 @@
+import { PatientRepository } from '../repositories/patient.repository';
+import { PatientMergeRepository } from '../repositories/patient-merge.repository';
+import { AuditService } from './audit.service';
+import { scorePatientPair } from '../config/patient-matching';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import {
+  patientDeletedEvent,
+  patientMergedEvent,
+  patientRestoredEvent,
+  patientUnmergedEvent
+} from '../events/patient.events';
+import {
+  ApiResponse,
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+  DuplicateCandidate,
+  DuplicateCandidatePair,
+  DuplicateSearchOptions,
+  MergePatientsRequest,
+  PaginatedResponse,
+  PaginationParams,
+  Patient,
+  PatientMerge,
+  PatientMergeFilters,
+  PatientMergeStatus
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+const DEFAULT_DUPLICATE_LIMIT = 20;
+const MAX_DUPLICATE_LIMIT = 100;
+
+// Master patient index: finds records that probably belong to the same person and merges them.
+// The merged record stays as a soft-deleted alias of the survivor (lookups by its ID resolve to
+// the survivor), and the merge can be undone within config.patientMerge.undoWindowHours.
+export class PatientMergeService {
+  private patientRepository: PatientRepository;
+  private mergeRepository: PatientMergeRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.patientRepository = new PatientRepository();
+    this.mergeRepository = new PatientMergeRepository();
+    this.auditService = new AuditService();
+  }
+
+  // Candidates for one patient: records with the same birth date or similar name, best match first
+  async findDuplicates(patientId: string, options: DuplicateSearchOptions): Promise<ApiResponse<DuplicateCandidate[]>> {
+    try {
+      const patient = await this.patientRepository.findStoredById(patientId);
+      if (!patient) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      const { minScore, limit } = this.resolveOptions(options);
+      const candidates = await this.patientRepository.findDuplicateCandidates(patient, config.patientMerge.candidateLimit);
+
+      const duplicates = candidates
+        .map(candidate => ({ patient: candidate, ...scorePatientPair(patient, candidate) }))
+        .filter(candidate => candidate.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      return {
+        success: true,
+        data: duplicates,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to find duplicate patients:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to find duplicate patients', 500);
+    }
+  }
+
+  // Scan of the whole registry; pairs are compared within groups of patients sharing a birth date
+  async scanDuplicates(options: DuplicateSearchOptions): Promise<ApiResponse<DuplicateCandidatePair[]>> {
+    try {
+      const { minScore, limit } = this.resolveOptions(options);
+      const birthDates = await this.patientRepository.findSharedBirthDates(config.patientMerge.scanGroupLimit);
+      const patients = birthDates.length > 0 ? await this.patientRepository.findByBirthDates(birthDates) : [];
+
+      const groups = new Map<string, Patient[]>();
+      for (const patient of patients) {
+        const key = patient.birthDate.toISOString().slice(0, 10);
+        groups.set(key, [...(groups.get(key) || []), patient]);
+      }
+
+      const pairs: DuplicateCandidatePair[] = [];
+      for (const group of groups.values()) {
+        for (let i = 0; i < group.length; i++) {
+          for (let j = i + 1; j < group.length; j++) {
+            const match = scorePatientPair(group[i], group[j]);
+            if (match.score >= minScore) {
+              pairs.push({ patients: [group[i], group[j]], ...match });
+            }
+          }
+        }
+      }
+
+      return {
+        success: true,
+        data: pairs.sort((a, b) => b.score - a.score).slice(0, limit),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to scan duplicate patients:', error);
+      throw new AppError('Failed to scan duplicate patients', 500);
+    }
+  }
+
+  async mergePatients(
+    survivorId: string,
+    data: MergePatientsRequest,
+    context: AuditContext
+  ): Promise<ApiResponse<PatientMerge>> {
+    try {
+      if (survivorId === data.mergedPatientId) {
+        throw new AppError('A patient cannot be merged into itself', 400);
+      }
+
+      await this.getMergeablePatient(survivorId, 'Surviving patient');
+      const mergedPatient = await this.getMergeablePatient(data.mergedPatientId, 'Merged patient');
+
+      const undoDeadline = new Date(Date.now() + config.patientMerge.undoWindowHours * 60 * 60 * 1000);
+      const { merge } = await this.patientRepository.merge(
+        survivorId,
+        data.mergedPatientId,
+        { reason: data.reason, mergedBy: context.userId, mergedByName: context.userName, undoDeadline },
+        (survivor, merged, created) => [patientMergedEvent(survivor, created), patientDeletedEvent(merged)]
+      );
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: survivorId,
+        action: AuditAction.UPDATE,
+        description: `Patient ${data.mergedPatientId} merged into this patient`,
+        metadata: { mergeId: merge.id, mergedPatientId: data.mergedPatientId, reason: data.reason, reassigned: merge.reassigned },
+        patientId: survivorId
+      }, context);
+
+      // Kept on the merged record too, so its own trail shows where it went
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: mergedPatient.id,
+        action: AuditAction.DELETE,
+        description: `Patient merged into ${survivorId}`,
+        metadata: { mergeId: merge.id, survivorId },
+        patientId: mergedPatient.id
+      }, context);
+
+      logger.info('Patients merged:', {
+        mergeId: merge.id,
+        survivorId,
+        mergedPatientId: data.mergedPatientId,
+        userId: context.userId
+      });
+
+      return {
+        success: true,
+        data: merge,
+        message: 'Patients merged successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to merge patients:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to merge patients', 500);
+    }
+  }
+
+  async undoMerge(mergeId: string, context: AuditContext): Promise<ApiResponse<PatientMerge>> {
+    try {
+      const merge = await this.mergeRepository.findById(mergeId);
+      if (!merge) {
+        throw new AppError('Patient merge not found', 404);
+      }
+      if (merge.status === PatientMergeStatus.UNDONE) {
+        throw new AppError('Patient merge is already undone', 409);
+      }
+      if (merge.undoDeadline.getTime() < Date.now()) {
+        throw new AppError(`Patient merge can only be undone until ${merge.undoDeadline.toISOString()}`, 409);
+      }
+
+      // The survivor must still be the live record the rows were moved to
+      const survivor = await this.patientRepository.findStoredById(merge.survivorId, { includeDeleted: true });
+      if (!survivor || survivor.deletedAt || survivor.anonymizedAt) {
+        throw new AppError('Surviving patient was deleted, merged or anonymized after the merge', 409);
+      }
+
+      const result = await this.patientRepository.unmerge(
+        mergeId,
+        merge.survivorId,
+        merge.mergedPatientId,
+        context.userId,
+        (updatedSurvivor, restored, undone) => [patientUnmergedEvent(updatedSurvivor, undone), patientRestoredEvent(restored)]
+      );
+      if (!result) {
+        throw new AppError('Patient merge is already undone', 409);
+      }
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: merge.survivorId,
+        action: AuditAction.UPDATE,
+        description: `Merge of patient ${merge.mergedPatientId} undone`,
+        metadata: { mergeId, mergedPatientId: merge.mergedPatientId },
+        patientId: merge.survivorId
+      }, context);
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: merge.mergedPatientId,
+        action: AuditAction.UPDATE,
+        description: `Patient restored from merge into ${merge.survivorId}`,
+        metadata: { mergeId, survivorId: merge.survivorId },
+        patientId: merge.mergedPatientId
+      }, context);
+
+      logger.info('Patient merge undone:', { mergeId, userId: context.userId });
+
+      return {
+        success: true,
+        data: result.merge,
+        message: 'Patient merge undone successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to undo patient merge:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to undo patient merge', 500);
+    }
+  }
+
+  async listMerges(
+    filters: PatientMergeFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<PatientMerge>>> {
+    try {
+      const result = await this.mergeRepository.findMany(filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to list patient merges:', error);
+      throw new AppError('Failed to list patient merges', 500);
+    }
+  }
+
+  async getMerge(id: string): Promise<ApiResponse<PatientMerge>> {
+    try {
+      const merge = await this.mergeRepository.findById(id);
+      if (!merge) {
+        throw new AppError('Patient merge not found', 404);
+      }
+
+      return {
+        success: true,
+        data: merge,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get patient merge:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get patient merge', 500);
+    }
+  }
+
+  // PRIVATE METHODS
+  private async getMergeablePatient(id: string, label: string): Promise<Patient> {
+    const patient = await this.patientRepository.findStoredById(id, { includeDeleted: true });
+    if (!patient) {
+      throw new AppError(`${label} not found`, 404);
+    }
+    if (patient.mergedIntoId) {
+      throw new AppError(`${label} was already merged into ${patient.mergedIntoId}`, 409);
+    }
+    if (patient.deletedAt) {
+      throw new AppError(`${label} is deleted`, 409);
+    }
+    if (patient.anonymizedAt) {
+      throw new AppError(`${label} is anonymized`, 409);
+    }
+    return patient;
+  }
+
+  private resolveOptions(options: DuplicateSearchOptions): { minScore: number; limit: number } {
+    return {
+      minScore: options.minScore ?? config.patientMerge.duplicateMinScore,
+      limit: Math.min(options.limit || DEFAULT_DUPLICATE_LIMIT, MAX_DUPLICATE_LIMIT)
+    };
+  }
+}
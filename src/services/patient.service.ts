@@ -1,42 +1,64 @@
+import crypto from 'crypto';
 import { PatientRepository } from '../repositories/patient.repository';
+import { AuditService } from './audit.service';
 import { logger } from '../config/logger';
+import { serializePatient } from '../config/pii-policy';
+import { allowedExportColumns, exportHeader, exportLine, PATIENT_EXPORT_MIME_TYPES } from '../config/patient-export';
 import { 
   Patient, 
   CreatePatientRequest, 
   UpdatePatientRequest, 
-  PatientSearchFilters, 
   PaginationParams, 
   PaginatedResponse,
   PatientStatistics,
-  ApiResponse
+  ApiResponse,
+  AuditContext,
+  AuditAction,
+  AuditEntityType,
+  PatientFieldPolicy
 } from '@/types';
+import { PatientExportColumn, PatientExportOptions, PatientSearchFilters } from '@/types/patient-search.types';
 import { AppError } from '../middleware/error-handler';
-import { eventBusService } from '../config/eventbus';
-// import { eventBusService } from '../config/kafka'; // Disabled for MVP1
+import {
+  patientCreatedEvent,
+  patientUpdatedEvent,
+  patientDeletedEvent,
+  patientRestoredEvent,
+  patientValidatedEvent
+} from '../events/patient.events';
 
 export class PatientService {
   private patientRepository: PatientRepository;
+  private auditService: AuditService;
 
   constructor() {
     this.patientRepository = new PatientRepository();
+    this.auditService = new AuditService();
   }
 
-  async createPatient(data: CreatePatientRequest, userId: string): Promise<ApiResponse<Patient>> {
+  async createPatient(data: CreatePatientRequest, context: AuditContext): Promise<ApiResponse<Patient>> {
     try {
       // Validate business rules
       await this.validateCreatePatient(data);
 
-      // Create patient
-      const patient = await this.patientRepository.create(data);
-
-      // Publish event
-      await eventBusService.publishPatientCreated(patient);
+      // Create patient (the event is stored in the outbox with the write)
+      const patient = await this.patientRepository.create(data, created => [
+        patientCreatedEvent(created)
+      ]);
 
       // Log audit
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: patient.id,
+        action: AuditAction.CREATE,
+        description: 'Patient created',
+        newData: patient,
+        patientId: patient.id
+      }, context);
+
       logger.info('Patient created:', { 
         patientId: patient.id, 
-        userId,
-        cpf: data.cpf 
+        userId: context.userId
       });
 
       return {
@@ -56,7 +78,7 @@ export class PatientService {
     }
   }
 
-  async updatePatient(id: string, data: UpdatePatientRequest, userId: string): Promise<ApiResponse<Patient>> {
+  async updatePatient(id: string, data: UpdatePatientRequest, context: AuditContext): Promise<ApiResponse<Patient>> {
     try {
       // Check if patient exists
       const existingPatient = await this.patientRepository.findById(id);
@@ -64,20 +86,36 @@ export class PatientService {
         throw new AppError('Patient not found', 404);
       }
 
+      // Personal data erased at the data subject's request cannot be filled in again
+      if (existingPatient.anonymizedAt) {
+        throw new AppError('Anonymized patients cannot be updated', 409);
+      }
+
       // Validate business rules
       await this.validateUpdatePatient(id, data);
 
-      // Update patient
-      const patient = await this.patientRepository.update(id, data);
-
-      // Publish event
-      await eventBusService.publishPatientUpdated(id, existingPatient, patient);
+      // Update patient (the event is stored in the outbox with the write)
+      const patient = await this.patientRepository.update(id, data, updated => [
+        patientUpdatedEvent(existingPatient, updated, this.getChanges(existingPatient, updated))
+      ]);
 
       // Log audit
+      const changes = this.getChanges(existingPatient, patient);
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        description: 'Patient updated',
+        oldData: existingPatient,
+        newData: patient,
+        changes,
+        patientId: id
+      }, context);
+
       logger.info('Patient updated:', { 
         patientId: id, 
-        userId,
-        changes: this.getChanges(existingPatient, patient)
+        userId: context.userId,
+        changedFields: Object.keys(changes)
       });
 
       return {
@@ -97,7 +135,7 @@ export class PatientService {
     }
   }
 
-  async deletePatient(id: string, userId: string): Promise<ApiResponse<void>> {
+  async deletePatient(id: string, context: AuditContext): Promise<ApiResponse<void>> {
     try {
       // Check if patient exists
       const existingPatient = await this.patientRepository.findById(id);
@@ -108,17 +146,22 @@ export class PatientService {
       // Validate business rules for deletion
       await this.validateDeletePatient(id);
 
-      // Delete patient (soft delete)
-      await this.patientRepository.delete(id);
-
-      // Publish event
-      await eventBusService.publishPatientDeleted(id, existingPatient);
+      // Soft delete patient (the event is stored in the outbox with the write)
+      await this.patientRepository.delete(id, deleted => [patientDeletedEvent(deleted)]);
 
       // Log audit
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: AuditAction.DELETE,
+        description: 'Patient deleted',
+        oldData: existingPatient,
+        patientId: id
+      }, context);
+
       logger.info('Patient deleted:', { 
         patientId: id, 
-        userId,
-        cpf: existingPatient.cpf
+        userId: context.userId
       });
 
       return {
@@ -137,14 +180,62 @@ export class PatientService {
     }
   }
 
-  async getPatientById(id: string): Promise<ApiResponse<Patient>> {
+  async restorePatient(id: string, context: AuditContext): Promise<ApiResponse<Patient>> {
+    try {
+      const deletedPatient = await this.patientRepository.findStoredById(id, { includeDeleted: true });
+      if (!deletedPatient) {
+        throw new AppError('Patient not found', 404);
+      }
+      if (!deletedPatient.deletedAt) {
+        throw new AppError('Patient is not deleted', 409);
+      }
+      if (deletedPatient.mergedIntoId) {
+        throw new AppError(`Patient was merged into ${deletedPatient.mergedIntoId}; undo the merge instead`, 409);
+      }
+
+      const patient = await this.patientRepository.restore(id, restored => [patientRestoredEvent(restored)]);
+
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        description: 'Patient restored',
+        metadata: { deletedAt: deletedPatient.deletedAt.toISOString() },
+        patientId: id
+      }, context);
+
+      logger.info('Patient restored:', {
+        patientId: id,
+        userId: context.userId
+      });
+
+      return {
+        success: true,
+        data: patient,
+        message: 'Patient restored successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to restore patient:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to restore patient', 500);
+    }
+  }
+
+  async getPatientById(id: string, context: AuditContext): Promise<ApiResponse<Patient>> {
     try {
       const patient = await this.patientRepository.findById(id);
       
       if (!patient) {
-        throw new AppError('Patient not found', 404);
+        return await this.getMergedPatientAlias(id, context);
       }
 
+      await this.recordView(patient, 'id', context);
+
       return {
         success: true,
         data: patient,
@@ -161,7 +252,7 @@ export class PatientService {
     }
   }
 
-  async getPatientByCpf(cpf: string): Promise<ApiResponse<Patient>> {
+  async getPatientByCpf(cpf: string, context: AuditContext): Promise<ApiResponse<Patient>> {
     try {
       const patient = await this.patientRepository.findByCpf(cpf);
       
@@ -169,6 +260,8 @@ export class PatientService {
         throw new AppError('Patient not found', 404);
       }
 
+      await this.recordView(patient, 'cpf', context);
+
       return {
         success: true,
         data: patient,
@@ -185,7 +278,33 @@ export class PatientService {
     }
   }
 
-  async getPatientByMedicalRecord(medicalRecordNumber: string): Promise<ApiResponse<Patient>> {
+  async getPatientByCns(cns: string, context: AuditContext): Promise<ApiResponse<Patient>> {
+    try {
+      const patient = await this.patientRepository.findByCns(cns);
+      
+      if (!patient || patient.deletedAt) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      await this.recordView(patient, 'cns', context);
+
+      return {
+        success: true,
+        data: patient,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get patient by CNS:', error);
+      
+      if (error instanceof AppError) {
+        throw error;
+      }
+      
+      throw new AppError('Failed to get patient', 500);
+    }
+  }
+
+  async getPatientByMedicalRecord(medicalRecordNumber: string, context: AuditContext): Promise<ApiResponse<Patient>> {
     try {
       const patient = await this.patientRepository.findByMedicalRecord(medicalRecordNumber);
       
@@ -193,6 +312,8 @@ export class PatientService {
         throw new AppError('Patient not found', 404);
       }
 
+      await this.recordView(patient, 'medicalRecordNumber', context);
+
       return {
         success: true,
         data: patient,
@@ -223,53 +344,43 @@ export class PatientService {
       };
     } catch (error) {
       logger.error('Failed to search patients:', error);
+      
+      if (error instanceof AppError) {
+        throw error;
+      }
+      
       throw new AppError('Failed to search patients', 500);
     }
   }
 
+  // Search results as a CSV or NDJSON file, produced while it is sent. The columns are the ones
+  // the caller's PII policy allows (or the requested subset of them), with the policy's masks.
+  exportPatients(
+    filters: PatientSearchFilters,
+    options: PatientExportOptions,
+    policy: PatientFieldPolicy,
+    context: AuditContext
+  ): { exportId: string; filename: string; mimeType: string; content: AsyncGenerator<string> } {
+    const allowed = allowedExportColumns(policy);
+    const denied = (options.fields || []).filter(field => !allowed.includes(field));
+    if (denied.length > 0) {
+      throw new AppError(`Your role cannot export: ${denied.join(', ')}`, 403);
+    }
+
+    const columns = options.fields?.length ? allowed.filter(column => options.fields!.includes(column)) : allowed;
+    const exportId = crypto.randomUUID();
+
+    return {
+      exportId,
+      filename: `patients-${new Date().toISOString().slice(0, 10)}.${options.format}`,
+      mimeType: PATIENT_EXPORT_MIME_TYPES[options.format],
+      content: this.exportLines(exportId, filters, options, columns, policy, context)
+    };
+  }
+
   async getPatientStatistics(): Promise<ApiResponse<PatientStatistics>> {
     try {
-      // This would typically involve complex aggregation queries
-      // For now, implementing basic statistics
-      const stats: PatientStatistics = {
-        total: 0,
-        byStatus: {
-          active: 0,
-          inactive: 0,
-          deceased: 0,
-          blocked: 0
-        },
-        byGender: {
-          male: 0,
-          female: 0,
-          other: 0,
-          not_informed: 0
-        },
-        byBloodType: {
-          'A+': 0,
-          'A-': 0,
-          'B+': 0,
-          'B-': 0,
-          'AB+': 0,
-          'AB-': 0,
-          'O+': 0,
-          'O-': 0,
-          unknown: 0
-        },
-        byAgeGroup: {
-          '0-18': 0,
-          '19-30': 0,
-          '31-50': 0,
-          '51-70': 0,
-          '70+': 0
-        },
-        averageAge: 0,
-        newPatientsThisMonth: 0,
-        newPatientsThisYear: 0
-      };
-
-      // TODO: Implement actual statistics queries
-      // This would involve MongoDB aggregation pipelines
+      const stats = await this.patientRepository.getStatistics();
 
       return {
         success: true,
@@ -282,30 +393,49 @@ export class PatientService {
     }
   }
 
-  async validatePatient(id: string, validationStatus: string, userId: string): Promise<ApiResponse<Patient>> {
+  async validatePatient(
+    id: string,
+    validationStatus: string,
+    context: AuditContext,
+    validationNotes?: string
+  ): Promise<ApiResponse<Patient>> {
     try {
       const patient = await this.patientRepository.findById(id);
       if (!patient) {
         throw new AppError('Patient not found', 404);
       }
 
-      // Update validation status
+      // Update validation status (the event is stored in the outbox with the write)
       const updatedPatient = await this.patientRepository.update(id, {
         id,
-        // Add validation status to update request type if needed
-      });
+        validationStatus
+      }, updated => [
+        patientValidatedEvent(updated, {
+          status: validationStatus,
+          validatedBy: context.userId,
+          validatedAt: new Date()
+        })
+      ]);
 
-      // Publish validation event
-      await eventBusService.publishPatientValidated(id, {
-        status: validationStatus,
-        validatedBy: userId,
-        validatedAt: new Date()
-      });
+      // Log audit
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: id,
+        action: validationStatus === 'approved'
+          ? AuditAction.APPROVE
+          : validationStatus === 'rejected' ? AuditAction.REJECT : AuditAction.UPDATE,
+        description: `Patient validation set to ${validationStatus}`,
+        oldData: { validationStatus: patient.validationStatus },
+        newData: { validationStatus: updatedPatient.validationStatus },
+        validationStatus,
+        justification: validationNotes,
+        patientId: id
+      }, context);
 
       logger.info('Patient validated:', { 
         patientId: id, 
         validationStatus,
-        userId
+        userId: context.userId
       });
 
       return {
@@ -325,6 +455,12 @@ export class PatientService {
     }
   }
 
+  // Business rules and row mapping of createPatient without creating the patient (dry-run imports)
+  async checkNewPatient(data: CreatePatientRequest): Promise<void> {
+    await this.validateCreatePatient(data);
+    this.patientRepository.toCreateData(data);
+  }
+
   // PRIVATE VALIDATION METHODS
   private async validateCreatePatient(data: CreatePatientRequest): Promise<void> {
     // Check if CPF already exists
@@ -341,11 +477,24 @@ export class PatientService {
       }
     }
 
+    // A deleted patient still holds the CPF and medical record number
+    const deletedPatient = await this.patientRepository.findDeletedByIdentity(data.cpf, data.medicalRecordNumber);
+    if (deletedPatient?.mergedIntoId) {
+      throw new AppError(`Patient with this CPF or medical record number was merged into ${deletedPatient.mergedIntoId}`, 409);
+    }
+    if (deletedPatient) {
+      throw new AppError(`A deleted patient (${deletedPatient.id}) has this CPF or medical record number; restore it instead`, 409);
+    }
+
     // Validate CPF format
     if (!this.isValidCpf(data.cpf)) {
       throw new AppError('Invalid CPF format', 400);
     }
 
+    if (data.cns) {
+      await this.validateCns(data.cns);
+    }
+
     // Validate dates
     const birthDate = new Date(data.birthDate);
     const admissionDate = data.admissionDate ? new Date(data.admissionDate) : null;
@@ -384,6 +533,10 @@ export class PatientService {
       }
     }
 
+    if (data.cns) {
+      await this.validateCns(data.cns, id);
+    }
+
     // Check medical record uniqueness if being updated
     if (data.medicalRecordNumber) {
       const existingByRecord = await this.patientRepository.findByMedicalRecord(data.medicalRecordNumber);
@@ -423,14 +576,122 @@ export class PatientService {
   }
 
   private async validateDeletePatient(id: string): Promise<void> {
-    // Add business rules for deletion
-    // For example: check if patient has active procedures, pending billing, etc.
-    
-    // TODO: Check for related records that would prevent deletion
-    // This would involve checking procedures, billing items, etc.
+    // Procedures under way and billing not yet reviewed must be closed first
+    const { inProgressProcedures, pendingBillingItems } = await this.patientRepository.countDeletionBlockers(id);
+
+    if (inProgressProcedures > 0) {
+      throw new AppError(`Patient has ${inProgressProcedures} procedure(s) in progress`, 409);
+    }
+
+    if (pendingBillingItems > 0) {
+      throw new AppError(`Patient has ${pendingBillingItems} pending billing item(s)`, 409);
+    }
   }
 
   // UTILITY METHODS
+  // The ID of a merged record stays valid as an alias of the surviving patient
+  private async getMergedPatientAlias(id: string, context: AuditContext): Promise<ApiResponse<Patient>> {
+    const stored = await this.patientRepository.findStoredById(id, { includeDeleted: true });
+    const survivor = stored?.mergedIntoId && await this.patientRepository.findById(stored.mergedIntoId);
+    if (!survivor) {
+      throw new AppError('Patient not found', 404);
+    }
+
+    await this.recordView(survivor, 'merged patient id', context);
+
+    return {
+      success: true,
+      data: survivor,
+      message: `Patient ${id} was merged into ${survivor.id}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async recordView(patient: Patient, lookup: string, context: AuditContext): Promise<void> {
+    await this.auditService.record({
+      entityType: AuditEntityType.PATIENT,
+      entityId: patient.id,
+      action: AuditAction.VIEW,
+      description: `Patient record viewed by ${lookup}`,
+      metadata: { lookup },
+      patientId: patient.id
+    }, context);
+  }
+
+  // Audited when the file ends, with the number of rows sent and whether the download finished.
+  // Only the names of the filters are kept: CPF, e-mail, phone and name values are personal data.
+  private async *exportLines(
+    exportId: string,
+    filters: PatientSearchFilters,
+    options: PatientExportOptions,
+    columns: PatientExportColumn[],
+    policy: PatientFieldPolicy,
+    context: AuditContext
+  ): AsyncGenerator<string> {
+    let rows = 0;
+    let completed = false;
+    try {
+      const header = exportHeader(options.format, columns);
+      if (header) {
+        yield header;
+      }
+      for await (const patient of this.patientRepository.streamMany(filters, options.sortBy, options.sortOrder)) {
+        yield exportLine(options.format, columns, serializePatient(patient, policy));
+        rows++;
+      }
+      completed = true;
+    } finally {
+      await this.auditService.record({
+        entityType: AuditEntityType.PATIENT,
+        entityId: exportId,
+        action: AuditAction.VIEW,
+        description: completed ? 'Patient search exported' : 'Patient search export interrupted',
+        metadata: {
+          exportId,
+          format: options.format,
+          columns,
+          filters: Object.keys(filters),
+          sortBy: options.sortBy,
+          sortOrder: options.sortOrder,
+          rows,
+          completed
+        }
+      }, context);
+
+      logger.info('Patients exported:', { exportId, format: options.format, rows, completed, userId: context.userId });
+    }
+  }
+
+  // CNS check digit and uniqueness (a deleted patient still holds its CNS)
+  private async validateCns(cns: string, patientId?: string): Promise<void> {
+    if (!this.isValidCns(cns)) {
+      throw new AppError('Invalid CNS', 400);
+    }
+
+    const existingByCns = await this.patientRepository.findByCns(cns);
+    if (existingByCns && existingByCns.id !== patientId) {
+      throw new AppError(
+        existingByCns.deletedAt
+          ? `A deleted patient (${existingByCns.id}) has this CNS; restore it instead`
+          : 'Patient with this CNS already exists',
+        409
+      );
+    }
+  }
+
+  // Cartão Nacional de Saúde: 15 digits starting with 1 or 2 (definitive) or 7, 8 or 9 (provisional);
+  // the sum of each digit weighted 15 down to 1 is a multiple of 11
+  private isValidCns(cns: string): boolean {
+    const cleanCns = cns.replace(/\D/g, '');
+    if (!/^[12789]\d{14}$/.test(cleanCns)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < 15; i++) {
+      sum += parseInt(cleanCns.charAt(i)) * (15 - i);
+    }
+    return sum % 11 === 0;
+  }
+
   private isValidCpf(cpf: string): boolean {
     // Remove non-numeric characters
     const cleanCpf = cpf.replace(/\D/g, '');
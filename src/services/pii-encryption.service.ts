@@ -0,0 +1,114 @@
+import { PatientRepository } from '../repositories/patient.repository';
+import { AuditRepository } from '../repositories/audit.repository';
+import { fieldEncryption, PATIENT_PII_FIELDS } from '../config/encryption';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import { BlindIndexField, EncryptedPatientRow, PiiEncryptionStatus, PiiKeyRotationResult } from '@/types';
+
+export class PiiEncryptionService {
+  private patientRepository: PatientRepository;
+  private auditRepository: AuditRepository;
+
+  constructor() {
+    this.patientRepository = new PatientRepository();
+    this.auditRepository = new AuditRepository();
+  }
+
+  async getStatus(): Promise<PiiEncryptionStatus> {
+    const { total, pending } = await this.patientRepository.countPendingRotation(fieldEncryption.activeKeyId);
+
+    return {
+      activeKeyId: fieldEncryption.activeKeyId,
+      keyIds: fieldEncryption.keyIds,
+      total,
+      pendingRotation: pending
+    };
+  }
+
+  // Moves every patient to the active key: data keys wrapped with a retired key are re-wrapped,
+  // plaintext fields (rows written before encryption) are encrypted and missing blind indexes are
+  // filled. The patient snapshots of the audit trail are moved the same way, scanning every audit
+  // row with a snapshot. The read model keeps the old values until it is rebuilt, so retired keys
+  // must stay configured until `npm run read-model -- rebuild` has run.
+  async rotateKeys(
+    batchSize: number = config.piiEncryption.rotationBatchSize,
+    onProgress?: (result: PiiKeyRotationResult) => void
+  ): Promise<PiiKeyRotationResult> {
+    const startedAt = Date.now();
+    const result: PiiKeyRotationResult = {
+      activeKeyId: fieldEncryption.activeKeyId,
+      scanned: 0,
+      rewritten: 0,
+      auditLogsScanned: 0,
+      auditLogsRewritten: 0,
+      durationMs: 0
+    };
+
+    let cursor: string | undefined;
+    while (true) {
+      const rows = await this.patientRepository.findPendingRotationBatch(result.activeKeyId, cursor, batchSize);
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (await this.patientRepository.rewriteEncryptedFields(this.rotateRow(row))) {
+          result.rewritten++;
+        }
+      }
+
+      cursor = rows[rows.length - 1].id;
+      result.scanned += rows.length;
+      result.durationMs = Date.now() - startedAt;
+      onProgress?.({ ...result });
+    }
+
+    let auditCursor: string | undefined;
+    while (true) {
+      const auditRows = await this.auditRepository.findSnapshotBatch(auditCursor, batchSize);
+      if (auditRows.length === 0) {
+        break;
+      }
+
+      for (const auditRow of auditRows) {
+        if (await this.auditRepository.rotateEncryptedSnapshots(auditRow)) {
+          result.auditLogsRewritten++;
+        }
+      }
+
+      auditCursor = auditRows[auditRows.length - 1].id;
+      result.auditLogsScanned += auditRows.length;
+      result.durationMs = Date.now() - startedAt;
+      onProgress?.({ ...result });
+    }
+
+    result.durationMs = Date.now() - startedAt;
+    logger.info('PII encryption key rotation completed:', result);
+    return result;
+  }
+
+  // UTILITY METHODS
+  private rotateRow(row: EncryptedPatientRow): EncryptedPatientRow {
+    const rotated: EncryptedPatientRow = { ...row };
+    for (const field of PATIENT_PII_FIELDS) {
+      rotated[field] = fieldEncryption.rotate(row[field]);
+    }
+
+    const cpf = fieldEncryption.decrypt(row.cpf);
+    const medicalRecordNumber = fieldEncryption.decrypt(row.medicalRecordNumber);
+    // Anonymized patients have an empty CPF and keep no index, so they do not collide
+    rotated.cpfHash = cpf ? fieldEncryption.blindIndex(BlindIndexField.CPF, cpf) : null;
+    const cns = fieldEncryption.decrypt(row.cns);
+    rotated.cnsHash = cns ? fieldEncryption.blindIndex(BlindIndexField.CNS, cns) : null;
+    rotated.medicalRecordNumberHash = medicalRecordNumber
+      ? fieldEncryption.blindIndex(BlindIndexField.MEDICAL_RECORD_NUMBER, medicalRecordNumber)
+      : null;
+
+    const email = fieldEncryption.decrypt(row.email);
+    const phone = fieldEncryption.decrypt(row.phone);
+    rotated.emailHash = email ? fieldEncryption.blindIndex(BlindIndexField.EMAIL, email) : null;
+    rotated.phoneHash = phone ? fieldEncryption.blindIndex(BlindIndexField.PHONE, phone) : null;
+
+    return rotated;
+  }
+}
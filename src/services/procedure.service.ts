@@ -0,0 +1,281 @@
+import { ProcedureRepository } from '../repositories/procedure.repository';
+import { PatientRepository } from '../repositories/patient.repository';
+import { logger } from '../config/logger';
+import {
+  Procedure,
+  CreateProcedureRequest,
+  UpdateProcedureRequest,
+  UpdateProcedureStatusRequest,
+  ProcedureSearchFilters,
+  ProcedureStatus,
+  PROCEDURE_STATUS_TRANSITIONS,
+  PaginationParams,
+  PaginatedResponse,
+  ApiResponse
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+export class ProcedureService {
+  private procedureRepository: ProcedureRepository;
+  private patientRepository: PatientRepository;
+
+  constructor() {
+    this.procedureRepository = new ProcedureRepository();
+    this.patientRepository = new PatientRepository();
+  }
+
+  async createProcedure(patientId: string, data: CreateProcedureRequest, userId: string): Promise<ApiResponse<Procedure>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      // New procedures can only start as scheduled or awaiting approval
+      const initialStatus = data.status || ProcedureStatus.SCHEDULED;
+      if (initialStatus !== ProcedureStatus.SCHEDULED && initialStatus !== ProcedureStatus.PENDING_APPROVAL) {
+        throw new AppError('Procedure must be created as scheduled or pending_approval', 400);
+      }
+
+      const procedure = await this.procedureRepository.create(patientId, { ...data, status: initialStatus });
+
+      logger.info('Procedure created:', {
+        procedureId: procedure.id,
+        patientId,
+        userId,
+        code: procedure.code
+      });
+
+      return {
+        success: true,
+        data: procedure,
+        message: 'Procedure created successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to create procedure:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to create procedure', 500);
+    }
+  }
+
+  async updateProcedure(
+    patientId: string,
+    id: string,
+    data: UpdateProcedureRequest,
+    userId: string
+  ): Promise<ApiResponse<Procedure>> {
+    try {
+      const existingProcedure = await this.getExistingProcedure(patientId, id);
+
+      if (this.isFinalStatus(existingProcedure.status)) {
+        throw new AppError(`Cannot update a ${existingProcedure.status} procedure`, 409);
+      }
+
+      const procedure = await this.procedureRepository.update(id, data, existingProcedure);
+
+      logger.info('Procedure updated:', { procedureId: id, patientId, userId });
+
+      return {
+        success: true,
+        data: procedure,
+        message: 'Procedure updated successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to update procedure:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to update procedure', 500);
+    }
+  }
+
+  async updateProcedureStatus(
+    patientId: string,
+    id: string,
+    data: UpdateProcedureStatusRequest,
+    userId: string
+  ): Promise<ApiResponse<Procedure>> {
+    try {
+      const existingProcedure = await this.getExistingProcedure(patientId, id);
+
+      const from = existingProcedure.status as ProcedureStatus;
+      const to = data.status as ProcedureStatus;
+      const allowed = PROCEDURE_STATUS_TRANSITIONS[from] || [];
+
+      if (!allowed.includes(to)) {
+        throw new AppError(`Invalid status transition from ${from} to ${to}`, 409);
+      }
+
+      const completedDate = to === ProcedureStatus.COMPLETED
+        ? (data.completedDate ? new Date(data.completedDate) : new Date())
+        : undefined;
+
+      const procedure = await this.procedureRepository.updateStatus(id, to, {
+        completedDate,
+        actualDuration: data.actualDuration,
+        auditNotes: data.auditNotes,
+        auditorId: to === ProcedureStatus.SCHEDULED && from === ProcedureStatus.PENDING_APPROVAL ? userId : undefined
+      });
+
+      logger.info('Procedure status changed:', { procedureId: id, patientId, userId, from, to });
+
+      return {
+        success: true,
+        data: procedure,
+        message: 'Procedure status updated successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to update procedure status:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to update procedure status', 500);
+    }
+  }
+
+  // Audit result received from the audit service
+  async recordAuditResult(
+    patientId: string,
+    id: string,
+    data: { validationStatus: string; auditNotes?: string },
+    auditorId: string
+  ): Promise<ApiResponse<Procedure>> {
+    try {
+      const existingProcedure = await this.getExistingProcedure(patientId, id);
+
+      const procedure = await this.procedureRepository.updateValidation(id, {
+        validationStatus: data.validationStatus,
+        auditorId,
+        auditNotes: data.auditNotes
+      });
+
+      logger.info('Procedure audit recorded:', {
+        procedureId: id,
+        patientId,
+        auditorId,
+        from: existingProcedure.validationStatus,
+        to: data.validationStatus
+      });
+
+      return {
+        success: true,
+        data: procedure,
+        message: 'Procedure audit recorded successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to record procedure audit:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to record procedure audit', 500);
+    }
+  }
+
+  async deleteProcedure(patientId: string, id: string, userId: string): Promise<ApiResponse<void>> {
+    try {
+      const existingProcedure = await this.getExistingProcedure(patientId, id);
+
+      if (existingProcedure.status === ProcedureStatus.IN_PROGRESS) {
+        throw new AppError('Cannot delete a procedure in progress', 409);
+      }
+
+      await this.procedureRepository.delete(id);
+
+      logger.info('Procedure deleted:', { procedureId: id, patientId, userId });
+
+      return {
+        success: true,
+        message: 'Procedure deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to delete procedure:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to delete procedure', 500);
+    }
+  }
+
+  async getProcedureById(patientId: string, id: string): Promise<ApiResponse<Procedure>> {
+    try {
+      const procedure = await this.getExistingProcedure(patientId, id);
+
+      return {
+        success: true,
+        data: procedure,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get procedure:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get procedure', 500);
+    }
+  }
+
+  async searchProcedures(
+    patientId: string,
+    filters: ProcedureSearchFilters,
+    pagination: PaginationParams
+  ): Promise<ApiResponse<PaginatedResponse<Procedure>>> {
+    try {
+      await this.ensurePatientExists(patientId);
+
+      const result = await this.procedureRepository.findMany(patientId, filters, pagination);
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to search procedures:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to search procedures', 500);
+    }
+  }
+
+  // PRIVATE VALIDATION METHODS
+  private async ensurePatientExists(patientId: string): Promise<void> {
+    const exists = await this.patientRepository.exists(patientId);
+    if (!exists) {
+      throw new AppError('Patient not found', 404);
+    }
+  }
+
+  private async getExistingProcedure(patientId: string, id: string): Promise<Procedure> {
+    await this.ensurePatientExists(patientId);
+
+    const procedure = await this.procedureRepository.findById(patientId, id);
+    if (!procedure) {
+      throw new AppError('Procedure not found', 404);
+    }
+
+    return procedure;
+  }
+
+  private isFinalStatus(status: string): boolean {
+    return PROCEDURE_STATUS_TRANSITIONS[status as ProcedureStatus]?.length === 0;
+  }
+}
@@ -0,0 +1,365 @@
+import { Patient as PrismaPatient } from '@prisma/client';
+import { PatientProjectionRepository } from '../repositories/patient-projection.repository';
+import { ReadModelRunDocument } from '../models/projection.model';
+import { config } from '../config/config';
+import { logger } from '../config/logger';
+import {
+  ApiResponse,
+  PatientReadSummary,
+  ReadModelRun,
+  ReadModelRunMode,
+  ReadModelRunStatus,
+  StartReadModelRunRequest
+} from '@/types';
+import { AppError } from '../middleware/error-handler';
+
+// Max patient IDs kept per list in a run report (the summary counts are exact)
+const REPORT_SAMPLE_LIMIT = 1000;
+// A "running" run not updated for this long is treated as interrupted and may be resumed
+const RUN_STALE_AFTER_MS = 5 * 60 * 1000;
+const RECENT_RUNS_LIMIT = 20;
+
+// Runs executing in this process
+const activeRuns = new Set<string>();
+
+export class ReadModelService {
+  private projectionRepository: PatientProjectionRepository;
+
+  constructor() {
+    this.projectionRepository = new PatientProjectionRepository();
+  }
+
+  // Creates the run; the caller executes it with execute() or runInBackground()
+  async startRun(request: StartReadModelRunRequest, startedBy: string): Promise<ApiResponse<ReadModelRun>> {
+    try {
+      await this.ensureNoRunInProgress();
+
+      const run = await this.projectionRepository.createRun({
+        mode: request.mode,
+        batchSize: request.batchSize || config.readModelMaintenance.batchSize,
+        startedBy
+      });
+
+      logger.info('Read model run created:', { runId: run.id, mode: run.mode, startedBy });
+
+      return {
+        success: true,
+        data: this.mapRun(run),
+        message: `Read model ${run.mode} started`,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to start read model run:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to start read model run', 500);
+    }
+  }
+
+  async resumeRun(id: string): Promise<ApiResponse<ReadModelRun>> {
+    try {
+      const run = await this.projectionRepository.findRun(id);
+      if (!run) {
+        throw new AppError('Read model run not found', 404);
+      }
+
+      if (run.status === ReadModelRunStatus.COMPLETED) {
+        throw new AppError('Read model run already completed', 409);
+      }
+
+      if (activeRuns.has(run.id) || (run.status === ReadModelRunStatus.RUNNING && !this.isStale(run))) {
+        throw new AppError('Read model run is still in progress', 409);
+      }
+
+      run.status = ReadModelRunStatus.RUNNING;
+      run.error = undefined;
+      run.finishedAt = undefined;
+      await run.save();
+
+      logger.info('Read model run resumed:', { runId: run.id, phase: run.phase, cursor: run.cursor });
+
+      return {
+        success: true,
+        data: this.mapRun(run),
+        message: `Read model ${run.mode} resumed`,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to resume read model run:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to resume read model run', 500);
+    }
+  }
+
+  async getRun(id: string): Promise<ApiResponse<ReadModelRun>> {
+    try {
+      const run = await this.projectionRepository.findRun(id);
+      if (!run) {
+        throw new AppError('Read model run not found', 404);
+      }
+
+      return {
+        success: true,
+        data: this.mapRun(run),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to get read model run:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to get read model run', 500);
+    }
+  }
+
+  async listRuns(): Promise<ApiResponse<ReadModelRun[]>> {
+    try {
+      const runs = await this.projectionRepository.findRecentRuns(RECENT_RUNS_LIMIT);
+
+      return {
+        success: true,
+        data: runs.map(run => this.mapRun(run)),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      logger.error('Failed to list read model runs:', error);
+      throw new AppError('Failed to list read model runs', 500);
+    }
+  }
+
+  runInBackground(id: string): void {
+    this.execute(id).catch(error => {
+      logger.error('Read model run failed:', { runId: id, error });
+    });
+  }
+
+  // Processes the run batch by batch from its saved phase and cursor. The cursor is saved after
+  // every batch, so an interrupted run repeats at most one batch when resumed.
+  async execute(id: string, onProgress?: (run: ReadModelRun) => void): Promise<ReadModelRun> {
+    const run = await this.projectionRepository.findRun(id);
+    if (!run) {
+      throw new AppError('Read model run not found', 404);
+    }
+
+    if (activeRuns.has(run.id)) {
+      throw new AppError('Read model run is still in progress', 409);
+    }
+
+    activeRuns.add(run.id);
+    try {
+      if (run.total === 0) {
+        const [sourceCount, readModelCount] = await Promise.all([
+          this.projectionRepository.countSource(),
+          this.projectionRepository.countReadModel()
+        ]);
+        run.total = sourceCount + readModelCount;
+        await run.save();
+      }
+
+      if (run.phase === 'postgres') {
+        await this.processSourcePhase(run, onProgress);
+        run.phase = 'read_model';
+        run.cursor = undefined;
+        await run.save();
+      }
+
+      await this.processReadModelPhase(run, onProgress);
+
+      run.status = ReadModelRunStatus.COMPLETED;
+      run.finishedAt = new Date();
+      await run.save();
+
+      logger.info('Read model run completed:', { runId: run.id, mode: run.mode, summary: run.summary });
+      return this.mapRun(run);
+    } catch (error) {
+      run.status = ReadModelRunStatus.FAILED;
+      run.error = error instanceof Error ? error.message : String(error);
+      await run.save().catch(saveError => logger.error('Failed to save read model run state:', saveError));
+
+      logger.error('Read model run failed, it can be resumed:', { runId: run.id, phase: run.phase, cursor: run.cursor, error: run.error });
+      throw error;
+    } finally {
+      activeRuns.delete(run.id);
+    }
+  }
+
+  // Phase 1: every PostgreSQL row against its read model document
+  private async processSourcePhase(run: ReadModelRunDocument, onProgress?: (run: ReadModelRun) => void): Promise<void> {
+    const repair = run.mode === ReadModelRunMode.REBUILD;
+
+    while (true) {
+      const rows = await this.projectionRepository.findSourceBatch(run.cursor, run.batchSize);
+      if (rows.length === 0) {
+        return;
+      }
+
+      const ids = rows.map(row => row.id);
+      const [documents, summaries] = await Promise.all([
+        this.projectionRepository.findReadModelDocuments(ids),
+        this.projectionRepository.loadSummaries(ids)
+      ]);
+
+      for (const row of rows) {
+        const document = documents.get(row.id);
+        const summary = summaries.get(row.id)!;
+        let outOfSync = false;
+
+        if (!document) {
+          run.summary.missing++;
+          this.addSample(run.missing, row.id);
+          outOfSync = true;
+        } else {
+          const fields = this.diffFields(row, summary, document);
+          if (fields.length > 0) {
+            run.summary.divergent++;
+            this.addSample(run.divergent, { patientId: row.id, fields });
+            outOfSync = true;
+          }
+        }
+
+        if (repair && outOfSync) {
+          await this.projectionRepository.applySnapshot(row, summary, run.startedAt);
+          run.summary.repaired++;
+        }
+      }
+
+      run.cursor = rows[rows.length - 1].id;
+      run.processed += rows.length;
+      await this.saveProgress(run, onProgress);
+    }
+  }
+
+  // Phase 2: live read model documents whose PostgreSQL row no longer exists
+  private async processReadModelPhase(run: ReadModelRunDocument, onProgress?: (run: ReadModelRun) => void): Promise<void> {
+    const repair = run.mode === ReadModelRunMode.REBUILD;
+
+    while (true) {
+      const ids = await this.projectionRepository.findReadModelBatch(run.cursor, run.batchSize);
+      if (ids.length === 0) {
+        return;
+      }
+
+      const existing = await this.projectionRepository.findExistingSourceIds(ids);
+
+      for (const id of ids) {
+        if (existing.has(id)) {
+          continue;
+        }
+
+        run.summary.extra++;
+        this.addSample(run.extra, id);
+
+        if (repair) {
+          await this.projectionRepository.markDeleted(id);
+          run.summary.repaired++;
+        }
+      }
+
+      run.cursor = ids[ids.length - 1];
+      run.processed += ids.length;
+      await this.saveProgress(run, onProgress);
+    }
+  }
+
+  private async saveProgress(run: ReadModelRunDocument, onProgress?: (run: ReadModelRun) => void): Promise<void> {
+    run.markModified('summary');
+    await run.save();
+
+    const progress = this.mapRun(run);
+    logger.info('Read model run progress:', {
+      runId: run.id,
+      mode: run.mode,
+      phase: run.phase,
+      processed: progress.processed,
+      total: progress.total,
+      progress: progress.progress
+    });
+    onProgress?.(progress);
+  }
+
+  // UTILITY METHODS
+  private async ensureNoRunInProgress(): Promise<void> {
+    if (activeRuns.size > 0) {
+      throw new AppError('A read model run is already in progress', 409);
+    }
+
+    const runs = await this.projectionRepository.findRecentRuns(RECENT_RUNS_LIMIT);
+    if (runs.some(run => run.status === ReadModelRunStatus.RUNNING && !this.isStale(run))) {
+      throw new AppError('A read model run is already in progress', 409);
+    }
+  }
+
+  private isStale(run: ReadModelRunDocument): boolean {
+    return Date.now() - run.updatedAt.getTime() > RUN_STALE_AFTER_MS;
+  }
+
+  // Field names whose read model value differs from what the projector would write
+  private diffFields(row: PrismaPatient, summary: PatientReadSummary, document: any): string[] {
+    const expected: Record<string, any> = {
+      ...this.projectionRepository.toReadModel(row),
+      ...summary,
+      version: row.version,
+      deletedAt: row.deletedAt ?? undefined
+    };
+
+    return Object.keys(expected).filter(field =>
+      this.normalize(expected[field]) !== this.normalize(document[field])
+    );
+  }
+
+  private normalize(value: any): string | number | boolean | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.join(' ');
+    }
+    return value;
+  }
+
+  private addSample<T>(list: T[], item: T): void {
+    if (list.length < REPORT_SAMPLE_LIMIT) {
+      list.push(item);
+    }
+  }
+
+  private mapRun(run: ReadModelRunDocument): ReadModelRun {
+    return {
+      id: run.id,
+      mode: run.mode as ReadModelRunMode,
+      status: run.status as ReadModelRunStatus,
+      phase: run.phase,
+      cursor: run.cursor ?? undefined,
+      batchSize: run.batchSize,
+      total: run.total,
+      processed: run.processed,
+      progress: run.total > 0 ? Math.min(100, Math.round((run.processed / run.total) * 100)) : 0,
+      summary: {
+        missing: run.summary.missing,
+        extra: run.summary.extra,
+        divergent: run.summary.divergent,
+        repaired: run.summary.repaired
+      },
+      missing: [...run.missing],
+      extra: [...run.extra],
+      divergent: run.divergent.map(item => ({ patientId: item.patientId, fields: [...item.fields] })),
+      error: run.error ?? undefined,
+      startedBy: run.startedBy,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt ?? undefined,
+      updatedAt: run.updatedAt
+    };
+  }
+}
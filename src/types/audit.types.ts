@@ -0,0 +1,75 @@
+// Tipos para trilha de auditoria
+// Contexto da requisição que originou a ação auditada
+export interface AuditContext {
+  userId: string;
+  userName: string;
+  userRole: string;
+  ipAddress: string;
+  userAgent: string;
+  sessionId: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  description: string;
+  userId: string;
+  userName: string;
+  userRole: string;
+  oldData?: any;
+  newData?: any;
+  changes?: Record<string, { from: any; to: any }>;
+  ipAddress: string;
+  userAgent: string;
+  sessionId: string;
+  validationStatus?: string;
+  justification?: string;
+  metadata?: Record<string, any>;
+  patientId?: string;
+  procedureId?: string;
+  billingId?: string;
+  createdAt: Date;
+}
+
+export interface RecordAuditRequest {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  description: string;
+  oldData?: any;
+  newData?: any;
+  changes?: Record<string, { from: any; to: any }>;
+  validationStatus?: string;
+  justification?: string;
+  metadata?: Record<string, any>;
+  patientId?: string;
+  procedureId?: string;
+  billingId?: string;
+}
+
+export interface AuditTrailFilters {
+  action?: string;
+  entityType?: string;
+  dateFrom?: string | Date;
+  dateTo?: string | Date;
+}
+
+// Enums para auditoria
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  VIEW = 'view',
+  APPROVE = 'approve',
+  REJECT = 'reject'
+}
+
+export enum AuditEntityType {
+  PATIENT = 'patient',
+  PROCEDURE = 'procedure',
+  BILLING = 'billing',
+  MATERIAL = 'material',
+  USER = 'user'
+}
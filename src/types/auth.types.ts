@@ -66,6 +66,8 @@ export interface PaginationParams {
   limit?: number;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  // Cursor mode (patient search): opaque cursor of the page to read; empty for the first page
+  cursor?: string;
 }
 
 export interface PaginationMeta {
@@ -0,0 +1,79 @@
+// Tipos para itens de faturamento do paciente
+// Valores monetários trafegam como string ("123.45") para preservar a precisão decimal
+export interface BillingItem {
+  id: string;
+  patientId: string;
+  procedureId?: string;
+  code: string;
+  description: string;
+  category: string;
+  unitPrice: string;
+  quantity: number;
+  totalPrice: string;
+  port?: number;
+  coverageType: string;
+  riskLevel: string;
+  requesterId: string;
+  requesterName: string;
+  requestDate: Date;
+  status: string;
+  validationStatus: string;
+  auditNotes?: string;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateBillingItemRequest {
+  procedureId?: string;
+  code: string;
+  description: string;
+  category: string;
+  unitPrice: number | string;
+  quantity: number;
+  port?: number;
+  coverageType: string;
+  riskLevel: string;
+  requesterName?: string;
+  requestDate?: Date | string;
+}
+
+export interface ApproveBillingItemRequest {
+  justification?: string;
+}
+
+export interface RejectBillingItemRequest {
+  reason: string;
+}
+
+export interface BillingItemSearchFilters {
+  status?: string;
+  category?: string;
+  coverageType?: string;
+  procedureId?: string;
+  requestDateFrom?: string | Date;
+  requestDateTo?: string | Date;
+}
+
+// Enums para faturamento
+export enum BillingStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  BILLED = 'billed'
+}
+
+export enum BillingCategory {
+  PROCEDURE = 'procedure',
+  MATERIAL = 'material',
+  MEDICATION = 'medication',
+  EXAM = 'exam',
+  ACCOMMODATION = 'accommodation',
+  OTHER = 'other'
+}
+
+export enum CoverageType {
+  INCLUDED = 'included',
+  EXTRA = 'extra',
+  BLOCKED = 'blocked'
+}
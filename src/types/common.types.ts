@@ -9,12 +9,16 @@ export interface ApiResponse<T = any> {
 export interface PaginatedResponse<T = any> {
   data: T[];
   pagination: {
-    page: number;
+    // Offset mode only
+    page?: number;
     limit: number;
     total: number;
     totalPages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    // Cursor mode only: cursors of the pages after and before this one (null at either end)
+    nextCursor?: string | null;
+    prevCursor?: string | null;
   };
 }
 
@@ -40,6 +44,20 @@ export interface HealthCheckResponse {
   };
 }
 
+// Tipos de cache (Redis)
+export type PatientCacheLookup = 'id' | 'cpf' | 'record' | 'search';
+
+export interface PatientCacheStats {
+  enabled: boolean;
+  connected: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number; // percentual
+  errors: number;
+  invalidations: number;
+  byLookup: Record<PatientCacheLookup, { hits: number; misses: number }>;
+}
+
 // Tipos de filtros e busca
 export interface BaseSearchFilters {
   page?: number;
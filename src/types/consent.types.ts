@@ -0,0 +1,75 @@
+// Tipos para consentimentos do paciente (LGPD)
+
+// One row of the consent history; each grant or revocation of a purpose is a new version
+export interface PatientConsent {
+  id: string;
+  patientId: string;
+  purpose: ConsentPurpose;
+  version: number;
+  status: ConsentStatus;
+  legalBasis: ConsentLegalBasis;
+  termsVersion?: string;
+  grantedAt?: Date;
+  revokedAt?: Date;
+  recordedBy: string;
+  recordedByName: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+// Whether the patient's data may be processed for a purpose, from the latest record or,
+// when nothing was recorded, from the default legal basis of the purpose
+export interface ConsentDecision {
+  purpose: ConsentPurpose;
+  allowed: boolean;
+  legalBasis: ConsentLegalBasis;
+  source: ConsentDecisionSource;
+  status?: ConsentStatus;
+  consentVersion?: number;
+  termsVersion?: string;
+  grantedAt?: Date;
+  revokedAt?: Date;
+}
+
+export type ConsentDecisionSource = 'record' | 'default';
+
+export interface PatientConsentSummary {
+  patientId: string;
+  consents: ConsentDecision[];
+}
+
+export interface GrantConsentRequest {
+  legalBasis?: ConsentLegalBasis;
+  termsVersion?: string;
+  notes?: string;
+}
+
+export interface RevokeConsentRequest {
+  notes?: string;
+}
+
+export interface ConsentHistoryFilters {
+  purpose?: ConsentPurpose;
+}
+
+// Enums para consentimentos
+export enum ConsentPurpose {
+  CARE = 'care',
+  INSURANCE_BILLING = 'insurance_billing',
+  RESEARCH = 'research',
+  COMMUNICATIONS = 'communications'
+}
+
+export enum ConsentStatus {
+  GRANTED = 'granted',
+  REVOKED = 'revoked'
+}
+
+// LGPD art. 7 and art. 11
+export enum ConsentLegalBasis {
+  CONSENT = 'consent',
+  HEALTH_PROTECTION = 'health_protection',
+  CONTRACT = 'contract',
+  LEGAL_OBLIGATION = 'legal_obligation',
+  EXERCISE_OF_RIGHTS = 'exercise_of_rights'
+}
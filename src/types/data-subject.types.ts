@@ -0,0 +1,77 @@
+// Tipos para solicitações de titulares de dados (LGPD)
+import { Patient } from './patient-model.types';
+import { Procedure } from './procedure.types';
+import { BillingItem } from './billing.types';
+import { DocumentMetadata } from './document.types';
+import { AuditLogEntry } from './audit.types';
+import { PatientConsent } from './consent.types';
+
+export interface DataSubjectRequest {
+  id: string;
+  patientId: string;
+  type: DataSubjectRequestType;
+  requestedBy: string;
+  requestedByName: string;
+  notes?: string;
+  status: DataSubjectRequestStatus;
+  dueAt: Date;
+  completedAt?: Date;
+  completedBy?: string;
+  lastError?: string;
+  result?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateDataSubjectRequest {
+  patientId: string;
+  type: DataSubjectRequestType;
+  notes?: string;
+}
+
+export interface DataSubjectRequestFilters {
+  patientId?: string;
+  type?: DataSubjectRequestType;
+  status?: DataSubjectRequestStatus;
+  // Open requests past their deadline
+  overdue?: boolean;
+}
+
+// Everything held about the patient, as delivered to the data subject
+export interface PatientDataExport {
+  requestId: string;
+  generatedAt: string;
+  patient: Patient;
+  procedures: Procedure[];
+  billingItems: BillingItem[];
+  documents: DocumentMetadata[];
+  consents: PatientConsent[];
+  auditLogs: AuditLogEntry[];
+}
+
+export type PatientDataExportFormat = 'json' | 'zip';
+
+export interface PatientAnonymizationResult {
+  patientId: string;
+  anonymizedAt: string;
+  auditLogsRedacted: number;
+  // Rows kept for the legal retention periods
+  retained: {
+    procedures: number;
+    billingItems: number;
+    documents: number;
+    auditLogs: number;
+  };
+}
+
+// Enums para solicitações de titulares
+export enum DataSubjectRequestType {
+  ACCESS = 'access',
+  ERASURE = 'erasure'
+}
+
+export enum DataSubjectRequestStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
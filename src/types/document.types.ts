@@ -0,0 +1,41 @@
+// Tipos para documentos do paciente (laudos, prescrições, imagens)
+export interface DocumentMetadata {
+  id: string;
+  patientId: string;
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  category: string;
+  description?: string;
+  uploadedBy: string;
+  uploadedByName: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UploadDocumentRequest {
+  category: string;
+  description?: string;
+}
+
+export interface UploadedFile {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface DocumentSearchFilters {
+  category?: string;
+}
+
+// Enum para categorias de documento
+export enum DocumentCategory {
+  EXAM = 'exam',
+  PRESCRIPTION = 'prescription',
+  REPORT = 'report',
+  IMAGE = 'image',
+  OTHER = 'other'
+}
@@ -0,0 +1,67 @@
+// Tipos para criptografia de dados pessoais (envelope encryption)
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: string;
+}
+
+// Holds the key encryption keys; data keys are generated per value and stored wrapped
+export interface KeyProvider {
+  readonly name: string;
+  readonly activeKeyId: string;
+  readonly keyIds: string[];
+  wrapKey(dataKey: Buffer): WrappedDataKey;
+  unwrapKey(keyId: string, wrappedKey: string): Buffer;
+}
+
+// Patient row as stored, with the encrypted fields and their blind indexes
+export interface EncryptedPatientRow {
+  id: string;
+  version: number;
+  cpf: string;
+  rg: string;
+  cns: string;
+  phone: string;
+  email: string;
+  address: string;
+  medicalRecordNumber: string;
+  cpfHash: string | null;
+  cnsHash: string | null;
+  medicalRecordNumberHash: string | null;
+  emailHash: string | null;
+  phoneHash: string | null;
+}
+
+// Audit row snapshots and diff, whose patient personal data fields are stored encrypted
+export interface EncryptedAuditRow {
+  id: string;
+  oldData?: any;
+  newData?: any;
+  changes?: any;
+}
+
+export interface PiiKeyRotationResult {
+  activeKeyId: string;
+  scanned: number;
+  rewritten: number;
+  // Audit rows whose snapshots were moved to the active key
+  auditLogsScanned: number;
+  auditLogsRewritten: number;
+  durationMs: number;
+}
+
+export interface PiiEncryptionStatus {
+  activeKeyId: string;
+  keyIds: string[];
+  total: number;
+  // Rows with a plaintext field, a field wrapped with another key or a missing blind index
+  pendingRotation: number;
+}
+
+// Campos indexados por hash (blind index) para busca exata e unicidade
+export enum BlindIndexField {
+  CPF = 'cpf',
+  CNS = 'cns',
+  MEDICAL_RECORD_NUMBER = 'medicalRecordNumber',
+  EMAIL = 'email',
+  PHONE = 'phone'
+}
@@ -0,0 +1,145 @@
+// Tipos para publicação de eventos (Service Bus, Kafka ou memória)
+export interface EventMessage {
+  eventType: string;
+  patientId?: string;
+  data?: any;
+  timestamp?: string;
+  service?: string;
+  [key: string]: any;
+}
+
+// Common interface for the event transports. The destination is the queue (Service Bus) or topic
+// (Kafka) name; messageId lets consumers drop redeliveries.
+export interface EventPublisher {
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  publishEvent(destination: string, message: EventMessage, messageId?: string): Promise<void>;
+}
+
+// A message received from a queue (Service Bus) or topic (Kafka)
+export interface ReceivedEvent {
+  destination: string;
+  messageId?: string;
+  body: Record<string, any>;
+}
+
+// Receiving side of the event transports. The handler throws only for failures worth a
+// redelivery (e.g. the database is down); the transport then retries the message.
+export interface EventSubscriber {
+  subscribe(destinations: string[], handler: (event: ReceivedEvent) => Promise<void>): Promise<void>;
+  // Stops receiving messages; the message being handled is finished first
+  unsubscribe(): Promise<void>;
+}
+
+export interface PublishedEvent {
+  destination: string;
+  message: EventMessage;
+  messageId?: string;
+  publishedAt: Date;
+}
+
+// Envelope no formato CloudEvents 1.0 (com extensões eventType, eventVersion, patientId e version).
+// Os dados do evento não carregam dados pessoais do paciente (CPF, nome, contato, endereço).
+export interface PatientEventEnvelope<T = Record<string, any>> extends EventMessage {
+  specversion: '1.0';
+  id: string;
+  source: string;
+  type: string;
+  subject: string;
+  time: string;
+  datacontenttype: 'application/json';
+  dataschema: string;
+  eventType: string;
+  eventVersion: number;
+  patientId: string;
+  version?: number;
+  data: T;
+}
+
+export interface PatientCreatedData {
+  status: string;
+  validationStatus: string;
+  accommodationType: string;
+  accommodationStatus: string;
+  insurancePlan: string | null;
+  roomNumber: string | null;
+  responsibleDoctor: string | null;
+  admissionDate: string | null;
+  createdAt: string;
+}
+
+export interface PatientUpdatedData {
+  changedFields: string[];
+  status: string;
+  validationStatus: string;
+  updatedAt: string;
+}
+
+export interface PatientDeletedData {
+  deletedAt: string;
+}
+
+export interface PatientValidatedData {
+  status: string;
+  validatedBy: string;
+  validatedAt: string;
+}
+
+export interface PatientSummaryChangedData {
+  reason: string;
+  procedureId?: string;
+  billingItemId?: string;
+}
+
+export interface PatientRestoredData {
+  restoredAt: string;
+}
+
+export interface PatientMergedData {
+  mergeId: string;
+  mergedPatientId: string;
+  reassigned: {
+    procedures: number;
+    billingItems: number;
+    documents: number;
+    auditLogs: number;
+  };
+  mergedAt: string;
+}
+
+export interface PatientUnmergedData {
+  mergeId: string;
+  mergedPatientId: string;
+  undoneAt: string;
+}
+
+export interface PatientAnonymizedData {
+  anonymizedAt: string;
+}
+
+export interface PatientConsentChangedData {
+  purpose: string;
+  status: string;
+  legalBasis: string;
+  consentVersion: number;
+  termsVersion: string | null;
+  changedAt: string;
+}
+
+export interface EventSchemaDescriptor {
+  eventType: string;
+  eventVersion: number;
+  type: string;
+  destination: string;
+  description: string;
+  schema: Record<string, any>;
+}
+
+// Enum para o transporte de eventos selecionado em config.features.eventPublisher
+export enum EventPublisherTransport {
+  SERVICE_BUS = 'servicebus',
+  KAFKA = 'kafka',
+  FANOUT = 'fanout',
+  MEMORY = 'memory'
+}
@@ -0,0 +1,121 @@
+// Tipos para a fachada HL7 FHIR R4 (recursos Patient, Bundle e OperationOutcome)
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old';
+  type?: FhirCodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+export interface FhirHumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: string;
+}
+
+export interface FhirAddress {
+  use?: string;
+  text?: string;
+  line?: string[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface FhirPatientContact {
+  relationship?: FhirCodeableConcept[];
+  name?: FhirHumanName;
+  telecom?: FhirContactPoint[];
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  meta?: {
+    versionId?: string;
+    lastUpdated?: string;
+  };
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  address?: FhirAddress[];
+  contact?: FhirPatientContact[];
+}
+
+export interface FhirBundleLink {
+  relation: 'self' | 'next' | 'previous';
+  url: string;
+}
+
+export interface FhirBundleEntry<T = FhirPatient> {
+  fullUrl: string;
+  resource: T;
+  search: {
+    mode: 'match';
+  };
+}
+
+export interface FhirBundle<T = FhirPatient> {
+  resourceType: 'Bundle';
+  type: 'searchset';
+  total: number;
+  link: FhirBundleLink[];
+  entry: FhirBundleEntry<T>[];
+}
+
+export interface FhirIssue {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: FhirIssueType;
+  diagnostics?: string;
+  expression?: string[];
+}
+
+export interface FhirOperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: FhirIssue[];
+}
+
+// Parâmetros de busca de Patient (após validação)
+export interface FhirPatientSearchParams {
+  identifier?: string;
+  name?: string;
+  birthdate?: string[];
+  _count?: number;
+  _cursor?: string;
+  _format?: string;
+}
+
+// Enum para tipos de problema do OperationOutcome (subconjunto do value set IssueType)
+export enum FhirIssueType {
+  INVALID = 'invalid',
+  LOGIN = 'login',
+  FORBIDDEN = 'forbidden',
+  NOT_FOUND = 'not-found',
+  NOT_SUPPORTED = 'not-supported',
+  CONFLICT = 'conflict',
+  TOO_COSTLY = 'too-costly',
+  THROTTLED = 'throttled',
+  EXCEPTION = 'exception'
+}
@@ -0,0 +1,26 @@
+// Tipos para eventos consumidos de outros serviços (procedimentos, faturamento, auditoria)
+export interface InboundEvent {
+  id: string;
+  messageId: string;
+  destination: string;
+  eventType: string;
+  payload: Record<string, any>;
+  status: InboundEventStatus;
+  attempts: number;
+  lastError?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InboundEventFilters {
+  status?: InboundEventStatus;
+  eventType?: string;
+}
+
+// Enum para o resultado do processamento de um evento recebido
+export enum InboundEventStatus {
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  DEAD_LETTERED = 'dead_lettered'
+}
@@ -4,6 +4,21 @@ export * from './common.types';
 export * from './patient.types';
 export * from './patient-model.types';
 export * from './patient-search.types';
+export * from './procedure.types';
+export * from './billing.types';
+export * from './audit.types';
+export * from './document.types';
+export * from './outbox.types';
+export * from './event.types';
+export * from './inbound-event.types';
+export * from './read-model.types';
+export * from './encryption.types';
+export * from './pii-policy.types';
+export * from './data-subject.types';
+export * from './consent.types';
+export * from './patient-merge.types';
+export * from './patient-import.types';
+export * from './fhir.types';
 
 // Re-exportar tipos específicos para facilitar o uso
 export type {
@@ -21,6 +36,8 @@ export type {
   PaginatedResponse,
   ErrorResponse,
   HealthCheckResponse,
+  PatientCacheLookup,
+  PatientCacheStats,
   Address,
   Contact,
   Identification
@@ -29,8 +46,10 @@ export type {
 export type {
   CreatePatientRequest,
   UpdatePatientRequest,
+  PatientValidationRequest,
   PatientSearchFilters,
   PatientStatistics,
+  PatientAgeGroup,
   PatientRiskAnalysis,
   PatientStatus,
   Gender,
@@ -46,3 +65,172 @@ export type {
   PatientDocument
 } from './patient-model.types';
 
+export type {
+  Procedure,
+  CreateProcedureRequest,
+  UpdateProcedureRequest,
+  UpdateProcedureStatusRequest,
+  ProcedureSearchFilters
+} from './procedure.types';
+
+export { ProcedureStatus, RiskLevel, PROCEDURE_STATUS_TRANSITIONS } from './procedure.types';
+
+export type {
+  BillingItem,
+  CreateBillingItemRequest,
+  ApproveBillingItemRequest,
+  RejectBillingItemRequest,
+  BillingItemSearchFilters
+} from './billing.types';
+
+export { BillingStatus, BillingCategory, CoverageType } from './billing.types';
+
+
+export type {
+  AuditContext,
+  AuditLogEntry,
+  RecordAuditRequest,
+  AuditTrailFilters
+} from './audit.types';
+
+export { AuditAction, AuditEntityType } from './audit.types';
+
+export type {
+  DocumentMetadata,
+  UploadDocumentRequest,
+  UploadedFile,
+  DocumentSearchFilters
+} from './document.types';
+
+export { DocumentCategory } from './document.types';
+
+export type {
+  OutboxEvent,
+  OutboxMessage,
+  OutboxEventFactory,
+  OutboxStatusSummary
+} from './outbox.types';
+
+export { OutboxMessageStatus } from './outbox.types';
+
+export type {
+  EventMessage,
+  EventPublisher,
+  EventSubscriber,
+  ReceivedEvent,
+  PublishedEvent,
+  PatientEventEnvelope,
+  PatientCreatedData,
+  PatientUpdatedData,
+  PatientDeletedData,
+  PatientRestoredData,
+  PatientMergedData,
+  PatientUnmergedData,
+  PatientValidatedData,
+  PatientSummaryChangedData,
+  PatientAnonymizedData,
+  PatientConsentChangedData,
+  EventSchemaDescriptor
+} from './event.types';
+
+export { EventPublisherTransport } from './event.types';
+
+export type {
+  InboundEvent,
+  InboundEventFilters
+} from './inbound-event.types';
+
+export { InboundEventStatus } from './inbound-event.types';
+
+export type {
+  ReadModelRun,
+  PatientReadSummary,
+  ReadModelDivergence,
+  StartReadModelRunRequest
+} from './read-model.types';
+
+export { ReadModelRunMode, ReadModelRunStatus } from './read-model.types';
+
+export type {
+  WrappedDataKey,
+  KeyProvider,
+  EncryptedPatientRow,
+  EncryptedAuditRow,
+  PiiKeyRotationResult,
+  PiiEncryptionStatus
+} from './encryption.types';
+
+export { BlindIndexField } from './encryption.types';
+
+export type {
+  SensitivePatientField,
+  PatientFieldPolicy,
+  SerializedPatient
+} from './pii-policy.types';
+
+export { FieldVisibility } from './pii-policy.types';
+
+export type {
+  DataSubjectRequest,
+  CreateDataSubjectRequest,
+  DataSubjectRequestFilters,
+  PatientDataExport,
+  PatientDataExportFormat,
+  PatientAnonymizationResult
+} from './data-subject.types';
+
+export { DataSubjectRequestType, DataSubjectRequestStatus } from './data-subject.types';
+
+export type {
+  PatientConsent,
+  ConsentDecision,
+  ConsentDecisionSource,
+  PatientConsentSummary,
+  GrantConsentRequest,
+  RevokeConsentRequest,
+  ConsentHistoryFilters
+} from './consent.types';
+
+export { ConsentPurpose, ConsentStatus, ConsentLegalBasis } from './consent.types';
+
+export type {
+  DuplicateMatchField,
+  DuplicateMatch,
+  DuplicateCandidate,
+  DuplicateCandidatePair,
+  DuplicateSearchOptions,
+  MergePatientsRequest,
+  ReassignedRecords,
+  PatientMerge,
+  PatientMergeFilters
+} from './patient-merge.types';
+
+export { PatientMergeStatus } from './patient-merge.types';
+
+export type {
+  PatientImport,
+  PatientImportRowError,
+  PatientImportCreatedRow,
+  StartPatientImportRequest
+} from './patient-import.types';
+
+export { PatientImportMode, PatientImportStatus } from './patient-import.types';
+
+export type {
+  FhirCoding,
+  FhirIdentifier,
+  FhirHumanName,
+  FhirContactPoint,
+  FhirAddress,
+  FhirCodeableConcept,
+  FhirPatientContact,
+  FhirPatient,
+  FhirBundle,
+  FhirBundleLink,
+  FhirBundleEntry,
+  FhirOperationOutcome,
+  FhirIssue,
+  FhirPatientSearchParams
+} from './fhir.types';
+
+export { FhirIssueType } from './fhir.types';
@@ -0,0 +1,44 @@
+import { Patient } from './patient-model.types';
+
+// Tipos para o outbox transacional (eventos de domínio do paciente)
+export interface OutboxEvent {
+  aggregateType: string;
+  aggregateId: string;
+  eventType: string;
+  destination: string;
+  payload: Record<string, any>;
+}
+
+export interface OutboxMessage extends OutboxEvent {
+  id: string;
+  sequence: number;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  publishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Builds the events to enqueue from the row written in the same transaction
+export type OutboxEventFactory = (patient: Patient) => OutboxEvent[];
+
+export interface OutboxStatusSummary {
+  counts: Record<OutboxMessageStatus, number>;
+  oldestPendingAt?: Date;
+  dispatcher: {
+    running: boolean;
+    lastRunAt?: Date;
+  };
+  stuck: OutboxMessage[];
+}
+
+// Enum para status de entrega de mensagens do outbox
+export enum OutboxMessageStatus {
+  PENDING = 'pending',
+  PUBLISHED = 'published',
+  FAILED = 'failed',
+  // Not delivered: the destination requires a consent the patient has not given
+  WITHHELD = 'withheld'
+}
@@ -0,0 +1,54 @@
+// Tipos para importação em lote de pacientes (CSV/XLSX)
+export interface PatientImport {
+  id: string;
+  mode: PatientImportMode;
+  status: PatientImportStatus;
+  filename: string;
+  format: 'csv' | 'xlsx';
+  // Data rows of the file (the header is not counted)
+  total: number;
+  processed: number;
+  progress: number;
+  summary: {
+    valid: number;
+    created: number;
+    failed: number;
+  };
+  // Failed rows with the reasons; never the cell values
+  errors: PatientImportRowError[];
+  // Patients created by a commit import
+  created: PatientImportCreatedRow[];
+  error?: string;
+  startedBy: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+}
+
+// Row numbers are the spreadsheet rows, so the header is row 1
+export interface PatientImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface PatientImportCreatedRow {
+  row: number;
+  patientId: string;
+}
+
+export interface StartPatientImportRequest {
+  mode?: PatientImportMode;
+}
+
+// Enum para modos de importação
+export enum PatientImportMode {
+  DRY_RUN = 'dry_run',
+  COMMIT = 'commit'
+}
+
+// Enum para status de importação
+export enum PatientImportStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
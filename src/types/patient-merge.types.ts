@@ -0,0 +1,67 @@
+// Tipos para detecção de duplicados e unificação de cadastros
+import { Patient } from './patient-model.types';
+
+export type DuplicateMatchField = 'name' | 'birthDate' | 'cpf' | 'phone' | 'email';
+
+// Similarity of each field (0 to 1) and the weighted score of the pair
+export interface DuplicateMatch {
+  score: number;
+  fieldScores: Record<DuplicateMatchField, number>;
+}
+
+export interface DuplicateCandidate extends DuplicateMatch {
+  patient: Patient;
+}
+
+export interface DuplicateCandidatePair extends DuplicateMatch {
+  patients: [Patient, Patient];
+}
+
+export interface DuplicateSearchOptions {
+  minScore?: number;
+  limit?: number;
+}
+
+export interface MergePatientsRequest {
+  mergedPatientId: string;
+  reason?: string;
+}
+
+// IDs of the rows moved to the survivor, per table
+export interface ReassignedRecords {
+  procedureIds: string[];
+  billingItemIds: string[];
+  documentIds: string[];
+  auditLogIds: string[];
+}
+
+export interface PatientMerge {
+  id: string;
+  survivorId: string;
+  mergedPatientId: string;
+  reason?: string;
+  status: PatientMergeStatus;
+  reassigned: {
+    procedures: number;
+    billingItems: number;
+    documents: number;
+    auditLogs: number;
+  };
+  mergedBy: string;
+  mergedByName: string;
+  mergedAt: Date;
+  undoDeadline: Date;
+  undoneAt?: Date;
+  undoneBy?: string;
+}
+
+export interface PatientMergeFilters {
+  patientId?: string;
+  status?: PatientMergeStatus;
+}
+
+// Enums para unificação de cadastros
+export enum PatientMergeStatus {
+  MERGED = 'merged',
+  UNDONE = 'undone'
+}
@@ -6,6 +6,7 @@ export interface Patient {
   fullName: string;
   cpf: string;
   rg?: string;
+  cns?: string;
   birthDate: Date;
   gender: string;
   phone: string;
@@ -34,6 +35,18 @@ export interface Patient {
   createdAt: Date;
   updatedAt: Date;
   version?: number;
+  anonymizedAt?: Date;
+  deletedAt?: Date;
+  // Unificação: ID do paciente que absorveu este cadastro
+  mergedIntoId?: string;
+  mergedAt?: Date;
+  // Contadores do read model (procedimentos e faturamento)
+  proceduresCount?: number;
+  totalBillingAmount?: number;
+  lastProcedureDate?: Date;
+  pendingValidations?: number;
+  // Relevância (0 a 1) na busca por nome
+  searchScore?: number;
 }
 
 export interface PatientDocument extends Patient {
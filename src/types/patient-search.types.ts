@@ -15,5 +15,77 @@ export interface PatientSearchFilters {
   birthDateTo?: string | Date;
   accommodationType?: string;
   validationStatus?: string;
+  // Contadores do read model
+  hasPendingValidations?: boolean | string;
+  minProceduresCount?: number | string;
+  minBillingAmount?: number | string;
+  maxBillingAmount?: number | string;
+  lastProcedureDateFrom?: string | Date;
+  lastProcedureDateTo?: string | Date;
+  // Soft-deleted patients are left out unless requested (auditors)
+  includeDeleted?: boolean | string;
 }
 
+// Campos aceitos em sortBy (os demais campos do read model não têm índice ou são criptografados)
+export const PATIENT_SORT_FIELDS = [
+  'fullName',
+  'birthDate',
+  'admissionDate',
+  'roomNumber',
+  'responsibleDoctor',
+  'insurancePlan',
+  'status',
+  'validationStatus',
+  'proceduresCount',
+  'totalBillingAmount',
+  'lastProcedureDate',
+  'pendingValidations',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+export type PatientSortField = typeof PATIENT_SORT_FIELDS[number];
+
+
+// Colunas da exportação da busca, na ordem do arquivo; as sensíveis seguem a política da role
+export const PATIENT_EXPORT_COLUMNS = [
+  'id',
+  'fullName',
+  'cpf',
+  'rg',
+  'cns',
+  'birthDate',
+  'gender',
+  'phone',
+  'email',
+  'address',
+  'medicalRecordNumber',
+  'admissionDate',
+  'roomNumber',
+  'responsibleDoctor',
+  'insurancePlan',
+  'insuranceNumber',
+  'insuranceValidity',
+  'accommodationType',
+  'status',
+  'validationStatus',
+  'proceduresCount',
+  'totalBillingAmount',
+  'lastProcedureDate',
+  'pendingValidations',
+  'createdAt',
+  'updatedAt',
+  'deletedAt'
+] as const;
+
+export type PatientExportColumn = typeof PATIENT_EXPORT_COLUMNS[number];
+
+export type PatientExportFormat = 'csv' | 'ndjson';
+
+export interface PatientExportOptions {
+  format: PatientExportFormat;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  // Subset of the columns allowed for the role (all of them when absent)
+  fields?: PatientExportColumn[];
+}
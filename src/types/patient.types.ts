@@ -5,6 +5,7 @@ export interface CreatePatientRequest {
   fullName: string;
   cpf: string;
   rg?: string;
+  cns?: string;
   birthDate: Date | string;
   gender: string;
   phone: string;
@@ -34,6 +35,7 @@ export interface UpdatePatientRequest {
   fullName?: string;
   cpf?: string;
   rg?: string;
+  cns?: string;
   birthDate?: Date | string;
   gender?: string;
   phone?: string;
@@ -55,6 +57,12 @@ export interface UpdatePatientRequest {
     phone: string;
   };
   status?: string;
+  validationStatus?: string;
+}
+
+export interface PatientValidationRequest {
+  validationStatus: string;
+  validationNotes?: string;
 }
 
 export interface PatientSearchFilters {
@@ -74,14 +82,15 @@ export interface PatientSearchFilters {
   hasChronicConditions?: boolean;
   startDate?: Date | string;
   endDate?: Date | string;
+  includeDeleted?: boolean | string;
 }
 
-// Enums para pacientes
+// Enums para pacientes (espelham os enums do Prisma, em minúsculas)
 export enum PatientStatus {
   ACTIVE = 'active',
   INACTIVE = 'inactive',
-  DECEASED = 'deceased',
-  BLOCKED = 'blocked'
+  TRANSFERRED = 'transferred',
+  DISCHARGED = 'discharged'
 }
 
 export enum Gender {
@@ -103,22 +112,22 @@ export enum BloodType {
   UNKNOWN = 'unknown'
 }
 
-// Tipos para estatísticas de pacientes
+export type PatientAgeGroup = '0-18' | '19-30' | '31-50' | '51-70' | '70+';
+
+// Tipos para estatísticas de pacientes (agregadas a partir do read model)
 export interface PatientStatistics {
   total: number;
   byStatus: Record<PatientStatus, number>;
-  byGender: Record<Gender, number>;
-  byBloodType: Record<BloodType, number>;
-  byAgeGroup: {
-    '0-18': number;
-    '19-30': number;
-    '31-50': number;
-    '51-70': number;
-    '70+': number;
-  };
-  averageAge: number;
-  newPatientsThisMonth: number;
-  newPatientsThisYear: number;
+  byValidationStatus: Record<'pending' | 'approved' | 'rejected' | 'under_review', number>;
+  byGender: Record<'male' | 'female' | 'other', number>;
+  byInsurancePlan: Record<string, number>;
+  byAccommodationStatus: Record<'correct' | 'incorrect', number>;
+  byAgeGroup: Record<PatientAgeGroup, number>;
+  // Média, em dias, desde a admissão dos pacientes atualmente internados (status active)
+  averageLengthOfStay: number;
+  // Admissões por mês (YYYY-MM) nos últimos 12 meses, incluindo meses sem admissões
+  admissionsByMonth: Array<{ month: string; count: number }>;
+  generatedAt: string;
 }
 
 // Tipos para análise de risco
@@ -0,0 +1,26 @@
+// Tipos para mascaramento de dados pessoais nas respostas de pacientes
+import { Patient } from './patient-model.types';
+
+export type SensitivePatientField =
+  | 'cpf'
+  | 'rg'
+  | 'cns'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'medicalRecordNumber'
+  | 'insuranceNumber'
+  | 'emergencyContact';
+
+// How each sensitive field is returned; fields left out of a policy are omitted
+export type PatientFieldPolicy = Partial<Record<SensitivePatientField, FieldVisibility>>;
+
+// Patient as returned by the API: sensitive fields may be masked or missing
+export type SerializedPatient = Omit<Patient, SensitivePatientField> & Partial<Pick<Patient, SensitivePatientField>>;
+
+// Enums para mascaramento
+export enum FieldVisibility {
+  FULL = 'full',
+  MASKED = 'masked',
+  OMITTED = 'omitted'
+}
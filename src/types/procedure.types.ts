@@ -0,0 +1,90 @@
+// Tipos para procedimentos do paciente
+export interface Procedure {
+  id: string;
+  patientId: string;
+  code: string;
+  description: string;
+  suggestedPort: number;
+  currentPort: number;
+  portDivergence: boolean;
+  status: string;
+  validationStatus: string;
+  riskLevel: string;
+  lastAuditDate?: Date;
+  auditorId?: string;
+  auditNotes?: string;
+  scheduledDate?: Date;
+  completedDate?: Date;
+  estimatedDuration?: number;
+  actualDuration?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateProcedureRequest {
+  code: string;
+  description: string;
+  suggestedPort: number;
+  currentPort: number;
+  riskLevel: string;
+  status?: string;
+  scheduledDate?: Date | string;
+  estimatedDuration?: number;
+}
+
+export interface UpdateProcedureRequest {
+  code?: string;
+  description?: string;
+  suggestedPort?: number;
+  currentPort?: number;
+  riskLevel?: string;
+  scheduledDate?: Date | string;
+  estimatedDuration?: number;
+  actualDuration?: number;
+  auditNotes?: string;
+}
+
+export interface UpdateProcedureStatusRequest {
+  status: string;
+  completedDate?: Date | string;
+  actualDuration?: number;
+  auditNotes?: string;
+}
+
+export interface ProcedureSearchFilters {
+  code?: string;
+  status?: string;
+  riskLevel?: string;
+  validationStatus?: string;
+  scheduledDateFrom?: string | Date;
+  scheduledDateTo?: string | Date;
+}
+
+// Enums para procedimentos
+export enum ProcedureStatus {
+  SCHEDULED = 'scheduled',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  PENDING_APPROVAL = 'pending_approval'
+}
+
+export enum RiskLevel {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical'
+}
+
+// Transições de status permitidas (estados finais não possuem saída)
+export const PROCEDURE_STATUS_TRANSITIONS: Record<ProcedureStatus, ProcedureStatus[]> = {
+  [ProcedureStatus.PENDING_APPROVAL]: [ProcedureStatus.SCHEDULED, ProcedureStatus.CANCELLED],
+  [ProcedureStatus.SCHEDULED]: [
+    ProcedureStatus.IN_PROGRESS,
+    ProcedureStatus.PENDING_APPROVAL,
+    ProcedureStatus.CANCELLED
+  ],
+  [ProcedureStatus.IN_PROGRESS]: [ProcedureStatus.COMPLETED, ProcedureStatus.CANCELLED],
+  [ProcedureStatus.COMPLETED]: [],
+  [ProcedureStatus.CANCELLED]: []
+};
@@ -0,0 +1,59 @@
+// Tipos para rebuild e reconciliação do read model (CQRS)
+export interface ReadModelRun {
+  id: string;
+  mode: ReadModelRunMode;
+  status: ReadModelRunStatus;
+  // postgres: Patient rows compared/projected; read_model: documents without a Patient row
+  phase: 'postgres' | 'read_model';
+  cursor?: string;
+  batchSize: number;
+  total: number;
+  processed: number;
+  progress: number;
+  summary: {
+    missing: number;
+    extra: number;
+    divergent: number;
+    repaired: number;
+  };
+  // Sample of affected patient IDs (capped); divergences list field names only, never values
+  missing: string[];
+  extra: string[];
+  divergent: ReadModelDivergence[];
+  error?: string;
+  startedBy: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+}
+
+// Contadores desnormalizados do paciente, calculados a partir de procedimentos e itens de faturamento
+export interface PatientReadSummary {
+  proceduresCount: number;
+  totalBillingAmount: number;
+  lastProcedureDate?: Date;
+  pendingValidations: number;
+}
+
+export interface ReadModelDivergence {
+  patientId: string;
+  fields: string[];
+}
+
+export interface StartReadModelRunRequest {
+  mode: ReadModelRunMode;
+  batchSize?: number;
+}
+
+// Enum para modos de execução
+export enum ReadModelRunMode {
+  REBUILD = 'rebuild',
+  RECONCILE = 'reconcile'
+}
+
+// Enum para status de execução
+export enum ReadModelRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
@@ -0,0 +1,160 @@
+import Joi from 'joi';
+import {
+  CreateBillingItemRequest,
+  ApproveBillingItemRequest,
+  RejectBillingItemRequest,
+  BillingItemSearchFilters,
+  PaginationParams,
+  BillingStatus,
+  BillingCategory,
+  CoverageType,
+  RiskLevel
+} from '@/types';
+
+const billingStatuses = Object.values(BillingStatus);
+const billingCategories = Object.values(BillingCategory);
+const coverageTypes = Object.values(CoverageType);
+const riskLevels = Object.values(RiskLevel);
+
+// Validation schema for creating a billing item
+export const createBillingItemSchema = Joi.object<CreateBillingItemRequest>({
+  procedureId: Joi.string()
+    .optional(),
+
+  code: Joi.string()
+    .max(20)
+    .required()
+    .messages({
+      'string.empty': 'Item code is required'
+    }),
+
+  description: Joi.string()
+    .min(2)
+    .max(500)
+    .required(),
+
+  category: Joi.string()
+    .valid(...billingCategories)
+    .required()
+    .messages({
+      'any.only': `Category must be one of: ${billingCategories.join(', ')}`
+    }),
+
+  // Accepts "123.45" to avoid floating point issues on the client side
+  unitPrice: Joi.alternatives()
+    .try(
+      Joi.number().positive().precision(2).strict(),
+      Joi.string().pattern(/^\d{1,8}(\.\d{1,2})?$/)
+    )
+    .required()
+    .messages({
+      'alternatives.match': 'Unit price must be a positive amount with at most 2 decimal places'
+    }),
+
+  quantity: Joi.number()
+    .integer()
+    .min(1)
+    .required(),
+
+  port: Joi.number()
+    .integer()
+    .min(0)
+    .optional(),
+
+  coverageType: Joi.string()
+    .valid(...coverageTypes)
+    .required()
+    .messages({
+      'any.only': `Coverage type must be one of: ${coverageTypes.join(', ')}`
+    }),
+
+  riskLevel: Joi.string()
+    .valid(...riskLevels)
+    .required(),
+
+  requesterName: Joi.string()
+    .max(100)
+    .optional(),
+
+  requestDate: Joi.date()
+    .max('now')
+    .optional()
+});
+
+// Validation schema for approving a billing item
+export const approveBillingItemSchema = Joi.object<ApproveBillingItemRequest>({
+  justification: Joi.string().max(1000).optional().allow('')
+});
+
+// Validation schema for rejecting a billing item
+export const rejectBillingItemSchema = Joi.object<RejectBillingItemRequest>({
+  reason: Joi.string()
+    .min(3)
+    .max(1000)
+    .required()
+    .messages({
+      'any.required': 'Rejection reason is required'
+    })
+});
+
+// Validation schema for billing item search filters
+export const billingItemSearchFiltersSchema = Joi.object<BillingItemSearchFilters & PaginationParams>({
+  status: Joi.string().valid(...billingStatuses).optional(),
+  category: Joi.string().valid(...billingCategories).optional(),
+  coverageType: Joi.string().valid(...coverageTypes).optional(),
+  procedureId: Joi.string().optional(),
+  requestDateFrom: Joi.date().optional(),
+  requestDateTo: Joi.date().optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
+
+// Validation middleware
+export const validateCreateBillingItem = (req: any, res: any, next: any) => {
+  const { error } = createBillingItemSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateApproveBillingItem = (req: any, res: any, next: any) => {
+  const { error } = approveBillingItemSchema.validate(req.body || {});
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateRejectBillingItem = (req: any, res: any, next: any) => {
+  const { error } = rejectBillingItemSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateBillingItemSearchFilters = (req: any, res: any, next: any) => {
+  const { error } = billingItemSearchFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
@@ -0,0 +1,82 @@
+import Joi from 'joi';
+import {
+  ConsentHistoryFilters,
+  ConsentLegalBasis,
+  ConsentPurpose,
+  GrantConsentRequest,
+  RevokeConsentRequest
+} from '@/types';
+
+const purposes = Object.values(ConsentPurpose);
+const legalBases = Object.values(ConsentLegalBasis);
+
+// Validation schema for the purpose in the path
+export const consentPurposeSchema = Joi.string()
+  .valid(...purposes)
+  .required()
+  .messages({
+    'any.only': `Purpose must be one of: ${purposes.join(', ')}`
+  });
+
+// Validation schema for granting a consent
+export const grantConsentSchema = Joi.object<GrantConsentRequest>({
+  legalBasis: Joi.string()
+    .valid(...legalBases)
+    .optional()
+    .messages({
+      'any.only': `Legal basis must be one of: ${legalBases.join(', ')}`
+    }),
+  termsVersion: Joi.string().max(50).optional(),
+  notes: Joi.string().max(1000).optional()
+});
+
+// Validation schema for revoking a consent
+export const revokeConsentSchema = Joi.object<RevokeConsentRequest>({
+  notes: Joi.string().max(1000).optional()
+});
+
+// Validation schema for the consent history
+export const consentHistoryFiltersSchema = Joi.object<ConsentHistoryFilters>({
+  purpose: Joi.string().valid(...purposes).optional()
+});
+
+// Validation middleware
+export const validateGrantConsent = (req: any, res: any, next: any) => {
+  const { error } = consentPurposeSchema.validate(req.params.purpose);
+  const { error: bodyError } = grantConsentSchema.validate(req.body || {});
+  const details = [...(error?.details || []), ...(bodyError?.details || [])];
+  if (details.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateRevokeConsent = (req: any, res: any, next: any) => {
+  const { error } = consentPurposeSchema.validate(req.params.purpose);
+  const { error: bodyError } = revokeConsentSchema.validate(req.body || {});
+  const details = [...(error?.details || []), ...(bodyError?.details || [])];
+  if (details.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateConsentHistoryFilters = (req: any, res: any, next: any) => {
+  const { error } = consentHistoryFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
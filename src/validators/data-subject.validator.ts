@@ -0,0 +1,95 @@
+import Joi from 'joi';
+import {
+  CreateDataSubjectRequest,
+  DataSubjectRequestFilters,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  PaginationParams
+} from '@/types';
+
+const requestTypes = Object.values(DataSubjectRequestType);
+const requestStatuses = Object.values(DataSubjectRequestStatus);
+
+// Validation schema for registering a data subject request
+export const createDataSubjectRequestSchema = Joi.object<CreateDataSubjectRequest>({
+  patientId: Joi.string().required(),
+  type: Joi.string()
+    .valid(...requestTypes)
+    .required()
+    .messages({
+      'any.only': `Type must be one of: ${requestTypes.join(', ')}`
+    }),
+  notes: Joi.string().max(1000).optional()
+});
+
+// Validation schema for listing data subject requests
+export const dataSubjectRequestFiltersSchema = Joi.object<DataSubjectRequestFilters & PaginationParams>({
+  patientId: Joi.string().optional(),
+  type: Joi.string().valid(...requestTypes).optional(),
+  status: Joi.string().valid(...requestStatuses).optional(),
+  overdue: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
+
+// Validation schema for exporting the data of a patient
+export const patientDataExportSchema = Joi.object({
+  format: Joi.string().valid('json', 'zip').optional(),
+  requestId: Joi.string().optional()
+});
+
+// Validation schema for anonymizing a patient
+export const anonymizePatientSchema = Joi.object({
+  requestId: Joi.string().optional(),
+  notes: Joi.string().max(1000).optional()
+});
+
+// Validation middleware
+export const validateCreateDataSubjectRequest = (req: any, res: any, next: any) => {
+  const { error } = createDataSubjectRequestSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateDataSubjectRequestFilters = (req: any, res: any, next: any) => {
+  const { error } = dataSubjectRequestFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validatePatientDataExport = (req: any, res: any, next: any) => {
+  const { error } = patientDataExportSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateAnonymizePatient = (req: any, res: any, next: any) => {
+  const { error } = anonymizePatientSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
@@ -0,0 +1,51 @@
+import Joi from 'joi';
+import { UploadDocumentRequest, DocumentSearchFilters, PaginationParams, DocumentCategory } from '@/types';
+
+const documentCategories = Object.values(DocumentCategory);
+
+// Validation schema for the form fields sent with an upload
+export const uploadDocumentSchema = Joi.object<UploadDocumentRequest>({
+  category: Joi.string()
+    .valid(...documentCategories)
+    .required()
+    .messages({
+      'any.only': `Category must be one of: ${documentCategories.join(', ')}`
+    }),
+
+  description: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+// Validation schema for document search filters
+export const documentSearchFiltersSchema = Joi.object<DocumentSearchFilters & PaginationParams>({
+  category: Joi.string().valid(...documentCategories).optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional()
+});
+
+// Validation middleware (runs after the multipart parser)
+export const validateUploadDocument = (req: any, res: any, next: any) => {
+  const { error } = uploadDocumentSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateDocumentSearchFilters = (req: any, res: any, next: any) => {
+  const { error } = documentSearchFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
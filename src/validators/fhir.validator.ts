@@ -0,0 +1,97 @@
+import Joi from 'joi';
+import { createPatientSchema } from './patient.validator';
+import { fromFhirPatient } from '../config/fhir';
+import { decodeSearchCursor, resolvePatientSearchSort } from '../config/patient-search-cursor';
+import { config } from '../config/config';
+import { FhirPatientSearchParams } from '@/types';
+
+// Validation schema for the Patient search parameters (birthdate may be repeated to give a range)
+export const fhirPatientSearchSchema = Joi.object<FhirPatientSearchParams>({
+  identifier: Joi.string().min(1).optional(),
+  name: Joi.string().min(1).optional(),
+  birthdate: Joi.array()
+    .single()
+    .items(
+      Joi.string()
+        .pattern(/^(eq|ge|le|gt|lt)?\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/)
+        .messages({
+          'string.pattern.base': 'birthdate must be a date (YYYY, YYYY-MM or YYYY-MM-DD) with an optional eq, ge, le, gt or lt prefix'
+        })
+    )
+    .optional(),
+  _count: Joi.number().integer().min(1).max(config.fhir.maxCount).optional(),
+  // Cursor of the next page, taken from the next link of the previous bundle
+  _cursor: Joi.string()
+    .optional()
+    .custom((value, helpers) => {
+      const cursor = decodeSearchCursor(value);
+      const sort = resolvePatientSearchSort(helpers.state.ancestors[0].name, undefined, undefined);
+      if (!cursor || cursor.sort.field !== sort.field || cursor.sort.order !== sort.order) {
+        return helpers.message({ custom: '_cursor is invalid for this search' });
+      }
+      return value;
+    }),
+  _format: Joi.string().optional()
+})
+  .without('identifier', ['name', 'birthdate', '_cursor'])
+  .messages({
+    'object.without': 'identifier cannot be combined with other search parameters'
+  });
+
+// Shape of an incoming Patient resource; its content is validated by the create patient schema
+export const fhirPatientResourceSchema = Joi.object({
+  resourceType: Joi.string()
+    .valid('Patient')
+    .required()
+    .messages({
+      'any.only': 'resourceType must be Patient',
+      'any.required': 'resourceType is required'
+    }),
+  id: Joi.string().optional()
+}).unknown(true);
+
+// Replaces the query string with the converted values
+export const validateFhirPatientSearch = (req: any, res: any, next: any) => {
+  const { error, value } = fhirPatientSearchSchema.validate(req.query, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  req.query = value;
+  next();
+};
+
+// Replaces the resource with the patient request body. A create and an update (PUT sends the
+// whole resource) follow the same rules as POST /patients; on an update the resource ID, when
+// given, must be the one of the URL.
+export const validateFhirPatient = (req: any, res: any, next: any) => {
+  const { error: resourceError } = fhirPatientResourceSchema.validate(req.body ?? {});
+  if (resourceError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: resourceError.details.map(detail => detail.message)
+    });
+  }
+
+  if (req.params.id && req.body.id !== undefined && req.body.id !== req.params.id) {
+    return res.status(400).json({
+      success: false,
+      message: `Resource id ${req.body.id} does not match the URL id ${req.params.id}`
+    });
+  }
+
+  const { error, value } = createPatientSchema.validate(fromFhirPatient(req.body), { abortEarly: false });
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  req.body = value;
+  next();
+};
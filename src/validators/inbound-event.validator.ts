@@ -0,0 +1,26 @@
+import Joi from 'joi';
+import { InboundEventFilters, InboundEventStatus, PaginationParams } from '@/types';
+
+const inboundEventStatuses = Object.values(InboundEventStatus);
+
+// Validation schema for listing consumed events
+export const inboundEventFiltersSchema = Joi.object<InboundEventFilters & PaginationParams>({
+  status: Joi.string().valid(...inboundEventStatuses).optional(),
+  eventType: Joi.string().optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
+
+// Validation middleware
+export const validateInboundEventFilters = (req: any, res: any, next: any) => {
+  const { error } = inboundEventFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
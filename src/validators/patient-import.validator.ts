@@ -0,0 +1,27 @@
+import Joi from 'joi';
+import { StartPatientImportRequest, PatientImportMode } from '@/types';
+
+const importModes = Object.values(PatientImportMode);
+
+// Validation schema for the form fields sent with the import file
+export const startPatientImportSchema = Joi.object<StartPatientImportRequest>({
+  mode: Joi.string()
+    .valid(...importModes)
+    .optional()
+    .messages({
+      'any.only': `Mode must be one of: ${importModes.join(', ')}`
+    })
+});
+
+// Validation middleware (runs after the upload, which parses the multipart fields)
+export const validateStartPatientImport = (req: any, res: any, next: any) => {
+  const { error } = startPatientImportSchema.validate(req.body || {});
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
@@ -0,0 +1,73 @@
+import Joi from 'joi';
+import {
+  DuplicateSearchOptions,
+  MergePatientsRequest,
+  PaginationParams,
+  PatientMergeFilters,
+  PatientMergeStatus
+} from '@/types';
+
+const mergeStatuses = Object.values(PatientMergeStatus);
+
+// Validation schema for the duplicate candidate search
+export const duplicateSearchOptionsSchema = Joi.object<DuplicateSearchOptions>({
+  minScore: Joi.number().min(0).max(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional()
+});
+
+// Validation schema for merging a patient into another
+export const mergePatientsSchema = Joi.object<MergePatientsRequest>({
+  mergedPatientId: Joi.string().required(),
+  reason: Joi.string().max(1000).optional()
+});
+
+// Validation schema for listing patient merges
+export const patientMergeFiltersSchema = Joi.object<PatientMergeFilters & PaginationParams>({
+  patientId: Joi.string().optional(),
+  status: Joi.string()
+    .valid(...mergeStatuses)
+    .optional()
+    .messages({
+      'any.only': `Status must be one of: ${mergeStatuses.join(', ')}`
+    }),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
+
+// Validation middleware
+export const validateDuplicateSearch = (req: any, res: any, next: any) => {
+  const { error } = duplicateSearchOptionsSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateMergePatients = (req: any, res: any, next: any) => {
+  const { error } = mergePatientsSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validatePatientMergeFilters = (req: any, res: any, next: any) => {
+  const { error } = patientMergeFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
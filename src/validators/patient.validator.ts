@@ -1,6 +1,12 @@
 import Joi from 'joi';
-import { CreatePatientRequest, UpdatePatientRequest } from '@/types';
-import { PatientSearchFilters } from '@/types/patient-search.types';
+import { CreatePatientRequest, UpdatePatientRequest, PatientValidationRequest, PaginationParams } from '@/types';
+import {
+  PatientExportOptions,
+  PatientSearchFilters,
+  PATIENT_EXPORT_COLUMNS,
+  PATIENT_SORT_FIELDS
+} from '@/types/patient-search.types';
+import { decodeSearchCursor, resolvePatientSearchSort } from '../config/patient-search-cursor';
 
 // Validation schema for creating a patient
 export const createPatientSchema = Joi.object<CreatePatientRequest>({
@@ -28,6 +34,14 @@ export const createPatientSchema = Joi.object<CreatePatientRequest>({
       'string.base': 'RG must be a string'
     }),
 
+  cns: Joi.string()
+    .pattern(/^\d{3}\s?\d{4}\s?\d{4}\s?\d{4}$/)
+    .optional()
+    .allow('')
+    .messages({
+      'string.pattern.base': 'CNS must be in format XXX XXXX XXXX XXXX or 15 digits'
+    }),
+
   birthDate: Joi.date()
     .max('now')
     .required()
@@ -93,8 +107,11 @@ export const createPatientSchema = Joi.object<CreatePatientRequest>({
     .optional(),
 
   accommodationType: Joi.string()
-    .valid('standard', 'premium', 'vip')
-    .optional(),
+    .valid('apartment', 'shared')
+    .optional()
+    .messages({
+      'any.only': 'Accommodation type must be one of: apartment, shared'
+    }),
 
   allergies: Joi.array()
     .items(Joi.string())
@@ -118,6 +135,14 @@ export const updatePatientSchema = Joi.object<UpdatePatientRequest>({
     .max(100)
     .optional(),
 
+  cns: Joi.string()
+    .pattern(/^\d{3}\s?\d{4}\s?\d{4}\s?\d{4}$/)
+    .optional()
+    .allow('')
+    .messages({
+      'string.pattern.base': 'CNS must be in format XXX XXXX XXXX XXXX or 15 digits'
+    }),
+
   phone: Joi.string()
     .pattern(/^\(\d{2}\)\s\d{4,5}-\d{4}$|^\d{10,11}$/)
     .optional(),
@@ -151,8 +176,11 @@ export const updatePatientSchema = Joi.object<UpdatePatientRequest>({
     .optional(),
 
   accommodationType: Joi.string()
-    .valid('standard', 'premium', 'vip')
-    .optional(),
+    .valid('apartment', 'shared')
+    .optional()
+    .messages({
+      'any.only': 'Accommodation type must be one of: apartment, shared'
+    }),
 
   allergies: Joi.array()
     .items(Joi.string())
@@ -169,14 +197,24 @@ export const updatePatientSchema = Joi.object<UpdatePatientRequest>({
   }).optional()
 });
 
-// Validation schema for patient search filters
+// Validation schema for patient search filters (query string values are converted to their types)
 export const patientSearchFiltersSchema = Joi.object<PatientSearchFilters>({
   name: Joi.string().optional(),
   cpf: Joi.string().optional(),
   email: Joi.string().optional(),
   phone: Joi.string().optional(),
-  status: Joi.string().optional(),
-  gender: Joi.string().optional(),
+  status: Joi.string()
+    .valid('active', 'inactive', 'transferred', 'discharged')
+    .optional()
+    .messages({
+      'any.only': 'Status must be one of: active, inactive, transferred, discharged'
+    }),
+  gender: Joi.string()
+    .valid('male', 'female', 'other')
+    .optional()
+    .messages({
+      'any.only': 'Gender must be one of: male, female, other'
+    }),
   roomNumber: Joi.string().optional(),
   insurancePlan: Joi.string().optional(),
   responsibleDoctor: Joi.string().optional(),
@@ -184,8 +222,104 @@ export const patientSearchFiltersSchema = Joi.object<PatientSearchFilters>({
   admissionDateTo: Joi.date().optional(),
   birthDateFrom: Joi.date().optional(),
   birthDateTo: Joi.date().optional(),
-  accommodationType: Joi.string().optional(),
-  validationStatus: Joi.string().optional()
+  accommodationType: Joi.string()
+    .valid('apartment', 'shared')
+    .optional()
+    .messages({
+      'any.only': 'Accommodation type must be one of: apartment, shared'
+    }),
+  validationStatus: Joi.string()
+    .valid('pending', 'approved', 'rejected', 'under_review')
+    .optional()
+    .messages({
+      'any.only': 'Validation status must be one of: pending, approved, rejected, under_review'
+    }),
+  hasPendingValidations: Joi.boolean().optional(),
+  minProceduresCount: Joi.number().integer().min(0).optional(),
+  minBillingAmount: Joi.number().min(0).optional(),
+  maxBillingAmount: Joi.number().min(0).optional(),
+  lastProcedureDateFrom: Joi.date().optional(),
+  lastProcedureDateTo: Joi.date().optional(),
+  includeDeleted: Joi.boolean().optional()
+});
+
+const patientSortBySchema = Joi.string()
+  .valid(...PATIENT_SORT_FIELDS)
+  .optional()
+  .messages({
+    'any.only': `Sort field must be one of: ${PATIENT_SORT_FIELDS.join(', ')}`
+  });
+
+// Validation schema for the patient search query string (filters plus pagination)
+export const patientSearchQuerySchema = Joi.object<PatientSearchFilters & PaginationParams>()
+  .concat(patientSearchFiltersSchema as Joi.ObjectSchema)
+  .keys({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    sortBy: patientSortBySchema,
+    sortOrder: Joi.string().valid('asc', 'desc').optional(),
+    // Empty for the first page in cursor mode; must be used with the sort it was issued for
+    cursor: Joi.string()
+      .allow('')
+      .optional()
+      .custom((value, helpers) => {
+        if (!value) {
+          return value;
+        }
+        const cursor = decodeSearchCursor(value);
+        if (!cursor) {
+          return helpers.message({ custom: 'Cursor is invalid' });
+        }
+        const query = helpers.state.ancestors[0];
+        const sort = resolvePatientSearchSort(query.name, query.sortBy, query.sortOrder);
+        if (cursor.sort.field !== sort.field || cursor.sort.order !== sort.order) {
+          return helpers.message({ custom: 'Cursor was issued for another sort order' });
+        }
+        return value;
+      })
+  })
+  .oxor('page', 'cursor')
+  .messages({
+    'object.oxor': 'Use either page or cursor, not both'
+  });
+
+// Validation schema for the patient export query string (search filters, format, sort and columns)
+export const patientExportQuerySchema = Joi.object<PatientSearchFilters & PatientExportOptions>()
+  .concat(patientSearchFiltersSchema as Joi.ObjectSchema)
+  .keys({
+    format: Joi.string()
+      .valid('csv', 'ndjson')
+      .default('csv')
+      .messages({
+        'any.only': 'Format must be one of: csv, ndjson'
+      }),
+    sortBy: patientSortBySchema,
+    sortOrder: Joi.string().valid('asc', 'desc').optional(),
+    // Comma-separated column names, converted to a list
+    fields: Joi.string()
+      .optional()
+      .custom((value: string, helpers) => {
+        const fields = value.split(',').map(field => field.trim()).filter(Boolean);
+        const unknown = fields.filter(field => !(PATIENT_EXPORT_COLUMNS as readonly string[]).includes(field));
+        if (unknown.length > 0) {
+          return helpers.message({ custom: `Unknown export fields: ${unknown.join(', ')}` });
+        }
+        return fields;
+      })
+  });
+
+// Validation schema for patient data validation (auditor review)
+export const patientValidationSchema = Joi.object<PatientValidationRequest>({
+  validationStatus: Joi.string()
+    .valid('pending', 'approved', 'rejected', 'under_review')
+    .required()
+    .messages({
+      'any.only': 'Validation status must be one of: pending, approved, rejected, under_review'
+    }),
+  validationNotes: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
 });
 
 // Validation middleware
@@ -213,8 +347,9 @@ export const validateUpdatePatient = (req: any, res: any, next: any) => {
   next();
 };
 
+// Replaces the query string with the converted values (numbers, booleans and dates)
 export const validatePatientSearchFilters = (req: any, res: any, next: any) => {
-  const { error } = patientSearchFiltersSchema.validate(req.query);
+  const { error, value } = patientSearchQuerySchema.validate(req.query, { abortEarly: false });
   if (error) {
     return res.status(400).json({
       success: false,
@@ -222,6 +357,32 @@ export const validatePatientSearchFilters = (req: any, res: any, next: any) => {
       errors: error.details.map(detail => detail.message)
     });
   }
+  req.query = value;
   next();
 };
 
+// Replaces the query string with the converted values, like validatePatientSearchFilters
+export const validatePatientExport = (req: any, res: any, next: any) => {
+  const { error, value } = patientExportQuerySchema.validate(req.query, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  req.query = value;
+  next();
+};
+
+export const validatePatientValidation = (req: any, res: any, next: any) => {
+  const { error } = patientValidationSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
@@ -0,0 +1,148 @@
+import Joi from 'joi';
+import {
+  CreateProcedureRequest,
+  UpdateProcedureRequest,
+  UpdateProcedureStatusRequest,
+  ProcedureSearchFilters,
+  PaginationParams,
+  ProcedureStatus,
+  RiskLevel
+} from '@/types';
+
+const procedureStatuses = Object.values(ProcedureStatus);
+const riskLevels = Object.values(RiskLevel);
+
+// Validation schema for creating a procedure
+export const createProcedureSchema = Joi.object<CreateProcedureRequest>({
+  code: Joi.string()
+    .max(20)
+    .required()
+    .messages({
+      'string.empty': 'Procedure code is required'
+    }),
+
+  description: Joi.string()
+    .min(2)
+    .max(500)
+    .required(),
+
+  suggestedPort: Joi.number()
+    .integer()
+    .min(0)
+    .required(),
+
+  currentPort: Joi.number()
+    .integer()
+    .min(0)
+    .required(),
+
+  riskLevel: Joi.string()
+    .valid(...riskLevels)
+    .required()
+    .messages({
+      'any.only': `Risk level must be one of: ${riskLevels.join(', ')}`
+    }),
+
+  status: Joi.string()
+    .valid(ProcedureStatus.SCHEDULED, ProcedureStatus.PENDING_APPROVAL)
+    .optional()
+    .messages({
+      'any.only': 'Procedure must be created as scheduled or pending_approval'
+    }),
+
+  scheduledDate: Joi.date()
+    .optional(),
+
+  estimatedDuration: Joi.number()
+    .integer()
+    .min(1)
+    .optional()
+});
+
+// Validation schema for updating a procedure
+export const updateProcedureSchema = Joi.object<UpdateProcedureRequest>({
+  code: Joi.string().max(20).optional(),
+  description: Joi.string().min(2).max(500).optional(),
+  suggestedPort: Joi.number().integer().min(0).optional(),
+  currentPort: Joi.number().integer().min(0).optional(),
+  riskLevel: Joi.string().valid(...riskLevels).optional(),
+  scheduledDate: Joi.date().optional(),
+  estimatedDuration: Joi.number().integer().min(1).optional(),
+  actualDuration: Joi.number().integer().min(0).optional(),
+  auditNotes: Joi.string().max(1000).optional().allow('')
+});
+
+// Validation schema for status transitions
+export const updateProcedureStatusSchema = Joi.object<UpdateProcedureStatusRequest>({
+  status: Joi.string()
+    .valid(...procedureStatuses)
+    .required()
+    .messages({
+      'any.only': `Status must be one of: ${procedureStatuses.join(', ')}`
+    }),
+  completedDate: Joi.date().max('now').optional(),
+  actualDuration: Joi.number().integer().min(0).optional(),
+  auditNotes: Joi.string().max(1000).optional().allow('')
+});
+
+// Validation schema for procedure search filters
+export const procedureSearchFiltersSchema = Joi.object<ProcedureSearchFilters & PaginationParams>({
+  code: Joi.string().optional(),
+  status: Joi.string().valid(...procedureStatuses).optional(),
+  riskLevel: Joi.string().valid(...riskLevels).optional(),
+  validationStatus: Joi.string().valid('pending', 'approved', 'rejected', 'under_review').optional(),
+  scheduledDateFrom: Joi.date().optional(),
+  scheduledDateTo: Joi.date().optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
+
+// Validation middleware
+export const validateCreateProcedure = (req: any, res: any, next: any) => {
+  const { error } = createProcedureSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateUpdateProcedure = (req: any, res: any, next: any) => {
+  const { error } = updateProcedureSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateUpdateProcedureStatus = (req: any, res: any, next: any) => {
+  const { error } = updateProcedureStatusSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
+
+export const validateProcedureSearchFilters = (req: any, res: any, next: any) => {
+  const { error } = procedureSearchFiltersSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};
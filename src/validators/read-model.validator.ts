@@ -0,0 +1,33 @@
+import Joi from 'joi';
+import { StartReadModelRunRequest, ReadModelRunMode } from '@/types';
+
+const runModes = Object.values(ReadModelRunMode);
+
+// Validation schema for starting a rebuild or reconcile run
+export const startReadModelRunSchema = Joi.object<StartReadModelRunRequest>({
+  mode: Joi.string()
+    .valid(...runModes)
+    .required()
+    .messages({
+      'any.only': `Mode must be one of: ${runModes.join(', ')}`
+    }),
+
+  batchSize: Joi.number()
+    .integer()
+    .min(1)
+    .max(5000)
+    .optional()
+});
+
+// Validation middleware
+export const validateStartReadModelRun = (req: any, res: any, next: any) => {
+  const { error } = startReadModelRunSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.details.map(detail => detail.message)
+    });
+  }
+  next();
+};